@@ -10,6 +10,7 @@ import { themeStore } from '../../src/stores/theme';
 import { chatUIStore, chatUIActions } from '../../src/stores/chatUI';
 import { useRadialMenu } from '../../src/contexts/RadialMenuContext';
 import BottomNavigation from '../../src/components/BottomNavigation';
+import MiniPlayer from '../../src/components/MiniPlayer';
 import SettingsSheet from '../../src/components/SettingsSheet';
 import AdminSheet from '../../src/components/AdminSheet';
 import TagManagerSheet from '../../src/components/TagManagerSheet';
@@ -318,7 +319,8 @@ const TabLayout = observer(() => {
         const selectedSpace = spacesComputed.selectedSpace();
         const spaceIdToUse = currentSpaceId || selectedSpace?.id || null;
 
-        if (spaceIdToUse) {
+        // Smart spaces can't hold items directly
+        if (spaceIdToUse && !spacesComputed.getSpaceById(spaceIdToUse)?.smart_rule) {
           addItemSheetRef.current?.openWithSpace(spaceIdToUse);
         } else {
           addItemSheetRef.current?.open();
@@ -458,6 +460,9 @@ const TabLayout = observer(() => {
         visible={!isExpandedItemOpen}
       />
 
+      {/* Now playing, above the bottom navigation */}
+      <MiniPlayer visible={!isExpandedItemOpen} />
+
       {/* Bottom Sheets - Higher z-index to appear above expanded views */}
       <View style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, zIndex: 500, pointerEvents: 'box-none' }}>
         {/* Expanded Item Overlay - placed under Settings/Add sheets so they can still cover it if needed */}
@@ -8,18 +8,24 @@ import Animated from 'react-native-reanimated';
 import { themeStore } from '../../src/stores/theme';
 import { itemsStore, itemsActions } from '../../src/stores/items';
 import { itemTypeMetadataStore } from '../../src/stores/itemTypeMetadata';
+import { itemMetadataStore } from '../../src/stores/itemMetadata';
 import { expandedItemUIActions } from '../../src/stores/expandedItemUI';
-import { filterStore, filterActions, filterComputed } from '../../src/stores/filter';
+import { filterStore, filterActions, filterComputed, applyItemFilters } from '../../src/stores/filter';
 import { syncStatusStore } from '../../src/stores/syncStatus';
 import { pendingItemsStore } from '../../src/stores/pendingItems';
 import { processingItemsComputed } from '../../src/stores/processingItems';
 import ItemCard from '../../src/components/items/ItemCard';
+import SearchMatchSnippet from '../../src/components/items/SearchMatchSnippet';
 import { Item } from '../../src/types';
 import { getEmptyStateMessage } from '../../src/utils/mockData';
 import { useRadialMenu } from '../../src/contexts/RadialMenuContext';
-import { spacesComputed } from '../../src/stores/spaces';
+import { spacesStore, spacesComputed } from '../../src/stores/spaces';
 import SimpleHeader from '../../src/components/SimpleHeader';
 import FilterPills from '../../src/components/FilterPills';
+import { useSemanticSearch } from '../../src/hooks/useSemanticSearch';
+import { itemSearchIndex, searchIndexStore } from '../../src/services/search/itemSearchIndex';
+import { queryControlsArchive } from '../../src/services/search/queryParser';
+import { spaceItemMatcher } from '../../src/services/smartSpaces';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -44,6 +50,28 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
   const previousItemCount = useRef(allItems.length);
   const isInitialMount = useRef(true);
 
+  // Structured operators (type:, tag:, space:, ...) are split from the free text,
+  // recompiled whenever the data they resolve against changes
+  const spaces = spacesStore.spaces.get();
+  const itemMetadata = itemMetadataStore.metadata.get();
+  const typeMetadata = itemTypeMetadataStore.typeMetadata.get();
+  const compiledQuery = useMemo(
+    () => filterComputed.parsedSearchQuery(),
+    [searchQuery, spaces, itemMetadata, typeMetadata]
+  );
+  const searchText = compiledQuery.text;
+  const includeArchived = showArchived || queryControlsArchive(compiledQuery);
+
+  // Local full-text index drives search; hybrid keyword + embedding search adds related items
+  const searchIndexVersion = searchIndexStore.version.get();
+  const { results: semanticResults } = useSemanticSearch(searchText, { includeArchived });
+
+  const textResults = useMemo(
+    () => (searchText.trim() ? itemSearchIndex.search(searchText) : []),
+    [searchText, searchIndexVersion]
+  );
+  const textResultsById = useMemo(() => new Map(textResults.map(result => [result.id, result])), [textResults]);
+
   // Get radial menu state to disable scroll when menu is active
   const { shouldDisableScroll } = useRadialMenu();
 
@@ -96,57 +124,35 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
 
   // Filter items based on all filter criteria
   const displayItems = useMemo(() => {
-    // First filter by archive status
-    let filtered = showArchived
-      ? allItems.filter(item => !item.is_deleted && item.is_archived)
-      : allItems.filter(item => !item.is_deleted && !item.is_archived);
-
-    // Apply space filter
-    if (selectedSpaceId !== null) {
-      filtered = filtered.filter(item => item.space_id === selectedSpaceId);
-    }
-
-    // Apply content type filter (single selection)
-    if (selectedContentType !== null) {
-      filtered = filtered.filter(item => {
-        // Treat 'podcast' and 'podcast_episode' as equivalent
-        if (selectedContentType === 'podcast') {
-          return item.content_type === 'podcast' || item.content_type === 'podcast_episode';
-        }
-        return item.content_type === selectedContentType;
-      });
-    }
-
-    // Apply tag filter (multiple selection - requires ALL selected tags)
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter(item => {
-        // Check if item has all of the selected tags
-        return selectedTags.every(selectedTag => item.tags?.includes(selectedTag));
-      });
-    }
-
-    // Apply search query filter
-    if (searchQuery && searchQuery.trim().length > 0) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter(item => {
-        // Search in URL
-        if (item.url?.toLowerCase().includes(query)) return true;
-
-        // Search in title (if it exists)
-        if (item.title && item.title.toLowerCase().includes(query)) return true;
-
-        // Search in tags
-        if (item.tags?.some(tag => tag.toLowerCase().includes(query))) return true;
+    // Rank of each item in the full-text and semantic results (lower is better)
+    const textRank = new Map(textResults.map((result, index) => [result.id, index]));
+    const semanticRank = new Map(semanticResults.map((result, index) => [result.item.id, index]));
+
+    const filtered = applyItemFilters(
+      allItems,
+      { showArchived, selectedSpaceId, selectedContentType, selectedTags },
+      compiledQuery,
+      item => textRank.has(item.id) || semanticRank.has(item.id)
+    );
 
-        // Search in content type
-        if (item.content_type?.toLowerCase().includes(query)) return true;
+    // Sort by created_at based on sortOrder, with ranked search hits first
+    return filtered.sort((a, b) => {
+      const textA = textRank.get(a.id);
+      const textB = textRank.get(b.id);
+      if (textA !== undefined || textB !== undefined) {
+        if (textA === undefined) return 1;
+        if (textB === undefined) return -1;
+        return textA - textB;
+      }
 
-        return false;
-      });
-    }
+      const rankA = semanticRank.get(a.id);
+      const rankB = semanticRank.get(b.id);
+      if (rankA !== undefined || rankB !== undefined) {
+        if (rankA === undefined) return 1;
+        if (rankB === undefined) return -1;
+        return rankA - rankB;
+      }
 
-    // Sort by created_at based on sortOrder
-    return filtered.sort((a, b) => {
       const dateA = new Date(a.created_at).getTime();
       const dateB = new Date(b.created_at).getTime();
 
@@ -156,7 +162,7 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
         return dateA - dateB; // Oldest first
       }
     });
-  }, [allItems, pendingItems, selectedContentType, selectedTags, sortOrder, selectedSpaceId, showArchived, searchQuery]);
+  }, [allItems, pendingItems, selectedContentType, selectedTags, sortOrder, selectedSpaceId, showArchived, spaces, compiledQuery, textResults, semanticResults, searchIndexVersion]);
 
   // Track metadata changes to force FlashList re-renders when images are added/removed
   const metadataVersion = itemTypeMetadataStore.typeMetadata.get().length;
@@ -187,15 +193,19 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
     console.log('Item long pressed:', item.title);
   };
 
-  const renderItem = ({ item }: { item: Item }) => (
-    <View style={{ width: '100%', paddingHorizontal: 4, paddingBottom: 8 }}>
-      <ItemCard
-        item={item}
-        onPress={handleItemPress}
-        onLongPress={handleItemLongPress}
-      />
-    </View>
-  );
+  const renderItem = ({ item }: { item: Item }) => {
+    const snippet = textResultsById.get(item.id)?.snippets[0];
+    return (
+      <View style={{ width: '100%', paddingHorizontal: 4, paddingBottom: 8 }}>
+        <ItemCard
+          item={item}
+          onPress={handleItemPress}
+          onLongPress={handleItemLongPress}
+        />
+        {snippet && <SearchMatchSnippet snippet={snippet} />}
+      </View>
+    );
+  };
 
   const EmptyState = () => {
     const hasActiveFilters = filterComputed.hasActiveFilters();
@@ -217,7 +227,10 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
 
     // Determine if there are items that COULD be shown (before filtering)
     let unfilteredItems = allItems.filter(item => !item.is_deleted && !item.is_archived);
-    if (selectedSpaceId) {
+    const selectedSpace = selectedSpaceId ? spacesComputed.getSpaceById(selectedSpaceId) : null;
+    if (selectedSpace) {
+      unfilteredItems = unfilteredItems.filter(spaceItemMatcher(selectedSpace));
+    } else if (selectedSpaceId) {
       unfilteredItems = unfilteredItems.filter(item => item.space_id === selectedSpaceId);
     }
     const hasAnyItems = unfilteredItems.length > 0;
@@ -277,6 +290,8 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
   const processingCount = useMemo(() => {
     return pendingItems.filter(p => p.status === 'pending' || p.status === 'processing').length;
   }, [pendingItems]);
+  const reEnrichBatch = processingItemsComputed.batch();
+  const showProcessing = processingCount > 0 || !!reEnrichBatch;
 
   // Animated banner height with minimum display time
   const bannerHeight = useSharedValue(0);
@@ -284,7 +299,7 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
   const bannerShowTimestamp = useRef<number | null>(null);
 
   useEffect(() => {
-    if (processingCount > 0) {
+    if (showProcessing) {
       // Show banner
       if (!showBanner) {
         setShowBanner(true);
@@ -310,7 +325,7 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
         });
       }, delay);
     }
-  }, [processingCount, showBanner]);
+  }, [showProcessing, showBanner]);
 
   const bannerStyle = useAnimatedStyle(() => ({
     height: bannerHeight.value,
@@ -327,7 +342,9 @@ const HomeScreen = observer(({ onExpandedItemOpen, onExpandedItemClose }: HomeSc
       {showBanner && (
         <Animated.View style={[bannerStyle, styles.processingBanner, isDarkMode && styles.processingBannerDark]}>
           <Text style={[styles.processingText, isDarkMode && styles.processingTextDark]}>
-            Processing {processingCount} {processingCount === 1 ? 'item' : 'items'}...
+            {reEnrichBatch
+              ? `Re-enriching ${Math.min(reEnrichBatch.completed + 1, reEnrichBatch.total)} of ${reEnrichBatch.total} items...`
+              : `Processing ${processingCount} ${processingCount === 1 ? 'item' : 'items'}...`}
           </Text>
         </Animated.View>
       )}
@@ -7,6 +7,8 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { themeStore } from '../../src/stores/theme';
 import { spacesStore, spacesActions, spacesComputed } from '../../src/stores/spaces';
+import { itemsStore } from '../../src/stores/items';
+import { getSpaceItems } from '../../src/services/smartSpaces';
 import SpaceCard from '../../src/components/SpaceCard';
 import SpaceChatSheet, { SpaceChatSheetRef } from '../../src/components/SpaceChatSheet';
 import EditSpaceSheet, { EditSpaceSheetRef } from '../../src/components/EditSpaceSheet';
@@ -28,6 +30,7 @@ const SpacesScreen = observer(({ onSpaceOpen, onSpaceClose }: SpacesScreenProps
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const allSpaces = spacesComputed.activeSpaces();
+  const allItems = itemsStore.items.get();
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [selectedSpace, setSelectedSpace] = useState<Space | null>(null);
@@ -66,7 +69,7 @@ const SpacesScreen = observer(({ onSpaceOpen, onSpaceClose }: SpacesScreenProps
 
   const handleSpacePress = (space: Space) => {
     setSelectedSpace(space);
-    spaceChatSheetRef.current?.openWithSpace(space.name);
+    spaceChatSheetRef.current?.openWithSpace(space);
     onSpaceOpen?.(space.id);
   };
 
@@ -82,7 +85,7 @@ const SpacesScreen = observer(({ onSpaceOpen, onSpaceClose }: SpacesScreenProps
     >
       <SpaceCard 
         space={item} 
-        itemCount={item.item_count || 0}
+        itemCount={item.smart_rule ? getSpaceItems(item, { items: allItems }).length : item.item_count || 0}
         onPress={handleSpacePress}
       />
     </View>
@@ -33,6 +33,7 @@ import { Item, Space } from '../../src/types';
 import { getEmptyStateMessage } from '../../src/utils/mockData';
 import { spacesComputed } from '../../src/stores/spaces';
 import { itemsStore, itemsActions } from '../../src/stores/items';
+import { getSpaceItems } from '../../src/services/smartSpaces';
 import { processingItemsComputed } from '../../src/stores/processingItems';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -230,10 +231,8 @@ const SpaceDetailScreen = observer(() => {
   const filteredItems = useMemo(() => {
     if (!space) return [];
 
-    // Get items for this space only
-    const spaceItems = allItems.filter(item =>
-      item.space_id === space.id && !item.is_deleted && !item.is_archived
-    );
+    // Get items for this space only (rule matches for smart spaces)
+    const spaceItems = getSpaceItems(space, { items: allItems });
 
     // Apply search filter
     return spaceItems
@@ -7,5 +7,11 @@ module.exports = function(api) {
       '@babel/plugin-transform-export-namespace-from',
       'react-native-reanimated/plugin',
     ],
+    env: {
+      // Metro handles import() in the app; under Jest it has to become a require
+      test: {
+        plugins: ['babel-plugin-dynamic-import-node'],
+      },
+    },
   };
 };
\ No newline at end of file
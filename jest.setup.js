@@ -0,0 +1,11 @@
+// Local Supabase defaults, so clients built at import time can load and
+// recorded edge function calls resolve to the same URL on every machine
+process.env.EXPO_PUBLIC_SUPABASE_URL = 'http://localhost:54321';
+process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// expo/fetch is backed by a native module; the global fetch has the same shape
+jest.mock('expo/fetch', () => ({ fetch: (...args) => global.fetch(...args) }));
@@ -70,6 +70,20 @@ const AVAILABLE_ACTIONS: ActionOption[] = [
     color: '#5AC8FA',
     description: 'Refresh item metadata',
   },
+  {
+    id: 'play_next',
+    label: 'Play Next',
+    icon: 'play-skip-forward-outline',
+    color: '#FF2D55',
+    description: 'Play audio after the current item',
+  },
+  {
+    id: 'queue',
+    label: 'Add to Queue',
+    icon: 'list-outline',
+    color: '#FF2D55',
+    description: 'Add audio to the end of the queue',
+  },
 ];
 
 const ActionMenuConfigModal = observer(({
@@ -8,6 +8,7 @@ import { themeStore } from '../stores/theme';
 import { authComputed } from '../stores/auth';
 import { spacesComputed } from '../stores/spaces';
 import { itemProcessingQueue } from '../services/itemProcessingQueue';
+import { getPdfFileName, isPdfUrl } from '../services/pdf';
 
 interface AddItemSheetProps {
   preSelectedSpaceId?: string | null;
@@ -91,7 +92,7 @@ const AddItemSheet = observer(forwardRef<AddItemSheetHandle, AddItemSheetProps>(
       // Generate provisional title for UI feedback
       let provisionalTitle = url;
       try { 
-        provisionalTitle = new URL(url).hostname.replace('www.', ''); 
+        provisionalTitle = isPdfUrl(url) ? getPdfFileName(url) : new URL(url).hostname.replace('www.', ''); 
       } catch {
         // Invalid URL, use as-is
       }
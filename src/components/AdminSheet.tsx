@@ -13,13 +13,16 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { observer } from '@legendapp/state/react';
 import { Host, Picker } from '@expo/ui/swift-ui';
 import { themeStore } from '../stores/theme';
-import { COLORS, API } from '../constants';
+import { COLORS } from '../constants';
 import { useToast } from '../contexts/ToastContext';
 import { serpapi, SerpApiAccount, SerpApiError } from '../services/serpapi';
 import { openai, OpenAIAccountStatus, OpenAICostsData, OpenAIError } from '../services/openai';
 import { isAPIConfigured } from '../config/api';
+import { LLM_PROVIDERS, isAnyLLMConfigured } from '../services/llm';
 import { adminSettingsStore, adminSettingsActions, adminSettingsComputed } from '../stores/adminSettings';
 import ModelPickerSheet from './ModelPickerSheet';
+import ReEnrichSection from './ReEnrichSection';
+import MemorySchemaSection from './MemorySchemaSection';
 
 interface AdminSheetProps {
   onOpen?: () => void;
@@ -55,7 +58,7 @@ const AdminSheet = observer(
     const selectedModel = adminSettingsComputed.aiChatModel();
     const metadataModel = adminSettingsComputed.aiMetadataModel();
     const availableModels = adminSettingsComputed.aiAvailableModels();
-    const hasApiKey = !!API.OPENAI_API_KEY;
+    const hasApiKey = isAnyLLMConfigured();
     const timeSinceLastFetch = adminSettingsComputed.timeSinceLastFetch();
 
     // YouTube source picker indices (computed from adminSettingsStore)
@@ -412,6 +415,12 @@ const AdminSheet = observer(
 
           </View>
 
+          {/* Re-enrich Section */}
+          <ReEnrichSection isDarkMode={isDarkMode} />
+
+          {/* Memory Schema Section */}
+          <MemorySchemaSection isDarkMode={isDarkMode} />
+
           {/* AI & CHAT Section (Global) */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>
@@ -426,10 +435,10 @@ const AdminSheet = observer(
               />
               <View style={styles.rowContent}>
                 <Text style={[styles.rowTitle, isDarkMode && styles.rowTitleDark]}>
-                  OpenAI API Key
+                  LLM Providers
                 </Text>
                 <Text style={[styles.rowSubtitle, isDarkMode && styles.rowSubtitleDark]}>
-                  {hasApiKey ? 'Configured ✅' : 'Not configured ⚠️'}
+                  {LLM_PROVIDERS.map(provider => `${provider.label} ${provider.isConfigured() ? '✅' : '⚠️'}`).join(' · ')}
                 </Text>
               </View>
             </View>
@@ -442,7 +451,7 @@ const AdminSheet = observer(
                     'No Models Available',
                     hasApiKey
                       ? 'Please refresh the models list first.'
-                      : 'OpenAI API key is not configured. Please add EXPO_PUBLIC_OPENAI_API_KEY to your .env file.'
+                      : 'No LLM provider is configured. Add EXPO_PUBLIC_OPENAI_API_KEY, EXPO_PUBLIC_ANTHROPIC_API_KEY or EXPO_PUBLIC_LOCAL_LLM_BASE_URL to your .env file.'
                   );
                   return;
                 }
@@ -480,7 +489,7 @@ const AdminSheet = observer(
                     'No Models Available',
                     hasApiKey
                       ? 'Please refresh the models list first.'
-                      : 'OpenAI API key is not configured. Please add EXPO_PUBLIC_OPENAI_API_KEY to your .env file.'
+                      : 'No LLM provider is configured. Add EXPO_PUBLIC_OPENAI_API_KEY, EXPO_PUBLIC_ANTHROPIC_API_KEY or EXPO_PUBLIC_LOCAL_LLM_BASE_URL to your .env file.'
                   );
                   return;
                 }
@@ -518,7 +527,7 @@ const AdminSheet = observer(
                 if (!hasApiKey) {
                   Alert.alert(
                     'API Key Required',
-                    'Please add EXPO_PUBLIC_OPENAI_API_KEY to your .env file to use AI features.'
+                    'Please add EXPO_PUBLIC_OPENAI_API_KEY, EXPO_PUBLIC_ANTHROPIC_API_KEY or EXPO_PUBLIC_LOCAL_LLM_BASE_URL to your .env file to use AI features.'
                   );
                   return;
                 }
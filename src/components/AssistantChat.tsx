@@ -5,7 +5,6 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  ActivityIndicator,
   TextInput,
   KeyboardAvoidingView,
   Platform,
@@ -37,23 +36,35 @@ import {
   assistantStore,
   assistantActions,
   assistantComputed,
+  AssistantCitation,
   AssistantMessage,
+  AssistantToolResult,
 } from '../stores/assistant';
-import { openai } from '../services/openai';
+import { itemsStore } from '../stores/items';
+import { expandedItemUIActions } from '../stores/expandedItemUI';
+import { memoriesActions } from '../stores/memories';
+import { memorySchemaActions } from '../stores/memorySchema';
+import type { LLMMessage } from '../services/llm';
+import { runAssistantTurn } from '../services/assistantRuntime';
 import {
   ASSISTANT_TOOLS,
   ARCHITECT_TOOLS,
   ASSISTANT_SYSTEM_PROMPT_WITH_TOOLS,
   ARCHITECT_SYSTEM_PROMPT,
-  executeTool,
+  describeToolAction,
+  extractCitations,
   isArchitectCommand,
   extractArchitectMessage,
 } from '../services/assistantTools';
 import { useToast } from '../contexts/ToastContext';
+import MemoryInboxModal from './MemoryInboxModal';
 import { COLORS } from '../constants';
 
-// Maximum number of tool call rounds to prevent infinite loops
-const MAX_TOOL_ROUNDS = 5;
+// A library write tool call waiting for the user's go-ahead
+interface PendingAction {
+  title: string;
+  details: string[];
+}
 
 const AssistantChat = observer(() => {
   const isDarkMode = themeStore.isDarkMode.get();
@@ -63,8 +74,14 @@ const AssistantChat = observer(() => {
   const [inputText, setInputText] = useState('');
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [showManualSuggestions, setShowManualSuggestions] = useState(false);
+  const [showMemoryInbox, setShowMemoryInbox] = useState(false);
+  // Text of the round currently being streamed
+  const [streamingText, setStreamingText] = useState('');
   const scrollViewRef = useRef<ScrollView>(null);
   const inputRef = useRef<TextInput>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const confirmResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
 
   const messages = assistantComputed.currentMessages();
   const isSending = assistantStore.isSending.get();
@@ -73,6 +90,10 @@ const AssistantChat = observer(() => {
   // Initialize conversation on mount
   useEffect(() => {
     assistantActions.ensureConversation();
+    // Archive stale/surplus memories (at most once a day)
+    memoriesActions.runMaintenance();
+    // Memories are validated against the active schema version
+    memorySchemaActions.loadActiveSchema();
   }, []);
 
   // Track keyboard visibility for input positioning
@@ -100,9 +121,39 @@ const AssistantChat = observer(() => {
     }
   }, [messages.length]);
 
+  // Keep the streaming reply in view as it grows
+  useEffect(() => {
+    if (streamingText) {
+      scrollViewRef.current?.scrollToEnd({ animated: false });
+    }
+  }, [streamingText]);
+
+  useEffect(() => {
+    if (pendingAction) {
+      scrollViewRef.current?.scrollToEnd({ animated: true });
+    }
+  }, [pendingAction]);
+
+  // Shows the confirmation card and resolves once the user answers (or stops the reply)
+  const requestConfirmation = (toolName: string, args: Record<string, any>) =>
+    new Promise<boolean>(resolve => {
+      setStreamingText('');
+      setPendingAction(describeToolAction(toolName, args));
+      confirmResolverRef.current = resolve;
+    });
+
+  const resolveConfirmation = (confirmed: boolean) => {
+    confirmResolverRef.current?.(confirmed);
+    confirmResolverRef.current = null;
+    setPendingAction(null);
+  };
+
   const sendMessage = async (messageText: string) => {
     const rawMessage = messageText.trim();
     assistantActions.setSending(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const stream = { onText: setStreamingText, signal: controller.signal };
 
     // Check if this is an architect command
     const isArchitect = isArchitectCommand(rawMessage);
@@ -135,7 +186,7 @@ const AssistantChat = observer(() => {
       );
 
       // Start the agentic loop
-      let apiMessages: any[] = [
+      const apiMessages: LLMMessage[] = [
         { role: 'system', content: systemPrompt },
         ...currentMessages.map(m => ({
           role: m.role,
@@ -146,113 +197,35 @@ const AssistantChat = observer(() => {
         })),
       ];
 
-      let toolRounds = 0;
-      let finalResponse: string | null = null;
-      let finalModel: string | null = null;
-      let finalTokens: { prompt: number; completion: number; total: number } | null = null;
-
-      // Agentic loop - continue until we get a non-tool response or hit max rounds
-      while (toolRounds < MAX_TOOL_ROUNDS) {
-        console.log(`[AssistantChat] Tool round ${toolRounds + 1}/${MAX_TOOL_ROUNDS}`);
-
-        // Call OpenAI API with tools (architect mode uses extended tools)
-        const completion = await openai.createChatCompletionWithTools(
-          apiMessages,
-          tools,
-          {
-            model: selectedModel,
-            temperature: 0.7,
-            max_tokens: 1500,
-          }
-        );
-
-        if (!completion) {
-          throw new Error('Failed to get completion from OpenAI');
-        }
-
-        const choice = completion.choices?.[0];
-        if (!choice) {
-          throw new Error('No choice in completion');
-        }
-
-        // Check if the model wants to call tools
-        if (completion.tool_calls && completion.tool_calls.length > 0) {
-          console.log('[AssistantChat] Processing tool calls:', completion.tool_calls.map(tc => tc.function.name).join(', '));
-
-          // Add assistant message with tool calls to the conversation
-          apiMessages.push({
-            role: 'assistant',
-            content: choice.message?.content || null,
-            tool_calls: completion.tool_calls,
-          });
-
-          // Execute each tool and add results
-          for (const toolCall of completion.tool_calls) {
-            try {
-              const args = JSON.parse(toolCall.function.arguments);
-              console.log(`[AssistantChat] Executing tool: ${toolCall.function.name}`, args);
-
-              const result = await executeTool(toolCall.function.name, args);
-              console.log(`[AssistantChat] Tool result:`, result.substring(0, 200));
-
-              // Add tool result to messages
-              apiMessages.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: result,
-              });
-            } catch (toolError) {
-              console.error(`[AssistantChat] Tool execution error:`, toolError);
-              apiMessages.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: JSON.stringify({ error: 'Tool execution failed' }),
-              });
-            }
-          }
-
-          toolRounds++;
-        } else {
-          // No tool calls - we have the final response
-          finalResponse = choice.message?.content || 'I apologize, but I could not generate a response.';
-          finalModel = completion.model;
-          finalTokens = completion.usage ? {
-            prompt: completion.usage.prompt_tokens,
-            completion: completion.usage.completion_tokens,
-            total: completion.usage.total_tokens,
-          } : null;
-          break;
-        }
-      }
-
-      // If we hit max rounds without a final response, make one more call without tools
-      if (!finalResponse) {
-        console.log('[AssistantChat] Hit max tool rounds, getting final response');
-        const finalCompletion = await openai.createChatCompletion(apiMessages, {
-          model: selectedModel,
-          temperature: 0.7,
-          max_tokens: 1500,
-        });
+      // Architect mode uses extended tools
+      const turn = await runAssistantTurn({
+        messages: apiMessages,
+        tools,
+        model: selectedModel,
+        stream,
+        confirm: requestConfirmation,
+        onRoundStart: () => setStreamingText(''),
+      });
+      const { stopped, toolResults } = turn;
+      const finalResponse = turn.content;
 
-        if (finalCompletion && finalCompletion.choices[0]) {
-          finalResponse = finalCompletion.choices[0].message.content;
-          finalModel = finalCompletion.model;
-          finalTokens = finalCompletion.usage ? {
-            prompt: finalCompletion.usage.prompt_tokens,
-            completion: finalCompletion.usage.completion_tokens,
-            total: finalCompletion.usage.total_tokens,
-          } : null;
-        }
-      }
+      if (stopped && !finalResponse) {
+        // Stopped before any text arrived - nothing to save
+        console.log('[AssistantChat] Stopped before a reply arrived');
+      } else if (finalResponse) {
+        // Citation markers become chips under the message
+        const { content, citations } = extractCitations(finalResponse, turn.citationSources);
 
-      if (finalResponse) {
         // Add assistant response
         await assistantActions.addMessage({
           role: 'assistant',
-          content: finalResponse,
+          content,
           metadata: {
-            model: finalModel || selectedModel,
-            tokens: finalTokens || undefined,
+            model: turn.model || selectedModel,
+            tokens: turn.tokens || undefined,
+            ...(stopped ? { stopped: true } : {}),
+            ...(citations.length > 0 ? { citations } : {}),
+            ...(toolResults.length > 0 ? { tool_results: toolResults } : {}),
           },
         });
 
@@ -277,10 +250,25 @@ const AssistantChat = observer(() => {
         content: 'An error occurred. Please check your API key and try again.',
       });
     } finally {
+      abortControllerRef.current = null;
+      resolveConfirmation(false);
+      setStreamingText('');
       assistantActions.setSending(false);
     }
   };
 
+  const handleStop = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    abortControllerRef.current?.abort();
+    // Stopping counts as declining; the next round then ends as stopped
+    resolveConfirmation(false);
+  };
+
+  const handleConfirmAction = (confirmed: boolean) => {
+    Haptics.impactAsync(confirmed ? Haptics.ImpactFeedbackStyle.Medium : Haptics.ImpactFeedbackStyle.Light);
+    resolveConfirmation(confirmed);
+  };
+
   const handleSend = async () => {
     if (!inputText.trim() || isSending) return;
     setInputText('');
@@ -513,6 +501,22 @@ const AssistantChat = observer(() => {
     }
   };
 
+  const handleCitationPress = (citation: AssistantCitation) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    if (citation.type === 'memory') {
+      Alert.alert(citation.title, citation.body || '');
+      return;
+    }
+
+    const item = itemsStore.items.get().find(i => i.id === citation.id);
+    if (!item || item.is_deleted) {
+      showToast({ message: 'This item is no longer in your Memex', type: 'error', duration: 2000 });
+      return;
+    }
+    expandedItemUIActions.expandItem(item);
+  };
+
   const renderMessage = (message: AssistantMessage, index: number) => {
     const isUser = message.role === 'user';
     const isSystem = message.role === 'system';
@@ -532,6 +536,7 @@ const AssistantChat = observer(() => {
         isDarkMode={isDarkMode}
         time={time}
         onCopy={handleCopyMessage}
+        onCitationPress={handleCitationPress}
       />
     );
   };
@@ -619,6 +624,9 @@ const AssistantChat = observer(() => {
                   <Button onPress={() => setShowManualSuggestions(!showManualSuggestions)}>
                     {showManualSuggestions ? 'Hide Suggestions' : 'Show Suggestions'}
                   </Button>
+                  <Button onPress={() => setShowMemoryInbox(true)}>
+                    Memories
+                  </Button>
                   <Button onPress={handleShareChat}>
                     Share Chat
                   </Button>
@@ -658,7 +666,29 @@ const AssistantChat = observer(() => {
         ) : (
           <>
             {messages.map((msg, idx) => renderMessage(msg, idx))}
-            {isSending && <TypingIndicator isDarkMode={isDarkMode} />}
+            {isSending && (pendingAction ? (
+              <ActionConfirmationCard
+                action={pendingAction}
+                isDarkMode={isDarkMode}
+                onConfirm={() => handleConfirmAction(true)}
+                onCancel={() => handleConfirmAction(false)}
+              />
+            ) : streamingText ? (
+              <MessageBubble
+                message={{
+                  id: 'streaming',
+                  role: 'assistant',
+                  content: extractCitations(streamingText, []).content,
+                  created_at: new Date().toISOString(),
+                }}
+                isUser={false}
+                isDarkMode={isDarkMode}
+                time="Typing..."
+                onCopy={handleCopyMessage}
+              />
+            ) : (
+              <TypingIndicator isDarkMode={isDarkMode} />
+            ))}
           </>
         )}
         <View style={{ height: 20 }} />
@@ -727,22 +757,32 @@ const AssistantChat = observer(() => {
             editable={!isSending}
             onSubmitEditing={handleSend}
           />
-          <TouchableOpacity
-            style={[
-              styles.sendButton,
-              (!inputText.trim() || isSending) && styles.sendButtonDisabled,
-            ]}
-            onPress={handleSend}
-            disabled={!inputText.trim() || isSending}
-          >
-            {isSending ? (
-              <ActivityIndicator size="small" color="#fff" />
-            ) : (
+          {isSending ? (
+            <TouchableOpacity
+              style={[styles.sendButton, styles.stopButton]}
+              onPress={handleStop}
+            >
+              <MaterialIcons name="stop" size={20} color="#fff" />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                !inputText.trim() && styles.sendButtonDisabled,
+              ]}
+              onPress={handleSend}
+              disabled={!inputText.trim()}
+            >
               <MaterialIcons name="send" size={20} color="#fff" />
-            )}
-          </TouchableOpacity>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
+
+      <MemoryInboxModal
+        visible={showMemoryInbox}
+        onClose={() => setShowMemoryInbox(false)}
+      />
     </KeyboardAvoidingView>
   );
 });
@@ -754,9 +794,12 @@ interface MessageBubbleProps {
   isDarkMode: boolean;
   time: string;
   onCopy: (content: string) => void;
+  onCitationPress?: (citation: AssistantCitation) => void;
 }
 
-const MessageBubble = observer(({ message, isUser, isDarkMode, time, onCopy }: MessageBubbleProps) => {
+const MessageBubble = observer(({ message, isUser, isDarkMode, time, onCopy, onCitationPress }: MessageBubbleProps) => {
+  const citations = message.metadata?.citations || [];
+  const toolResults = message.metadata?.tool_results || [];
   const scale = useSharedValue(1);
 
   const handleLongPress = () => {
@@ -799,14 +842,126 @@ const MessageBubble = observer(({ message, isUser, isDarkMode, time, onCopy }: M
           </Text>
         </Animated.View>
       </Pressable>
+      {toolResults.length > 0 && (
+        <ToolTrace toolResults={toolResults} isDarkMode={isDarkMode} />
+      )}
+      {citations.length > 0 && onCitationPress && (
+        <View style={styles.citationsRow}>
+          {citations.map(citation => (
+            <TouchableOpacity
+              key={`${citation.type}:${citation.id}`}
+              style={[styles.citationChip, isDarkMode && styles.citationChipDark]}
+              onPress={() => onCitationPress(citation)}
+            >
+              <MaterialIcons
+                name={citation.type === 'item' ? 'bookmark-border' : 'psychology'}
+                size={14}
+                color={COLORS.primary}
+              />
+              <Text style={styles.citationChipText} numberOfLines={1}>
+                {citation.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
       <Text style={[styles.messageTime, isDarkMode && styles.messageTimeDark]}>
         {message.metadata?.model && !isUser && `${message.metadata.model} • `}
         {time}
+        {message.metadata?.stopped && ' • Stopped'}
       </Text>
     </View>
   );
 });
 
+const TOOL_STATUS_ICONS: Record<AssistantToolResult['status'], { name: keyof typeof MaterialIcons.glyphMap; color: string }> = {
+  success: { name: 'check-circle', color: '#34C759' },
+  error: { name: 'error-outline', color: '#FF3B30' },
+  timeout: { name: 'timer-off', color: '#FF9500' },
+  declined: { name: 'block', color: '#8E8E93' },
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+// Collapsible list of the tool calls behind a reply
+const ToolTrace = ({ toolResults, isDarkMode }: { toolResults: AssistantToolResult[]; isDarkMode: boolean }) => {
+  const [expanded, setExpanded] = useState(false);
+  const totalMs = toolResults.reduce((sum, toolResult) => sum + toolResult.duration_ms, 0);
+
+  return (
+    <View style={[styles.traceContainer, isDarkMode && styles.traceContainerDark]}>
+      <TouchableOpacity style={styles.traceToggle} onPress={() => setExpanded(!expanded)}>
+        <MaterialIcons name="build" size={13} color={isDarkMode ? '#999' : '#666'} />
+        <Text style={[styles.traceToggleText, isDarkMode && styles.traceMutedDark]}>
+          {toolResults.length} tool {toolResults.length === 1 ? 'call' : 'calls'} • {formatDuration(totalMs)}
+        </Text>
+        <MaterialIcons name={expanded ? 'expand-less' : 'expand-more'} size={16} color={isDarkMode ? '#999' : '#666'} />
+      </TouchableOpacity>
+      {expanded && toolResults.map(toolResult => {
+        const icon = TOOL_STATUS_ICONS[toolResult.status];
+        return (
+          <View key={toolResult.tool_call_id} style={[styles.traceEntry, isDarkMode && styles.traceEntryDark]}>
+            <View style={styles.traceEntryHeader}>
+              <MaterialIcons name={icon.name} size={14} color={icon.color} />
+              <Text style={[styles.traceName, isDarkMode && styles.traceNameDark]} numberOfLines={1}>
+                {toolResult.name}
+              </Text>
+              <Text style={[styles.traceMeta, isDarkMode && styles.traceMutedDark]}>
+                round {toolResult.round} • {formatDuration(toolResult.duration_ms)}
+              </Text>
+            </View>
+            <Text style={[styles.traceCode, isDarkMode && styles.traceMutedDark]} numberOfLines={3}>
+              {toolResult.arguments}
+            </Text>
+            <Text style={[styles.traceCode, isDarkMode && styles.traceMutedDark]} numberOfLines={4}>
+              → {toolResult.result}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+// Confirmation card for library actions requested by the assistant
+interface ActionConfirmationCardProps {
+  action: PendingAction;
+  isDarkMode: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ActionConfirmationCard = ({ action, isDarkMode, onConfirm, onCancel }: ActionConfirmationCardProps) => (
+  <View style={[styles.confirmCard, isDarkMode && styles.confirmCardDark]}>
+    <View style={styles.confirmHeader}>
+      <MaterialIcons name="bolt" size={18} color={COLORS.primary} />
+      <Text style={[styles.confirmTitle, isDarkMode && styles.confirmTitleDark]}>
+        {action.title}
+      </Text>
+    </View>
+    {action.details.map((detail, index) => (
+      <Text
+        key={index}
+        style={[styles.confirmDetail, isDarkMode && styles.confirmDetailDark]}
+        numberOfLines={4}
+      >
+        {detail}
+      </Text>
+    ))}
+    <View style={styles.confirmActions}>
+      <TouchableOpacity
+        style={[styles.confirmButton, styles.confirmCancelButton, isDarkMode && styles.confirmCancelButtonDark]}
+        onPress={onCancel}
+      >
+        <Text style={[styles.confirmCancelText, isDarkMode && styles.confirmCancelTextDark]}>Cancel</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={[styles.confirmButton, styles.confirmOkButton]} onPress={onConfirm}>
+        <Text style={styles.confirmOkText}>Confirm</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
 // Typing Indicator Component
 const TypingIndicator = observer(({ isDarkMode }: { isDarkMode: boolean }) => {
   const dot1 = useSharedValue(0);
@@ -1008,6 +1163,163 @@ const styles = StyleSheet.create({
   messageTimeDark: {
     color: '#666666',
   },
+  citationsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+    maxWidth: '85%',
+  },
+  citationChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 220,
+    backgroundColor: '#F0F0F0',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5E7',
+  },
+  citationChipDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+  },
+  citationChipText: {
+    flexShrink: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  traceContainer: {
+    marginTop: 6,
+    maxWidth: '85%',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5E7',
+    overflow: 'hidden',
+  },
+  traceContainerDark: {
+    borderColor: '#38383A',
+  },
+  traceToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  traceToggleText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#666666',
+  },
+  traceMutedDark: {
+    color: '#999999',
+  },
+  traceEntry: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5E7',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    gap: 3,
+  },
+  traceEntryDark: {
+    borderTopColor: '#38383A',
+  },
+  traceEntryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  traceName: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  traceNameDark: {
+    color: '#FFFFFF',
+  },
+  traceMeta: {
+    marginLeft: 'auto',
+    fontSize: 11,
+    color: '#666666',
+  },
+  traceCode: {
+    fontSize: 11,
+    color: '#666666',
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+  },
+  confirmCard: {
+    alignSelf: 'flex-start',
+    width: '85%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5E7',
+    padding: 14,
+    marginBottom: 16,
+    gap: 6,
+  },
+  confirmCardDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#38383A',
+  },
+  confirmHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  confirmTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  confirmTitleDark: {
+    color: '#FFFFFF',
+  },
+  confirmDetail: {
+    fontSize: 14,
+    color: '#3C3C43',
+  },
+  confirmDetailDark: {
+    color: '#EBEBF5',
+  },
+  confirmActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 6,
+  },
+  confirmButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  confirmCancelButton: {
+    backgroundColor: '#F0F0F0',
+  },
+  confirmCancelButtonDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  confirmCancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  confirmCancelTextDark: {
+    color: '#FFFFFF',
+  },
+  confirmOkButton: {
+    backgroundColor: COLORS.primary,
+  },
+  confirmOkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   typingContainer: {
     alignItems: 'flex-start',
     marginBottom: 16,
@@ -1101,6 +1413,9 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     opacity: 0.5,
   },
+  stopButton: {
+    backgroundColor: COLORS.danger,
+  },
 });
 
 export default AssistantChat;
@@ -1,280 +1,124 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
-import { useAudioPlayer, useAudioPlayerStatus, setAudioModeAsync } from 'expo-audio';
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions, Alert } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
 import { Host, Slider } from '@expo/ui/swift-ui';
 import { itemTypeMetadataActions, itemTypeMetadataComputed } from '../stores/itemTypeMetadata';
+import { audioPlayerStore, audioPlayerComputed, audioPlayerActions } from '../stores/audioPlayer';
+import { audioPlaybackService } from '../services/audioPlayback';
+import { useToast } from '../contexts/ToastContext';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CONTENT_PADDING = 20;
 const CONTENT_WIDTH = SCREEN_WIDTH - (CONTENT_PADDING * 2);
 
+const RATES = [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0];
+
 interface AudioPlayerProps {
   itemId: string;
-  audioUrl: string;
   isDarkMode: boolean;
 }
 
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ itemId, audioUrl, isDarkMode }) => {
-  // Use expo-audio hooks
-  const player = useAudioPlayer(audioUrl);
-  const status = useAudioPlayerStatus(player);
-
-  // State for UI and persistence
-  const [isLoading, setIsLoading] = useState(false);
-  const [position, setPosition] = useState(0); // Keep in ms for internal consistency
-  const [duration, setDuration] = useState(0); // Keep in ms for internal consistency
-  const [playbackRate, setPlaybackRate] = useState(1.0);
-  const isMounted = useRef(true);
-  const lastSavedPosition = useRef<number>(0);
-  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const hasRestoredPosition = useRef(false);
-  const currentPositionRef = useRef<number>(0);
-
-  // Save playback position to metadata
-  const savePlaybackPosition = useCallback(async (positionMs: number, rate?: number) => {
-    // Don't save if position hasn't changed significantly (> 1 second)
-    if (Math.abs(positionMs - lastSavedPosition.current) < 1000 && rate === undefined) {
-      return;
-    }
-
-    lastSavedPosition.current = positionMs;
+const formatTime = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
 
-    try {
-      const metadata = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
-      await itemTypeMetadataActions.upsertTypeMetadata({
-        item_id: itemId,
-        content_type: 'podcast',
-        data: {
-          ...metadata?.data,
-          playback_position_ms: Math.floor(positionMs),
-          playback_rate: rate !== undefined ? rate : playbackRate,
-          last_played_at: new Date().toISOString(),
-        },
-      });
-      console.log('💾 [AudioPlayer] Saved position:', Math.floor(positionMs / 1000), 'seconds');
-    } catch (error) {
-      console.error('Error saving playback position:', error);
-    }
-  }, [itemId, playbackRate]);
-
-  useEffect(() => {
-    isMounted.current = true;
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
 
-    // Set audio mode for playback
-    setAudioModeAsync({
-      allowsRecording: false,
-      playsInSilentMode: true,
-      shouldPlayInBackground: true,
-      interruptionModeAndroid: 'duckOthers',
+/**
+ * Controls for one item in the app-wide player. While another item is playing
+ * this shows the item's saved position, and pressing play switches over.
+ */
+const AudioPlayer = observer(({ itemId, isDarkMode }: AudioPlayerProps) => {
+  const { showToast } = useToast();
+  const isCurrent = audioPlayerComputed.isCurrent(itemId);
+  const metadata = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
+
+  const isPlaying = isCurrent && audioPlayerStore.isPlaying.get();
+  const isLoading = isPlaying && audioPlayerStore.isLoading.get();
+  const position = isCurrent ? audioPlayerStore.positionMs.get() : metadata?.data?.playback_position_ms || 0;
+  const duration = isCurrent && audioPlayerStore.durationMs.get() > 0
+    ? audioPlayerStore.durationMs.get()
+    : (metadata?.data?.duration || 0) * 1000;
+  const playbackRate = isCurrent ? audioPlayerStore.playbackRate.get() : metadata?.data?.playback_rate || 1.0;
+  const skipSilence = audioPlayerStore.skipSilence.get();
+  const isSkippingSilence = isCurrent && audioPlayerStore.isSkippingSilence.get();
+  const chapters = audioPlayerComputed.chaptersForItem(itemId);
+  const currentChapterIndex = isCurrent ? audioPlayerComputed.currentChapterIndex() : -1;
+  const isQueued = audioPlayerComputed.isQueued(itemId);
+  const upNext = isCurrent ? audioPlayerComputed.queueItems() : [];
+
+  const play = (positionMs?: number) => {
+    audioPlaybackService.playItem(itemId, { positionMs }).catch(error => {
+      console.error('Error starting playback:', error);
+      Alert.alert('Error', error?.message || 'Failed to play audio');
     });
-
-    return () => {
-      isMounted.current = false;
-    };
-  }, []);
-
-  // Handle audio source changes and restoration
-  useEffect(() => {
-    if (!player) return;
-
-    const restorePlaybackState = async () => {
-      try {
-        setIsLoading(true);
-        hasRestoredPosition.current = false;
-
-        console.log('🎙️ [AudioPlayer] Loading audio from:', audioUrl);
-
-        // Get saved playback position and rate
-        const metadata = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
-        const savedPositionMs = metadata?.data?.playback_position_ms || 0;
-        const savedRate = metadata?.data?.playback_rate || 1.0;
-
-        if (savedPositionMs > 0) {
-          console.log('📍 [AudioPlayer] Restoring position:', Math.floor(savedPositionMs / 1000), 'seconds');
-        }
-        if (savedRate !== 1.0) {
-          console.log('⚡ [AudioPlayer] Restoring playback rate:', savedRate, 'x');
-        }
-
-        // Set playback rate
-        player.setPlaybackRate(savedRate, 'high');
-        setPlaybackRate(savedRate);
-
-        // Restore position (convert ms to seconds)
-        if (savedPositionMs > 0) {
-          setTimeout(async () => {
-            try {
-              await player.seekTo(savedPositionMs / 1000); // Convert ms to seconds
-              hasRestoredPosition.current = true;
-              currentPositionRef.current = savedPositionMs;
-              console.log('✅ [AudioPlayer] Position restored successfully');
-            } catch (error) {
-              console.error('Error restoring position:', error);
-            }
-          }, 100);
-        } else {
-          hasRestoredPosition.current = true;
-        }
-
-        setIsLoading(false);
-      } catch (error) {
-        console.error('Error loading audio:', error);
-        setIsLoading(false);
-      }
-    };
-
-    restorePlaybackState();
-
-    return () => {
-      // Save position on cleanup
-      const currentPos = currentPositionRef.current;
-      if (currentPos > 0) {
-        savePlaybackPosition(currentPos).catch(err =>
-          console.error('Error saving position in cleanup:', err)
-        );
-      }
-    };
-  }, [player, audioUrl, itemId, savePlaybackPosition]);
-
-  // Update position and duration from status hook
-  useEffect(() => {
-    if (!status || !isMounted.current) return;
-
-    // Convert seconds to milliseconds for internal state consistency
-    const newPositionMs = (status.currentTime || 0) * 1000;
-    const newDurationMs = (status.duration || 0) * 1000;
-
-    setPosition(newPositionMs);
-    currentPositionRef.current = newPositionMs;
-    setDuration(newDurationMs);
-
-    // Handle playback completion - expo-audio requires manual reset
-    if (status.didJustFinish) {
-      console.log('🏁 [AudioPlayer] Playback finished');
-      // Save position at end
-      savePlaybackPosition(newDurationMs);
-
-      // Manually reset position (expo-audio doesn't auto-reset)
-      player.seekTo(0).then(() => {
-        setPosition(0);
-        currentPositionRef.current = 0;
-        console.log('↩️  [AudioPlayer] Position reset to start');
-      }).catch(err => {
-        console.error('Error resetting position:', err);
-      });
-    }
-  }, [status, player, savePlaybackPosition]);
-
-  // Auto-save position during playback (debounced every 10 seconds)
-  useEffect(() => {
-    if (!status?.playing || !hasRestoredPosition.current) {
-      return;
-    }
-
-    // Clear existing timeout
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
-
-    // Set new timeout to save position
-    saveTimeoutRef.current = setTimeout(() => {
-      if (position > 0) {
-        savePlaybackPosition(position);
-      }
-    }, 10000); // Save every 10 seconds during playback
-
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
-    };
-  }, [position, status?.playing, savePlaybackPosition]);
+  };
 
   const togglePlayPause = () => {
-    if (!player) return;
-
-    try {
-      if (status?.playing) {
-        player.pause(); // Synchronous in expo-audio
-        // Immediately save position when pausing
-        if (position > 0) {
-          savePlaybackPosition(position);
-        }
-      } else {
-        player.play(); // Synchronous in expo-audio
-      }
-    } catch (error) {
-      console.error('Error toggling play/pause:', error);
+    if (isCurrent) {
+      audioPlaybackService.togglePlayPause();
+    } else {
+      play();
     }
   };
 
-  const handleSeek = async (value: number) => {
-    if (!player) return;
-
-    try {
-      // Convert milliseconds to seconds for expo-audio
-      await player.seekTo(value / 1000);
-    } catch (error) {
-      console.error('Error seeking:', error);
+  const seek = (positionMs: number) => {
+    if (isCurrent) {
+      audioPlaybackService.seekTo(positionMs);
+    } else {
+      play(Math.max(0, duration > 0 ? Math.min(positionMs, duration) : positionMs));
     }
   };
 
-  const skip = async (seconds: number) => {
-    if (!player) return;
+  const cyclePlaybackRate = async () => {
+    const currentIndex = RATES.indexOf(playbackRate);
+    const nextRate = RATES[(currentIndex + 1) % RATES.length];
 
-    try {
-      const newPositionMs = Math.max(0, Math.min(duration, position + (seconds * 1000)));
-      // Convert milliseconds to seconds for expo-audio
-      await player.seekTo(newPositionMs / 1000);
-    } catch (error) {
-      console.error('Error skipping:', error);
+    if (isCurrent) {
+      audioPlaybackService.setRate(nextRate);
+      return;
     }
-  };
-
-  const cyclePlaybackRate = () => {
-    if (!player) return;
-
-    const rates = [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0];
-    const currentIndex = rates.indexOf(playbackRate);
-    const nextRate = rates[(currentIndex + 1) % rates.length];
-
     try {
-      player.setPlaybackRate(nextRate, 'high'); // Synchronous in expo-audio
-      setPlaybackRate(nextRate);
-      // Save new playback rate
-      savePlaybackPosition(position, nextRate);
+      await itemTypeMetadataActions.upsertTypeMetadata({
+        item_id: itemId,
+        content_type: metadata?.content_type || 'podcast',
+        data: { ...metadata?.data, playback_rate: nextRate },
+      });
     } catch (error) {
       console.error('Error changing playback rate:', error);
     }
   };
 
-  const formatTime = (millis: number) => {
-    const totalSeconds = Math.floor(millis / 1000);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
+  const handlePlayNext = () => {
+    audioPlayerActions.playNext(itemId);
+    showToast({ message: 'Playing next', type: 'success' });
+  };
 
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  const handleAddToQueue = () => {
+    if (audioPlayerActions.addToQueue(itemId)) {
+      showToast({ message: 'Added to queue', type: 'success' });
     }
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const iconColor = isDarkMode ? '#FFF' : '#000';
+
   return (
     <View style={[styles.container, isDarkMode && styles.containerDark]}>
       {/* Playback controls */}
       <View style={styles.controls}>
         <TouchableOpacity
-          onPress={() => skip(-15)}
+          onPress={() => seek(position - 15000)}
           style={styles.skipButton}
           activeOpacity={0.7}
         >
-          <MaterialIcons
-            name="replay-10"
-            size={32}
-            color={isDarkMode ? '#FFF' : '#000'}
-          />
+          <MaterialIcons name="replay-10" size={32} color={iconColor} />
         </TouchableOpacity>
 
         <TouchableOpacity
@@ -283,25 +127,19 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ itemId, audioUrl, isDarkMode
           disabled={isLoading}
           activeOpacity={0.7}
         >
-          {isLoading ? (
-            <MaterialIcons name="hourglass-empty" size={40} color={isDarkMode ? '#000' : '#FFF'} />
-          ) : status?.playing ? (
-            <MaterialIcons name="pause" size={40} color={isDarkMode ? '#000' : '#FFF'} />
-          ) : (
-            <MaterialIcons name="play-arrow" size={40} color={isDarkMode ? '#000' : '#FFF'} />
-          )}
+          <MaterialIcons
+            name={isLoading ? 'hourglass-empty' : isPlaying ? 'pause' : 'play-arrow'}
+            size={40}
+            color={isDarkMode ? '#000' : '#FFF'}
+          />
         </TouchableOpacity>
 
         <TouchableOpacity
-          onPress={() => skip(30)}
+          onPress={() => seek(position + 30000)}
           style={styles.skipButton}
           activeOpacity={0.7}
         >
-          <MaterialIcons
-            name="forward-30"
-            size={32}
-            color={isDarkMode ? '#FFF' : '#000'}
-          />
+          <MaterialIcons name="forward-30" size={32} color={iconColor} />
         </TouchableOpacity>
       </View>
 
@@ -313,7 +151,7 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ itemId, audioUrl, isDarkMode
         <Host style={styles.slider}>
           <Slider
             value={duration > 0 ? position / duration : 0}
-            onValueChange={(value) => handleSeek(value * duration)}
+            onValueChange={(value) => seek(value * duration)}
           />
         </Host>
         <Text style={[styles.timeText, isDarkMode && styles.timeTextDark]}>
@@ -321,21 +159,120 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ itemId, audioUrl, isDarkMode
         </Text>
       </View>
 
-      {/* Playback rate button */}
-      <View style={styles.rateContainer}>
+      {/* Playback rate and skip silence */}
+      <View style={styles.optionsRow}>
         <TouchableOpacity
           onPress={cyclePlaybackRate}
-          style={[styles.rateButton, isDarkMode && styles.rateButtonDark]}
+          style={[styles.pill, isDarkMode && styles.pillDark]}
           activeOpacity={0.7}
         >
-          <Text style={[styles.rateText, isDarkMode && styles.rateTextDark]}>
+          <Text style={[styles.pillText, isDarkMode && styles.pillTextDark]}>
             {playbackRate}x
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => audioPlayerActions.setSkipSilence(!skipSilence)}
+          style={[styles.pill, isDarkMode && styles.pillDark, skipSilence && styles.pillActive]}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.pillText, isDarkMode && styles.pillTextDark, skipSilence && styles.pillTextActive]}>
+            {isSkippingSilence ? 'Skipping silence' : 'Skip silence'}
+          </Text>
+        </TouchableOpacity>
       </View>
+
+      {/* Queue actions for an item that isn't playing */}
+      {!isCurrent && (
+        <View style={styles.optionsRow}>
+          <TouchableOpacity onPress={handlePlayNext} style={styles.queueButton} activeOpacity={0.7}>
+            <MaterialIcons name="playlist-play" size={20} color="#007AFF" />
+            <Text style={styles.queueButtonText}>Play next</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleAddToQueue}
+            style={styles.queueButton}
+            disabled={isQueued}
+            activeOpacity={0.7}
+          >
+            <MaterialIcons name={isQueued ? 'playlist-add-check' : 'playlist-add'} size={20} color={isQueued ? '#8E8E93' : '#007AFF'} />
+            <Text style={[styles.queueButtonText, isQueued && styles.queueButtonTextDisabled]}>
+              {isQueued ? 'In queue' : 'Add to queue'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Chapters */}
+      {chapters.length > 0 && (
+        <View style={styles.list}>
+          <View style={styles.listHeader}>
+            <Text style={styles.listLabel}>Chapters</Text>
+            {isCurrent && (
+              <View style={styles.chapterNav}>
+                <TouchableOpacity onPress={() => audioPlaybackService.previousChapter()} activeOpacity={0.7}>
+                  <MaterialIcons name="skip-previous" size={22} color={iconColor} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => audioPlaybackService.nextChapter()} activeOpacity={0.7}>
+                  <MaterialIcons name="skip-next" size={22} color={iconColor} />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+          {chapters.map((chapter, index) => (
+            <TouchableOpacity
+              key={`${chapter.start_ms}-${index}`}
+              style={styles.listRow}
+              onPress={() => seek(chapter.start_ms)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.chapterTime}>{formatTime(chapter.start_ms)}</Text>
+              <Text
+                style={[
+                  styles.listText,
+                  isDarkMode && styles.listTextDark,
+                  index === currentChapterIndex && styles.listTextActive,
+                ]}
+                numberOfLines={1}
+              >
+                {chapter.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Up next */}
+      {upNext.length > 0 && (
+        <View style={styles.list}>
+          <View style={styles.listHeader}>
+            <Text style={styles.listLabel}>Up next</Text>
+            <TouchableOpacity onPress={() => audioPlayerActions.clearQueue()} activeOpacity={0.7}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {upNext.map(queued => (
+            <View key={queued.id} style={styles.listRow}>
+              <TouchableOpacity
+                style={styles.listRowMain}
+                onPress={() => audioPlaybackService.playItem(queued.id).catch(error => {
+                  console.error('Error playing queued item:', error);
+                })}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.listText, isDarkMode && styles.listTextDark]} numberOfLines={1}>
+                  {queued.title}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => audioPlayerActions.removeFromQueue(queued.id)} activeOpacity={0.7}>
+                <MaterialIcons name="close" size={18} color="#8E8E93" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
-};
+});
 
 export default AudioPlayer;
 
@@ -394,25 +331,99 @@ const styles = StyleSheet.create({
   timeTextDark: {
     color: '#999',
   },
-  rateContainer: {
+  optionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
     marginTop: 8,
-    alignItems: 'center',
   },
-  rateButton: {
+  pill: {
     paddingHorizontal: 16,
     paddingVertical: 8,
     backgroundColor: '#E5E5EA',
     borderRadius: 16,
   },
-  rateButtonDark: {
+  pillDark: {
     backgroundColor: '#3A3A3C',
   },
-  rateText: {
+  pillActive: {
+    backgroundColor: '#007AFF',
+  },
+  pillText: {
     fontSize: 14,
     fontWeight: '600',
     color: '#000',
   },
-  rateTextDark: {
+  pillTextDark: {
+    color: '#FFF',
+  },
+  pillTextActive: {
     color: '#FFF',
   },
+  queueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  queueButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  queueButtonTextDisabled: {
+    color: '#8E8E93',
+  },
+  list: {
+    marginTop: 16,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  listLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+  },
+  chapterNav: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  listRowMain: {
+    flex: 1,
+  },
+  chapterTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+    fontVariant: ['tabular-nums'],
+    minWidth: 45,
+  },
+  listText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  listTextDark: {
+    color: '#CCC',
+  },
+  listTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
 });
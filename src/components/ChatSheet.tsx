@@ -31,6 +31,8 @@ import Animated, {
 } from 'react-native-reanimated';
 import { themeStore } from '../stores/theme';
 import { chatUIStore, chatUIActions } from '../stores/chatUI';
+import { expandedItemUIActions } from '../stores/expandedItemUI';
+import { audioPlayerComputed } from '../stores/audioPlayer';
 import { aiSettingsComputed } from '../stores/aiSettings';
 import { itemChatsActions, itemChatsComputed } from '../stores/itemChats';
 import { chatMessagesActions, chatMessagesComputed } from '../stores/chatMessages';
@@ -38,17 +40,24 @@ import { videoTranscriptsComputed, videoTranscriptsActions } from '../stores/vid
 import { imageDescriptionsComputed, imageDescriptionsActions } from '../stores/imageDescriptions';
 import { itemTypeMetadataComputed } from '../stores/itemTypeMetadata';
 import { buildItemContext, formatContextMetadata } from '../services/contextBuilder';
+import { retrieveItemExcerpts } from '../services/embeddings/itemRetrieval';
 import { openai } from '../services/openai';
+import { getVisionModel } from '../services/llm';
 import { getYouTubeTranscript } from '../services/youtube';
 import { getXVideoTranscript } from '../services/twitter';
 import { serpapi } from '../services/serpapi';
 import { adminSettingsComputed } from '../stores/adminSettings';
 import { trackApiUsage } from '../services/apiUsageTracking';
+import { audioPlaybackService } from '../services/audioPlayback';
 import { useToast } from '../contexts/ToastContext';
 import { Item, ItemChat, ChatMessage, VideoTranscript } from '../types';
 import { COLORS } from '../constants';
+import { splitTimestamps } from '../utils/mediaTimestamps';
 import uuid from 'react-native-uuid';
 
+// Videos seek through the expanded item's player; audio items through the app-wide player
+const SEEKABLE_VIDEO_TYPES = ['youtube', 'youtube_short'];
+
 interface ChatSheetProps {
   onOpen?: () => void;
   onClose?: () => void;
@@ -67,6 +76,8 @@ const ChatSheet = observer(
     const [chat, setChat] = useState<ItemChat | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [isTyping, setIsTyping] = useState(false);
+    // Text of the reply currently being streamed; saved as a message once the stream ends
+    const [streamingText, setStreamingText] = useState('');
     const [isFetchingTranscript, setIsFetchingTranscript] = useState(false);
     const [isFetchingImageDescriptions, setIsFetchingImageDescriptions] = useState(false);
     const [showModelSwitchBanner, setShowModelSwitchBanner] = useState(false);
@@ -75,6 +86,7 @@ const ChatSheet = observer(
     const [hasShownModelSwitchBanner, setHasShownModelSwitchBanner] = useState(false);
     const [showManualSuggestions, setShowManualSuggestions] = useState(false);
     const scrollViewRef = useRef<ScrollView>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const snapPoints = useMemo(() => ['90%'], []);
     const selectedModel = aiSettingsComputed.selectedModel();
@@ -82,6 +94,8 @@ const ChatSheet = observer(
     // Reset input state when switching items/chats
     useEffect(() => {
       setInputText('');
+      abortControllerRef.current?.abort();
+      setStreamingText('');
       setIsTyping(false);
       setHasShownModelSwitchBanner(false); // Reset banner flag for new chat
       setShowModelSwitchBanner(false);
@@ -290,7 +304,7 @@ const ChatSheet = observer(
 
         for (const imageUrl of imageUrls) {
           const description = await openai.describeImage(imageUrl, {
-            model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+            model: getVisionModel(selectedModel),
           });
 
           if (description) {
@@ -299,7 +313,7 @@ const ChatSheet = observer(
               item_id: item.id,
               image_url: imageUrl,
               description,
-              model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+              model: getVisionModel(selectedModel),
               fetched_at: new Date().toISOString(),
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
@@ -328,6 +342,13 @@ const ChatSheet = observer(
       }
     }, [messages.length]);
 
+    // Keep the streaming reply in view as it grows
+    useEffect(() => {
+      if (streamingText) {
+        scrollViewRef.current?.scrollToEnd({ animated: false });
+      }
+    }, [streamingText]);
+
     const handleSend = async () => {
       if (!inputText.trim() || !item || !chat || isTyping) return;
 
@@ -345,8 +366,10 @@ const ChatSheet = observer(
         );
         setMessages(prev => [...prev, userMsg]);
 
-        // Build context from item (transcript auto-fetched when chat opened)
-        const { contextString, metadata } = buildItemContext(item);
+        // Build context from item (transcript auto-fetched when chat opened);
+        // long transcripts/articles are cut down to the sections relevant to this question
+        const excerpts = await retrieveItemExcerpts(item, userMessage);
+        const { contextString, metadata } = buildItemContext(item, { excerpts });
 
         // Get previous messages for conversation history
         const previousMessages = messages
@@ -368,7 +391,9 @@ const ChatSheet = observer(
           console.log(`  📏 Total previous message chars: ${totalPrevChars.toLocaleString()}`);
         }
 
-        // Call OpenAI API
+        // Stream the reply; the stop button aborts through this controller
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         const completion = await openai.chatWithContextEnhanced(
           contextString,
           userMessage,
@@ -377,6 +402,7 @@ const ChatSheet = observer(
             model: selectedModel,
             temperature: 0.7,
             max_tokens: 1500,
+            stream: { onText: setStreamingText, signal: controller.signal },
           }
         );
 
@@ -398,13 +424,20 @@ const ChatSheet = observer(
           }
 
           const assistantMessage = completion.choices[0].message.content;
+          const stopped = completion.choices[0].finish_reason === 'aborted';
+          // Stopped before any text arrived - nothing worth keeping
+          if (stopped && !assistantMessage) return;
+
+          // Usage is only reported at the end of a stream, so stopped replies have none
           const messageMetadata = {
             model: completion.model,
-            tokens: {
-              prompt: completion.usage.prompt_tokens,
-              completion: completion.usage.completion_tokens,
-              total: completion.usage.total_tokens,
-            },
+            ...(stopped ? { stopped: true } : {
+              tokens: {
+                prompt: completion.usage.prompt_tokens,
+                completion: completion.usage.completion_tokens,
+                total: completion.usage.total_tokens,
+              },
+            }),
             timestamp: new Date().toISOString(),
             context_version: '1.0',
           };
@@ -438,6 +471,8 @@ const ChatSheet = observer(
         );
         setMessages(prev => [...prev, errorMsg]);
       } finally {
+        abortControllerRef.current = null;
+        setStreamingText('');
         setIsTyping(false);
       }
     };
@@ -697,7 +732,7 @@ const ChatSheet = observer(
         { label: 'Green txt 3', prompt: 'If this content covers many topics, pick the most interesting or coherent story to turn into a 4chan-style greentext. Start each line with ">". Keep it short, readable, and connect the key moments naturally.' },
       ];
 
-      const videoAudioTypes = ['youtube', 'youtube_short', 'podcast', 'audio', 'video'];
+      const videoAudioTypes = ['youtube', 'youtube_short', 'podcast', 'podcast_episode', 'audio', 'video'];
       const socialMediaTypes = ['x', 'reddit', 'threads', 'instagram', 'facebook'];
       const educationalTypes = ['article', 'course', 'book', 'pdf'];
       const productTypes = ['amazon', 'product'];
@@ -760,8 +795,10 @@ const ChatSheet = observer(
         );
         setMessages(prev => [...prev, userMsg]);
 
-        // Build context from item (transcript auto-fetched when chat opened)
-        const { contextString, metadata } = buildItemContext(item!);
+        // Build context from item (transcript auto-fetched when chat opened);
+        // long transcripts/articles are cut down to the sections relevant to this question
+        const excerpts = await retrieveItemExcerpts(item!, prompt);
+        const { contextString, metadata } = buildItemContext(item!, { excerpts });
 
         // Get previous messages for conversation history
         const previousMessages = messages
@@ -771,7 +808,9 @@ const ChatSheet = observer(
             content: m.content,
           }));
 
-        // Call OpenAI API
+        // Stream the reply; the stop button aborts through this controller
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         const completion = await openai.chatWithContextEnhanced(
           contextString,
           prompt,
@@ -780,6 +819,7 @@ const ChatSheet = observer(
             model: selectedModel,
             temperature: 0.7,
             max_tokens: 1500,
+            stream: { onText: setStreamingText, signal: controller.signal },
           }
         );
 
@@ -801,13 +841,20 @@ const ChatSheet = observer(
           }
 
           const assistantMessage = completion.choices[0].message.content;
+          const stopped = completion.choices[0].finish_reason === 'aborted';
+          // Stopped before any text arrived - nothing worth keeping
+          if (stopped && !assistantMessage) return;
+
+          // Usage is only reported at the end of a stream, so stopped replies have none
           const messageMetadata = {
             model: completion.model,
-            tokens: {
-              prompt: completion.usage.prompt_tokens,
-              completion: completion.usage.completion_tokens,
-              total: completion.usage.total_tokens,
-            },
+            ...(stopped ? { stopped: true } : {
+              tokens: {
+                prompt: completion.usage.prompt_tokens,
+                completion: completion.usage.completion_tokens,
+                total: completion.usage.total_tokens,
+              },
+            }),
             timestamp: new Date().toISOString(),
             context_version: '1.0',
           };
@@ -841,14 +888,57 @@ const ChatSheet = observer(
         );
         setMessages(prev => [...prev, errorMsg]);
       } finally {
+        abortControllerRef.current = null;
+        setStreamingText('');
         setIsTyping(false);
       }
     };
 
+    // Cited timestamps jump the item's player there
+    const isSeekableVideo = !!item && SEEKABLE_VIDEO_TYPES.includes(item.content_type);
+    const isPlayableAudio = !!item && audioPlayerComputed.isPlayable(item.id);
+    const handleTimestampPress = (positionMs: number) => {
+      if (!item) return;
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      chatUIActions.closeChat();
+      if (isSeekableVideo) {
+        expandedItemUIActions.seekMedia(item, positionMs);
+      } else {
+        audioPlaybackService.playItem(item.id, { positionMs });
+      }
+    };
+    const onTimestampPress = isSeekableVideo || isPlayableAudio ? handleTimestampPress : undefined;
+
+    const handleStop = () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      abortControllerRef.current?.abort();
+    };
+
     const renderTypingIndicator = () => {
       return <TypingIndicator isDarkMode={isDarkMode} />;
     };
 
+    // The reply in progress, shown as a regular bubble until it's saved
+    const renderStreamingMessage = () => {
+      if (!chat) return null;
+      return (
+        <MessageBubble
+          message={{
+            id: 'streaming',
+            chat_id: chat.id,
+            chat_type: 'item',
+            role: 'assistant',
+            content: streamingText,
+            created_at: new Date().toISOString(),
+          }}
+          isUser={false}
+          isDarkMode={isDarkMode}
+          time="Typing..."
+          onCopy={handleCopyMessage}
+        />
+      );
+    };
+
     const renderMessage = (message: ChatMessage, index: number) => {
       const isUser = message.role === 'user';
       const isSystem = message.role === 'system';
@@ -871,6 +961,7 @@ const ChatSheet = observer(
           time={time}
           modelName={modelName}
           onCopy={handleCopyMessage}
+          onTimestampPress={onTimestampPress}
         />
       );
     };
@@ -973,7 +1064,7 @@ const ChatSheet = observer(
 
             {messages.map((msg, idx) => renderMessage(msg, idx))}
 
-            {isTyping && renderTypingIndicator()}
+            {isTyping && (streamingText ? renderStreamingMessage() : renderTypingIndicator())}
 
             <View style={{ height: 20 }} />
           </BottomSheetScrollView>
@@ -1029,20 +1120,25 @@ const ChatSheet = observer(
                 maxLength={1000}
                 editable={!isTyping}
               />
-              <TouchableOpacity
-                style={[
-                  styles.sendButton,
-                  ((!inputText.trim() || isTyping || !chat) && styles.sendButtonDisabled),
-                ]}
-                onPress={handleSend}
-                disabled={!inputText.trim() || isTyping || !chat}
-              >
-                {isTyping ? (
-                  <ActivityIndicator size="small" color="#fff" />
-                ) : (
+              {isTyping ? (
+                <TouchableOpacity
+                  style={[styles.sendButton, styles.stopButton]}
+                  onPress={handleStop}
+                >
+                  <MaterialIcons name="stop" size={20} color="#fff" />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[
+                    styles.sendButton,
+                    ((!inputText.trim() || !chat) && styles.sendButtonDisabled),
+                  ]}
+                  onPress={handleSend}
+                  disabled={!inputText.trim() || !chat}
+                >
                   <MaterialIcons name="send" size={20} color="#fff" />
-                )}
-              </TouchableOpacity>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </View>
@@ -1059,9 +1155,11 @@ interface MessageBubbleProps {
   time: string;
   modelName?: string;
   onCopy: (content: string) => void;
+  // Makes [mm:ss] citations in assistant replies tappable
+  onTimestampPress?: (positionMs: number) => void;
 }
 
-const MessageBubble = observer(({ message, isUser, isDarkMode, time, modelName, onCopy }: MessageBubbleProps) => {
+const MessageBubble = observer(({ message, isUser, isDarkMode, time, modelName, onCopy, onTimestampPress }: MessageBubbleProps) => {
   const scale = useSharedValue(1);
 
   const handleLongPress = () => {
@@ -1101,13 +1199,28 @@ const MessageBubble = observer(({ message, isUser, isDarkMode, time, modelName,
               !isUser && isDarkMode && styles.assistantMessageTextDark,
             ]}
           >
-            {message.content}
+            {!isUser && onTimestampPress
+              ? splitTimestamps(message.content).map((part, idx) =>
+                  part.type === 'timestamp' ? (
+                    <Text
+                      key={idx}
+                      style={styles.timestampLink}
+                      onPress={() => onTimestampPress(part.ms)}
+                    >
+                      {part.text}
+                    </Text>
+                  ) : (
+                    part.text
+                  )
+                )
+              : message.content}
           </Text>
         </Animated.View>
       </Pressable>
       <Text style={[styles.messageTime, isDarkMode && styles.messageTimeDark]}>
         {modelName && !isUser && `${modelName} • `}
         {time}
+        {message.metadata?.stopped && ' • Stopped'}
       </Text>
     </View>
   );
@@ -1427,6 +1540,13 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     opacity: 0.5,
   },
+  stopButton: {
+    backgroundColor: COLORS.danger,
+  },
+  timestampLink: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
 });
 
 export default ChatSheet;
@@ -18,6 +18,7 @@ import { themeStore } from '../stores/theme';
 import { spacesActions } from '../stores/spaces';
 import { authComputed } from '../stores/auth';
 import { Space } from '../types';
+import { previewSmartRule } from '../services/smartSpaces';
 
 interface CreateSpaceSheetProps {
   onSpaceCreated?: (space: Space) => void;
@@ -38,6 +39,9 @@ const CreateSpaceSheet = observer(
     const [spaceDescription, setSpaceDescription] = useState('');
     // Emoji selection removed
     const [selectedColor, setSelectedColor] = useState('#4ECDC4');
+    // Optional rule text - when set, the space is a smart space
+    const [ruleText, setRuleText] = useState('');
+    const rulePreview = useMemo(() => previewSmartRule(ruleText), [ruleText]);
     
     // Snap points for the bottom sheet - single snap point to prevent sheet closing
     const snapPoints = useMemo(() => ['94%'], []);
@@ -67,6 +71,11 @@ const CreateSpaceSheet = observer(
         return;
       }
 
+      if (rulePreview.errors.length > 0) {
+        Alert.alert('Invalid rule', rulePreview.errors[0].message);
+        return;
+      }
+
       // Dismiss keyboard
       Keyboard.dismiss();
 
@@ -76,6 +85,7 @@ const CreateSpaceSheet = observer(
         description: spaceDescription.trim(),
         color: selectedColor,
         // icon field removed - no emoji selection
+        smart_rule: rulePreview.rule,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         user_id: userId,
@@ -89,6 +99,7 @@ const CreateSpaceSheet = observer(
       setSpaceDescription('');
       // emoji reset removed
       setSelectedColor('#4ECDC4');
+      setRuleText('');
 
       // Close sheet
       (ref as any)?.current?.close();
@@ -102,6 +113,7 @@ const CreateSpaceSheet = observer(
       setSpaceDescription('');
       // emoji reset removed
       setSelectedColor('#4ECDC4');
+      setRuleText('');
       (ref as any)?.current?.close();
     };
 
@@ -189,6 +201,39 @@ const CreateSpaceSheet = observer(
             />
           </View>
 
+          {/* Smart rule */}
+          <View style={styles.section}>
+            <Text style={[styles.label, isDarkMode && styles.labelDark]}>
+              SMART RULE (OPTIONAL)
+            </Text>
+            <BottomSheetTextInput
+              style={[styles.input, isDarkMode && styles.inputDark]}
+              placeholder="type:youtube tag:ml domain:github.com after:2025-01"
+              placeholderTextColor={isDarkMode ? '#666' : '#999'}
+              value={ruleText}
+              onChangeText={setRuleText}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {ruleText.trim() ? (
+              <Text
+                style={[
+                  styles.ruleHint,
+                  isDarkMode && styles.ruleHintDark,
+                  rulePreview.errors.length > 0 && styles.ruleError,
+                ]}
+              >
+                {rulePreview.errors.length > 0
+                  ? rulePreview.errors[0].message
+                  : `Smart space · currently matches ${rulePreview.matchCount} ${rulePreview.matchCount === 1 ? 'item' : 'items'}`}
+              </Text>
+            ) : (
+              <Text style={[styles.ruleHint, isDarkMode && styles.ruleHintDark]}>
+                Items matching the rule appear automatically
+              </Text>
+            )}
+          </View>
+
           {/* Color Selection */}
           <View style={styles.section}>
             <Text style={[styles.label, isDarkMode && styles.labelDark]}>
@@ -326,6 +371,17 @@ const styles = StyleSheet.create({
     textAlignVertical: 'top',
   },
   // Emoji-related styles removed
+  ruleHint: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#666666',
+  },
+  ruleHintDark: {
+    color: '#999999',
+  },
+  ruleError: {
+    color: '#FF3B30',
+  },
   colorGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -17,6 +17,7 @@ import { themeStore } from '../stores/theme';
 import { spacesActions } from '../stores/spaces';
 import { Space } from '../types';
 import { syncService } from '../services/syncService';
+import { previewSmartRule, ruleToQuery } from '../services/smartSpaces';
 
 interface EditSpaceSheetProps {
   onSpaceUpdated?: (space: Space) => void;
@@ -40,6 +41,9 @@ const EditSpaceSheet = observer(
     const [spaceName, setSpaceName] = useState('');
     const [spaceDescription, setSpaceDescription] = useState('');
     const [selectedColor, setSelectedColor] = useState('#4ECDC4');
+    const [ruleText, setRuleText] = useState('');
+    const isSmart = !!currentSpace?.smart_rule;
+    const rulePreview = useMemo(() => previewSmartRule(isSmart ? ruleText : ''), [isSmart, ruleText]);
     
     // Expose methods to parent
     useImperativeHandle(ref, () => ({
@@ -48,6 +52,7 @@ const EditSpaceSheet = observer(
         setSpaceName(space.name);
         setSpaceDescription(space.description || '');
         setSelectedColor(space.color);
+        setRuleText(space.smart_rule ? ruleToQuery(space.smart_rule) : '');
         bottomSheetRef.current?.snapToIndex(0);
       }
     }));
@@ -76,11 +81,21 @@ const EditSpaceSheet = observer(
         return;
       }
 
+      if (isSmart && !rulePreview.rule) {
+        Alert.alert('Error', 'Smart spaces need a rule');
+        return;
+      }
+      if (rulePreview.errors.length > 0) {
+        Alert.alert('Invalid rule', rulePreview.errors[0].message);
+        return;
+      }
+
       const updatedSpace: Space = {
         ...currentSpace,
         name: spaceName.trim(),
         description: spaceDescription.trim(),
         color: selectedColor,
+        ...(isSmart ? { smart_rule: rulePreview.rule } : {}),
         updated_at: new Date().toISOString(),
       };
 
@@ -231,6 +246,32 @@ const EditSpaceSheet = observer(
             />
           </View>
 
+          {/* Smart rule (smart spaces only) */}
+          {isSmart && (
+            <View style={styles.section}>
+              <Text style={[styles.label, isDarkMode && styles.labelDark]}>Smart Rule</Text>
+              <BottomSheetTextInput
+                style={[styles.input, isDarkMode && styles.inputDark]}
+                value={ruleText}
+                onChangeText={setRuleText}
+                placeholder="type:youtube tag:ml domain:github.com"
+                placeholderTextColor={isDarkMode ? '#666' : '#999'}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text
+                style={[
+                  styles.ruleHint,
+                  isDarkMode && styles.ruleHintDark,
+                  rulePreview.errors.length > 0 && styles.ruleError,
+                ]}
+              >
+                {rulePreview.errors.length > 0
+                  ? rulePreview.errors[0].message
+                  : `Currently matches ${rulePreview.matchCount} ${rulePreview.matchCount === 1 ? 'item' : 'items'}`}
+              </Text>
+            </View>
+          )}
 
           {/* Color Selector */}
           <View style={styles.section}>
@@ -381,6 +422,17 @@ const styles = StyleSheet.create({
   selectedOption: {
     borderColor: '#007AFF',
   },
+  ruleHint: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#666666',
+  },
+  ruleHintDark: {
+    color: '#999999',
+  },
+  ruleError: {
+    color: '#FF3B30',
+  },
   colorGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
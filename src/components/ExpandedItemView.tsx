@@ -11,6 +11,9 @@ import MovieTVItemView from './itemViews/MovieTVItemView';
 import DefaultItemView from './itemViews/DefaultItemView';
 import NoteItemView from './itemViews/NoteItemView';
 import PodcastItemView from './itemViews/PodcastItemView';
+import GitHubItemView from './itemViews/GitHubItemView';
+import PdfItemView from './itemViews/PdfItemView';
+import { ItemConflictsSection } from './itemViews/components';
 import LoadingOverlay from './LoadingOverlay';
 
 interface ExpandedItemViewProps {
@@ -109,6 +112,10 @@ const ExpandedItemView = observer(
       case 'podcast':
       case 'podcast_episode':
         return <PodcastItemView {...commonProps} />;
+      case 'github':
+        return <GitHubItemView {...commonProps} />;
+      case 'pdf':
+        return <PdfItemView {...commonProps} />;
       default:
         return <DefaultItemView {...commonProps} />;
     }
@@ -142,6 +149,7 @@ const ExpandedItemView = observer(
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
+        {item && <ItemConflictsSection itemId={item.id} isDarkMode={isDarkMode} />}
         {renderItemView()}
       </BottomSheetScrollView>
 
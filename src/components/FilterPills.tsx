@@ -3,9 +3,10 @@ import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-nati
 import { observer } from '@legendapp/state/react';
 import { Ionicons } from '@expo/vector-icons';
 import { themeStore } from '../stores/theme';
-import { filterStore, filterActions } from '../stores/filter';
+import { filterStore, filterActions, filterComputed } from '../stores/filter';
 import { spacesComputed } from '../stores/spaces';
 import { ContentType } from '../types';
+import { resolveContentType, SearchFilter } from '../services/search/queryParser';
 
 // Map content types to display names (partial - only commonly filtered types)
 const CONTENT_TYPE_LABELS: Partial<Record<ContentType, string>> = {
@@ -26,6 +27,26 @@ const CONTENT_TYPE_LABELS: Partial<Record<ContentType, string>> = {
   video: 'Video',
 };
 
+// Human-readable label for a filter typed into the search box
+const getQueryFilterLabel = (filter: SearchFilter): string => {
+  let label: string;
+  switch (filter.key) {
+    case 'type': {
+      const type = resolveContentType(filter.value);
+      label = (type && CONTENT_TYPE_LABELS[type]) || filter.value;
+      break;
+    }
+    case 'space': label = `Space: ${filter.value}`; break;
+    case 'before': label = `Before ${filter.value}`; break;
+    case 'after': label = `After ${filter.value}`; break;
+    case 'is': label = filter.value.charAt(0).toUpperCase() + filter.value.slice(1).toLowerCase(); break;
+    case 'author': label = `By ${filter.value}`; break;
+    case 'has': label = `Has ${filter.value.toLowerCase()}`; break;
+    default: label = filter.value;
+  }
+  return filter.negated ? `Not ${label}` : label;
+};
+
 const FilterPills = observer(() => {
   const isDarkMode = themeStore.isDarkMode.get();
   const selectedContentType = filterStore.selectedContentType.get();
@@ -33,12 +54,13 @@ const FilterPills = observer(() => {
   const selectedSpaceId = filterStore.selectedSpaceId.get();
   const showArchived = filterStore.showArchived.get();
   const spaces = spacesComputed.activeSpaces();
+  const queryFilters = filterComputed.parsedSearchQuery().filters;
 
   // Get selected space name
   const selectedSpace = selectedSpaceId ? spaces.find(s => s.id === selectedSpaceId) : null;
 
   // Don't render anything if no filters are active
-  if (!selectedContentType && selectedTags.length === 0 && !selectedSpaceId && !showArchived) {
+  if (!selectedContentType && selectedTags.length === 0 && !selectedSpaceId && !showArchived && queryFilters.length === 0) {
     return null;
   }
 
@@ -58,6 +80,10 @@ const FilterPills = observer(() => {
     filterActions.setShowArchived(false);
   };
 
+  const handleRemoveQueryFilter = (filter: SearchFilter) => {
+    filterActions.removeQueryFilter(filter);
+  };
+
   return (
     <View style={[styles.container, isDarkMode && styles.containerDark]}>
       <ScrollView
@@ -150,6 +176,35 @@ const FilterPills = observer(() => {
             </TouchableOpacity>
           </View>
         ))}
+
+        {/* Filters typed into the search box (type:, tag:, space:, ...) */}
+        {queryFilters.map((filter) => (
+          <View
+            key={`${filter.start}-${filter.key}:${filter.value}`}
+            style={[styles.pill, styles.queryPill, isDarkMode && styles.pillDark, isDarkMode && styles.queryPillDark]}
+          >
+            <Ionicons
+              name="search"
+              size={12}
+              color={isDarkMode ? '#F2F2F7' : '#333'}
+              style={{ marginRight: 2 }}
+            />
+            <Text style={[styles.pillText, isDarkMode && styles.pillTextDark]}>
+              {getQueryFilterLabel(filter)}
+            </Text>
+            <TouchableOpacity
+              onPress={() => handleRemoveQueryFilter(filter)}
+              style={styles.removeButton}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons
+                name="close-circle"
+                size={16}
+                color={isDarkMode ? '#8E8E93' : '#666'}
+              />
+            </TouchableOpacity>
+          </View>
+        ))}
       </ScrollView>
     </View>
   );
@@ -196,6 +251,13 @@ const styles = StyleSheet.create({
   archivePill: {
     backgroundColor: '#FF950020',
   },
+  queryPill: {
+    borderWidth: 1,
+    borderColor: '#D1D1D6',
+  },
+  queryPillDark: {
+    borderColor: '#3A3A3C',
+  },
   pillText: {
     fontSize: 14,
     color: '#333',
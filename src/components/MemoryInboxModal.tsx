@@ -0,0 +1,460 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { observer } from '@legendapp/state/react';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Host, ContextMenu, Button } from '@expo/ui/swift-ui';
+import { themeStore } from '../stores/theme';
+import { memoriesStore, memoriesComputed, memoriesActions } from '../stores/memories';
+import { effectiveImportance } from '../services/memoryMaintenance';
+import { AssistantMemory } from '../types';
+import { BaseModal, ModalHeader } from './modals';
+import { COLORS } from '../constants';
+
+interface MemoryInboxModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type InboxTab = 'active' | 'archived';
+
+const MemoryInboxModal = observer(({ visible, onClose }: MemoryInboxModalProps) => {
+  const isDarkMode = themeStore.isDarkMode.get();
+  const isLoading = memoriesStore.isLoading.get();
+  const activeMemories = memoriesComputed.activeMemories();
+  const archivedMemories = memoriesComputed.archivedMemories();
+  const duplicateGroups = memoriesComputed.duplicateGroups();
+
+  const [tab, setTab] = useState<InboxTab>('active');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      memoriesActions.loadMemories();
+    } else {
+      setEditingId(null);
+    }
+  }, [visible]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('❌ [MemoryInbox]', failure, error);
+      Alert.alert('Error', `${failure}. Please try again.`);
+    }
+  };
+
+  const startEditing = (memory: AssistantMemory) => {
+    setEditingId(memory.id);
+    setDraftTitle(memory.title);
+    setDraftBody(memory.body);
+  };
+
+  const saveEdit = () => {
+    if (!editingId || !draftTitle.trim() || !draftBody.trim()) return;
+    run(async () => {
+      await memoriesActions.updateMemory(editingId, {
+        title: draftTitle.trim().substring(0, 100),
+        body: draftBody.trim(),
+      });
+      setEditingId(null);
+    }, 'Failed to save memory');
+  };
+
+  const handleDelete = (memory: AssistantMemory) => {
+    Alert.alert(
+      'Delete Memory',
+      `The assistant will forget "${memory.title}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => run(() => memoriesActions.deleteMemory(memory.id), 'Failed to delete memory'),
+        },
+      ]
+    );
+  };
+
+  const handleMergeGroup = (group: AssistantMemory[]) => {
+    const [target, ...sources] = group;
+    Alert.alert(
+      'Merge Memories',
+      `Combine ${group.length} memories into "${target.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: () => run(
+            () => memoriesActions.mergeMemories(target.id, sources.map(source => source.id)),
+            'Failed to merge memories'
+          ),
+        },
+      ]
+    );
+  };
+
+  const renderDuplicates = () => {
+    if (tab !== 'active' || duplicateGroups.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>
+          Possible duplicates
+        </Text>
+        {duplicateGroups.map(group => (
+          <View key={group[0].id} style={[styles.duplicateCard, isDarkMode && styles.cardDark]}>
+            {group.map(memory => (
+              <Text
+                key={memory.id}
+                style={[styles.duplicateTitle, isDarkMode && styles.textDark]}
+                numberOfLines={1}
+              >
+                • {memory.title}
+              </Text>
+            ))}
+            <TouchableOpacity style={styles.mergeButton} onPress={() => handleMergeGroup(group)}>
+              <MaterialIcons name="call-merge" size={16} color="#FFFFFF" />
+              <Text style={styles.mergeButtonText}>Merge</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderMemory = (memory: AssistantMemory) => {
+    if (editingId === memory.id) {
+      return (
+        <View key={memory.id} style={[styles.memoryCard, isDarkMode && styles.cardDark]}>
+          <TextInput
+            style={[styles.titleInput, isDarkMode && styles.inputDark]}
+            value={draftTitle}
+            onChangeText={setDraftTitle}
+            maxLength={100}
+            placeholder="Title"
+            placeholderTextColor={isDarkMode ? '#666' : '#999'}
+          />
+          <TextInput
+            style={[styles.bodyInput, isDarkMode && styles.inputDark]}
+            value={draftBody}
+            onChangeText={setDraftBody}
+            multiline
+            placeholder="What should the assistant remember?"
+            placeholderTextColor={isDarkMode ? '#666' : '#999'}
+          />
+          <View style={styles.editActions}>
+            <TouchableOpacity onPress={() => setEditingId(null)} style={styles.editButton}>
+              <Text style={[styles.editCancelText, isDarkMode && styles.textDark]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={saveEdit}
+              style={[styles.editButton, styles.editSaveButton]}
+              disabled={!draftTitle.trim() || !draftBody.trim()}
+            >
+              <Text style={styles.editSaveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    const importance = Math.round(effectiveImportance(memory) * 100);
+
+    return (
+      <View key={memory.id} style={[styles.memoryCard, isDarkMode && styles.cardDark]}>
+        <View style={styles.memoryHeader}>
+          <Text style={styles.kindLabel}>{memory.kind.toUpperCase()}</Text>
+          {memory.pinned && (
+            <MaterialIcons name="push-pin" size={14} color={COLORS.primary} style={styles.pinIcon} />
+          )}
+          <Text style={[styles.importance, isDarkMode && styles.mutedTextDark]}>
+            {importance}%
+          </Text>
+          <Host style={{ width: 24, height: 24 }}>
+            <ContextMenu>
+              <ContextMenu.Trigger>
+                <TouchableOpacity style={styles.menuDots}>
+                  <MaterialIcons name="more-vert" size={20} color={isDarkMode ? '#999' : '#666'} />
+                </TouchableOpacity>
+              </ContextMenu.Trigger>
+              <ContextMenu.Items>
+                <Button onPress={() => startEditing(memory)}>
+                  Edit
+                </Button>
+                <Button onPress={() => run(() => memoriesActions.setPinned(memory.id, !memory.pinned), 'Failed to update memory')}>
+                  {memory.pinned ? 'Unpin' : 'Pin'}
+                </Button>
+                <Button onPress={() => run(() => memoriesActions.setArchived(memory.id, !memory.is_archived), 'Failed to update memory')}>
+                  {memory.is_archived ? 'Restore' : 'Archive'}
+                </Button>
+                <Button onPress={() => handleDelete(memory)} role="destructive">
+                  Delete
+                </Button>
+              </ContextMenu.Items>
+            </ContextMenu>
+          </Host>
+        </View>
+        <TouchableOpacity onPress={() => startEditing(memory)} activeOpacity={0.7}>
+          <Text style={[styles.memoryTitle, isDarkMode && styles.textDark]}>{memory.title}</Text>
+          <Text style={[styles.memoryBody, isDarkMode && styles.mutedTextDark]} numberOfLines={3}>
+            {memory.body}
+          </Text>
+          {memory.fields && Object.keys(memory.fields).length > 0 && (
+            <Text style={[styles.memoryFields, isDarkMode && styles.mutedTextDark]} numberOfLines={2}>
+              {Object.entries(memory.fields)
+                .map(([name, value]) => `${name}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+                .join(' · ')}
+            </Text>
+          )}
+          {memory.tags && memory.tags.length > 0 && (
+            <Text style={styles.memoryTags} numberOfLines={1}>
+              {memory.tags.map(tag => `#${tag}`).join(' ')}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const memories = tab === 'active' ? activeMemories : archivedMemories;
+
+  return (
+    <BaseModal visible={visible} onClose={onClose} keyboardAware>
+      <ModalHeader
+        title="Memories"
+        subtitle="What the assistant remembers about you. Pinned memories never fade or get archived."
+        onClose={onClose}
+        isDarkMode={isDarkMode}
+      />
+
+      <View style={[styles.tabs, isDarkMode && styles.tabsDark]}>
+        {(['active', 'archived'] as InboxTab[]).map(value => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.tab, tab === value && styles.tabSelected, tab === value && isDarkMode && styles.tabSelectedDark]}
+            onPress={() => setTab(value)}
+          >
+            <Text style={[styles.tabText, isDarkMode && styles.textDark]}>
+              {value === 'active' ? `Inbox (${activeMemories.length})` : `Archived (${archivedMemories.length})`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+        {renderDuplicates()}
+        {isLoading && memories.length === 0 ? (
+          <ActivityIndicator style={styles.loading} color={COLORS.primary} />
+        ) : memories.length === 0 ? (
+          <Text style={[styles.emptyText, isDarkMode && styles.mutedTextDark]}>
+            {tab === 'active' ? 'No memories yet. The assistant saves them as you chat.' : 'Nothing archived.'}
+          </Text>
+        ) : (
+          memories.map(renderMemory)
+        )}
+      </ScrollView>
+    </BaseModal>
+  );
+});
+
+export default MemoryInboxModal;
+
+const styles = StyleSheet.create({
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#F0F0F0',
+    borderRadius: 10,
+    padding: 2,
+    marginBottom: 12,
+  },
+  tabsDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 7,
+    borderRadius: 8,
+  },
+  tabSelected: {
+    backgroundColor: '#FFFFFF',
+  },
+  tabSelectedDark: {
+    backgroundColor: '#3A3A3C',
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  list: {
+    flexShrink: 1,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 6,
+  },
+  sectionTitleDark: {
+    color: '#AAAAAA',
+  },
+  duplicateCard: {
+    backgroundColor: '#FFF8E6',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+    gap: 2,
+  },
+  duplicateTitle: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  mergeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+    backgroundColor: COLORS.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginTop: 6,
+  },
+  mergeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  memoryCard: {
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+  },
+  cardDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  memoryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  kindLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.primary,
+    letterSpacing: 0.5,
+  },
+  pinIcon: {
+    marginLeft: 6,
+  },
+  importance: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 12,
+    color: '#666666',
+    marginRight: 6,
+  },
+  menuDots: {
+    padding: 3,
+  },
+  memoryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  memoryBody: {
+    fontSize: 14,
+    color: '#3C3C43',
+    marginTop: 2,
+  },
+  memoryFields: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 4,
+  },
+  memoryTags: {
+    fontSize: 12,
+    color: COLORS.primary,
+    marginTop: 4,
+  },
+  textDark: {
+    color: '#FFFFFF',
+  },
+  mutedTextDark: {
+    color: '#AAAAAA',
+  },
+  titleInput: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginBottom: 6,
+  },
+  bodyInput: {
+    fontSize: 14,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  inputDark: {
+    backgroundColor: '#1C1C1E',
+    color: '#FFFFFF',
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  editButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  editSaveButton: {
+    backgroundColor: COLORS.primary,
+  },
+  editCancelText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  editSaveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+});
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { COLORS } from '../constants';
+import { memorySchemaStore, memorySchemaComputed, memorySchemaActions } from '../stores/memorySchema';
+import { StoredSchemaProposal } from '../services/memorySchema';
+import { useToast } from '../contexts/ToastContext';
+
+interface MemorySchemaSectionProps {
+  isDarkMode: boolean;
+}
+
+// What the proposal changes, in one line
+const describeChange = (proposal: StoredSchemaProposal): string => {
+  const { proposed } = proposal;
+  switch (proposal.type) {
+    case 'add_kind':
+      return `New kind "${proposed.kindDefinition?.kind}"`;
+    case 'add_field':
+      return `New field "${proposed.field?.name}" (${proposed.field?.type}) on ${proposed.kind}`;
+    case 'remove_field':
+      return `Remove field "${proposed.fieldName}" from ${proposed.kind}`;
+    default:
+      return `Change "${proposed.fieldName}"${proposed.kind ? ` on ${proposed.kind}` : ''}: ${JSON.stringify(proposed.modification || {})}`;
+  }
+};
+
+const MemorySchemaSection = observer(({ isDarkMode }: MemorySchemaSectionProps) => {
+  const { showToast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const isLoading = memorySchemaStore.isLoading.get();
+  const activeVersion = memorySchemaComputed.activeVersion();
+  const pending = memorySchemaComputed.pendingProposals();
+  const reviewed = memorySchemaComputed.reviewedProposals();
+
+  useEffect(() => {
+    memorySchemaActions.loadActiveSchema();
+    memorySchemaActions.loadProposals();
+  }, []);
+
+  const handleApprove = (proposal: StoredSchemaProposal) => {
+    const steps = proposal.migration.steps || [];
+    Alert.alert(
+      'Apply Proposal',
+      `${describeChange(proposal)}\n\n` +
+        (steps.length > 0 ? `Existing memories will be migrated:\n${steps.map(step => `• ${step}`).join('\n')}` : 'No existing memories need changes.'),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Apply',
+          onPress: async () => {
+            setBusyId(proposal.id);
+            try {
+              const { version, migratedCount } = await memorySchemaActions.applyProposal(proposal.id);
+              showToast({
+                message: `Memory schema is now v${version}` + (migratedCount > 0 ? ` (${migratedCount} memories migrated)` : ''),
+                type: 'success',
+              });
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to apply proposal');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleReject = (proposal: StoredSchemaProposal) => {
+    Alert.prompt(
+      'Reject Proposal',
+      'Optionally note why it was rejected.',
+      async (note?: string) => {
+        setBusyId(proposal.id);
+        try {
+          await memorySchemaActions.rejectProposal(proposal.id, note?.trim() || undefined);
+        } catch (error: any) {
+          Alert.alert('Error', error.message || 'Failed to reject proposal');
+        } finally {
+          setBusyId(null);
+        }
+      },
+      'plain-text'
+    );
+  };
+
+  const renderProposal = (proposal: StoredSchemaProposal) => (
+    <View key={proposal.id} style={[styles.card, isDarkMode && styles.cardDark]}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.typeLabel}>{proposal.type.replace('_', ' ').toUpperCase()}</Text>
+        <Text style={[styles.meta, isDarkMode && styles.metaDark]}>
+          {proposal.status === 'pending'
+            ? `for v${proposal.base_version} · ${proposal.impact} impact`
+            : proposal.status === 'applied' ? `applied as v${proposal.applied_version}` : 'rejected'}
+        </Text>
+      </View>
+      <Text style={[styles.change, isDarkMode && styles.changeDark]}>{describeChange(proposal)}</Text>
+      <Text style={[styles.description, isDarkMode && styles.descriptionDark]}>{proposal.description}</Text>
+      <Text style={[styles.rationale, isDarkMode && styles.descriptionDark]}>Why: {proposal.rationale}</Text>
+      {proposal.review_note ? (
+        <Text style={[styles.rationale, isDarkMode && styles.descriptionDark]}>Note: {proposal.review_note}</Text>
+      ) : null}
+
+      {proposal.status === 'pending' && (
+        busyId === proposal.id ? (
+          <ActivityIndicator style={styles.busy} size="small" color={isDarkMode ? '#FFFFFF' : '#333333'} />
+        ) : (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rejectButton, isDarkMode && styles.rejectButtonDark]}
+              onPress={() => handleReject(proposal)}
+              disabled={!!busyId}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.rejectText, isDarkMode && styles.rejectTextDark]}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton]}
+              onPress={() => handleApprove(proposal)}
+              disabled={!!busyId}
+              activeOpacity={0.7}
+            >
+              <MaterialIcons name="check" size={16} color="#FFFFFF" />
+              <Text style={styles.approveText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>
+        Memory Schema
+      </Text>
+      <Text style={[styles.infoText, isDarkMode && styles.infoTextDark]}>
+        Active version v{activeVersion}. Proposals come from the assistant's architect mode.
+      </Text>
+
+      {isLoading && pending.length === 0 ? (
+        <ActivityIndicator style={styles.busy} size="small" color={isDarkMode ? '#FFFFFF' : '#333333'} />
+      ) : pending.length === 0 ? (
+        <Text style={[styles.infoText, isDarkMode && styles.infoTextDark]}>No proposals waiting for review</Text>
+      ) : (
+        pending.map(renderProposal)
+      )}
+
+      {reviewed.length > 0 && (
+        <TouchableOpacity onPress={() => setShowHistory(!showHistory)} activeOpacity={0.7}>
+          <Text style={styles.historyToggle}>
+            {showHistory ? 'Hide' : 'Show'} reviewed proposals ({reviewed.length})
+          </Text>
+        </TouchableOpacity>
+      )}
+      {showHistory && reviewed.map(renderProposal)}
+    </View>
+  );
+});
+
+export default MemorySchemaSection;
+
+const styles = StyleSheet.create({
+  section: {
+    paddingTop: 20,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 10,
+    textTransform: 'uppercase',
+  },
+  sectionTitleDark: {
+    color: '#999999',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#555555',
+    paddingVertical: 6,
+  },
+  infoTextDark: {
+    color: '#AAAAAA',
+  },
+  card: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  cardDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  typeLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.primary,
+    letterSpacing: 0.5,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  metaDark: {
+    color: '#999999',
+  },
+  change: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  changeDark: {
+    color: '#FFFFFF',
+  },
+  description: {
+    fontSize: 14,
+    color: '#333333',
+    marginTop: 4,
+  },
+  descriptionDark: {
+    color: '#CCCCCC',
+  },
+  rationale: {
+    fontSize: 13,
+    color: '#555555',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 8,
+  },
+  approveButton: {
+    backgroundColor: COLORS.primary,
+  },
+  approveText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rejectButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  rejectButtonDark: {
+    backgroundColor: '#3A3A3C',
+  },
+  rejectText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rejectTextDark: {
+    color: '#FF453A',
+  },
+  busy: {
+    marginVertical: 12,
+  },
+  historyToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginTop: 12,
+  },
+});
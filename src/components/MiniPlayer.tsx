@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { MaterialIcons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { themeStore } from '../stores/theme';
+import { audioPlayerStore, audioPlayerComputed } from '../stores/audioPlayer';
+import { expandedItemUIActions } from '../stores/expandedItemUI';
+import { audioPlaybackService } from '../services/audioPlayback';
+
+interface MiniPlayerProps {
+  visible?: boolean;
+}
+
+/**
+ * Now-playing bar shown above the bottom navigation while an item is loaded
+ * in the app-wide audio player. Tapping it opens the item.
+ */
+const MiniPlayer = observer(({ visible = true }: MiniPlayerProps) => {
+  const isDarkMode = themeStore.isDarkMode.get();
+  const insets = useSafeAreaInsets();
+  const item = audioPlayerComputed.currentItem();
+  const isPlaying = audioPlayerStore.isPlaying.get();
+  const isLoading = audioPlayerStore.isLoading.get() && isPlaying;
+  const positionMs = audioPlayerStore.positionMs.get();
+  const durationMs = audioPlayerStore.durationMs.get();
+  const upNextCount = audioPlayerComputed.queueItems().length;
+
+  if (!visible || !item) return null;
+
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+  const iconColor = isDarkMode ? '#FFFFFF' : '#000000';
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.containerDark, { bottom: insets.bottom + 56 }]}>
+      <TouchableOpacity
+        style={styles.info}
+        onPress={() => expandedItemUIActions.expandItem(item)}
+        activeOpacity={0.7}
+      >
+        {item.thumbnail_url ? (
+          <Image source={{ uri: item.thumbnail_url }} style={styles.artwork} contentFit="cover" />
+        ) : (
+          <View style={[styles.artwork, styles.artworkPlaceholder]}>
+            <MaterialIcons name="graphic-eq" size={20} color="#8E8E93" />
+          </View>
+        )}
+        <View style={styles.text}>
+          <Text style={[styles.title, isDarkMode && styles.titleDark]} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {upNextCount > 0 ? `${upNextCount} up next` : 'Nothing queued'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={() => audioPlaybackService.togglePlayPause()}
+        style={styles.button}
+        activeOpacity={0.7}
+      >
+        <MaterialIcons
+          name={isLoading ? 'hourglass-empty' : isPlaying ? 'pause' : 'play-arrow'}
+          size={30}
+          color={iconColor}
+        />
+      </TouchableOpacity>
+
+      {upNextCount > 0 ? (
+        <TouchableOpacity
+          onPress={() => audioPlaybackService.skipToNext()}
+          style={styles.button}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="skip-next" size={28} color={iconColor} />
+        </TouchableOpacity>
+      ) : !isPlaying ? (
+        <TouchableOpacity
+          onPress={() => audioPlaybackService.stop()}
+          style={styles.button}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="close" size={24} color="#8E8E93" />
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          onPress={() => audioPlaybackService.skip(30)}
+          style={styles.button}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="forward-30" size={26} color={iconColor} />
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+      </View>
+    </View>
+  );
+});
+
+export default MiniPlayer;
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    height: 60,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+    overflow: 'hidden',
+    zIndex: 2,
+  },
+  containerDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  info: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  artwork: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+  },
+  artworkPlaceholder: {
+    backgroundColor: '#E5E5EA',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  titleDark: {
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  button: {
+    padding: 6,
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 2,
+    backgroundColor: 'transparent',
+  },
+  progressFill: {
+    height: 2,
+    backgroundColor: '#007AFF',
+  },
+});
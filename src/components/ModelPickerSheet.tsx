@@ -11,6 +11,7 @@ import { observer } from '@legendapp/state/react';
 import { themeStore } from '../stores/theme';
 import { aiSettingsComputed, aiSettingsActions, OpenAIModel } from '../stores/aiSettings';
 import { COLORS } from '../constants';
+import { parseModelRef } from '../services/llm';
 import { BaseModal, ModalHeader } from './modals';
 
 interface ModelPickerSheetProps {
@@ -40,12 +41,25 @@ const ModelPickerSheet = observer(({ visible, onClose, onModelSelected, modelTyp
       onClose();
     };
 
+    // Lists cached before multi-provider support have no provider field
+    const getProvider = (model: OpenAIModel) => model.provider ?? parseModelRef(model.id).provider;
+
     const getModelDisplayName = (model: OpenAIModel): string => {
-      return model.id;
+      return parseModelRef(model.id).model;
     };
 
     const getModelDescription = (model: OpenAIModel): string => {
       const id = model.id.toLowerCase();
+      const provider = getProvider(model);
+
+      if (provider === 'anthropic') {
+        if (id.includes('haiku')) return 'Fast, affordable Claude model';
+        if (id.includes('opus')) return 'Most capable Claude model';
+        return 'Anthropic Claude model';
+      }
+      if (provider === 'local') {
+        return 'Runs on your local OpenAI-compatible server';
+      }
 
       if (id.includes('gpt-4o')) {
         if (id.includes('mini')) {
@@ -82,7 +96,7 @@ const ModelPickerSheet = observer(({ visible, onClose, onModelSelected, modelTyp
       return null;
     };
 
-    // Group models by family
+    // Group OpenAI models by family, other providers get one group each
     const groupedModels = useMemo(() => {
       const groups: { [key: string]: OpenAIModel[] } = {
         'GPT-4o': [],
@@ -90,11 +104,18 @@ const ModelPickerSheet = observer(({ visible, onClose, onModelSelected, modelTyp
         'GPT-4': [],
         'GPT-3.5': [],
         'Other': [],
+        'Anthropic': [],
+        'Local': [],
       };
 
       availableModels.forEach(model => {
         const id = model.id.toLowerCase();
-        if (id.includes('gpt-4o')) {
+        const provider = getProvider(model);
+        if (provider === 'anthropic') {
+          groups['Anthropic'].push(model);
+        } else if (provider === 'local') {
+          groups['Local'].push(model);
+        } else if (id.includes('gpt-4o')) {
           groups['GPT-4o'].push(model);
         } else if (id.includes('gpt-4-turbo')) {
           groups['GPT-4 Turbo'].push(model);
@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Switch, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { Host, Picker } from '@expo/ui/swift-ui';
+import { COLORS, CONTENT_TYPES } from '../constants';
+import { itemsStore } from '../stores/items';
+import { filterComputed } from '../stores/filter';
+import { processingItemsActions, processingItemsComputed } from '../stores/processingItems';
+import { PIPELINE_STEPS } from '../services/pipeline/runPipeline';
+import { reEnrichItems, resolveReEnrichItems, backfillSearchIndex, ReEnrichTarget } from '../services/reEnrichService';
+import { useToast } from '../contexts/ToastContext';
+import type { ContentType } from '../types';
+
+interface ReEnrichSectionProps {
+  isDarkMode: boolean;
+}
+
+type Scope = 'filter' | 'type';
+
+const ReEnrichSection = observer(({ isDarkMode }: ReEnrichSectionProps) => {
+  const { showToast } = useToast();
+  const [scope, setScope] = useState<Scope>('type');
+  const [contentType, setContentType] = useState<ContentType>('movie');
+  // Empty selection runs the whole pipeline
+  const [selectedSteps, setSelectedSteps] = useState<string[]>([]);
+
+  const batch = processingItemsComputed.batch();
+
+  // Observer re-renders when items or the home screen filters change
+  const target: ReEnrichTarget = scope === 'type'
+    ? { kind: 'content_type', contentType }
+    : { kind: 'items', itemIds: filterComputed.getItemsMatchingFilters(itemsStore.items.get()).map(item => item.id) };
+
+  const steps = selectedSteps.length > 0 ? selectedSteps : undefined;
+  const matchCount = resolveReEnrichItems(target, steps).length;
+
+  const toggleStep = (stepId: string) => {
+    setSelectedSteps(current =>
+      current.includes(stepId) ? current.filter(id => id !== stepId) : [...current, stepId]
+    );
+  };
+
+  const handleRun = () => {
+    Alert.alert(
+      'Re-enrich Items',
+      `Re-run ${steps ? `${steps.length} step${steps.length === 1 ? '' : 's'}` : 'the full pipeline'} on ${matchCount} item${matchCount === 1 ? '' : 's'}? This calls third-party APIs for each item.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Re-enrich',
+          onPress: async () => {
+            try {
+              const summary = await reEnrichItems(target, { steps });
+              showToast({
+                message: `Re-enriched ${summary.succeeded} of ${summary.total} items` +
+                  (summary.failed > 0 ? ` (${summary.failed} with errors)` : '') +
+                  (summary.cancelled ? ' - cancelled' : ''),
+                type: summary.failed > 0 ? 'error' : 'success',
+              });
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to re-enrich items');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleIndex = () => {
+    Alert.alert(
+      'Index for Search',
+      'Embed the items that aren\'t in the semantic search index yet? This calls the embeddings API for each of them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Index',
+          onPress: async () => {
+            try {
+              const summary = await backfillSearchIndex();
+              showToast({
+                message: summary.total === 0
+                  ? 'Every item is already indexed'
+                  : `Indexed ${summary.succeeded} of ${summary.total} items` +
+                    (summary.failed > 0 ? ` (${summary.failed} with errors)` : '') +
+                    (summary.cancelled ? ' - cancelled' : ''),
+                type: summary.failed > 0 ? 'error' : 'success',
+              });
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to index items');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>
+        Re-enrich Items
+      </Text>
+      <Text style={[styles.infoText, isDarkMode && styles.infoTextDark]}>
+        Re-run enrichment on items saved before an enricher existed or was configured
+      </Text>
+
+      <View style={styles.pickerContainer}>
+        <Host matchContents>
+          <Picker
+            options={['Content Type', 'Current Filter']}
+            selectedIndex={scope === 'type' ? 0 : 1}
+            onOptionSelected={({ nativeEvent: { index } }) => setScope(index === 0 ? 'type' : 'filter')}
+            variant="segmented"
+          />
+        </Host>
+      </View>
+
+      {scope === 'type' ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {(Object.keys(CONTENT_TYPES) as ContentType[]).filter(type => type !== 'note').map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[
+                styles.chip,
+                isDarkMode && styles.chipDark,
+                contentType === type && styles.chipSelected,
+              ]}
+              onPress={() => setContentType(type)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, isDarkMode && styles.chipTextDark, contentType === type && styles.chipTextSelected]}>
+                {CONTENT_TYPES[type].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      ) : (
+        <Text style={[styles.infoText, isDarkMode && styles.infoTextDark]}>
+          {filterComputed.hasActiveFilters()
+            ? 'Uses the filters and search currently applied on the home screen'
+            : 'No filters applied - this covers every active item'}
+        </Text>
+      )}
+
+      <Text style={[styles.subsectionTitle, isDarkMode && styles.subsectionTitleDark]}>
+        Steps {selectedSteps.length === 0 ? '(all)' : `(${selectedSteps.length})`}
+      </Text>
+      {PIPELINE_STEPS.map(step => (
+        <View key={step.id} style={styles.stepRow}>
+          <Text style={[styles.stepLabel, isDarkMode && styles.stepLabelDark]}>{step.label}</Text>
+          <Switch
+            value={selectedSteps.includes(step.id)}
+            onValueChange={() => toggleStep(step.id)}
+            trackColor={{ false: '#767577', true: COLORS.primary }}
+            thumbColor={selectedSteps.includes(step.id) ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+      ))}
+
+      {batch ? (
+        <View style={styles.progressRow}>
+          <ActivityIndicator size="small" color={isDarkMode ? '#FFFFFF' : '#333333'} />
+          <Text style={[styles.progressText, isDarkMode && styles.progressTextDark]}>
+            {batch.cancelRequested ? 'Stopping after current item…' : `${batch.label} ${Math.min(batch.completed + 1, batch.total)} of ${batch.total}`}
+            {batch.failed > 0 ? ` · ${batch.failed} failed` : ''}
+          </Text>
+          {!batch.cancelRequested && (
+            <TouchableOpacity onPress={processingItemsActions.cancelBatch} activeOpacity={0.7}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : (
+        <>
+          <TouchableOpacity
+            style={[styles.runButton, matchCount === 0 && styles.runButtonDisabled]}
+            onPress={handleRun}
+            disabled={matchCount === 0}
+            activeOpacity={0.7}
+          >
+            <MaterialIcons name="autorenew" size={18} color="#FFFFFF" />
+            <Text style={styles.runButtonText}>
+              Re-enrich {matchCount} item{matchCount === 1 ? '' : 's'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.indexButton, isDarkMode && styles.indexButtonDark]} onPress={handleIndex} activeOpacity={0.7}>
+            <MaterialIcons name="manage-search" size={18} color={COLORS.primary} />
+            <Text style={styles.indexButtonText}>Index Items for Search</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+});
+
+export default ReEnrichSection;
+
+const styles = StyleSheet.create({
+  section: {
+    paddingTop: 20,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 10,
+    textTransform: 'uppercase',
+  },
+  sectionTitleDark: {
+    color: '#999999',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#555555',
+    paddingVertical: 6,
+  },
+  infoTextDark: {
+    color: '#AAAAAA',
+  },
+  pickerContainer: {
+    marginVertical: 12,
+  },
+  chips: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#F2F2F7',
+  },
+  chipDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  chipTextDark: {
+    color: '#EAEAEA',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  subsectionTitleDark: {
+    color: '#999999',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E7',
+  },
+  stepLabel: {
+    fontSize: 15,
+    color: '#000000',
+  },
+  stepLabelDark: {
+    color: '#FFFFFF',
+  },
+  runButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: COLORS.primary,
+  },
+  runButtonDisabled: {
+    opacity: 0.5,
+  },
+  runButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  indexButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 10,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  indexButtonDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  indexButtonText: {
+    color: COLORS.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingVertical: 10,
+  },
+  progressText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 14,
+    color: '#555555',
+  },
+  progressTextDark: {
+    color: '#AAAAAA',
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
@@ -49,6 +49,7 @@ const SettingsSheet = observer(
     const formattedLastSync = syncStatusComputed.formattedLastSync();
     const statusText = syncStatusComputed.statusText();
     const statusColor = syncStatusComputed.statusColor();
+    const unfinishedTables = syncStatusComputed.unfinishedTables();
 
     // Expanded item UI settings
     const autoplayXVideos = expandedItemUIStore.autoplayXVideos.get();
@@ -194,6 +195,11 @@ const SettingsSheet = observer(
                 <Text style={[styles.rowSubtitle, isDarkMode && styles.rowSubtitleDark]}>
                   Last sync: {formattedLastSync}
                 </Text>
+                {unfinishedTables.length > 0 && !isSyncingStatus && (
+                  <Text style={[styles.rowSubtitle, isDarkMode && styles.rowSubtitleDark]}>
+                    Incomplete: {unfinishedTables.join(', ')} - resumes on next sync
+                  </Text>
+                )}
               </View>
               {pendingChanges > 0 && (
                 <View style={[styles.badge, { backgroundColor: statusColor }]}>
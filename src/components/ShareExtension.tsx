@@ -19,6 +19,7 @@ import { authStore, authActions } from '../stores/auth';
 import { auth } from '../services/supabase';
 import { SUPABASE } from '../constants';
 import { getSharedAuth } from '../services/sharedAuth';
+import { getPdfFileName, isPdfUrl, uploadPdfToStorage } from '../services/pdf';
 import { ContentType, User } from '../types';
 
 const { height: screenHeight } = Dimensions.get('window');
@@ -135,6 +136,11 @@ const ShareExtension = (props: InitialProps) => {
           console.log('[ShareExtension] Video shared');
           setUrlToSave(props.videos[0]);
           setContentToSave(null);
+        } else if (props.files && props.files.some(isPdfUrl)) {
+          // Uploaded to storage on save, then processed like any PDF link
+          console.log('[ShareExtension] PDF shared');
+          setUrlToSave(props.files.find(isPdfUrl) || null);
+          setContentToSave(null);
         } else {
           setError('No content to share');
         }
@@ -211,12 +217,20 @@ const ShareExtension = (props: InitialProps) => {
         throw sessionError;
       }
 
+      // Shared files only exist inside the extension, so upload them before queueing
+      let savedUrl = urlToSave;
+      if (urlToSave?.startsWith('file://')) {
+        console.log('[ShareExtension] Uploading shared PDF...');
+        const upload = await uploadPdfToStorage(urlToSave, authData.user_id, supabase);
+        savedUrl = upload.url;
+      }
+
       // Insert to pending_items table
       const { data: pendingItem, error: insertError } = await supabase
         .from('pending_items')
         .insert({
           user_id: authData.user_id,
-          url: urlToSave || '',
+          url: savedUrl || '',
           space_id: selectedSpaceId,
           content: contentToSave,
         })
@@ -336,10 +350,10 @@ const ShareExtension = (props: InitialProps) => {
             {urlToSave && (
               <>
                 <Text style={[styles.previewLabel, isDarkMode && styles.previewLabelDark]}>
-                  URL
+                  {urlToSave.startsWith('file://') ? 'PDF' : 'URL'}
                 </Text>
                 <Text style={[styles.previewUrl, isDarkMode && styles.previewUrlDark]} numberOfLines={3}>
-                  {urlToSave}
+                  {urlToSave.startsWith('file://') ? getPdfFileName(urlToSave) : urlToSave}
                 </Text>
               </>
             )}
@@ -5,7 +5,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Host } from '@expo/ui/swift-ui';
 import { themeStore } from '../stores/theme';
-import { filterStore, filterActions } from '../stores/filter';
+import { filterStore, filterActions, filterComputed } from '../stores/filter';
 import { spacesComputed } from '../stores/spaces';
 import { FilterContextMenuTrigger } from './FilterContextMenuTrigger';
 
@@ -21,6 +21,7 @@ const SimpleHeader = observer(({ onFilterPress }: SimpleHeaderProps) => {
   const selectedSpaceId = filterStore.selectedSpaceId?.get?.() || null;
   const showArchived = filterStore.showArchived?.get?.() || false;
   const searchQuery = filterStore.searchQuery?.get?.() || '';
+  const queryError = searchQuery ? filterComputed.parsedSearchQuery().errors[0] : undefined;
 
   const [isSearching, setIsSearching] = useState(false);
   const [localSearchText, setLocalSearchText] = useState(searchQuery);
@@ -134,6 +135,11 @@ const SimpleHeader = observer(({ onFilterPress }: SimpleHeaderProps) => {
               />
             </View>
           )}
+          {isSearching && queryError && (
+            <Text style={styles.queryError} numberOfLines={1}>
+              {queryError.message}
+            </Text>
+          )}
         </View>
 
         <View style={styles.rightButtons}>
@@ -209,6 +215,11 @@ const styles = StyleSheet.create({
     right: 0,
     height: 1,
   },
+  queryError: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#FF3B30',
+  },
   rightButtons: {
     flexDirection: 'row',
     alignItems: 'center',
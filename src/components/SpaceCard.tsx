@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
 import { observer } from '@legendapp/state/react';
+import { MaterialIcons } from '@expo/vector-icons';
 import { themeStore } from '../stores/theme';
 import { Space } from '../types';
 
@@ -42,6 +43,12 @@ const SpaceCard = observer(({ space, itemCount, onPress }: SpaceCardProps) => {
 
         {/* Bottom Footer with item count on right */}
         <View style={styles.footer}>
+          {space.smart_rule ? (
+            <View style={[styles.smartBadge, isDarkMode && styles.smartBadgeDark]}>
+              <MaterialIcons name="auto-awesome" size={11} color={isDarkMode ? '#CCCCCC' : '#555555'} />
+              <Text style={[styles.smartBadgeText, isDarkMode && styles.smartBadgeTextDark]}>Smart</Text>
+            </View>
+          ) : null}
           <View style={{ flex: 1 }} />
           {/* Item Count */}
           <View style={[styles.itemCountBadge, { backgroundColor: space.color + '20' }]}>
@@ -111,6 +118,26 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingTop: 12,
   },
+  smartBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: '#F0F0F0',
+  },
+  smartBadgeDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  smartBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#555555',
+  },
+  smartBadgeTextDark: {
+    color: '#CCCCCC',
+  },
   itemCountBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -1,12 +1,23 @@
-import React, { forwardRef, useImperativeHandle, useMemo, useCallback, useState } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import BottomSheet, { BottomSheetBackdrop, BottomSheetScrollView } from '@gorhom/bottom-sheet';
+import React, { forwardRef, useImperativeHandle, useMemo, useCallback, useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import BottomSheet, { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetTextInput } from '@gorhom/bottom-sheet';
+import { MaterialIcons } from '@expo/vector-icons';
 import { observer } from '@legendapp/state/react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
 import { themeStore } from '../stores/theme';
+import { itemsStore } from '../stores/items';
+import { aiSettingsComputed } from '../stores/aiSettings';
+import { spaceChatsActions, spaceChatsComputed } from '../stores/spaceChats';
+import { chatMessagesActions } from '../stores/chatMessages';
+import { buildSpaceContext } from '../services/contextBuilder';
+import { openai } from '../services/openai';
+import { getSpaceItems, isSmartSpace } from '../services/smartSpaces';
+import { Space, SpaceChat, ChatMessage } from '../types';
+import { COLORS } from '../constants';
 
 export interface SpaceChatSheetRef {
-  openWithSpace: (spaceName: string) => void;
+  openWithSpace: (space: Space) => void;
   close: () => void;
 }
 
@@ -20,17 +31,171 @@ const SpaceChatSheet = observer(
     const isDarkMode = themeStore.isDarkMode.get();
     const insets = useSafeAreaInsets();
     const bottomSheetRef = React.useRef<BottomSheet>(null);
-    const [spaceName, setSpaceName] = useState<string>('');
+    const [space, setSpace] = useState<Space | null>(null);
+    const allItems = itemsStore.items.get();
+
+    const [inputText, setInputText] = useState('');
+    const [chat, setChat] = useState<SpaceChat | null>(null);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [isTyping, setIsTyping] = useState(false);
+    // Text of the reply currently being streamed; saved as a message once the stream ends
+    const [streamingText, setStreamingText] = useState('');
+    const scrollViewRef = useRef<ScrollView>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const selectedModel = aiSettingsComputed.selectedModel();
+
+    // Items the chat is scoped to - smart spaces resolve their rule live
+    const scopeItems = useMemo(
+      () => (space ? getSpaceItems(space, { items: allItems }) : []),
+      [space, allItems]
+    );
+
+    // Reset the conversation when switching spaces
+    useEffect(() => {
+      setInputText('');
+      abortControllerRef.current?.abort();
+      setStreamingText('');
+      setIsTyping(false);
+      setChat(null);
+      setMessages([]);
+      if (space) {
+        loadOrCreateChat(space);
+      }
+    }, [space?.id]);
+
+    const loadOrCreateChat = async (forSpace: Space) => {
+      try {
+        // First check local store, then Supabase, then create one
+        let existingChat = spaceChatsComputed.getChatBySpaceId(forSpace.id);
+        if (!existingChat) {
+          await spaceChatsActions.syncFromSupabase();
+          existingChat = spaceChatsComputed.getChatBySpaceId(forSpace.id);
+        }
+        if (!existingChat) {
+          console.log('💬 Creating new chat for space:', forSpace.id);
+          existingChat = await spaceChatsActions.createChat(forSpace.id);
+        }
+
+        if (existingChat) {
+          setChat(existingChat);
+          const chatMessages = await chatMessagesActions.loadMessagesForChat(existingChat.id);
+          setMessages(chatMessages);
+          console.log('💬 Loaded space chat:', existingChat.id, 'with', chatMessages.length, 'messages');
+        } else {
+          console.error('❌ Failed to create or load chat for space:', forSpace.id);
+        }
+      } catch (error) {
+        console.error('❌ Error loading/creating space chat:', error);
+      }
+    };
+
+    // Keep the latest text in view while a reply streams in
+    useEffect(() => {
+      scrollViewRef.current?.scrollToEnd({ animated: !streamingText });
+    }, [messages.length, streamingText]);
+
+    const handleSend = async () => {
+      if (!inputText.trim() || !space || !chat || isTyping) return;
+
+      const userMessage = inputText.trim();
+      setInputText('');
+      setIsTyping(true);
+
+      try {
+        const userMsg = await chatMessagesActions.addMessageOptimistic(chat.id, 'space', 'user', userMessage);
+        setMessages(prev => [...prev, userMsg]);
+
+        const { contextString } = buildSpaceContext(space, scopeItems, userMessage);
+        const previousMessages = messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({
+            role: m.role as 'user' | 'assistant',
+            content: m.content,
+          }));
+
+        // Stream the reply; the stop button aborts through this controller
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const completion = await openai.chatWithContextEnhanced(
+          contextString,
+          userMessage,
+          previousMessages,
+          {
+            model: selectedModel,
+            temperature: 0.7,
+            max_tokens: 1500,
+            stream: { onText: setStreamingText, signal: controller.signal },
+          }
+        );
+
+        if (completion && completion.choices[0]) {
+          const assistantMessage = completion.choices[0].message.content;
+          const stopped = completion.choices[0].finish_reason === 'aborted';
+          // Stopped before any text arrived - nothing worth keeping
+          if (stopped && !assistantMessage) return;
+
+          // Usage is only reported at the end of a stream, so stopped replies have none
+          const messageMetadata = {
+            model: completion.model,
+            ...(stopped ? { stopped: true } : {
+              tokens: {
+                prompt: completion.usage.prompt_tokens,
+                completion: completion.usage.completion_tokens,
+                total: completion.usage.total_tokens,
+              },
+            }),
+            timestamp: new Date().toISOString(),
+            context_version: '1.0',
+          };
+
+          const assistantMsg = await chatMessagesActions.addMessageOptimistic(
+            chat.id,
+            'space',
+            'assistant',
+            assistantMessage,
+            messageMetadata
+          );
+          setMessages(prev => [...prev, assistantMsg]);
+        } else {
+          const errorMsg = await chatMessagesActions.addMessageOptimistic(
+            chat.id,
+            'space',
+            'assistant',
+            'I apologize, but I could not generate a response at this time. Please try again.'
+          );
+          setMessages(prev => [...prev, errorMsg]);
+        }
+      } catch (error) {
+        console.error('Error sending space chat message:', error);
+        const errorMsg = await chatMessagesActions.addMessageOptimistic(
+          chat.id,
+          'space',
+          'assistant',
+          'An error occurred. Please check your API key and try again.'
+        );
+        setMessages(prev => [...prev, errorMsg]);
+      } finally {
+        abortControllerRef.current = null;
+        setStreamingText('');
+        setIsTyping(false);
+      }
+    };
+
+    const handleStop = () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      abortControllerRef.current?.abort();
+    };
 
     useImperativeHandle(ref, () => ({
-      openWithSpace: (name: string) => {
-        setSpaceName(name);
-        bottomSheetRef.current?.snapToIndex(1);
+      openWithSpace: (nextSpace: Space) => {
+        setSpace(nextSpace);
+        bottomSheetRef.current?.snapToIndex(0);
       },
       close: () => bottomSheetRef.current?.close(),
     }));
 
-    const snapPoints = useMemo(() => ['100%'], []);
+    const snapPoints = useMemo(() => ['90%'], []);
 
     const renderBackdrop = useCallback(
       (props: any) => (
@@ -44,6 +209,40 @@ const SpaceChatSheet = observer(
       []
     );
 
+    const renderMessage = (message: Pick<ChatMessage, 'id' | 'role' | 'content' | 'metadata'>, time: string) => {
+      if (message.role === 'system') return null;
+      const isUser = message.role === 'user';
+
+      return (
+        <View
+          key={message.id}
+          style={[styles.messageContainer, isUser ? styles.userMessageContainer : styles.assistantMessageContainer]}
+        >
+          <View
+            style={[
+              styles.messageBubble,
+              isUser ? styles.userBubble : [styles.assistantBubble, isDarkMode && styles.assistantBubbleDark],
+            ]}
+          >
+            <Text
+              style={[
+                styles.messageText,
+                isUser && styles.userMessageText,
+                !isUser && isDarkMode && styles.assistantMessageTextDark,
+              ]}
+            >
+              {message.content}
+            </Text>
+          </View>
+          <Text style={[styles.messageTime, isDarkMode && styles.messageTimeDark]}>
+            {message.metadata?.model && !isUser && `${message.metadata.model} • `}
+            {time}
+            {message.metadata?.stopped && ' • Stopped'}
+          </Text>
+        </View>
+      );
+    };
+
     return (
       <BottomSheet
         ref={bottomSheetRef}
@@ -52,21 +251,89 @@ const SpaceChatSheet = observer(
         enablePanDownToClose
         backdropComponent={renderBackdrop}
         topInset={50}
+        keyboardBehavior="extend"
+        android_keyboardInputMode="adjustResize"
         backgroundStyle={[styles.sheetBackground, isDarkMode && styles.sheetBackgroundDark]}
         handleIndicatorStyle={[styles.handleIndicator, isDarkMode && styles.handleIndicatorDark]}
         onChange={(index) => {
           if (index === -1) {
+            abortControllerRef.current?.abort();
             onClose?.();
           } else if (index >= 0) {
             onOpen?.();
           }
         }}
       >
-        <BottomSheetScrollView contentContainerStyle={[styles.contentContainer, { paddingBottom: insets.bottom + 20 }]}
-          showsVerticalScrollIndicator={false}
-        >
-          <Text style={[styles.title, isDarkMode && styles.titleDark]}>{spaceName ? `${spaceName} chat goes here` : 'Chat goes here'}</Text>
-        </BottomSheetScrollView>
+        <View style={styles.container}>
+          <View style={[styles.header, isDarkMode && styles.headerDark]}>
+            <Text style={[styles.title, isDarkMode && styles.titleDark]} numberOfLines={1}>
+              {space ? space.name : 'Space Chat'}
+            </Text>
+            {space && (
+              <Text style={[styles.scope, isDarkMode && styles.scopeDark]}>
+                {isSmartSpace(space) ? 'Smart space · ' : ''}
+                {scopeItems.length} {scopeItems.length === 1 ? 'item' : 'items'} in scope
+              </Text>
+            )}
+          </View>
+
+          <BottomSheetScrollView
+            ref={scrollViewRef as any}
+            contentContainerStyle={styles.messagesContainer}
+            showsVerticalScrollIndicator={false}
+          >
+            {messages.map(message =>
+              renderMessage(
+                message,
+                new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+              )
+            )}
+
+            {isTyping && (streamingText ? (
+              renderMessage({ id: 'streaming', role: 'assistant', content: streamingText }, 'Typing...')
+            ) : (
+              <View style={[styles.messageContainer, styles.assistantMessageContainer]}>
+                <View style={[styles.messageBubble, styles.assistantBubble, isDarkMode && styles.assistantBubbleDark]}>
+                  <ActivityIndicator size="small" color={isDarkMode ? '#999999' : '#666666'} />
+                </View>
+              </View>
+            ))}
+          </BottomSheetScrollView>
+
+          <View
+            style={[
+              styles.inputContainer,
+              isDarkMode && styles.inputContainerDark,
+              { paddingBottom: insets.bottom || 10 },
+            ]}
+          >
+            <View style={styles.inputRow}>
+              <BottomSheetTextInput
+                style={[styles.input, isDarkMode && styles.inputDark]}
+                placeholder={space ? `Ask about ${space.name}...` : 'Ask a question...'}
+                placeholderTextColor={isDarkMode ? '#666' : '#999'}
+                value={inputText}
+                onChangeText={setInputText}
+                multiline
+                maxLength={1000}
+                editable={!isTyping}
+              />
+              {isTyping ? (
+                <TouchableOpacity style={[styles.sendButton, styles.stopButton]} onPress={handleStop}>
+                  <MaterialIcons name="stop" size={20} color="#fff" />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.sendButton, (!inputText.trim() || !chat) && styles.sendButtonDisabled]}
+                  onPress={handleSend}
+                  disabled={!inputText.trim() || !chat}
+                >
+                  <MaterialIcons name="send" size={20} color="#fff" />
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
       </BottomSheet>
     );
   })
@@ -86,9 +353,17 @@ const styles = StyleSheet.create({
   handleIndicatorDark: {
     backgroundColor: '#3A3A3C',
   },
-  contentContainer: {
+  container: {
+    flex: 1,
+  },
+  header: {
     paddingHorizontal: 20,
-    paddingTop: 18,
+    paddingVertical: 15,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E7',
+  },
+  headerDark: {
+    borderBottomColor: '#38383A',
   },
   title: {
     fontSize: 20,
@@ -98,8 +373,106 @@ const styles = StyleSheet.create({
   titleDark: {
     color: '#FFFFFF',
   },
+  scope: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#666666',
+  },
+  scopeDark: {
+    color: '#999999',
+  },
+  messagesContainer: {
+    padding: 16,
+  },
+  messageContainer: {
+    marginBottom: 16,
+  },
+  userMessageContainer: {
+    alignItems: 'flex-end',
+  },
+  assistantMessageContainer: {
+    alignItems: 'flex-start',
+  },
+  messageBubble: {
+    maxWidth: '80%',
+    borderRadius: 18,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  userBubble: {
+    backgroundColor: COLORS.primary,
+  },
+  assistantBubble: {
+    backgroundColor: '#E9E9EB',
+  },
+  assistantBubbleDark: {
+    backgroundColor: '#3A3A3C',
+  },
+  messageText: {
+    fontSize: 16,
+    color: '#000000',
+    lineHeight: 22,
+  },
+  userMessageText: {
+    color: '#FFFFFF',
+  },
+  assistantMessageTextDark: {
+    color: '#FFFFFF',
+  },
+  messageTime: {
+    fontSize: 11,
+    color: '#999999',
+    marginTop: 4,
+    marginHorizontal: 8,
+  },
+  messageTimeDark: {
+    color: '#666666',
+  },
+  inputContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#E5E5E7',
+  },
+  inputContainerDark: {
+    backgroundColor: '#1C1C1E',
+    borderTopColor: '#38383A',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#F0F0F0',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    maxHeight: 100,
+    marginRight: 8,
+  },
+  inputDark: {
+    backgroundColor: '#2C2C2E',
+    color: '#FFFFFF',
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 2,
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  stopButton: {
+    backgroundColor: COLORS.danger,
+  },
 });
 
 export default SpaceChatSheet;
-
-
@@ -29,7 +29,8 @@ const SpaceSelectorModal = observer(({
 }: SpaceSelectorModalProps) => {
   const isDarkMode = themeStore.isDarkMode.get();
   const [selectedSpaceId, setSelectedSpaceId] = useState<string | null>(currentSpaceId);
-  const allSpaces = spacesComputed.activeSpaces();
+  // Smart spaces fill themselves from their rule, so items can't be moved into them
+  const allSpaces = spacesComputed.activeSpaces().filter(space => !space.smart_rule);
 
   // Sync internal state with prop when currentSpaceId changes
   useEffect(() => {
@@ -235,6 +235,14 @@ const SpacesManagementModal = observer(({
                   >
                     {item.name}
                   </Text>
+                  {item.smart_rule ? (
+                    <MaterialIcons
+                      name="auto-awesome"
+                      size={14}
+                      color={isDarkMode ? '#999' : '#666'}
+                      style={styles.smartIcon}
+                    />
+                  ) : null}
                 </TouchableOpacity>
 
                 <Host style={{ width: 24, height: 24 }}>
@@ -315,6 +323,9 @@ const styles = StyleSheet.create({
   spaceTextDark: {
     color: '#FFFFFF',
   },
+  smartIcon: {
+    marginLeft: 6,
+  },
   archiveSpaceContainer: {
     marginTop: 8,
   },
@@ -25,7 +25,7 @@ import { observer, useObservable } from '@legendapp/state/react';
 import { themeStore } from '../../stores/theme';
 import { spacesStore, spacesActions } from '../../stores/spaces';
 import { itemsStore, itemsActions } from '../../stores/items';
-import { itemTypeMetadataComputed } from '../../stores/itemTypeMetadata';
+import { itemTypeMetadataComputed, itemTypeMetadataStore } from '../../stores/itemTypeMetadata';
 import { aiSettingsComputed } from '../../stores/aiSettings';
 import { expandedItemUIStore, expandedItemUIActions } from '../../stores/expandedItemUI';
 import { adminSettingsStore } from '../../stores/adminSettings';
@@ -35,13 +35,14 @@ import { generateTags, URLMetadata } from '../../services/urlMetadata';
 import TagsEditor from '../TagsEditor';
 import InlineEditableText from '../InlineEditableText';
 import { openai } from '../../services/openai';
+import { getVisionModel } from '../../services/llm';
 import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as MediaLibrary from 'expo-media-library';
 import ImageUploadModal, { ImageUploadModalHandle } from '../ImageUploadModal';
 import SpaceSelectorModal from '../SpaceSelectorModal';
 import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
-import { HeroMediaSection } from './components';
+import { HeroMediaSection, ReaderSection } from './components';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CONTENT_PADDING = 20;
@@ -369,7 +370,7 @@ const DefaultItemView = observer(({
       for (const imageUrl of imageUrls) {
         // Generate description for each image
         const description = await openai.describeImage(imageUrl, {
-          model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+          model: getVisionModel(selectedModel),
         });
 
         if (description) {
@@ -379,7 +380,7 @@ const DefaultItemView = observer(({
             item_id: itemToDisplay.id,
             image_url: imageUrl,
             description,
-            model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+            model: getVisionModel(selectedModel),
             fetched_at: new Date().toISOString(),
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
@@ -794,6 +795,22 @@ const DefaultItemView = observer(({
           </View>
         )} */}
 
+        {/* Reader mode - clean article body extracted by the pipeline (older items may hold raw HTML) */}
+        {(itemToDisplay?.content_type === 'article' || itemToDisplay?.content_type === 'bookmark')
+          && itemToDisplay.content
+          && !/^\s*</.test(itemToDisplay.content) && (() => {
+          const readerMetadata = itemTypeMetadataStore.typeMetadata.get().find(m => m.item_id === itemToDisplay.id)?.data;
+          return (
+            <ReaderSection
+              body={itemToDisplay.content}
+              isDarkMode={isDarkMode}
+              wordCount={readerMetadata?.word_count}
+              readingMinutes={readerMetadata?.reading_minutes}
+              byline={readerMetadata?.byline}
+            />
+          );
+        })()}
+
         {/* Raw Text (for articles) */}
         {itemToDisplay?.raw_text && (
           <View style={styles.fullContent}>
@@ -0,0 +1,694 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Linking } from 'react-native';
+import { Image } from 'expo-image';
+import * as Clipboard from 'expo-clipboard';
+import { MaterialIcons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import ImageUploadModal, { ImageUploadModalHandle } from '../ImageUploadModal';
+import { themeStore } from '../../stores/theme';
+import { useToast } from '../../contexts/ToastContext';
+import { spacesStore } from '../../stores/spaces';
+import { itemTypeMetadataStore } from '../../stores/itemTypeMetadata';
+import { itemsActions, itemsStore } from '../../stores/items';
+import { Item } from '../../types';
+import { formatCount, formatDate, getGitHubLanguageColor } from '../../utils/itemCardHelpers';
+import { extractGitHubRepo } from '../../utils/urlHelpers';
+import { generateTags, URLMetadata } from '../../services/urlMetadata';
+import TagsEditor from '../TagsEditor';
+import {
+  ItemViewHeader,
+  ItemViewTldr,
+  ItemViewNotes,
+  ItemViewFooter,
+  HeroMediaSection,
+  ExpandableContent,
+  MetadataBadges,
+} from './components';
+import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
+import SpaceSelectorModal from '../SpaceSelectorModal';
+
+interface GitHubItemViewProps {
+  item: Item;
+  onClose?: () => void;
+  onChat?: (item: Item) => void;
+  onArchive?: (item: Item) => void;
+  onUnarchive?: (item: Item) => void;
+  onDelete?: (item: Item) => void;
+  onShare?: (item: Item) => void;
+  currentSpaceId?: string | null;
+  isDeleting?: boolean;
+  isRefreshing?: boolean;
+}
+
+const GitHubItemView = observer(({
+  item,
+  onClose,
+  onChat,
+  onArchive,
+  onUnarchive,
+  onDelete,
+  onShare,
+  currentSpaceId,
+  isDeleting = false,
+  isRefreshing = false,
+}: GitHubItemViewProps) => {
+  const isDarkMode = themeStore.isDarkMode.get();
+  const { showToast } = useToast();
+  const imageUploadModalRef = useRef<ImageUploadModalHandle>(null);
+  const [tags, setTags] = useState<string[]>(item.tags || []);
+  const [showTypeModal, setShowTypeModal] = useState(false);
+  const [showSpaceModal, setShowSpaceModal] = useState(false);
+  const [selectedSpaceId, setSelectedSpaceId] = useState<string | null>(currentSpaceId || null);
+  const [isRefreshingMetadata, setIsRefreshingMetadata] = useState(false);
+
+  // Access observables directly so the view updates when the enricher finishes
+  const repo = itemTypeMetadataStore.typeMetadata.get().find(m => m.item_id === item.id)?.data;
+  const parsed = item.url ? extractGitHubRepo(item.url) : null;
+  const topics: string[] = repo?.topics || [];
+
+  useEffect(() => {
+    setTags(item.tags || []);
+  }, [item.id, item.tags]);
+
+  // Watch for space_id changes in the store and update local state
+  useEffect(() => {
+    if (item?.id) {
+      const latestItem = itemsStore.items.get().find(i => i.id === item.id);
+      if (latestItem && latestItem.space_id !== selectedSpaceId) {
+        console.log('📄 [GitHubItemView] Item space_id changed in store, updating UI');
+        setSelectedSpaceId(latestItem.space_id || null);
+      }
+    }
+  }, [item?.id, itemsStore.items.get()]);
+
+  const handleOpenUrl = async (url?: string) => {
+    if (!url) return;
+    const supported = await Linking.canOpenURL(url);
+    if (supported) {
+      await Linking.openURL(url);
+    } else {
+      Alert.alert('Error', `Cannot open URL: ${url}`);
+    }
+  };
+
+  const handleCopyReadme = async () => {
+    if (repo?.readme_excerpt) {
+      await Clipboard.setStringAsync(repo.readme_excerpt);
+      showToast({ message: 'README copied to clipboard', type: 'success' });
+    }
+  };
+
+  const handleRefreshMetadata = async () => {
+    setIsRefreshingMetadata(true);
+    try {
+      const success = await itemsActions.refreshMetadata(item.id);
+      if (success) {
+        showToast({ message: 'Metadata refreshed successfully', type: 'success' });
+      } else {
+        Alert.alert('Error', 'Failed to refresh metadata');
+      }
+    } catch (error) {
+      console.error('Error refreshing metadata:', error);
+      Alert.alert('Error', 'Failed to refresh metadata');
+    } finally {
+      setIsRefreshingMetadata(false);
+    }
+  };
+
+  const handleHeroImageRemove = async () => {
+    try {
+      await itemsActions.removeItemImage(item.id);
+      showToast({ message: 'Image removed successfully', type: 'success' });
+    } catch (error) {
+      console.error('Error removing image:', error);
+      Alert.alert('Error', 'Failed to remove image');
+    }
+  };
+
+  const handleMetadataImageAdd = async (imageUrl: string) => {
+    try {
+      const { itemTypeMetadataActions } = await import('../../stores/itemTypeMetadata');
+      await itemTypeMetadataActions.addImageUrl(item.id, imageUrl, item.content_type);
+      showToast({ message: 'Image added successfully', type: 'success' });
+    } catch (error) {
+      console.error('Error adding image:', error);
+      Alert.alert('Error', 'Failed to add image');
+    }
+  };
+
+  const handleMetadataImageRemove = async (imageUrl: string) => {
+    try {
+      const { itemTypeMetadataActions } = await import('../../stores/itemTypeMetadata');
+      await itemTypeMetadataActions.removeImageUrl(item.id, imageUrl);
+      showToast({ message: 'Image removed successfully', type: 'success' });
+    } catch (error) {
+      console.error('Error removing image:', error);
+      Alert.alert('Error', 'Failed to remove image');
+    }
+  };
+
+  const selectedSpace = selectedSpaceId
+    ? spacesStore.spaces.get().find(s => s.id === selectedSpaceId)
+    : undefined;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <ItemViewHeader
+        value={item.title || ''}
+        onSave={async (newTitle) => {
+          await itemsActions.updateItem(item.id, { title: newTitle });
+        }}
+        onClose={() => onClose?.()}
+        isDarkMode={isDarkMode}
+        placeholder="Title"
+        onAddImage={() => imageUploadModalRef.current?.open()}
+        onChangeContentType={() => setShowTypeModal(true)}
+        onMoveToSpace={() => setShowSpaceModal(true)}
+        onRefresh={handleRefreshMetadata}
+        onShare={() => onShare?.(item)}
+        onArchive={() => onArchive?.(item)}
+        onUnarchive={() => onUnarchive?.(item)}
+        onDelete={() => onDelete?.(item)}
+        item={item}
+      />
+
+      {/* Social card */}
+      <View style={styles.mediaSection}>
+        <HeroMediaSection
+          item={item}
+          isDarkMode={isDarkMode}
+          contentTypeIcon="⚡"
+          onImageAdd={() => imageUploadModalRef.current?.open()}
+          onImageRemove={handleMetadataImageRemove}
+          onThumbnailRemove={handleHeroImageRemove}
+        />
+      </View>
+
+      {/* Owner */}
+      {(repo?.owner_avatar || parsed) && (
+        <TouchableOpacity
+          style={styles.ownerRow}
+          onPress={() => parsed && handleOpenUrl(`https://github.com/${parsed.owner}`)}
+          activeOpacity={0.7}
+        >
+          {repo?.owner_avatar && (
+            <Image source={{ uri: repo.owner_avatar }} style={styles.ownerAvatar} contentFit="cover" />
+          )}
+          {parsed && (
+            <Text style={[styles.ownerName, isDarkMode && styles.ownerNameDark]}>{parsed.owner}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {/* Description */}
+      {item.desc && (
+        <View style={styles.section}>
+          <Text style={[styles.description, isDarkMode && styles.descriptionDark]}>{item.desc}</Text>
+        </View>
+      )}
+
+      {/* Repository stats */}
+      {repo && (
+        <View style={styles.section}>
+          <View style={styles.statsRow}>
+            <View style={[styles.statBox, isDarkMode && styles.statBoxDark]}>
+              <Text style={[styles.statValue, isDarkMode && styles.statValueDark]}>{formatCount(repo.stars || 0)}</Text>
+              <Text style={[styles.statLabel, isDarkMode && styles.statLabelDark]}>Stars</Text>
+            </View>
+            <View style={[styles.statBox, isDarkMode && styles.statBoxDark]}>
+              <Text style={[styles.statValue, isDarkMode && styles.statValueDark]}>{formatCount(repo.forks || 0)}</Text>
+              <Text style={[styles.statLabel, isDarkMode && styles.statLabelDark]}>Forks</Text>
+            </View>
+            <View style={[styles.statBox, isDarkMode && styles.statBoxDark]}>
+              <Text style={[styles.statValue, isDarkMode && styles.statValueDark]}>{formatCount(repo.open_issues || 0)}</Text>
+              <Text style={[styles.statLabel, isDarkMode && styles.statLabelDark]}>Issues</Text>
+            </View>
+          </View>
+
+          <View style={styles.detailsRow}>
+            {repo.language && (
+              <View style={styles.detail}>
+                <View style={[styles.languageDot, { backgroundColor: getGitHubLanguageColor(repo.language) }]} />
+                <Text style={[styles.detailText, isDarkMode && styles.detailTextDark]}>{repo.language}</Text>
+              </View>
+            )}
+            {repo.license && (
+              <Text style={[styles.detailText, isDarkMode && styles.detailTextDark]}>⚖️ {repo.license}</Text>
+            )}
+            {repo.pushed_at && (
+              <Text style={[styles.detailText, isDarkMode && styles.detailTextDark]}>
+                Last push {formatDate(repo.pushed_at)}
+              </Text>
+            )}
+          </View>
+
+          <MetadataBadges
+            badges={[
+              { label: 'Archived', icon: '📦', show: !!repo.archived, backgroundColor: '#FFF3CD', textColor: '#856404' },
+              { label: 'Fork', icon: '⑂', show: !!repo.is_fork },
+            ]}
+          />
+        </View>
+      )}
+
+      {/* Topics */}
+      {topics.length > 0 && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>Topics</Text>
+          <View style={styles.topics}>
+            {topics.map(topic => (
+              <View key={topic} style={[styles.topic, isDarkMode && styles.topicDark]}>
+                <Text style={[styles.topicText, isDarkMode && styles.topicTextDark]}>{topic}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Homepage */}
+      {repo?.homepage && (
+        <TouchableOpacity
+          style={[styles.urlContainer, styles.homepage, isDarkMode && styles.urlContainerDark]}
+          onPress={() => handleOpenUrl(repo.homepage)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.urlText, isDarkMode && styles.urlTextDark]} numberOfLines={1}>
+            {repo.homepage}
+          </Text>
+          <MaterialIcons name="open-in-new" size={20} color={isDarkMode ? '#5AC8FA' : '#007AFF'} />
+        </TouchableOpacity>
+      )}
+
+      {/* README */}
+      {repo?.readme_excerpt && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>README</Text>
+          <ExpandableContent
+            content={repo.readme_excerpt}
+            isDarkMode={isDarkMode}
+            expandLabel="View README"
+            collapseLabel="Hide README"
+            onCopy={handleCopyReadme}
+          />
+        </View>
+      )}
+
+      {/* TLDR Section */}
+      <ItemViewTldr item={item} isDarkMode={isDarkMode} />
+
+      {/* Tags Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>Tags</Text>
+        <TagsEditor
+          tags={tags}
+          onChangeTags={async (newTags) => {
+            setTags(newTags);
+            await itemsActions.updateItem(item.id, { tags: newTags });
+          }}
+          generateTags={async () => {
+            const content = repo?.readme_excerpt || item.title || item.desc || '';
+            const metadata: URLMetadata = {
+              url: item.url || '',
+              title: item.title,
+              description: item.desc,
+              contentType: item.content_type,
+            };
+            const generated = await generateTags(content, metadata);
+            return generated || [];
+          }}
+          buttonLabel="✨ Generate Tags"
+        />
+      </View>
+
+      {/* Notes Section */}
+      <ItemViewNotes item={item} isDarkMode={isDarkMode} />
+
+      {/* Space Selector */}
+      <View style={styles.spaceSection}>
+        <Text style={[styles.spaceSectionLabel, isDarkMode && styles.spaceSectionLabelDark]}>
+          SPACES
+        </Text>
+        <TouchableOpacity
+          style={[styles.spaceSelector, isDarkMode && styles.spaceSelectorDark]}
+          onPress={() => setShowSpaceModal(true)}
+          activeOpacity={0.7}
+        >
+          {selectedSpace ? (
+            <View style={styles.selectedSpaceTag}>
+              <View style={[styles.spaceTagDot, { backgroundColor: selectedSpace.color }]} />
+              <Text style={[styles.spaceTagText, isDarkMode && styles.spaceTagTextDark]}>
+                {selectedSpace.name}
+              </Text>
+            </View>
+          ) : (
+            <Text style={[styles.noSpace, isDarkMode && styles.noSpaceDark]}>
+              📂 Everything (No Space)
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* URL Section */}
+      {item.url && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>URL</Text>
+          <TouchableOpacity
+            style={[styles.urlContainer, isDarkMode && styles.urlContainerDark]}
+            onPress={() => handleOpenUrl(item.url)}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[styles.urlText, isDarkMode && styles.urlTextDark]}
+              numberOfLines={2}
+              ellipsizeMode="middle"
+            >
+              {item.url}
+            </Text>
+            <MaterialIcons name="open-in-new" size={20} color={isDarkMode ? '#5AC8FA' : '#007AFF'} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Content Type Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>Content Type</Text>
+        <TouchableOpacity
+          style={[styles.typeSelector, isDarkMode && styles.typeSelectorDark]}
+          onPress={() => setShowTypeModal(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.contentType, isDarkMode && styles.contentTypeDark]}>
+            {item.content_type}
+          </Text>
+          <Text style={[styles.chevron, isDarkMode && styles.chevronDark]}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Primary Action */}
+      {onChat && (
+        <TouchableOpacity
+          style={[styles.chatButton, isDarkMode && styles.chatButtonDark]}
+          onPress={() => onChat(item)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.chatButtonText}>💬 Chat</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Footer */}
+      <ItemViewFooter
+        item={item}
+        onRefresh={handleRefreshMetadata}
+        onShare={() => onShare?.(item)}
+        onArchive={() => onArchive?.(item)}
+        onUnarchive={() => onUnarchive?.(item)}
+        onDelete={() => onDelete?.(item)}
+        isRefreshing={isRefreshingMetadata || isRefreshing}
+        isDeleting={isDeleting}
+        isDarkMode={isDarkMode}
+      />
+
+      <ImageUploadModal
+        ref={imageUploadModalRef}
+        onImageSelected={handleMetadataImageAdd}
+      />
+
+      {/* Content Type Selector Modal */}
+      <ContentTypeSelectorModal
+        visible={showTypeModal}
+        itemId={item.id}
+        currentType={item.content_type}
+        onClose={() => setShowTypeModal(false)}
+        onTypeChange={() => {
+          // Modal handles the update, just close
+        }}
+      />
+
+      {/* Space Selector Modal */}
+      <SpaceSelectorModal
+        visible={showSpaceModal}
+        itemId={item.id}
+        currentSpaceId={selectedSpaceId}
+        onClose={() => setShowSpaceModal(false)}
+        onSpaceChange={(spaceId) => setSelectedSpaceId(spaceId)}
+      />
+    </View>
+  );
+});
+
+export default GitHubItemView;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  mediaSection: {
+    marginBottom: 16,
+  },
+  ownerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  ownerAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  ownerName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  ownerNameDark: {
+    color: '#CCCCCC',
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionTitleDark: {
+    color: '#FFFFFF',
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#333333',
+  },
+  descriptionDark: {
+    color: '#CCCCCC',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  statBox: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+  },
+  statBoxDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#000000',
+  },
+  statValueDark: {
+    color: '#FFFFFF',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  statLabelDark: {
+    color: '#999999',
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  detail: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  languageDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  detailTextDark: {
+    color: '#999999',
+  },
+  topics: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  topic: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  topicDark: {
+    backgroundColor: 'rgba(10, 132, 255, 0.2)',
+  },
+  topicText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  topicTextDark: {
+    color: '#5AC8FA',
+  },
+  homepage: {
+    marginBottom: 20,
+  },
+  spaceSection: {
+    marginBottom: 20,
+  },
+  spaceSectionLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  spaceSectionLabelDark: {
+    color: '#999',
+  },
+  spaceSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  spaceSelectorDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3C3C3E',
+  },
+  selectedSpaceTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  spaceTagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  spaceTagText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  spaceTagTextDark: {
+    color: '#FFF',
+  },
+  noSpace: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  noSpaceDark: {
+    color: '#666',
+  },
+  urlContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#F5F5F5',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    gap: 8,
+  },
+  urlContainerDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3A3A3C',
+  },
+  urlText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#007AFF',
+    textDecorationLine: 'underline',
+  },
+  urlTextDark: {
+    color: '#5AC8FA',
+  },
+  typeSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  typeSelectorDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3A3A3C',
+  },
+  contentType: {
+    fontSize: 15,
+    color: '#666666',
+    textTransform: 'capitalize',
+  },
+  contentTypeDark: {
+    color: '#999999',
+  },
+  chevron: {
+    fontSize: 24,
+    color: '#666666',
+    fontWeight: '300',
+  },
+  chevronDark: {
+    color: '#999999',
+  },
+  chatButton: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  chatButtonDark: {
+    backgroundColor: '#0A84FF',
+  },
+  chatButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
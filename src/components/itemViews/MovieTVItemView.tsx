@@ -22,6 +22,7 @@ import { generateTags, URLMetadata } from '../../services/urlMetadata';
 import TagsEditor from '../TagsEditor';
 import InlineEditableText from '../InlineEditableText';
 import { openai } from '../../services/openai';
+import { getVisionModel } from '../../services/llm';
 import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
 import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
 import SpaceSelectorModal from '../SpaceSelectorModal';
@@ -231,7 +232,7 @@ const MovieTVItemView = observer(({
       for (const imageUrl of urlsToDescribe) {
         // Generate description for each image
         const description = await openai.describeImage(imageUrl, {
-          model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+          model: getVisionModel(selectedModel),
           maxTokens: 500,
         });
 
@@ -240,7 +241,7 @@ const MovieTVItemView = observer(({
           item_id: itemToDisplay.id,
           image_url: imageUrl,
           description,
-          model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+          model: getVisionModel(selectedModel),
           fetched_at: new Date().toISOString(),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -11,7 +11,7 @@ import { Item, ContentType } from '../../types';
 import TagsEditor from '../TagsEditor';
 import InlineEditableText from '../InlineEditableText';
 import { generateTags, URLMetadata } from '../../services/urlMetadata';
-import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
+import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter, ClipSourceSection } from './components';
 import * as Clipboard from 'expo-clipboard';
 import ImageUploadModal, { ImageUploadModalHandle } from '../ImageUploadModal';
 import { HeroMediaSection } from './components';
@@ -196,6 +196,9 @@ const NoteItemView = observer(({ item, onClose, onChat, onArchive, onUnarchive,
           </View>
         )} */}
 
+        {/* Source of a transcript clip */}
+        <ClipSourceSection item={itemToDisplay} isDarkMode={isDarkMode} />
+
         {/* Notes Section */}
         <ItemViewNotes
           item={itemToDisplay}
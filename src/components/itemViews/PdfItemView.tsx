@@ -0,0 +1,595 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Linking } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { MaterialIcons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import ImageUploadModal, { ImageUploadModalHandle } from '../ImageUploadModal';
+import { themeStore } from '../../stores/theme';
+import { useToast } from '../../contexts/ToastContext';
+import { spacesStore } from '../../stores/spaces';
+import { itemTypeMetadataStore } from '../../stores/itemTypeMetadata';
+import { itemMetadataComputed } from '../../stores/itemMetadata';
+import { itemsActions, itemsStore } from '../../stores/items';
+import { Item } from '../../types';
+import { splitPdfPages } from '../../services/pdf';
+import { generateTags, URLMetadata } from '../../services/urlMetadata';
+import TagsEditor from '../TagsEditor';
+import {
+  ItemViewHeader,
+  ItemViewTldr,
+  ItemViewNotes,
+  ItemViewFooter,
+  HeroMediaSection,
+} from './components';
+import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
+import SpaceSelectorModal from '../SpaceSelectorModal';
+
+interface PdfItemViewProps {
+  item: Item;
+  onClose?: () => void;
+  onChat?: (item: Item) => void;
+  onArchive?: (item: Item) => void;
+  onUnarchive?: (item: Item) => void;
+  onDelete?: (item: Item) => void;
+  onShare?: (item: Item) => void;
+  currentSpaceId?: string | null;
+  isDeleting?: boolean;
+  isRefreshing?: boolean;
+}
+
+const PdfItemView = observer(({
+  item,
+  onClose,
+  onChat,
+  onArchive,
+  onUnarchive,
+  onDelete,
+  onShare,
+  currentSpaceId,
+  isDeleting = false,
+  isRefreshing = false,
+}: PdfItemViewProps) => {
+  const isDarkMode = themeStore.isDarkMode.get();
+  const { showToast } = useToast();
+  const imageUploadModalRef = useRef<ImageUploadModalHandle>(null);
+  const [tags, setTags] = useState<string[]>(item.tags || []);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [showTypeModal, setShowTypeModal] = useState(false);
+  const [showSpaceModal, setShowSpaceModal] = useState(false);
+  const [selectedSpaceId, setSelectedSpaceId] = useState<string | null>(currentSpaceId || null);
+  const [isRefreshingMetadata, setIsRefreshingMetadata] = useState(false);
+
+  const pdfInfo = itemTypeMetadataStore.typeMetadata.get().find(m => m.item_id === item.id)?.data;
+  const author = itemMetadataComputed.getMetadataForItem(item.id)?.author;
+  const pages = item.raw_text ? splitPdfPages(item.raw_text) : [];
+  const pageCount: number = pdfInfo?.page_count || pages.length;
+  const currentPage = pages[pageIndex];
+
+  useEffect(() => {
+    setTags(item.tags || []);
+  }, [item.id, item.tags]);
+
+  // Start from the first page whenever a different PDF is opened
+  useEffect(() => {
+    setPageIndex(0);
+  }, [item.id]);
+
+  // Watch for space_id changes in the store and update local state
+  useEffect(() => {
+    if (item?.id) {
+      const latestItem = itemsStore.items.get().find(i => i.id === item.id);
+      if (latestItem && latestItem.space_id !== selectedSpaceId) {
+        console.log('📄 [PdfItemView] Item space_id changed in store, updating UI');
+        setSelectedSpaceId(latestItem.space_id || null);
+      }
+    }
+  }, [item?.id, itemsStore.items.get()]);
+
+  const handleOpenPdf = async () => {
+    if (!item.url) return;
+    const supported = await Linking.canOpenURL(item.url);
+    if (supported) {
+      await Linking.openURL(item.url);
+    } else {
+      Alert.alert('Error', `Cannot open URL: ${item.url}`);
+    }
+  };
+
+  const handleCopyPage = async () => {
+    if (currentPage) {
+      await Clipboard.setStringAsync(currentPage);
+      showToast({ message: `Page ${pageIndex + 1} copied to clipboard`, type: 'success' });
+    }
+  };
+
+  const handleRefreshMetadata = async () => {
+    setIsRefreshingMetadata(true);
+    try {
+      const success = await itemsActions.refreshMetadata(item.id);
+      if (success) {
+        showToast({ message: 'Metadata refreshed successfully', type: 'success' });
+      } else {
+        Alert.alert('Error', 'Failed to refresh metadata');
+      }
+    } catch (error) {
+      console.error('Error refreshing metadata:', error);
+      Alert.alert('Error', 'Failed to refresh metadata');
+    } finally {
+      setIsRefreshingMetadata(false);
+    }
+  };
+
+  const handleHeroImageRemove = async () => {
+    try {
+      await itemsActions.removeItemImage(item.id);
+      showToast({ message: 'Image removed successfully', type: 'success' });
+    } catch (error) {
+      console.error('Error removing image:', error);
+      Alert.alert('Error', 'Failed to remove image');
+    }
+  };
+
+  const handleMetadataImageAdd = async (imageUrl: string) => {
+    try {
+      const { itemTypeMetadataActions } = await import('../../stores/itemTypeMetadata');
+      await itemTypeMetadataActions.addImageUrl(item.id, imageUrl, item.content_type);
+      showToast({ message: 'Image added successfully', type: 'success' });
+    } catch (error) {
+      console.error('Error adding image:', error);
+      Alert.alert('Error', 'Failed to add image');
+    }
+  };
+
+  const handleMetadataImageRemove = async (imageUrl: string) => {
+    try {
+      const { itemTypeMetadataActions } = await import('../../stores/itemTypeMetadata');
+      await itemTypeMetadataActions.removeImageUrl(item.id, imageUrl);
+      showToast({ message: 'Image removed successfully', type: 'success' });
+    } catch (error) {
+      console.error('Error removing image:', error);
+      Alert.alert('Error', 'Failed to remove image');
+    }
+  };
+
+  const selectedSpace = selectedSpaceId
+    ? spacesStore.spaces.get().find(s => s.id === selectedSpaceId)
+    : undefined;
+
+  const canGoBack = pageIndex > 0;
+  const canGoForward = pageIndex < pages.length - 1;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <ItemViewHeader
+        value={item.title || ''}
+        onSave={async (newTitle) => {
+          await itemsActions.updateItem(item.id, { title: newTitle });
+        }}
+        onClose={() => onClose?.()}
+        isDarkMode={isDarkMode}
+        placeholder="Title"
+        onAddImage={() => imageUploadModalRef.current?.open()}
+        onChangeContentType={() => setShowTypeModal(true)}
+        onMoveToSpace={() => setShowSpaceModal(true)}
+        onRefresh={handleRefreshMetadata}
+        onShare={() => onShare?.(item)}
+        onArchive={() => onArchive?.(item)}
+        onUnarchive={() => onUnarchive?.(item)}
+        onDelete={() => onDelete?.(item)}
+        item={item}
+      />
+
+      {/* First page */}
+      <View style={styles.mediaSection}>
+        <HeroMediaSection
+          item={item}
+          isDarkMode={isDarkMode}
+          contentTypeIcon="📄"
+          onImageAdd={() => imageUploadModalRef.current?.open()}
+          onImageRemove={handleMetadataImageRemove}
+          onThumbnailRemove={handleHeroImageRemove}
+        />
+      </View>
+
+      {/* Document info */}
+      {(pageCount > 0 || author) && (
+        <Text style={[styles.docInfo, isDarkMode && styles.docInfoDark]}>
+          {[pageCount > 0 && `${pageCount} page${pageCount === 1 ? '' : 's'}`, author].filter(Boolean).join(' · ')}
+        </Text>
+      )}
+
+      {/* Open PDF */}
+      {item.url && (
+        <TouchableOpacity
+          style={[styles.openButton, isDarkMode && styles.openButtonDark]}
+          onPress={handleOpenPdf}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="picture-as-pdf" size={20} color={isDarkMode ? '#5AC8FA' : '#007AFF'} />
+          <Text style={[styles.openButtonText, isDarkMode && styles.openButtonTextDark]}>Open PDF</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Page text with navigation */}
+      <View style={styles.section}>
+        <View style={styles.pagesHeader}>
+          <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>Text</Text>
+          {currentPage && (
+            <TouchableOpacity onPress={handleCopyPage} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <MaterialIcons name="content-copy" size={18} color={isDarkMode ? '#999999' : '#666666'} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {pages.length > 0 ? (
+          <>
+            <View style={[styles.pageBox, isDarkMode && styles.pageBoxDark]}>
+              <Text style={[styles.pageText, isDarkMode && styles.pageTextDark]} selectable>
+                {currentPage || 'No text on this page'}
+              </Text>
+            </View>
+
+            <View style={styles.pageNav}>
+              <TouchableOpacity
+                style={[styles.pageNavButton, !canGoBack && styles.pageNavButtonDisabled]}
+                onPress={() => setPageIndex(pageIndex - 1)}
+                disabled={!canGoBack}
+              >
+                <MaterialIcons name="chevron-left" size={24} color={isDarkMode ? '#FFFFFF' : '#000000'} />
+              </TouchableOpacity>
+              <Text style={[styles.pageNavLabel, isDarkMode && styles.pageNavLabelDark]}>
+                Page {pageIndex + 1} of {pages.length}
+              </Text>
+              <TouchableOpacity
+                style={[styles.pageNavButton, !canGoForward && styles.pageNavButtonDisabled]}
+                onPress={() => setPageIndex(pageIndex + 1)}
+                disabled={!canGoForward}
+              >
+                <MaterialIcons name="chevron-right" size={24} color={isDarkMode ? '#FFFFFF' : '#000000'} />
+              </TouchableOpacity>
+            </View>
+
+            {pdfInfo?.extracted_pages && pdfInfo.page_count > pdfInfo.extracted_pages && (
+              <Text style={[styles.hint, isDarkMode && styles.hintDark]}>
+                Text was extracted from the first {pdfInfo.extracted_pages} pages only
+              </Text>
+            )}
+          </>
+        ) : (
+          <Text style={[styles.hint, isDarkMode && styles.hintDark]}>
+            {pdfInfo?.has_text === false
+              ? 'This PDF has no selectable text (it may be a scan)'
+              : 'Text will appear here once the PDF has been processed'}
+          </Text>
+        )}
+      </View>
+
+      {/* TLDR Section */}
+      <ItemViewTldr item={item} isDarkMode={isDarkMode} />
+
+      {/* Tags Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>Tags</Text>
+        <TagsEditor
+          tags={tags}
+          onChangeTags={async (newTags) => {
+            setTags(newTags);
+            await itemsActions.updateItem(item.id, { tags: newTags });
+          }}
+          generateTags={async () => {
+            const content = item.raw_text?.slice(0, 4000) || item.title || item.desc || '';
+            const metadata: URLMetadata = {
+              url: item.url || '',
+              title: item.title,
+              description: item.desc,
+              contentType: item.content_type,
+            };
+            const generated = await generateTags(content, metadata);
+            return generated || [];
+          }}
+          buttonLabel="✨ Generate Tags"
+        />
+      </View>
+
+      {/* Notes Section */}
+      <ItemViewNotes item={item} isDarkMode={isDarkMode} />
+
+      {/* Space Selector */}
+      <View style={styles.spaceSection}>
+        <Text style={[styles.spaceSectionLabel, isDarkMode && styles.spaceSectionLabelDark]}>
+          SPACES
+        </Text>
+        <TouchableOpacity
+          style={[styles.spaceSelector, isDarkMode && styles.spaceSelectorDark]}
+          onPress={() => setShowSpaceModal(true)}
+          activeOpacity={0.7}
+        >
+          {selectedSpace ? (
+            <View style={styles.selectedSpaceTag}>
+              <View style={[styles.spaceTagDot, { backgroundColor: selectedSpace.color }]} />
+              <Text style={[styles.spaceTagText, isDarkMode && styles.spaceTagTextDark]}>
+                {selectedSpace.name}
+              </Text>
+            </View>
+          ) : (
+            <Text style={[styles.noSpace, isDarkMode && styles.noSpaceDark]}>
+              📂 Everything (No Space)
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Content Type Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDarkMode && styles.sectionTitleDark]}>Content Type</Text>
+        <TouchableOpacity
+          style={[styles.typeSelector, isDarkMode && styles.typeSelectorDark]}
+          onPress={() => setShowTypeModal(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.contentType, isDarkMode && styles.contentTypeDark]}>
+            {item.content_type}
+          </Text>
+          <Text style={[styles.chevron, isDarkMode && styles.chevronDark]}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Primary Action */}
+      {onChat && (
+        <TouchableOpacity
+          style={[styles.chatButton, isDarkMode && styles.chatButtonDark]}
+          onPress={() => onChat(item)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.chatButtonText}>💬 Chat</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Footer */}
+      <ItemViewFooter
+        item={item}
+        onRefresh={handleRefreshMetadata}
+        onShare={() => onShare?.(item)}
+        onArchive={() => onArchive?.(item)}
+        onUnarchive={() => onUnarchive?.(item)}
+        onDelete={() => onDelete?.(item)}
+        isRefreshing={isRefreshingMetadata || isRefreshing}
+        isDeleting={isDeleting}
+        isDarkMode={isDarkMode}
+      />
+
+      <ImageUploadModal
+        ref={imageUploadModalRef}
+        onImageSelected={handleMetadataImageAdd}
+      />
+
+      {/* Content Type Selector Modal */}
+      <ContentTypeSelectorModal
+        visible={showTypeModal}
+        itemId={item.id}
+        currentType={item.content_type}
+        onClose={() => setShowTypeModal(false)}
+        onTypeChange={() => {
+          // Modal handles the update, just close
+        }}
+      />
+
+      {/* Space Selector Modal */}
+      <SpaceSelectorModal
+        visible={showSpaceModal}
+        itemId={item.id}
+        currentSpaceId={selectedSpaceId}
+        onClose={() => setShowSpaceModal(false)}
+        onSpaceChange={(spaceId) => setSelectedSpaceId(spaceId)}
+      />
+    </View>
+  );
+});
+
+export default PdfItemView;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  mediaSection: {
+    marginBottom: 16,
+  },
+  docInfo: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  docInfoDark: {
+    color: '#999999',
+  },
+  openButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F5F5F5',
+  },
+  openButtonDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3A3A3C',
+  },
+  openButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  openButtonTextDark: {
+    color: '#5AC8FA',
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionTitleDark: {
+    color: '#FFFFFF',
+  },
+  pagesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  pageBox: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+    minHeight: 120,
+  },
+  pageBoxDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  pageText: {
+    fontSize: 14,
+    lineHeight: 21,
+    color: '#333333',
+  },
+  pageTextDark: {
+    color: '#CCCCCC',
+  },
+  pageNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  pageNavButton: {
+    padding: 6,
+  },
+  pageNavButtonDisabled: {
+    opacity: 0.3,
+  },
+  pageNavLabel: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  pageNavLabelDark: {
+    color: '#999999',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999999',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  hintDark: {
+    color: '#666666',
+  },
+  spaceSection: {
+    marginBottom: 20,
+  },
+  spaceSectionLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  spaceSectionLabelDark: {
+    color: '#999',
+  },
+  spaceSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  spaceSelectorDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3C3C3E',
+  },
+  selectedSpaceTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  spaceTagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  spaceTagText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  spaceTagTextDark: {
+    color: '#FFF',
+  },
+  noSpace: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  noSpaceDark: {
+    color: '#666',
+  },
+  typeSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  typeSelectorDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3A3A3C',
+  },
+  contentType: {
+    fontSize: 15,
+    color: '#666666',
+    textTransform: 'capitalize',
+  },
+  contentTypeDark: {
+    color: '#999999',
+  },
+  chevron: {
+    fontSize: 24,
+    color: '#666666',
+    fontWeight: '300',
+  },
+  chevronDark: {
+    color: '#999999',
+  },
+  chatButton: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  chatButtonDark: {
+    backgroundColor: '#0A84FF',
+  },
+  chatButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -26,13 +26,17 @@ import { adminSettingsStore } from '../../stores/adminSettings';
 import { Item, ContentType } from '../../types';
 import { generateTags, URLMetadata } from '../../services/urlMetadata';
 import TagsEditor from '../TagsEditor';
-import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
+import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter, PodcastSubscriptionSection, TranscriptSegmentList, TranscriptExportButton, TranscriptChaptersSection } from './components';
+import type { TranscriptSegment } from './components';
 import InlineEditableText from '../InlineEditableText';
 import { HeroMediaSection } from './components';
 import ImageUploadModal, { ImageUploadModalHandle } from '../ImageUploadModal';
 import SpaceSelectorModal from '../SpaceSelectorModal';
 import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
 import AudioPlayer from '../AudioPlayer';
+import { audioPlayerStore, audioPlayerComputed } from '../../stores/audioPlayer';
+import { audioPlaybackService } from '../../services/audioPlayback';
+import { saveTranscriptClip } from '../../services/transcriptClips';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CONTENT_PADDING = 20;
@@ -279,6 +283,17 @@ const PodcastItemView = observer(({
     }
   };
 
+  const handleSaveClip = async (segments: TranscriptSegment[]) => {
+    try {
+      await saveTranscriptClip(itemToDisplay, segments);
+      showToast({ message: 'Clip saved as a note', type: 'success' });
+    } catch (error) {
+      console.error('Error saving clip:', error);
+      showToast({ message: 'Failed to save clip', type: 'error' });
+      throw error;
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -433,14 +448,17 @@ const PodcastItemView = observer(({
       <View style={styles.content}>
         {/* Audio Player - Only show if this is a specific episode with audio URL */}
         {isEpisode && audioUrl ? (
-          <AudioPlayer itemId={itemToDisplay.id} audioUrl={audioUrl} isDarkMode={isDarkMode} />
+          <AudioPlayer itemId={itemToDisplay.id} isDarkMode={isDarkMode} />
         ) : isEpisode ? (
           <View style={[styles.noAudioNotice, isDarkMode && styles.noAudioNoticeDark]}>
             <Text style={[styles.noAudioText, isDarkMode && styles.noAudioTextDark]}>
               No audio URL found for this episode. Transcription unavailable.
             </Text>
           </View>
-        ) : null}
+        ) : (
+          // A show rather than an episode - can be subscribed to for new episodes
+          <PodcastSubscriptionSection item={itemToDisplay} isDarkMode={isDarkMode} />
+        )}
 
         <View style={styles.metadata}>
           {/* Episode/Season Numbers */}
@@ -525,6 +543,16 @@ const PodcastItemView = observer(({
           }}
         />
 
+        {/* Key moments (the player above lists the chapters) */}
+        {isEpisode && audioUrl && (
+          <TranscriptChaptersSection
+            itemId={itemToDisplay.id}
+            isDarkMode={isDarkMode}
+            onSeek={(positionMs) => audioPlaybackService.playItem(itemToDisplay.id, { positionMs })}
+            showChapterList={false}
+          />
+        )}
+
         {/* Transcript Section */}
         {isEpisode && audioUrl && (
           <View style={styles.transcriptSection}>
@@ -566,11 +594,25 @@ const PodcastItemView = observer(({
 
                 {showTranscript && (
                   <View style={[styles.transcriptContent, isDarkMode && styles.transcriptContentDark]}>
-                    <ScrollView style={styles.transcriptScrollView} showsVerticalScrollIndicator={false}>
-                      <Text style={[styles.transcriptText, isDarkMode && styles.transcriptTextDark]}>
-                        {transcript}
-                      </Text>
-                    </ScrollView>
+                    {transcriptSegments && transcriptSegments.length > 0 ? (
+                      <View style={styles.transcriptSegmentList}>
+                        <TranscriptSegmentList
+                          segments={transcriptSegments}
+                          isDarkMode={isDarkMode}
+                          getPositionMs={() => audioPlayerComputed.isCurrent(itemToDisplay.id)
+                            ? audioPlayerStore.positionMs.get()
+                            : null}
+                          onSeek={(positionMs) => audioPlaybackService.playItem(itemToDisplay.id, { positionMs })}
+                          onSaveClip={handleSaveClip}
+                        />
+                      </View>
+                    ) : (
+                      <ScrollView style={styles.transcriptScrollView} showsVerticalScrollIndicator={false}>
+                        <Text style={[styles.transcriptText, isDarkMode && styles.transcriptTextDark]}>
+                          {transcript}
+                        </Text>
+                      </ScrollView>
+                    )}
                     <TouchableOpacity
                       style={styles.transcriptCopyButton}
                       onPress={copyTranscriptToClipboard}
@@ -582,6 +624,16 @@ const PodcastItemView = observer(({
                       <Text style={[styles.transcriptFooterText, isDarkMode && styles.transcriptFooterTextDark]}>
                         {transcriptStats.chars.toLocaleString()} characters • {transcriptStats.words.toLocaleString()} words
                       </Text>
+                      <TranscriptExportButton
+                        transcript={{
+                          ...videoTranscriptsComputed.getTranscriptByItemId(itemToDisplay.id),
+                          transcript,
+                          segments: transcriptSegments ?? undefined,
+                        }}
+                        title={itemToDisplay.title}
+                        chapters={audioPlayerComputed.chaptersForItem(itemToDisplay.id)}
+                        textStyle={styles.transcriptExportText}
+                      />
                     </View>
                   </View>
                 )}
@@ -883,6 +935,11 @@ const styles = StyleSheet.create({
     maxHeight: 300,
     paddingBottom: 35,
   },
+  transcriptSegmentList: {
+    // Keeps the search bar clear of the copy button
+    paddingTop: 40,
+    paddingBottom: 35,
+  },
   transcriptText: {
     fontSize: 14,
     color: '#333',
@@ -917,6 +974,9 @@ const styles = StyleSheet.create({
     borderTopColor: '#E0E0E0',
     borderBottomLeftRadius: 8,
     borderBottomRightRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
   },
   transcriptFooterDark: {
     backgroundColor: 'rgba(44, 44, 46, 0.98)',
@@ -931,6 +991,9 @@ const styles = StyleSheet.create({
   transcriptFooterTextDark: {
     color: '#999',
   },
+  transcriptExportText: {
+    fontSize: 12,
+  },
   tagsSection: {
     marginBottom: 20,
   },
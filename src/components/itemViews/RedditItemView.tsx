@@ -36,6 +36,7 @@ import { generateTags, URLMetadata } from '../../services/urlMetadata';
 import TagsEditor from '../TagsEditor';
 import InlineEditableText from '../InlineEditableText';
 import { openai } from '../../services/openai';
+import { getVisionModel } from '../../services/llm';
 import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
 import SpaceSelectorModal from '../SpaceSelectorModal';
 import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
@@ -337,7 +338,7 @@ const RedditItemView = observer(({
       for (const imageUrl of imageUrls) {
         // Generate description for each image
         const description = await openai.describeImage(imageUrl, {
-          model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+          model: getVisionModel(selectedModel),
         });
 
         if (description) {
@@ -347,7 +348,7 @@ const RedditItemView = observer(({
             item_id: itemToDisplay.id,
             image_url: imageUrl,
             description,
-            model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+            model: getVisionModel(selectedModel),
             fetched_at: new Date().toISOString(),
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
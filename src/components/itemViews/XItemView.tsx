@@ -40,9 +40,10 @@ import { generateTags, URLMetadata } from '../../services/urlMetadata';
 import TagsEditor from '../TagsEditor';
 import InlineEditableText from '../InlineEditableText';
 import { openai } from '../../services/openai';
+import { getVisionModel } from '../../services/llm';
 import { getXVideoTranscript } from '../../services/twitter';
 import { itemMetadataComputed } from '../../stores/itemMetadata';
-import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
+import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter, TranscriptExportButton } from './components';
 import { extractUsername } from '../../utils/itemCardHelpers';
 import SpaceSelectorModal from '../SpaceSelectorModal';
 import ContentTypeSelectorModal from '../ContentTypeSelectorModal';
@@ -494,7 +495,7 @@ const XItemView = observer(({
 
       for (const imageUrl of imageUrls) {
         const description = await openai.describeImage(imageUrl, {
-          model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+          model: getVisionModel(selectedModel),
         });
 
         if (description) {
@@ -503,7 +504,7 @@ const XItemView = observer(({
             item_id: itemToDisplay.id,
             image_url: imageUrl,
             description,
-            model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+            model: getVisionModel(selectedModel),
             fetched_at: new Date().toISOString(),
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
@@ -1029,6 +1030,14 @@ const XItemView = observer(({
                       <Text style={[styles.transcriptFooterText, isDarkMode && styles.transcriptFooterTextDark]}>
                         {transcriptStats.chars.toLocaleString()} chars • {transcriptStats.words.toLocaleString()} words • ~{transcriptStats.readTime} min read
                       </Text>
+                      <TranscriptExportButton
+                        transcript={{
+                          ...videoTranscriptsComputed.getTranscriptByItemId(itemToDisplay.id),
+                          transcript,
+                        }}
+                        title={itemToDisplay.title}
+                        textStyle={styles.transcriptExportText}
+                      />
                     </View>
                   </View>
                 )}
@@ -1688,6 +1697,9 @@ const styles = StyleSheet.create({
     borderTopColor: '#E0E0E0',
     borderBottomLeftRadius: 8,
     borderBottomRightRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
   },
   transcriptFooterDark: {
     backgroundColor: 'rgba(44, 44, 46, 0.98)',
@@ -1702,6 +1714,9 @@ const styles = StyleSheet.create({
   transcriptFooterTextDark: {
     color: '#999',
   },
+  transcriptExportText: {
+    fontSize: 12,
+  },
   tagsSection: {
     marginBottom: 20,
   },
@@ -30,6 +30,7 @@ import { itemTypeMetadataComputed } from '../../stores/itemTypeMetadata';
 import { itemMetadataComputed } from '../../stores/itemMetadata';
 import { aiSettingsComputed } from '../../stores/aiSettings';
 import { adminSettingsStore } from '../../stores/adminSettings';
+import { expandedItemUIStore, expandedItemUIActions } from '../../stores/expandedItemUI';
 import { Item, ContentType } from '../../types';
 import { supabase } from '../../services/supabase';
 import { generateTags, URLMetadata } from '../../services/urlMetadata';
@@ -39,7 +40,10 @@ import { getYouTubeTranscript } from '../../services/youtube';
 import { serpapi } from '../../services/serpapi';
 import { adminSettingsComputed } from '../../stores/adminSettings';
 import { trackApiUsage } from '../../services/apiUsageTracking';
-import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter } from './components';
+import { ItemViewHeader, ItemViewTldr, ItemViewNotes, ItemViewFooter, TranscriptSegmentList, TranscriptExportButton, TranscriptChaptersSection } from './components';
+import type { TranscriptSegment } from './components';
+import { saveTranscriptClip } from '../../services/transcriptClips';
+import { parseDescriptionChapters } from '../../services/transcriptExport';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as MediaLibrary from 'expo-media-library';
 import { Image } from 'expo-image';
@@ -74,6 +78,19 @@ const contentTypeOptions: { type: ContentType; label: string; icon: string }[] =
   { type: 'product', label: 'Product', icon: '🛍️' },
 ];
 
+// Injected into the embed: reports the <video> position while it plays
+const VIDEO_POSITION_SCRIPT = `
+  (function() {
+    setInterval(function() {
+      var video = document.querySelector('video');
+      if (video && !video.paused && window.ReactNativeWebView) {
+        window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'position', positionMs: Math.floor(video.currentTime * 1000) }));
+      }
+    }, 500);
+  })();
+  true;
+`;
+
 interface YouTubeItemViewProps {
   item: Item | null;
   onClose?: () => void;
@@ -119,6 +136,11 @@ const YouTubeItemView = observer(({
   const [transcriptExists, setTranscriptExists] = useState(false);
   const [showTimestamps, setShowTimestamps] = useState(false);
   const [transcriptStats, setTranscriptStats] = useState({ chars: 0, words: 0, readTime: 0 });
+  // Set by timestamp citations in chat; restarts the embed at that point
+  const [embedStartSeconds, setEmbedStartSeconds] = useState<number | null>(null);
+  // Playback position reported by the embed, drives the transcript highlight
+  const videoPosition$ = useObservable<number | null>(null);
+  const webViewRef = useRef<WebView>(null);
   const transcriptOpacity = useSharedValue(0);
   const buttonOpacity = useSharedValue(1);
 
@@ -194,6 +216,33 @@ const YouTubeItemView = observer(({
     }
   }, [itemToDisplay?.id, videoTranscriptsComputed.transcripts()]);
 
+  // Jump to positions requested elsewhere (timestamp citations in chat)
+  useEffect(() => {
+    const current = displayItem || item;
+    if (!current) return;
+
+    const applySeek = (request: { itemId: string; positionMs: number } | null) => {
+      if (!request || request.itemId !== current.id) return;
+      expandedItemUIActions.clearSeekRequest();
+      const seconds = Math.floor(request.positionMs / 1000);
+
+      if (useThumbnail) {
+        // No embedded player in thumbnail mode - open YouTube at the timestamp
+        const videoId = getYouTubeVideoId(current.url);
+        if (videoId) {
+          Linking.openURL(`https://www.youtube.com/watch?v=${videoId}&t=${seconds}s`).catch(err => {
+            console.error('Failed to open YouTube:', err);
+          });
+        }
+      } else {
+        setEmbedStartSeconds(seconds);
+      }
+    };
+
+    applySeek(expandedItemUIStore.seekRequest.get());
+    return expandedItemUIStore.seekRequest.onChange(({ value }) => applySeek(value));
+  }, [displayItem?.id, item?.id, useThumbnail]);
+
   const itemToDisplay = displayItem || item;
   if (!itemToDisplay) {
     return null;
@@ -367,6 +416,41 @@ const YouTubeItemView = observer(({
     }
   };
 
+  const storedTranscript = videoTranscriptsComputed.getTranscriptByItemId(itemToDisplay.id);
+  // Generated chapters, else the ones written in the description
+  const exportChapters = storedTranscript?.chapters?.length
+    ? storedTranscript.chapters
+    : parseDescriptionChapters(itemToDisplay.desc);
+
+  // Jump the player to a transcript segment
+  const seekVideo = (positionMs: number) => {
+    const seconds = Math.floor(positionMs / 1000);
+    if (useThumbnail || !webViewRef.current) {
+      const videoId = getYouTubeVideoId(itemToDisplay.url);
+      if (videoId) {
+        Linking.openURL(`https://www.youtube.com/watch?v=${videoId}&t=${seconds}s`).catch(err => {
+          console.error('Failed to open YouTube:', err);
+        });
+      }
+      return;
+    }
+    webViewRef.current.injectJavaScript(
+      `(function(){var v=document.querySelector('video');if(v){v.currentTime=${seconds};v.play();}})();true;`
+    );
+    videoPosition$.set(positionMs);
+  };
+
+  const handleSaveClip = async (segments: TranscriptSegment[]) => {
+    try {
+      await saveTranscriptClip(itemToDisplay, segments);
+      showToast({ message: 'Clip saved as a note', type: 'success' });
+    } catch (error) {
+      console.error('Error saving clip:', error);
+      showToast({ message: 'Failed to save clip', type: 'error' });
+      throw error;
+    }
+  };
+
   const downloadThumbnail = async () => {
     if (!itemToDisplay?.thumbnail_url) {
       Alert.alert('Error', 'No thumbnail to download');
@@ -642,9 +726,10 @@ const YouTubeItemView = observer(({
             // Embed Mode: Show WebView embed
             <View style={isShort ? styles.youtubeShortEmbed : styles.youtubeEmbed}>
               <WebView
+                ref={webViewRef}
                 source={{
                   // uri: `https://www.youtube-nocookie.com/embed/${getYouTubeVideoId(itemToDisplay.url)}?rel=0&modestbranding=1&playsinline=1&referrerpolicy=strict-origin-when-cross-origin`
-                  uri: `https://www.youtube.com/embed/${getYouTubeVideoId(itemToDisplay.url)}?rel=0&modestbranding=1&playsinline=1&enablejsapi=1&origin=http://localhost`
+                  uri: `https://www.youtube.com/embed/${getYouTubeVideoId(itemToDisplay.url)}?rel=0&modestbranding=1&playsinline=1&enablejsapi=1&origin=http://localhost${embedStartSeconds !== null ? `&start=${embedStartSeconds}&autoplay=1` : ''}`
 
                 }}
                 style={styles.webView}
@@ -655,6 +740,15 @@ const YouTubeItemView = observer(({
                 startInLoadingState={true}
                 mixedContentMode="compatibility"
                 originWhitelist={['*']}
+                injectedJavaScript={VIDEO_POSITION_SCRIPT}
+                onMessage={(event) => {
+                  try {
+                    const message = JSON.parse(event.nativeEvent.data);
+                    if (message.type === 'position') videoPosition$.set(message.positionMs);
+                  } catch {
+                    // Ignore messages from the YouTube page itself
+                  }
+                }}
                 // userAgent="Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.114 Safari/537.36"
               />
             </View>
@@ -967,6 +1061,14 @@ const YouTubeItemView = observer(({
           return null;
         })()}
 
+        {/* Chapters */}
+        <TranscriptChaptersSection
+          itemId={itemToDisplay.id}
+          isDarkMode={isDarkMode}
+          onSeek={seekVideo}
+          getPositionMs={() => videoPosition$.get()}
+        />
+
         {/* Transcript Section */}
         <View style={styles.transcriptSection}>
           <Text style={[styles.transcriptSectionLabel, isDarkMode && styles.transcriptSectionLabelDark]}>
@@ -1014,27 +1116,16 @@ const YouTubeItemView = observer(({
                       </Text>
                     </TouchableOpacity>
                     <View style={styles.transcriptTopBarRight}>
-                      <TouchableOpacity onPress={async () => {
-                        const srt = (transcriptSegments && transcriptSegments.length > 0)
-                        ? transcriptSegments.map((s, idx) => {
-                            const toTS = (ms: number) => {
-                              const total = Math.max(0, Math.floor(ms));
-                              const h = String(Math.floor(total / 3600000)).padStart(2, '0');
-                              const m = String(Math.floor((total % 3600000) / 60000)).padStart(2, '0');
-                              const sec = String(Math.floor((total % 60000) / 1000)).padStart(2, '0');
-                              const msRem = String(total % 1000).padStart(3, '0');
-                              return `${h}:${m}:${sec},${msRem}`;
-                            };
-                            const start = toTS(s.startMs);
-                            const end = toTS((s.endMs ?? (s.startMs + 2000)));
-                            return `${idx + 1}\n${start} --> ${end}\n${s.text}\n`;
-                          }).join('\n')
-                        : transcript;
-                      await Clipboard.setStringAsync(srt);
-                      showToast({ message: 'SRT copied to clipboard', type: 'success' });
-                    }} activeOpacity={0.7}>
-                        <Text style={[styles.transcriptSelectorText, { color: '#007AFF' }]}>Copy SRT</Text>
-                      </TouchableOpacity>
+                      <TranscriptExportButton
+                        transcript={{
+                          ...storedTranscript,
+                          transcript,
+                          segments: transcriptSegments ?? undefined,
+                        }}
+                        title={itemToDisplay.title}
+                        chapters={exportChapters}
+                        textStyle={styles.transcriptSelectorText}
+                      />
                       <TouchableOpacity
                         style={styles.transcriptCopyButton}
                         onPress={copyTranscriptToClipboard}
@@ -1044,31 +1135,26 @@ const YouTubeItemView = observer(({
                       </TouchableOpacity>
                     </View>
                   </View>
-                  <ScrollView style={styles.transcriptScrollView} showsVerticalScrollIndicator={false}>
-                    {!showTimestamps || !transcriptSegments || transcriptSegments.length === 0 ? (
+                  {!showTimestamps || !transcriptSegments || transcriptSegments.length === 0 ? (
+                    <ScrollView style={styles.transcriptScrollView} showsVerticalScrollIndicator={false}>
                       <Text style={[styles.transcriptText, isDarkMode && styles.transcriptTextDark]}>
                         {/* If segments exist but we want plain text, extract plain text from segments; otherwise show stored transcript */}
                         {transcriptSegments && transcriptSegments.length > 0 && !showTimestamps
                           ? transcriptSegments.map(s => s.text).join(' ')
                           : transcript}
                       </Text>
-                    ) : (
-                      <View>
-                        {transcriptSegments.map((s, i) => {
-                          const mm = Math.floor(s.startMs / 60000);
-                          const ss = Math.floor((s.startMs % 60000) / 1000);
-                          const ts = `${String(mm).padStart(2, '0')}:${String(ss).padStart(2, '0')}`;
-                          return (
-                            <View key={`${s.startMs}-${i}`} style={{ marginBottom: 8 }}>
-                              <Text style={[styles.transcriptText, isDarkMode && styles.transcriptTextDark]}>
-                                [{ts}] {s.text}
-                              </Text>
-                            </View>
-                          );
-                        })}
-                      </View>
-                    )}
-                  </ScrollView>
+                    </ScrollView>
+                  ) : (
+                    <View style={styles.transcriptSegmentList}>
+                      <TranscriptSegmentList
+                        segments={transcriptSegments}
+                        isDarkMode={isDarkMode}
+                        getPositionMs={() => videoPosition$.get()}
+                        onSeek={seekVideo}
+                        onSaveClip={handleSaveClip}
+                      />
+                    </View>
+                  )}
 
                   <View style={[styles.transcriptFooter, isDarkMode && styles.transcriptFooterDark]}>
                     <Text style={[styles.transcriptFooterText, isDarkMode && styles.transcriptFooterTextDark]}>
@@ -1581,6 +1667,9 @@ const styles = StyleSheet.create({
     maxHeight: 300,
     paddingBottom: 35,
   },
+  transcriptSegmentList: {
+    paddingBottom: 35,
+  },
   transcriptText: {
     fontSize: 14,
     color: '#333',
@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { itemsStore } from '../../../stores/items';
+import { itemTypeMetadataComputed } from '../../../stores/itemTypeMetadata';
+import { expandedItemUIActions } from '../../../stores/expandedItemUI';
+import { TranscriptClipSource } from '../../../services/transcriptClips';
+import { formatTimestamp } from '../../../utils/mediaTimestamps';
+import { Item } from '../../../types';
+import SectionHeader from './SectionHeader';
+
+interface ClipSourceSectionProps {
+  item: Item;
+  isDarkMode: boolean;
+}
+
+/**
+ * Link from a transcript clip back to the video or episode it came from.
+ * Renders nothing for notes that are not clips.
+ */
+const ClipSourceSection = observer(({ item, isDarkMode }: ClipSourceSectionProps) => {
+  const clipSource = itemTypeMetadataComputed.getTypeMetadataForItem(item.id)?.data?.clip_source as
+    | TranscriptClipSource
+    | undefined;
+  if (!clipSource) return null;
+
+  const sourceItem = itemsStore.items.get().find(i => i.id === clipSource.item_id);
+  const range = `${formatTimestamp(clipSource.start_ms)} – ${formatTimestamp(clipSource.end_ms)}`;
+
+  return (
+    <View style={styles.section}>
+      <SectionHeader label="CLIPPED FROM" isDarkMode={isDarkMode} />
+      <TouchableOpacity
+        style={[styles.content, isDarkMode && styles.contentDark]}
+        onPress={() => sourceItem && expandedItemUIActions.seekMedia(sourceItem, clipSource.start_ms)}
+        disabled={!sourceItem}
+        activeOpacity={0.7}
+      >
+        <Ionicons name={sourceItem ? 'play-circle' : 'alert-circle-outline'} size={24} color={sourceItem ? '#007AFF' : '#8E8E93'} />
+        <View style={styles.text}>
+          <Text style={[styles.title, isDarkMode && styles.titleDark]} numberOfLines={2}>
+            {sourceItem ? sourceItem.title : 'Source item no longer exists'}
+          </Text>
+          <Text style={styles.range}>{range}</Text>
+        </View>
+      </TouchableOpacity>
+    </View>
+  );
+});
+
+export default ClipSourceSection;
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 16,
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#F9F9F9',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#3A3A3C',
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#000',
+  },
+  titleDark: {
+    color: '#FFFFFF',
+  },
+  range: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+    fontVariant: ['tabular-nums'],
+  },
+});
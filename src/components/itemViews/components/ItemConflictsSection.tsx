@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { itemConflictsComputed, itemConflictsActions } from '../../../stores/itemConflicts';
+import { itemsStore } from '../../../stores/items';
+import { expandedItemUIActions } from '../../../stores/expandedItemUI';
+import type { ConflictField, ItemConflict } from '../../../services/itemMerge';
+import SectionHeader from './SectionHeader';
+
+interface ItemConflictsSectionProps {
+  itemId: string;
+  isDarkMode: boolean;
+}
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: 'Title',
+  notes: 'Notes',
+  tldr: 'TLDR',
+};
+
+const ItemConflictsSection = observer(({ itemId, isDarkMode }: ItemConflictsSectionProps) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const conflicts = itemConflictsComputed.conflictsForItem(itemId);
+
+  if (conflicts.length === 0) return null;
+
+  const handleResolve = async (conflict: ItemConflict, choice: 'local' | 'remote') => {
+    setBusyId(conflict.id);
+    try {
+      await itemConflictsActions.resolveConflict(conflict.id, choice);
+      // Item views copy the item on open, so hand them the updated one
+      const latest = itemsStore.items.get().find(item => item.id === itemId);
+      if (latest) expandedItemUIActions.refreshCurrentItem(latest);
+    } catch (error) {
+      console.error('Error resolving item conflict:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderVersion = (conflict: ItemConflict, choice: 'local' | 'remote') => {
+    const value = choice === 'local' ? conflict.local_value : conflict.remote_value;
+    return (
+      <View style={[styles.version, isDarkMode && styles.versionDark]}>
+        <Text style={styles.versionLabel}>{choice === 'local' ? 'This device' : 'Other device'}</Text>
+        <Text style={[styles.versionText, isDarkMode && styles.versionTextDark]} numberOfLines={6}>
+          {value || '(empty)'}
+        </Text>
+        <TouchableOpacity
+          style={styles.keepButton}
+          onPress={() => handleResolve(conflict, choice)}
+          disabled={!!busyId}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.keepText, !!busyId && styles.keepTextDisabled]}>Keep this version</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <SectionHeader
+        label="Edited on another device"
+        isDarkMode={isDarkMode}
+        rightElement={<Ionicons name="git-compare-outline" size={16} color="#FF9500" />}
+      />
+      {conflicts.map(conflict => (
+        <View key={conflict.id} style={[styles.card, isDarkMode && styles.cardDark]}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.field, isDarkMode && styles.fieldDark]}>{FIELD_LABELS[conflict.field]}</Text>
+            <Text style={styles.meta}>{new Date(conflict.detected_at).toLocaleString()}</Text>
+          </View>
+          {busyId === conflict.id ? (
+            <ActivityIndicator style={styles.busy} size="small" color={isDarkMode ? '#FFFFFF' : '#333333'} />
+          ) : (
+            <>
+              {renderVersion(conflict, 'local')}
+              {renderVersion(conflict, 'remote')}
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+});
+
+export default ItemConflictsSection;
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#FFF8EC',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#FFD8A8',
+  },
+  cardDark: {
+    backgroundColor: '#2C2416',
+    borderColor: '#5C4320',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  field: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  fieldDark: {
+    color: '#FFFFFF',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  version: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 6,
+  },
+  versionDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  versionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  versionText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  versionTextDark: {
+    color: '#CCCCCC',
+  },
+  keepButton: {
+    alignSelf: 'flex-end',
+    marginTop: 6,
+    paddingVertical: 4,
+  },
+  keepText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  keepTextDisabled: {
+    color: '#8E8E93',
+  },
+  busy: {
+    marginVertical: 12,
+  },
+});
@@ -5,6 +5,7 @@ import * as Clipboard from 'expo-clipboard';
 import { Item } from '../../../types';
 import { formatDate } from '../../../utils/itemCardHelpers';
 import { useToast } from '../../../contexts/ToastContext';
+import PipelineRunLog from './PipelineRunLog';
 
 interface ItemViewFooterProps {
   item: Item;
@@ -146,6 +147,8 @@ const ItemViewFooter: React.FC<ItemViewFooterProps> = ({
         )}
       </View>
 
+      {item.url && <PipelineRunLog itemId={item.id} isDarkMode={isDarkMode} />}
+
       {/* Timestamp */}
       <View style={styles.timestampContainer}>
         <Text style={[styles.timestampText, isDarkMode && styles.timestampTextDark]}>
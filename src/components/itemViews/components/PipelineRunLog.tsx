@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { pipelineRunsComputed } from '../../../stores/pipelineRuns';
+import { processingItemsComputed } from '../../../stores/processingItems';
+import { reEnrichItems } from '../../../services/reEnrichService';
+import { PIPELINE_STEPS } from '../../../services/pipeline/runPipeline';
+import type { StepRunRecord, StepStatus } from '../../../services/pipeline/types';
+import SectionHeader from './SectionHeader';
+
+interface PipelineRunLogProps {
+  itemId: string;
+  isDarkMode: boolean;
+}
+
+const STATUS_ICONS: Record<StepStatus, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+  success: { name: 'checkmark-circle', color: '#34C759' },
+  skipped: { name: 'remove-circle-outline', color: '#8E8E93' },
+  failed: { name: 'close-circle', color: '#FF3B30' },
+  blocked: { name: 'pause-circle-outline', color: '#FF9500' },
+};
+
+const STEP_LABELS = new Map(PIPELINE_STEPS.map(step => [step.id, step.label]));
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const PipelineRunLog = observer(({ itemId, isDarkMode }: PipelineRunLogProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const run = pipelineRunsComputed.getLatestRun(itemId);
+  const isProcessing = processingItemsComputed.isProcessing(itemId);
+  const isBatchRunning = processingItemsComputed.isBatchRunning();
+
+  const failedCount = run ? run.steps.filter(step => step.status === 'failed').length : 0;
+
+  const handleRerun = () => {
+    reEnrichItems({ kind: 'item', itemId }).catch(error => {
+      console.error('Error re-enriching item:', error);
+    });
+  };
+
+  const renderStep = (step: StepRunRecord) => {
+    const icon = STATUS_ICONS[step.status];
+    const detail = step.error || step.reason;
+    return (
+      <View key={step.stepId} style={styles.stepRow}>
+        <Ionicons name={icon.name} size={16} color={icon.color} style={styles.stepIcon} />
+        <View style={styles.stepBody}>
+          <View style={styles.stepTitleRow}>
+            <Text style={[styles.stepId, isDarkMode && styles.stepIdDark]}>{STEP_LABELS.get(step.stepId) || step.stepId}</Text>
+            <Text style={styles.stepMeta}>
+              {step.attempts > 1 ? `${step.attempts} attempts · ` : ''}
+              {step.attempts > 0 ? formatDuration(step.durationMs) : ''}
+            </Text>
+          </View>
+          {detail ? (
+            <Text
+              style={[styles.stepDetail, step.status === 'failed' && styles.stepError]}
+              numberOfLines={3}
+            >
+              {detail}
+            </Text>
+          ) : null}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <SectionHeader
+        label="Enrichment log"
+        isDarkMode={isDarkMode}
+        onPress={() => setIsExpanded(!isExpanded)}
+        rightElement={
+          <View style={styles.summary}>
+            {failedCount > 0 && (
+              <Text style={[styles.summaryText, styles.stepError]}>{failedCount} failed · </Text>
+            )}
+            {run && <Text style={styles.summaryText}>{formatDuration(run.durationMs)}</Text>}
+            <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={14} color="#8E8E93" />
+          </View>
+        }
+      />
+
+      {isExpanded && (
+        <View style={[styles.content, isDarkMode && styles.contentDark]}>
+          {run ? (
+            <>
+              <Text style={styles.runTime}>Last run {new Date(run.startedAt).toLocaleString()}</Text>
+              {run.steps.map(renderStep)}
+            </>
+          ) : (
+            // Items saved before run logs existed (or on another device) have none
+            <Text style={styles.runTime}>No enrichment run recorded on this device</Text>
+          )}
+          <TouchableOpacity
+            style={styles.rerunButton}
+            onPress={handleRerun}
+            disabled={isProcessing || isBatchRunning}
+            activeOpacity={0.7}
+          >
+            {isProcessing ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : (
+              <Text style={[styles.rerunText, isBatchRunning && styles.rerunTextDisabled]}>Re-run enrichment</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+});
+
+export default PipelineRunLog;
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 16,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  content: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#3A3A3C',
+  },
+  runTime: {
+    fontSize: 11,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+  },
+  stepIcon: {
+    marginRight: 8,
+    marginTop: 1,
+  },
+  stepBody: {
+    flex: 1,
+  },
+  stepTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stepId: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#000',
+  },
+  stepIdDark: {
+    color: '#FFFFFF',
+  },
+  stepMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  stepDetail: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  stepError: {
+    color: '#FF3B30',
+  },
+  rerunButton: {
+    alignItems: 'center',
+    marginTop: 8,
+    paddingVertical: 8,
+  },
+  rerunText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  rerunTextDisabled: {
+    color: '#8E8E93',
+  },
+});
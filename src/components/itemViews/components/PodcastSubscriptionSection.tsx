@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Switch, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import {
+  podcastSubscriptionsStore,
+  podcastSubscriptionsComputed,
+  podcastSubscriptionsActions,
+} from '../../../stores/podcastSubscriptions';
+import { useToast } from '../../../contexts/ToastContext';
+import { Item, PodcastEpisode } from '../../../types';
+import SectionHeader from './SectionHeader';
+
+interface PodcastSubscriptionSectionProps {
+  item: Item;
+  isDarkMode: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const PodcastSubscriptionSection = observer(({ item, isDarkMode }: PodcastSubscriptionSectionProps) => {
+  const { showToast } = useToast();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const subscription = podcastSubscriptionsComputed.subscriptionForItem(item.id);
+  const inbox = subscription ? podcastSubscriptionsComputed.inboxForSubscription(subscription.id) : [];
+  const isPolling = podcastSubscriptionsStore.isPolling.get();
+
+  useEffect(() => {
+    podcastSubscriptionsActions.loadSubscriptions();
+  }, [item.id]);
+
+  const run = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('🎙️ [PodcastSubscriptionSection]', failure, error);
+      Alert.alert('Error', error?.message || failure);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubscribe = () =>
+    run('subscribe', async () => {
+      const created = await podcastSubscriptionsActions.subscribe(item);
+      showToast({ message: `Subscribed to ${created.title}`, type: 'success' });
+    }, 'Failed to subscribe');
+
+  const handleUnsubscribe = () => {
+    if (!subscription) return;
+    Alert.alert(
+      'Unsubscribe',
+      `Stop checking ${subscription.title} for new episodes? Saved episodes are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unsubscribe',
+          style: 'destructive',
+          onPress: () => run('unsubscribe', () => podcastSubscriptionsActions.unsubscribe(subscription.id), 'Failed to unsubscribe'),
+        },
+      ]
+    );
+  };
+
+  const handleCheckNow = () =>
+    run('poll', async () => {
+      if (!subscription) return;
+      const found = await podcastSubscriptionsActions.pollSubscription(subscription);
+      showToast({ message: found > 0 ? `${found} new episode${found === 1 ? '' : 's'}` : 'No new episodes', type: 'success' });
+    }, 'Failed to check for episodes');
+
+  const renderEpisode = (episode: PodcastEpisode) => (
+    <View key={episode.id} style={[styles.episode, isDarkMode && styles.episodeDark]}>
+      <Text style={[styles.episodeTitle, isDarkMode && styles.episodeTitleDark]} numberOfLines={2}>
+        {episode.title}
+      </Text>
+      <Text style={styles.episodeMeta}>
+        {[
+          episode.published_at ? new Date(episode.published_at).toLocaleDateString() : null,
+          episode.duration ? formatDuration(episode.duration) : null,
+        ].filter(Boolean).join(' · ')}
+      </Text>
+      {episode.show_notes ? (
+        <Text style={[styles.showNotes, isDarkMode && styles.showNotesDark]} numberOfLines={3}>
+          {episode.show_notes}
+        </Text>
+      ) : null}
+      {busy === episode.id ? (
+        <ActivityIndicator style={styles.busy} size="small" color={isDarkMode ? '#FFFFFF' : '#333333'} />
+      ) : (
+        <View style={styles.episodeActions}>
+          <TouchableOpacity
+            onPress={() => run(episode.id, () => podcastSubscriptionsActions.dismissEpisode(episode.id), 'Failed to dismiss episode')}
+            disabled={!!busy}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.dismissText}>Dismiss</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => run(episode.id, async () => {
+              await podcastSubscriptionsActions.saveEpisode(episode);
+              showToast({ message: 'Episode saved', type: 'success' });
+            }, 'Failed to save episode')}
+            disabled={!!busy}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.actionText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  if (!subscription) {
+    return (
+      <View style={styles.section}>
+        <TouchableOpacity
+          style={styles.subscribeButton}
+          onPress={handleSubscribe}
+          disabled={!!busy}
+          activeOpacity={0.7}
+        >
+          {busy === 'subscribe' ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Ionicons name="add-circle-outline" size={18} color="#FFFFFF" />
+              <Text style={styles.subscribeText}>Subscribe to new episodes</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.section}>
+      <SectionHeader
+        label={inbox.length > 0 ? `New episodes (${inbox.length})` : 'Subscribed'}
+        isDarkMode={isDarkMode}
+        rightElement={
+          <TouchableOpacity onPress={handleUnsubscribe} disabled={!!busy} activeOpacity={0.7}>
+            <Text style={styles.dismissText}>Unsubscribe</Text>
+          </TouchableOpacity>
+        }
+      />
+
+      <View style={[styles.content, isDarkMode && styles.contentDark]}>
+        <View style={styles.row}>
+          <Text style={[styles.rowLabel, isDarkMode && styles.rowLabelDark]}>Save new episodes automatically</Text>
+          <Switch
+            value={subscription.auto_save_episodes}
+            onValueChange={(value) => run('auto_save', () => podcastSubscriptionsActions.setAutoSave(subscription.id, value), 'Failed to update subscription')}
+            disabled={!!busy}
+          />
+        </View>
+
+        <View style={styles.row}>
+          <Text style={[styles.status, subscription.last_poll_error && styles.statusError]} numberOfLines={2}>
+            {subscription.last_poll_error
+              ? `Last check failed: ${subscription.last_poll_error}`
+              : subscription.last_polled_at
+                ? `Checked ${new Date(subscription.last_polled_at).toLocaleString()}`
+                : 'Not checked yet'}
+          </Text>
+          <TouchableOpacity onPress={handleCheckNow} disabled={!!busy || isPolling} activeOpacity={0.7}>
+            {busy === 'poll' ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : (
+              <Text style={[styles.actionText, (!!busy || isPolling) && styles.actionTextDisabled]}>Check now</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {inbox.map(renderEpisode)}
+    </View>
+  );
+});
+
+export default PodcastSubscriptionSection;
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 16,
+  },
+  subscribeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  subscribeText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  content: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    gap: 8,
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#3A3A3C',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#000',
+  },
+  rowLabelDark: {
+    color: '#FFFFFF',
+  },
+  status: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  statusError: {
+    color: '#FF3B30',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  actionTextDisabled: {
+    color: '#8E8E93',
+  },
+  dismissText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  episode: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  episodeDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  episodeTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  episodeTitleDark: {
+    color: '#FFFFFF',
+  },
+  episodeMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  showNotes: {
+    fontSize: 13,
+    color: '#3C3C43',
+    marginTop: 6,
+  },
+  showNotesDark: {
+    color: '#CCCCCC',
+  },
+  episodeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  busy: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { Image } from 'expo-image';
+import { observer } from '@legendapp/state/react';
+import SectionHeader from './SectionHeader';
+import { userSettingsActions, userSettingsComputed } from '../../../stores/userSettings';
+import { parseReaderBlocks, countWords, estimateReadingMinutes } from '../../../services/readability';
+
+const MIN_FONT_SIZE = 14;
+const MAX_FONT_SIZE = 26;
+const LINE_HEIGHTS = [1.4, 1.6, 1.8, 2.0];
+
+const FONT_FAMILIES = {
+  serif: Platform.select({ ios: 'Georgia', android: 'serif', default: 'Georgia, serif' }),
+  sans: Platform.select({ ios: 'System', android: 'sans-serif', default: 'system-ui, sans-serif' }),
+};
+
+interface ReaderSectionProps {
+  body: string;
+  isDarkMode: boolean;
+  wordCount?: number;
+  readingMinutes?: number;
+  byline?: string;
+}
+
+// Article images are cached to disk on first view so the reader keeps working offline
+const ReaderImage: React.FC<{ url: string; alt: string }> = ({ url, alt }) => {
+  const [aspectRatio, setAspectRatio] = useState(16 / 9);
+  const [failed, setFailed] = useState(false);
+
+  if (failed) return null;
+
+  return (
+    <Image
+      source={{ uri: url }}
+      style={[styles.image, { aspectRatio }]}
+      contentFit="contain"
+      cachePolicy="disk"
+      accessibilityLabel={alt || undefined}
+      onLoad={(event) => {
+        const { width, height } = event.source;
+        if (width && height) setAspectRatio(width / height);
+      }}
+      onError={() => setFailed(true)}
+    />
+  );
+};
+
+const ReaderSection = observer(({
+  body,
+  isDarkMode,
+  wordCount,
+  readingMinutes,
+  byline,
+}: ReaderSectionProps) => {
+  const [showReader, setShowReader] = useState(false);
+
+  const fontSize = userSettingsComputed.readerFontSize();
+  const fontFamily = userSettingsComputed.readerFontFamily();
+  const lineHeight = userSettingsComputed.readerLineHeight();
+
+  const blocks = useMemo(() => parseReaderBlocks(body), [body]);
+  // Older items only have the body; derive the estimate from it
+  const minutes = readingMinutes ?? estimateReadingMinutes(wordCount ?? countWords(body));
+
+  const textStyle = {
+    fontSize,
+    lineHeight: Math.round(fontSize * lineHeight),
+    fontFamily: FONT_FAMILIES[fontFamily],
+    color: isDarkMode ? '#E5E5EA' : '#1C1C1E',
+  };
+
+  const changeFontSize = (delta: number) => {
+    const next = Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, fontSize + delta));
+    if (next !== fontSize) userSettingsActions.updateSetting('ui_reader_font_size', next);
+  };
+
+  const cycleLineHeight = () => {
+    const index = LINE_HEIGHTS.findIndex(value => value >= lineHeight - 0.01);
+    const next = LINE_HEIGHTS[(index + 1) % LINE_HEIGHTS.length];
+    userSettingsActions.updateSetting('ui_reader_line_height', next);
+  };
+
+  const toggleFontFamily = () => {
+    userSettingsActions.updateSetting('ui_reader_font_family', fontFamily === 'serif' ? 'sans' : 'serif');
+  };
+
+  return (
+    <View style={styles.section}>
+      <SectionHeader label="ARTICLE" isDarkMode={isDarkMode} />
+
+      <TouchableOpacity
+        style={[styles.selector, isDarkMode && styles.selectorDark]}
+        onPress={() => setShowReader(!showReader)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.selectorText, isDarkMode && styles.selectorTextDark]}>
+          {showReader ? 'Hide Article' : 'Read Article'}
+        </Text>
+        <Text style={[styles.readingTime, isDarkMode && styles.readingTimeDark]}>
+          ~{minutes} min read {showReader ? '▲' : '▼'}
+        </Text>
+      </TouchableOpacity>
+
+      {showReader && (
+        <View style={styles.reader}>
+          {/* Typography controls */}
+          <View style={[styles.toolbar, isDarkMode && styles.toolbarDark]}>
+            <TouchableOpacity
+              style={styles.toolbarButton}
+              onPress={() => changeFontSize(-1)}
+              disabled={fontSize <= MIN_FONT_SIZE}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.toolbarText, styles.toolbarTextSmall, fontSize <= MIN_FONT_SIZE && styles.toolbarTextDisabled]}>A</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.toolbarButton}
+              onPress={() => changeFontSize(1)}
+              disabled={fontSize >= MAX_FONT_SIZE}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.toolbarText, styles.toolbarTextLarge, fontSize >= MAX_FONT_SIZE && styles.toolbarTextDisabled]}>A</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.toolbarButton} onPress={toggleFontFamily} activeOpacity={0.7}>
+              <Text style={[styles.toolbarText, { fontFamily: FONT_FAMILIES[fontFamily === 'serif' ? 'sans' : 'serif'] }]}>
+                {fontFamily === 'serif' ? 'Sans' : 'Serif'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.toolbarButton} onPress={cycleLineHeight} activeOpacity={0.7}>
+              <Text style={styles.toolbarText}>↕ {lineHeight.toFixed(1)}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {byline ? (
+            <Text style={[styles.byline, isDarkMode && styles.bylineDark]}>By {byline}</Text>
+          ) : null}
+
+          {blocks.map((block, index) => {
+            switch (block.type) {
+              case 'heading':
+                return (
+                  <Text
+                    key={index}
+                    style={[textStyle, styles.heading, { fontSize: fontSize + (block.level === 2 ? 6 : 3), lineHeight: undefined }]}
+                  >
+                    {block.text}
+                  </Text>
+                );
+              case 'list_item':
+                return (
+                  <View key={index} style={styles.listItem}>
+                    <Text style={[textStyle, styles.listMarker]}>{block.ordered ? `${block.index}.` : '•'}</Text>
+                    <Text style={[textStyle, styles.listText]} selectable>{block.text}</Text>
+                  </View>
+                );
+              case 'quote':
+                return (
+                  <View key={index} style={[styles.quote, isDarkMode && styles.quoteDark]}>
+                    <Text style={[textStyle, styles.quoteText]} selectable>{block.text}</Text>
+                  </View>
+                );
+              case 'code':
+                return (
+                  <View key={index} style={[styles.code, isDarkMode && styles.codeDark]}>
+                    <Text style={[styles.codeText, isDarkMode && styles.codeTextDark]} selectable>{block.text}</Text>
+                  </View>
+                );
+              case 'image':
+                return <ReaderImage key={index} url={block.url} alt={block.alt} />;
+              default:
+                return (
+                  <Text key={index} style={[textStyle, styles.paragraph]} selectable>
+                    {block.text}
+                  </Text>
+                );
+            }
+          })}
+        </View>
+      )}
+    </View>
+  );
+});
+
+export default ReaderSection;
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  selector: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  selectorDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#3A3A3C',
+  },
+  selectorText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  selectorTextDark: {
+    color: '#0A84FF',
+  },
+  readingTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  readingTimeDark: {
+    color: '#98989F',
+  },
+  reader: {
+    marginTop: 8,
+    paddingHorizontal: 4,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    marginBottom: 16,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+  },
+  toolbarDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  toolbarButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  toolbarText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  toolbarTextSmall: {
+    fontSize: 13,
+  },
+  toolbarTextLarge: {
+    fontSize: 19,
+  },
+  toolbarTextDisabled: {
+    color: '#B0B0B0',
+  },
+  byline: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  bylineDark: {
+    color: '#98989F',
+  },
+  heading: {
+    fontWeight: '700',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  paragraph: {
+    marginBottom: 16,
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: 8,
+    paddingLeft: 4,
+  },
+  listMarker: {
+    width: 24,
+  },
+  listText: {
+    flex: 1,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#C7C7CC',
+    paddingLeft: 12,
+    marginBottom: 16,
+  },
+  quoteDark: {
+    borderLeftColor: '#48484A',
+  },
+  quoteText: {
+    fontStyle: 'italic',
+  },
+  code: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 6,
+    padding: 12,
+    marginBottom: 16,
+  },
+  codeDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  codeText: {
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#1C1C1E',
+  },
+  codeTextDark: {
+    color: '#E5E5EA',
+  },
+  image: {
+    width: '100%',
+    borderRadius: 8,
+    marginBottom: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+});
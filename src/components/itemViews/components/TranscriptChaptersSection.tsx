@@ -0,0 +1,209 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { videoTranscriptsComputed } from '../../../stores/videoTranscripts';
+import { generateTranscriptChapters } from '../../../services/transcriptChapters';
+import { formatTimestamp } from '../../../utils/mediaTimestamps';
+import SectionHeader from './SectionHeader';
+
+interface TranscriptChaptersSectionProps {
+  itemId: string;
+  isDarkMode: boolean;
+  onSeek: (positionMs: number) => void;
+  // Read during render so an observable position only re-renders this section
+  getPositionMs?: () => number | null;
+  // Off when the player already lists the chapters (podcast episodes)
+  showChapterList?: boolean;
+}
+
+/**
+ * Chapters and key moments generated from a timestamped transcript.
+ * Renders nothing until the item has a transcript with segments.
+ */
+const TranscriptChaptersSection = observer(({
+  itemId,
+  isDarkMode,
+  onSeek,
+  getPositionMs,
+  showChapterList = true,
+}: TranscriptChaptersSectionProps) => {
+  const transcript = videoTranscriptsComputed.getTranscriptByItemId(itemId);
+  const isGenerating = videoTranscriptsComputed.isGeneratingChapters(itemId);
+  if (!transcript?.segments?.length) return null;
+
+  const chapters = transcript.chapters || [];
+  const keyMoments = transcript.key_moments || [];
+  const positionMs = getPositionMs ? getPositionMs() : null;
+  let currentIndex = -1;
+  if (positionMs !== null) {
+    chapters.forEach((chapter, index) => {
+      if (chapter.start_ms <= positionMs) currentIndex = index;
+    });
+  }
+
+  const handleGenerate = async () => {
+    try {
+      await generateTranscriptChapters(itemId);
+    } catch (error: any) {
+      console.error('📑 [TranscriptChaptersSection] Error generating chapters:', error);
+      Alert.alert('Error', error?.message || 'Failed to generate chapters');
+    }
+  };
+
+  if (chapters.length === 0) {
+    return (
+      <View style={styles.section}>
+        <SectionHeader label="CHAPTERS" isDarkMode={isDarkMode} />
+        <TouchableOpacity
+          style={[styles.generateButton, isGenerating && styles.generateButtonDisabled]}
+          onPress={handleGenerate}
+          disabled={isGenerating}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.generateButtonText}>
+            {isGenerating ? '⏳ Generating chapters...' : '⚡ Generate chapters'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!showChapterList && keyMoments.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <SectionHeader
+        label={showChapterList ? 'CHAPTERS' : 'KEY MOMENTS'}
+        isDarkMode={isDarkMode}
+        rightElement={
+          isGenerating ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <TouchableOpacity onPress={handleGenerate} activeOpacity={0.7}>
+              <Ionicons name="refresh" size={16} color="#007AFF" />
+            </TouchableOpacity>
+          )
+        }
+      />
+
+      <View style={[styles.content, isDarkMode && styles.contentDark]}>
+        {showChapterList && chapters.map((chapter, index) => (
+          <TouchableOpacity
+            key={`${chapter.start_ms}-${index}`}
+            style={styles.row}
+            onPress={() => onSeek(chapter.start_ms)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.time}>{formatTimestamp(chapter.start_ms)}</Text>
+            <View style={styles.rowText}>
+              <Text
+                style={[styles.title, isDarkMode && styles.titleDark, index === currentIndex && styles.titleActive]}
+                numberOfLines={2}
+              >
+                {chapter.title}
+              </Text>
+              {chapter.summary ? (
+                <Text style={styles.summary} numberOfLines={2}>{chapter.summary}</Text>
+              ) : null}
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        {keyMoments.length > 0 && (
+          <>
+            {showChapterList && <Text style={styles.subheading}>Key moments</Text>}
+            {keyMoments.map((moment, index) => (
+              <TouchableOpacity
+                key={`moment-${moment.start_ms}-${index}`}
+                style={styles.row}
+                onPress={() => onSeek(moment.start_ms)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.time}>{formatTimestamp(moment.start_ms)}</Text>
+                <Text style={[styles.rowText, styles.moment, isDarkMode && styles.titleDark]}>{moment.text}</Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </View>
+    </View>
+  );
+});
+
+export default TranscriptChaptersSection;
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  generateButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  generateButtonDisabled: {
+    opacity: 0.6,
+  },
+  generateButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  content: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    gap: 10,
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#3A3A3C',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  rowText: {
+    flex: 1,
+  },
+  time: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontVariant: ['tabular-nums'],
+    minWidth: 44,
+    paddingTop: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#000',
+  },
+  titleDark: {
+    color: '#FFFFFF',
+  },
+  titleActive: {
+    color: '#007AFF',
+  },
+  summary: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  subheading: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 4,
+  },
+  moment: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, StyleSheet, Alert, Platform, ActionSheetIOS, StyleProp, TextStyle } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { useToast } from '../../../contexts/ToastContext';
+import {
+  availableExportFormats,
+  shareTranscript,
+  transcriptExportLabel,
+  TranscriptExportFormat,
+  TranscriptExportOptions,
+  TranscriptSource,
+} from '../../../services/transcriptExport';
+
+interface TranscriptExportButtonProps extends TranscriptExportOptions {
+  transcript: TranscriptSource;
+  textStyle?: StyleProp<TextStyle>;
+}
+
+/**
+ * "Export" link that asks for a format and opens the share sheet
+ */
+const TranscriptExportButton: React.FC<TranscriptExportButtonProps> = ({ transcript, title, chapters, textStyle }) => {
+  const { showToast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const formats = availableExportFormats(transcript);
+
+  const exportAs = async (format: TranscriptExportFormat) => {
+    setIsExporting(true);
+    try {
+      const { shared, content } = await shareTranscript(transcript, format, { title, chapters });
+      if (!shared) {
+        await Clipboard.setStringAsync(content);
+        showToast({ message: 'Sharing not available. Copied to clipboard instead.', type: 'success' });
+      }
+    } catch (error) {
+      console.error('Error exporting transcript:', error);
+      showToast({ message: 'Failed to export transcript', type: 'error' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const showFormats = () => {
+    const labels = formats.map(transcriptExportLabel);
+
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          title: 'Export Transcript',
+          options: [...labels, 'Cancel'],
+          cancelButtonIndex: labels.length,
+        },
+        (buttonIndex) => {
+          if (buttonIndex >= 0 && buttonIndex < formats.length) {
+            exportAs(formats[buttonIndex]);
+          }
+        }
+      );
+    } else {
+      Alert.alert(
+        'Export Transcript',
+        undefined,
+        [
+          ...formats.map((format, index) => ({ text: labels[index], onPress: () => exportAs(format) })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ],
+        { cancelable: true }
+      );
+    }
+  };
+
+  return (
+    <TouchableOpacity onPress={showFormats} disabled={isExporting} activeOpacity={0.7}>
+      <Text style={[styles.text, textStyle, isExporting && styles.textDisabled]}>
+        {isExporting ? 'Exporting...' : 'Export'}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+export default TranscriptExportButton;
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  textDisabled: {
+    color: '#8E8E93',
+  },
+});
@@ -3,6 +3,9 @@ import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Animated as RNAni
 import { useSharedValue, withTiming } from 'react-native-reanimated';
 import * as Clipboard from 'expo-clipboard';
 import SectionHeader from './SectionHeader';
+import TranscriptSegmentList from './TranscriptSegmentList';
+import TranscriptExportButton from './TranscriptExportButton';
+import { PodcastChapter } from '../../../types';
 
 export interface TranscriptSegment {
   text: string;
@@ -19,6 +22,11 @@ interface TranscriptSectionProps {
   showToast?: (message: { message: string; type: 'success' | 'error' }) => void;
   enableTimestamps?: boolean; // YouTube-style features
   enableSrtExport?: boolean;  // YouTube-style features
+  exportTitle?: string;
+  chapters?: PodcastChapter[];
+  getPositionMs?: () => number | null;
+  onSeek?: (positionMs: number) => void;
+  onSaveClip?: (segments: TranscriptSegment[]) => Promise<void>;
 }
 
 const TranscriptSection: React.FC<TranscriptSectionProps> = ({
@@ -30,6 +38,11 @@ const TranscriptSection: React.FC<TranscriptSectionProps> = ({
   showToast,
   enableTimestamps = false,
   enableSrtExport = false,
+  exportTitle,
+  chapters,
+  getPositionMs,
+  onSeek,
+  onSaveClip,
 }) => {
   const [showTranscript, setShowTranscript] = useState(false);
   const [showTimestamps, setShowTimestamps] = useState(false);
@@ -81,36 +94,6 @@ const TranscriptSection: React.FC<TranscriptSectionProps> = ({
     }
   };
 
-  const copySrtToClipboard = async () => {
-    if (segments && segments.length > 0) {
-      const srt = segments.map((s, idx) => {
-        const toTimestamp = (ms: number) => {
-          const total = Math.max(0, Math.floor(ms));
-          const h = String(Math.floor(total / 3600000)).padStart(2, '0');
-          const m = String(Math.floor((total % 3600000) / 60000)).padStart(2, '0');
-          const sec = String(Math.floor((total % 60000) / 1000)).padStart(2, '0');
-          const msRem = String(total % 1000).padStart(3, '0');
-          return `${h}:${m}:${sec},${msRem}`;
-        };
-        const start = toTimestamp(s.startMs);
-        const end = toTimestamp(s.endMs ?? (s.startMs + 2000));
-        return `${idx + 1}\n${start} --> ${end}\n${s.text}\n`;
-      }).join('\n');
-      await Clipboard.setStringAsync(srt);
-      if (showToast) {
-        showToast({ message: 'SRT copied to clipboard', type: 'success' });
-      }
-    } else {
-      await copyTranscriptToClipboard();
-    }
-  };
-
-  const formatTimestamp = (ms: number): string => {
-    const mm = Math.floor(ms / 60000);
-    const ss = Math.floor((ms % 60000) / 1000);
-    return `${String(mm).padStart(2, '0')}:${String(ss).padStart(2, '0')}`;
-  };
-
   return (
     <View style={styles.section}>
       <SectionHeader label="TRANSCRIPT" isDarkMode={isDarkMode} />
@@ -163,11 +146,12 @@ const TranscriptSection: React.FC<TranscriptSectionProps> = ({
                   )}
                   <View style={styles.topBarRight}>
                     {enableSrtExport && (
-                      <TouchableOpacity onPress={copySrtToClipboard} activeOpacity={0.7}>
-                        <Text style={[styles.topBarText, { color: '#007AFF' }]}>
-                          Copy SRT
-                        </Text>
-                      </TouchableOpacity>
+                      <TranscriptExportButton
+                        transcript={{ transcript, segments }}
+                        chapters={chapters}
+                        title={exportTitle}
+                        textStyle={styles.topBarText}
+                      />
                     )}
                     <TouchableOpacity
                       style={styles.copyButton}
@@ -180,25 +164,25 @@ const TranscriptSection: React.FC<TranscriptSectionProps> = ({
                 </View>
               )}
 
-              <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
-                {enableTimestamps && showTimestamps && segments && segments.length > 0 ? (
-                  <View>
-                    {segments.map((s, i) => (
-                      <View key={`${s.startMs}-${i}`} style={styles.segmentItem}>
-                        <Text style={[styles.transcriptText, isDarkMode && styles.transcriptTextDark]}>
-                          [{formatTimestamp(s.startMs)}] {s.text}
-                        </Text>
-                      </View>
-                    ))}
-                  </View>
-                ) : (
+              {enableTimestamps && showTimestamps && segments && segments.length > 0 ? (
+                <View style={styles.scrollView}>
+                  <TranscriptSegmentList
+                    segments={segments}
+                    isDarkMode={isDarkMode}
+                    getPositionMs={getPositionMs}
+                    onSeek={onSeek}
+                    onSaveClip={onSaveClip}
+                  />
+                </View>
+              ) : (
+                <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
                   <Text style={[styles.transcriptText, isDarkMode && styles.transcriptTextDark]}>
                     {segments && segments.length > 0 && !showTimestamps
                       ? segments.map(s => s.text).join(' ')
                       : transcript}
                   </Text>
-                )}
-              </ScrollView>
+                </ScrollView>
+              )}
 
               {!enableTimestamps && !enableSrtExport && (
                 <TouchableOpacity
@@ -318,9 +302,6 @@ const styles = StyleSheet.create({
   scrollView: {
     marginBottom: 8,
   },
-  segmentItem: {
-    marginBottom: 8,
-  },
   transcriptText: {
     fontSize: 14,
     lineHeight: 20,
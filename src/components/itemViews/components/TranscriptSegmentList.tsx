@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { observer } from '@legendapp/state/react';
+import { formatTimestamp } from '../../../utils/mediaTimestamps';
+import type { TranscriptSegment } from './TranscriptSection';
+
+// After the user scrolls the transcript, stop following playback for a while
+const FOLLOW_PAUSE_MS = 4000;
+
+interface TranscriptSegmentListProps {
+  segments: TranscriptSegment[];
+  isDarkMode: boolean;
+  // Read during render so an observable position only re-renders this list
+  getPositionMs?: () => number | null;
+  onSeek?: (positionMs: number) => void;
+  onSaveClip?: (segments: TranscriptSegment[]) => Promise<void>;
+  maxHeight?: number;
+}
+
+// Index of the segment being played, or -1 before the first one
+const findCurrentIndex = (segments: TranscriptSegment[], positionMs: number | null): number => {
+  if (positionMs === null) return -1;
+  let index = -1;
+  segments.forEach((segment, i) => {
+    if (segment.startMs <= positionMs) index = i;
+  });
+  return index;
+};
+
+/**
+ * Timestamped transcript segments: tap to seek, the playing segment is
+ * highlighted and followed, searchable, and a range can be saved as a clip.
+ */
+const TranscriptSegmentList = observer(({
+  segments,
+  isDarkMode,
+  getPositionMs,
+  onSeek,
+  onSaveClip,
+  maxHeight = 300,
+}: TranscriptSegmentListProps) => {
+  const [query, setQuery] = useState('');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selection, setSelection] = useState<{ anchor: number; end: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const scrollRef = useRef<ScrollView>(null);
+  const segmentOffsets = useRef<Record<number, number>>({});
+  const lastUserScroll = useRef(0);
+
+  const positionMs = getPositionMs ? getPositionMs() : null;
+  const currentIndex = findCurrentIndex(segments, positionMs);
+  const trimmedQuery = query.trim().toLowerCase();
+  const visibleIndexes = segments
+    .map((segment, index) => index)
+    .filter(index => !trimmedQuery || segments[index].text.toLowerCase().includes(trimmedQuery));
+
+  const selectionStart = selection ? Math.min(selection.anchor, selection.end) : -1;
+  const selectionEnd = selection ? Math.max(selection.anchor, selection.end) : -1;
+
+  // Keep the playing segment in view unless the user is reading elsewhere
+  useEffect(() => {
+    if (currentIndex < 0 || trimmedQuery || isSelecting) return;
+    if (Date.now() - lastUserScroll.current < FOLLOW_PAUSE_MS) return;
+    const offset = segmentOffsets.current[currentIndex];
+    if (offset === undefined) return;
+    scrollRef.current?.scrollTo({ y: Math.max(0, offset - 40), animated: true });
+  }, [currentIndex, trimmedQuery, isSelecting]);
+
+  const handleSegmentPress = (index: number) => {
+    if (isSelecting) {
+      // First tap anchors the clip, the next one sets its other end
+      setSelection(prev => (!prev || prev.anchor !== prev.end ? { anchor: index, end: index } : { ...prev, end: index }));
+      return;
+    }
+    onSeek?.(segments[index].startMs);
+  };
+
+  const cancelSelection = () => {
+    setIsSelecting(false);
+    setSelection(null);
+  };
+
+  const handleSaveClip = async () => {
+    if (!onSaveClip || !selection) return;
+    setIsSaving(true);
+    try {
+      await onSaveClip(segments.slice(selectionStart, selectionEnd + 1));
+      cancelSelection();
+    } catch (error) {
+      console.error('Error saving transcript clip:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Bold the matched text so search hits stand out in long segments
+  const renderText = (text: string) => {
+    if (!trimmedQuery) return text;
+    const parts: React.ReactNode[] = [];
+    const lower = text.toLowerCase();
+    let from = 0;
+    let at = lower.indexOf(trimmedQuery);
+    while (at >= 0) {
+      if (at > from) parts.push(text.slice(from, at));
+      parts.push(
+        <Text key={at} style={styles.match}>{text.slice(at, at + trimmedQuery.length)}</Text>
+      );
+      from = at + trimmedQuery.length;
+      at = lower.indexOf(trimmedQuery, from);
+    }
+    if (from < text.length) parts.push(text.slice(from));
+    return parts;
+  };
+
+  return (
+    <View>
+      <View style={styles.toolbar}>
+        <View style={[styles.search, isDarkMode && styles.searchDark]}>
+          <Ionicons name="search" size={14} color="#8E8E93" />
+          <TextInput
+            style={[styles.searchInput, isDarkMode && styles.searchInputDark]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search transcript"
+            placeholderTextColor="#8E8E93"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query ? (
+            <TouchableOpacity onPress={() => setQuery('')} activeOpacity={0.7}>
+              <Ionicons name="close-circle" size={16} color="#8E8E93" />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+        {onSaveClip && (
+          <TouchableOpacity onPress={isSelecting ? cancelSelection : () => setIsSelecting(true)} activeOpacity={0.7}>
+            <Text style={styles.toolbarAction}>{isSelecting ? 'Cancel' : 'Clip'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {trimmedQuery ? (
+        <Text style={styles.hint}>
+          {visibleIndexes.length === 0 ? 'No matches' : `${visibleIndexes.length} matching segment${visibleIndexes.length === 1 ? '' : 's'}`}
+        </Text>
+      ) : null}
+
+      {isSelecting && (
+        <View style={styles.clipBar}>
+          <Text style={styles.hint}>
+            {selection
+              ? `${formatTimestamp(segments[selectionStart].startMs)} – ${formatTimestamp(segments[selectionEnd].endMs ?? segments[selectionEnd].startMs)} · ${selectionEnd - selectionStart + 1} segment${selectionEnd === selectionStart ? '' : 's'}`
+              : 'Tap the first and last segment of the clip'}
+          </Text>
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <TouchableOpacity onPress={handleSaveClip} disabled={!selection} activeOpacity={0.7}>
+              <Text style={[styles.toolbarAction, !selection && styles.toolbarActionDisabled]}>Save clip</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <ScrollView
+        ref={scrollRef}
+        style={{ maxHeight }}
+        showsVerticalScrollIndicator={false}
+        nestedScrollEnabled
+        onScrollBeginDrag={() => { lastUserScroll.current = Date.now(); }}
+      >
+        {visibleIndexes.map(index => {
+          const segment = segments[index];
+          const isCurrent = index === currentIndex;
+          const isSelected = index >= selectionStart && index <= selectionEnd;
+          return (
+            <TouchableOpacity
+              key={`${segment.startMs}-${index}`}
+              style={[
+                styles.segment,
+                isCurrent && (isDarkMode ? styles.segmentCurrentDark : styles.segmentCurrent),
+                isSelected && (isDarkMode ? styles.segmentSelectedDark : styles.segmentSelected),
+              ]}
+              onLayout={event => { segmentOffsets.current[index] = event.nativeEvent.layout.y; }}
+              onPress={() => handleSegmentPress(index)}
+              disabled={!onSeek && !isSelecting}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.timestamp}>{formatTimestamp(segment.startMs)}</Text>
+              <Text style={[styles.text, isDarkMode && styles.textDark]}>
+                {renderText(segment.text)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+});
+
+export default TranscriptSegmentList;
+
+const styles = StyleSheet.create({
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  search: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#EFEFF4',
+  },
+  searchDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    padding: 0,
+    color: '#000',
+  },
+  searchInputDark: {
+    color: '#FFFFFF',
+  },
+  toolbarAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  toolbarActionDisabled: {
+    color: '#8E8E93',
+  },
+  hint: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 6,
+  },
+  clipBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    marginBottom: 4,
+    borderRadius: 6,
+  },
+  segmentCurrent: {
+    backgroundColor: '#E5F0FF',
+  },
+  segmentCurrentDark: {
+    backgroundColor: '#1A2A40',
+  },
+  segmentSelected: {
+    backgroundColor: '#D0E4FF',
+  },
+  segmentSelectedDark: {
+    backgroundColor: '#24406A',
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontVariant: ['tabular-nums'],
+    paddingTop: 2,
+    minWidth: 40,
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#000',
+  },
+  textDark: {
+    color: '#FFFFFF',
+  },
+  match: {
+    fontWeight: '700',
+    backgroundColor: '#FFE58F',
+    color: '#000',
+  },
+});
@@ -16,6 +16,14 @@ export { default as SelectorDropdown } from './SelectorDropdown';
 export { default as MetadataBadges } from './MetadataBadges';
 export { default as ImageDescriptionsSection } from './ImageDescriptionsSection';
 export { default as TranscriptSection } from './TranscriptSection';
+export { default as TranscriptSegmentList } from './TranscriptSegmentList';
+export { default as TranscriptExportButton } from './TranscriptExportButton';
+export { default as TranscriptChaptersSection } from './TranscriptChaptersSection';
+export { default as PipelineRunLog } from './PipelineRunLog';
+export { default as ItemConflictsSection } from './ItemConflictsSection';
+export { default as PodcastSubscriptionSection } from './PodcastSubscriptionSection';
+export { default as ClipSourceSection } from './ClipSourceSection';
+export { default as ReaderSection } from './ReaderSection';
 
 // Export types
 export type { Badge } from './MetadataBadges';
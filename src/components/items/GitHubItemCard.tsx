@@ -0,0 +1,202 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { observer } from '@legendapp/state/react';
+import { themeStore } from '../../stores/theme';
+import { itemTypeMetadataStore } from '../../stores/itemTypeMetadata';
+import { Item } from '../../types';
+import { formatCount, formatDate, getGitHubLanguageColor } from '../../utils/itemCardHelpers';
+import { extractGitHubRepo } from '../../utils/urlHelpers';
+import RadialActionMenu from './RadialActionMenu';
+
+interface GitHubItemCardProps {
+  item: Item;
+  onPress: (item: Item) => void;
+  onLongPress?: (item: Item) => void;
+  disabled?: boolean;
+}
+
+const GitHubItemCard = observer(({ item, onPress, onLongPress, disabled }: GitHubItemCardProps) => {
+  const isDarkMode = themeStore.isDarkMode.get();
+
+  // Access observables directly for reactivity while the enricher fills these in
+  const repo = itemTypeMetadataStore.typeMetadata.get().find(m => m.item_id === item.id)?.data;
+
+  // Fall back to the URL until the enricher has run
+  const parsed = item.url ? extractGitHubRepo(item.url) : null;
+  const owner = parsed?.owner;
+  const repoName = parsed?.repo || item.title;
+
+  return (
+    <RadialActionMenu item={item} onPress={onPress} disabled={disabled}>
+      <View style={[styles.shadowContainer, isDarkMode && styles.shadowContainerDark]}>
+        <View style={[styles.card, isDarkMode && styles.cardDark]}>
+          {/* Owner */}
+          <View style={styles.header}>
+            {repo?.owner_avatar ? (
+              <Image source={{ uri: repo.owner_avatar }} style={styles.avatar} contentFit="cover" />
+            ) : (
+              <View style={[styles.avatar, styles.avatarPlaceholder, isDarkMode && styles.avatarPlaceholderDark]} />
+            )}
+            {owner && (
+              <Text style={[styles.owner, isDarkMode && styles.ownerDark]} numberOfLines={1}>
+                {owner}
+              </Text>
+            )}
+          </View>
+
+          {/* Repo name and description */}
+          <View style={styles.contentContainer}>
+            <Text style={[styles.repoName, isDarkMode && styles.repoNameDark]} numberOfLines={2}>
+              {repoName}
+            </Text>
+            {item.desc && (
+              <Text style={[styles.description, isDarkMode && styles.descriptionDark]} numberOfLines={3}>
+                {item.desc}
+              </Text>
+            )}
+          </View>
+
+          {/* Stats */}
+          {repo && (
+            <View style={styles.statsRow}>
+              {repo.language && (
+                <View style={styles.stat}>
+                  <View style={[styles.languageDot, { backgroundColor: getGitHubLanguageColor(repo.language) }]} />
+                  <Text style={[styles.statText, isDarkMode && styles.statTextDark]} numberOfLines={1}>
+                    {repo.language}
+                  </Text>
+                </View>
+              )}
+              {repo.stars !== undefined && (
+                <Text style={[styles.statText, isDarkMode && styles.statTextDark]}>
+                  ★ {formatCount(repo.stars)}
+                </Text>
+              )}
+              {repo.forks !== undefined && (
+                <Text style={[styles.statText, isDarkMode && styles.statTextDark]}>
+                  ⑂ {formatCount(repo.forks)}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {repo?.pushed_at && (
+            <Text style={[styles.updated, isDarkMode && styles.updatedDark]}>
+              {repo.archived ? 'Archived · ' : ''}Updated {formatDate(repo.pushed_at)}
+            </Text>
+          )}
+        </View>
+      </View>
+    </RadialActionMenu>
+  );
+});
+
+export default GitHubItemCard;
+
+const styles = StyleSheet.create({
+  shadowContainer: {
+    width: '100%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  shadowContainerDark: {
+    shadowOpacity: 0.4,
+  },
+  card: {
+    width: '100%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderTopWidth: 5,
+    borderTopColor: '#24292E', // GitHub dark
+    overflow: 'hidden',
+    paddingBottom: 12,
+  },
+  cardDark: {
+    backgroundColor: '#1C1C1E',
+    borderTopColor: '#8B949E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingBottom: 8,
+    gap: 6,
+  },
+  avatar: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#E5E5EA',
+  },
+  avatarPlaceholderDark: {
+    backgroundColor: '#3A3A3C',
+  },
+  owner: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666666',
+  },
+  ownerDark: {
+    color: '#999999',
+  },
+  contentContainer: {
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+  },
+  repoName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  repoNameDark: {
+    color: '#FFFFFF',
+  },
+  description: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#333333',
+  },
+  descriptionDark: {
+    color: '#CCCCCC',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    gap: 10,
+  },
+  stat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  languageDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  statText: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  statTextDark: {
+    color: '#999999',
+  },
+  updated: {
+    fontSize: 11,
+    color: '#999999',
+    paddingHorizontal: 12,
+    marginTop: 6,
+  },
+  updatedDark: {
+    color: '#666666',
+  },
+});
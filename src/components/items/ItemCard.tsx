@@ -8,6 +8,7 @@ import MovieTVItemCard from './MovieTVItemCard';
 import RedditItemCard from './RedditItemCard';
 import ProductItemCard from './ProductItemCard';
 import PodcastItemCard from './PodcastItemCard';
+import GitHubItemCard from './GitHubItemCard';
 import DefaultItemCard from './DefaultItemCard';
 import NoteItemCard from './NoteItemCard';
 import ProcessingItemCard from './ProcessingItemCard';
@@ -37,6 +38,7 @@ const ItemCard = observer(({ item, onPress, onLongPress }: ItemCardProps) => {
       case 'product': return ProductItemCard;
       case 'podcast':
       case 'podcast_episode': return PodcastItemCard;
+      case 'github': return GitHubItemCard;
       default: return DefaultItemCard;
     }
   };
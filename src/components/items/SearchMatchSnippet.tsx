@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { observer } from '@legendapp/state/react';
+import { themeStore } from '../../stores/theme';
+import type { SearchField, SearchSnippet } from '../../services/search/fullTextIndex';
+
+interface SearchMatchSnippetProps {
+  snippet: SearchSnippet;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  tags: 'Tags',
+  desc: 'Description',
+  tldr: 'TLDR',
+  notes: 'Notes',
+  content: 'Content',
+  transcript: 'Transcript',
+  image_descriptions: 'Image',
+  url: 'URL',
+  type: 'Type',
+};
+
+const SearchMatchSnippet = observer(({ snippet }: SearchMatchSnippetProps) => {
+  const isDarkMode = themeStore.isDarkMode.get();
+
+  // Split the snippet into alternating plain / highlighted segments
+  const segments: Array<{ text: string; highlighted: boolean }> = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    if (start > cursor) segments.push({ text: snippet.text.slice(cursor, start), highlighted: false });
+    segments.push({ text: snippet.text.slice(start, end), highlighted: true });
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) segments.push({ text: snippet.text.slice(cursor), highlighted: false });
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.containerDark]}>
+      <Text style={[styles.field, isDarkMode && styles.fieldDark]}>{FIELD_LABELS[snippet.field]}</Text>
+      <Text style={[styles.text, isDarkMode && styles.textDark]} numberOfLines={3}>
+        {segments.map((segment, index) => (
+          <Text key={index} style={segment.highlighted ? [styles.highlight, isDarkMode && styles.highlightDark] : undefined}>
+            {segment.text}
+          </Text>
+        ))}
+      </Text>
+    </View>
+  );
+});
+
+export default SearchMatchSnippet;
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  containerDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  field: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  fieldDark: {
+    color: '#98989D',
+  },
+  text: {
+    fontSize: 12,
+    lineHeight: 16,
+    color: '#3C3C43',
+  },
+  textDark: {
+    color: '#CCCCCC',
+  },
+  highlight: {
+    fontWeight: '700',
+    color: '#000000',
+    backgroundColor: 'rgba(255, 204, 0, 0.35)',
+  },
+  highlightDark: {
+    color: '#FFFFFF',
+    backgroundColor: 'rgba(255, 214, 10, 0.3)',
+  },
+});
@@ -25,6 +25,20 @@ export const API_CONFIG = {
     BASE_URL: 'https://api.openai.com/v1',
     MODEL: 'gpt-3.5-turbo',
   },
+
+  // Anthropic Messages API (used when a model setting is prefixed with "anthropic:")
+  ANTHROPIC: {
+    API_KEY: process.env.EXPO_PUBLIC_ANTHROPIC_API_KEY || '',
+    BASE_URL: 'https://api.anthropic.com/v1',
+    VERSION: '2023-06-01',
+  },
+
+  // Local OpenAI-compatible server, e.g. llama.cpp (http://host:8080/v1) or Ollama (http://host:11434/v1)
+  // Used when a model setting is prefixed with "local:"
+  LOCAL_LLM: {
+    BASE_URL: process.env.EXPO_PUBLIC_LOCAL_LLM_BASE_URL || '',
+    API_KEY: process.env.EXPO_PUBLIC_LOCAL_LLM_API_KEY || '',
+  },
   
   // YouTube (using youtubei.js - no API key needed)
   YOUTUBE: {
@@ -49,6 +63,12 @@ export const API_CONFIG = {
     API_KEY: process.env.EXPO_PUBLIC_SERPAI_API_KEY || '',
     BASE_URL: 'https://serpapi.com',
   },
+
+  // GitHub REST API (works without a token, but unauthenticated calls are limited to 60/hour)
+  GITHUB: {
+    TOKEN: process.env.EXPO_PUBLIC_GITHUB_TOKEN || '',
+    BASE_URL: 'https://api.github.com',
+  },
 };
 
 // Helper to check if APIs are configured
@@ -56,7 +76,10 @@ export const isAPIConfigured = {
   jina: () => !!API_CONFIG.JINA_AI.API_KEY,
   twitter: () => !!API_CONFIG.TWITTER.BEARER_TOKEN,
   openai: () => !!API_CONFIG.OPENAI.API_KEY,
+  anthropic: () => !!API_CONFIG.ANTHROPIC.API_KEY,
+  localLLM: () => !!API_CONFIG.LOCAL_LLM.BASE_URL,
   assemblyai: () => !!API_CONFIG.ASSEMBLYAI.API_KEY,
   instagram: () => !!API_CONFIG.INSTAGRAM.ACCESS_TOKEN,
   serpapi: () => !!API_CONFIG.SERPAPI.API_KEY,
+  github: () => !!API_CONFIG.GITHUB.TOKEN,
 };
\ No newline at end of file
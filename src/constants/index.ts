@@ -104,15 +104,23 @@ export const STORAGE_KEYS = {
   VIDEO_TRANSCRIPTS: '@memex_video_transcripts',
   IMAGE_DESCRIPTIONS: '@memex_image_descriptions',
   SYNC_STATUS: 'sync_status',
+  SYNC_CURSORS: '@memex_sync_cursors', // Per-table delta sync cursors
+  ITEM_SYNC_BASES: '@memex_item_sync_bases', // Last server-side version of item fields, for merging edits
+  ITEM_CONFLICTS: '@memex_item_conflicts', // Item fields edited differently on two devices
+  AUDIO_PLAYER: '@memex_audio_player', // Now playing, up-next queue and player settings
   AI_SETTINGS: '@memex_ai_settings',
   AI_MODELS: '@memex_ai_models',
   ITEM_CHATS: '@memex_item_chats',
+  SPACE_CHATS: '@memex_space_chats',
   CHAT_MESSAGES: '@memex_chat_messages',
   FILTERS: '@memex_filters',
   USER_SETTINGS: '@memex_user_settings', // Cloud-synced user settings
   ADMIN_SETTINGS: '@memex_admin_settings', // Cloud-synced global admin settings
   PENDING_ITEMS: '@memex_pending_items', // Shared items being processed
   ASSISTANT_CONVERSATIONS: '@memex_assistant_conversations', // Assistant chat conversations
+  PIPELINE_RUNS: '@memex_pipeline_runs', // Per-item enrichment pipeline run logs
+  MEMORY_MAINTENANCE: '@memex_memory_maintenance', // Last assistant memory maintenance run
+  MEMORY_SCHEMA: '@memex_memory_schema', // Active assistant memory schema version
 };
 
 // Special spaces
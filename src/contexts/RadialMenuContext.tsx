@@ -17,6 +17,7 @@ import { chatUIActions } from '../stores/chatUI';
 import { expandedItemUIActions } from '../stores/expandedItemUI';
 import { userSettingsComputed } from '../stores/userSettings';
 import { spacesComputed } from '../stores/spaces';
+import { audioPlayerComputed, audioPlayerActions } from '../stores/audioPlayer';
 import { Item, ContentType, RadialActionId } from '../types';
 import SpaceSelectorModal from '../components/SpaceSelectorModal';
 import { useToast } from './ToastContext';
@@ -356,6 +357,44 @@ const RadialMenuOverlay = observer(({
         );
       },
     },
+    play_next: {
+      id: 'play_next',
+      label: 'Play Next',
+      icon: 'playlist-play',
+      iconLibrary: 'material',
+      color: '#FF2D55',
+      action: (item: Item) => {
+        console.log('🎧 PLAY NEXT button pressed for item:', item.title);
+        if (!audioPlayerComputed.isPlayable(item.id)) {
+          showToast({ message: 'This item has no audio to play', type: 'error' });
+          return;
+        }
+        if (audioPlayerActions.playNext(item.id)) {
+          showToast({ message: 'Playing next', type: 'success' });
+        } else {
+          showToast({ message: 'Already playing', type: 'info' });
+        }
+      },
+    },
+    queue: {
+      id: 'queue',
+      label: 'Add to Queue',
+      icon: 'playlist-add',
+      iconLibrary: 'material',
+      color: '#FF2D55',
+      action: (item: Item) => {
+        console.log('🎧 QUEUE button pressed for item:', item.title);
+        if (!audioPlayerComputed.isPlayable(item.id)) {
+          showToast({ message: 'This item has no audio to play', type: 'error' });
+          return;
+        }
+        if (audioPlayerActions.addToQueue(item.id)) {
+          showToast({ message: 'Added to queue', type: 'success' });
+        } else {
+          showToast({ message: 'Already in the queue', type: 'info' });
+        }
+      },
+    },
     refresh: {
       id: 'refresh',
       label: 'Refresh',
@@ -668,6 +707,44 @@ export const RadialMenuProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         );
       },
     },
+    play_next: {
+      id: 'play_next',
+      label: 'Play Next',
+      icon: 'playlist-play',
+      iconLibrary: 'material',
+      color: '#FF2D55',
+      action: (item: Item) => {
+        console.log('🎧 PLAY NEXT button pressed for item:', item.title);
+        if (!audioPlayerComputed.isPlayable(item.id)) {
+          showToast({ message: 'This item has no audio to play', type: 'error' });
+          return;
+        }
+        if (audioPlayerActions.playNext(item.id)) {
+          showToast({ message: 'Playing next', type: 'success' });
+        } else {
+          showToast({ message: 'Already playing', type: 'info' });
+        }
+      },
+    },
+    queue: {
+      id: 'queue',
+      label: 'Add to Queue',
+      icon: 'playlist-add',
+      iconLibrary: 'material',
+      color: '#FF2D55',
+      action: (item: Item) => {
+        console.log('🎧 QUEUE button pressed for item:', item.title);
+        if (!audioPlayerComputed.isPlayable(item.id)) {
+          showToast({ message: 'This item has no audio to play', type: 'error' });
+          return;
+        }
+        if (audioPlayerActions.addToQueue(item.id)) {
+          showToast({ message: 'Added to queue', type: 'success' });
+        } else {
+          showToast({ message: 'Already in the queue', type: 'info' });
+        }
+      },
+    },
     refresh: {
       id: 'refresh',
       label: 'Refresh',
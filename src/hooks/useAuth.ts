@@ -1,4 +1,5 @@
 import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
 import { router, useSegments } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase, auth } from '../services/supabase';
@@ -16,11 +17,15 @@ import { itemMetadataActions } from '../stores/itemMetadata';
 import { itemTypeMetadataActions } from '../stores/itemTypeMetadata';
 import { offlineQueueActions } from '../stores/offlineQueue';
 import { itemChatsActions } from '../stores/itemChats';
+import { spaceChatsActions } from '../stores/spaceChats';
 import { chatMessagesActions } from '../stores/chatMessages';
 import { aiSettingsActions } from '../stores/aiSettings';
 import { filterActions } from '../stores/filter';
 import { userSettingsActions } from '../stores/userSettings';
 import { adminSettingsActions } from '../stores/adminSettings';
+import { podcastSubscriptionsActions } from '../stores/podcastSubscriptions';
+import { audioPlayerActions } from '../stores/audioPlayer';
+import { audioPlaybackService } from '../services/audioPlayback';
 
 /**
  * Clears all authentication-related state, storage, and data stores.
@@ -70,10 +75,14 @@ async function clearAuthState() {
   itemTypeMetadataActions.reset();
   offlineQueueActions.reset();
   await itemChatsActions.clearAll();
+  await spaceChatsActions.clearAll();
   await chatMessagesActions.clearAll();
   await aiSettingsActions.clearAll();
   await filterActions.clearAll();
   await userSettingsActions.clearSettings();
+  podcastSubscriptionsActions.reset();
+  audioPlaybackService.release();
+  audioPlayerActions.reset();
   // Note: adminSettings are global (not user-specific) so we don't clear them
 
   // Clear shared auth for share extension
@@ -413,6 +422,25 @@ export function useAuth() {
     };
   }, []);
 
+  // Check podcast subscriptions for new episodes and pick up the audio queue from other devices
+  // when signed in and whenever the app returns to the foreground
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const poll = () => {
+      podcastSubscriptionsActions.pollSubscriptions().catch(error => {
+        console.error('❌ Failed to poll podcast subscriptions:', error);
+      });
+      audioPlayerActions.syncQueue();
+    };
+
+    poll();
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') poll();
+    });
+    return () => appStateSubscription.remove();
+  }, [isAuthenticated]);
+
   // Handle navigation based on auth state changes
   useEffect(() => {
     if (isLoading) {
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { UI } from '../constants';
+import { authStore } from '../stores/auth';
+import { hybridSearchItems } from '../services/embeddings/semanticSearch';
+import type { HybridSearchResult } from '../services/embeddings/types';
+
+const MIN_QUERY_LENGTH = 3;
+
+/**
+ * Debounced hybrid (keyword + embedding) search for the search box.
+ * Returns results in ranked order; empty while the query is too short.
+ */
+export const useSemanticSearch = (query: string, options: { includeArchived?: boolean; limit?: number } = {}) => {
+  const [results, setResults] = useState<HybridSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const { includeArchived = false, limit = 20 } = options;
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const userId = authStore.user.get()?.id;
+    if (trimmed.length < MIN_QUERY_LENGTH || !userId) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const ranked = await hybridSearchItems(userId, trimmed, { includeArchived, limit });
+        if (!cancelled) setResults(ranked);
+      } catch (error) {
+        console.error('[useSemanticSearch] Search failed:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, UI.SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, includeArchived, limit]);
+
+  return { results, isSearching };
+};
@@ -0,0 +1,171 @@
+import {
+  formatSrtTimestamp,
+  formatVttTimestamp,
+  resolveSegmentTimes,
+  transcriptToSrt,
+  transcriptToVtt,
+  transcriptToMarkdown,
+} from '../transcriptExport';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('cue timestamps', () => {
+  it('formats SRT with a comma and VTT with a dot before the milliseconds', () => {
+    expect(formatSrtTimestamp(62345)).toBe('00:01:02,345');
+    expect(formatVttTimestamp(62345)).toBe('00:01:02.345');
+  });
+
+  it('rolls minutes over into hours', () => {
+    expect(formatSrtTimestamp(HOUR_MS - 1)).toBe('00:59:59,999');
+    expect(formatSrtTimestamp(HOUR_MS)).toBe('01:00:00,000');
+    expect(formatVttTimestamp(10 * HOUR_MS + 5 * 60000 + 7008)).toBe('10:05:07.008');
+  });
+
+  it('drops fractional milliseconds', () => {
+    expect(formatSrtTimestamp(1500.9)).toBe('00:00:01,500');
+  });
+
+  it('clamps negative and non-finite input to zero', () => {
+    expect(formatSrtTimestamp(-250)).toBe('00:00:00,000');
+    expect(formatSrtTimestamp(NaN)).toBe('00:00:00,000');
+    expect(formatVttTimestamp(Infinity)).toBe('00:00:00.000');
+    expect(formatVttTimestamp(-Infinity)).toBe('00:00:00.000');
+  });
+});
+
+describe('resolveSegmentTimes', () => {
+  it('ends a segment without endMs where the next one starts', () => {
+    expect(resolveSegmentTimes([
+      { startMs: 0, text: 'First' },
+      { startMs: 1800, endMs: 3000, text: 'Second' },
+    ])).toEqual([
+      { startMs: 0, endMs: 1800, text: 'First' },
+      { startMs: 1800, endMs: 3000, text: 'Second' },
+    ]);
+  });
+
+  it('gives the last cue two seconds when it has no end', () => {
+    expect(resolveSegmentTimes([{ startMs: 5000, text: 'Last' }])).toEqual([
+      { startMs: 5000, endMs: 7000, text: 'Last' },
+    ]);
+  });
+
+  it('replaces inverted and zero-length ranges with the fallback', () => {
+    expect(resolveSegmentTimes([
+      { startMs: 4000, endMs: 1000, text: 'Inverted' },
+      { startMs: 9000, endMs: 9000, text: 'Empty' },
+    ])).toEqual([
+      { startMs: 4000, endMs: 6000, text: 'Inverted' },
+      { startMs: 9000, endMs: 11000, text: 'Empty' },
+    ]);
+  });
+
+  it('falls back when the next segment starts at the same time', () => {
+    expect(resolveSegmentTimes([
+      { startMs: 1000, text: 'A' },
+      { startMs: 1000, text: 'B' },
+    ])[0]).toEqual({ startMs: 1000, endMs: 3000, text: 'A' });
+  });
+
+  it('sorts out-of-order segments before resolving ends', () => {
+    const segments = [
+      { startMs: 6000, text: 'third' },
+      { startMs: 0, text: 'first' },
+      { startMs: 2500, text: 'second' },
+    ];
+    expect(resolveSegmentTimes(segments)).toEqual([
+      { startMs: 0, endMs: 2500, text: 'first' },
+      { startMs: 2500, endMs: 6000, text: 'second' },
+      { startMs: 6000, endMs: 8000, text: 'third' },
+    ]);
+    // The caller's array is left as it was
+    expect(segments.map(segment => segment.text)).toEqual(['third', 'first', 'second']);
+  });
+
+  it('clamps negative starts, collapses whitespace and drops blank segments', () => {
+    expect(resolveSegmentTimes([
+      { startMs: -300, endMs: 900, text: '  hello\n  there ' },
+      { startMs: 1000, endMs: 1500, text: '   ' },
+    ])).toEqual([{ startMs: 0, endMs: 900, text: 'hello there' }]);
+  });
+});
+
+describe('subtitle output', () => {
+  const transcript = {
+    transcript: '',
+    segments: [
+      { startMs: 3599500, text: 'Crossing the hour' },
+      { startMs: 3601000, endMs: 3603250, text: 'A --> B' },
+    ],
+  };
+
+  it('numbers SRT cues from one', () => {
+    expect(transcriptToSrt(transcript)).toBe(
+      '1\n00:59:59,500 --> 01:00:01,000\nCrossing the hour\n' +
+      '\n' +
+      '2\n01:00:01,000 --> 01:00:03,250\nA --> B\n'
+    );
+  });
+
+  it('escapes --> inside WebVTT cue text and writes the language header', () => {
+    expect(transcriptToVtt({ ...transcript, language: 'en' })).toBe(
+      'WEBVTT\nLanguage: en\n' +
+      '\n' +
+      '00:59:59.500 --> 01:00:01.000\nCrossing the hour\n' +
+      '\n' +
+      '01:00:01.000 --> 01:00:03.250\nA -> B\n'
+    );
+  });
+});
+
+describe('transcriptToMarkdown', () => {
+  const segments = [
+    { startMs: 0, text: 'Welcome back.' },
+    { startMs: 20000, text: 'Today: sync.' },
+    { startMs: 65000, text: 'Tombstones first.' },
+    { startMs: 90000, text: 'Then cursors.' },
+  ];
+
+  it('puts segments before the first chapter under an Intro section', () => {
+    const markdown = transcriptToMarkdown(
+      { transcript: '', segments },
+      {
+        title: 'Episode 42',
+        // Out of order on purpose
+        chapters: [{ start_ms: 90000, title: 'Cursors' }, { start_ms: 60000, title: 'Tombstones' }],
+      }
+    );
+    expect(markdown).toBe([
+      '# Episode 42',
+      '',
+      '## Intro (00:00)',
+      '',
+      'Welcome back. Today: sync.',
+      '',
+      '## Tombstones (01:00)',
+      '',
+      'Tombstones first.',
+      '',
+      '## Cursors (01:30)',
+      '',
+      'Then cursors.',
+      '',
+    ].join('\n'));
+  });
+
+  it('skips the Intro when the first chapter starts with the transcript', () => {
+    const markdown = transcriptToMarkdown(
+      { transcript: '', segments },
+      { chapters: [{ start_ms: 0, title: 'Opening' }, { start_ms: 60000, title: 'Tombstones' }] }
+    );
+    expect(markdown).not.toContain('Intro');
+    expect(markdown.startsWith('# Transcript\n\n## Opening (00:00)\n\nWelcome back. Today: sync.\n')).toBe(true);
+  });
+
+  it('lists timestamped segments without chapters, and plain text without segments', () => {
+    expect(transcriptToMarkdown({ transcript: '', segments: segments.slice(0, 2) })).toBe(
+      '# Transcript\n\n**[00:00]** Welcome back.\n\n**[00:20]** Today: sync.\n'
+    );
+    expect(transcriptToMarkdown({ transcript: '  Just text.  ' }, { title: 'Note' })).toBe('# Note\n\nJust text.\n');
+  });
+});
@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { API_CONFIG, isAPIConfigured } from '../config/api';
 import { ContentType } from '../types';
+import { httpFetch } from './http/fixtureFetch';
 
 /**
  * AI-powered URL classifier
@@ -36,6 +37,7 @@ export const classifyUrlWithAI = async (
 
     const openai = new OpenAI({
       apiKey: API_CONFIG.OPENAI.API_KEY,
+      fetch: httpFetch,
     });
 
     // Build context for better classification
@@ -214,6 +216,7 @@ export async function classifyPodcastUrl(url: string): Promise<PodcastClassifica
 
     const openai = new OpenAI({
       apiKey: API_CONFIG.OPENAI.API_KEY,
+      fetch: httpFetch,
     });
 
     const prompt = `Analyze this podcast URL and determine:
@@ -0,0 +1,266 @@
+import { openai } from './openai';
+import type { LLMMessage, LLMStreamOptions, LLMTool, ToolCall } from './llm';
+import {
+  executeTool,
+  collectCitationSources,
+  CONFIRMATION_REQUIRED_TOOLS,
+  PARALLEL_SAFE_TOOLS,
+} from './assistantTools';
+import type { AssistantCitation, AssistantToolResult } from '../stores/assistant';
+
+// Maximum number of tool call rounds to prevent infinite loops
+export const MAX_TOOL_ROUNDS = 5;
+
+const DEFAULT_TOOL_TIMEOUT_MS = 15000;
+
+// Tools that embed queries or scan whole tables get longer
+const TOOL_TIMEOUTS_MS: Record<string, number> = {
+  search_items: 30000,
+  search_memories: 20000,
+  inspect_memory_stats: 30000,
+  create_memory: 20000,
+  propose_schema_evolution: 20000,
+};
+
+// Tool traces are persisted with the conversation, so only a preview is kept
+const RESULT_PREVIEW_LENGTH = 500;
+
+class ToolTimeoutError extends Error {
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool ${toolName} timed out after ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+// The tool itself keeps running; the loop just stops waiting for it
+const withTimeout = <T,>(promise: Promise<T>, toolName: string, timeoutMs: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ToolTimeoutError(toolName, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Handlers report their own failures as { error } instead of throwing
+const isErrorResult = (result: string): boolean => {
+  try {
+    const parsed = JSON.parse(result);
+    return !!parsed && typeof parsed === 'object' && 'error' in parsed;
+  } catch {
+    return false;
+  }
+};
+
+export type ToolConfirmation = (toolName: string, args: Record<string, any>) => Promise<boolean>;
+
+interface ExecutedToolCall {
+  // Full result, sent back to the model
+  content: string;
+  trace: AssistantToolResult;
+}
+
+const runToolCall = async (
+  toolCall: ToolCall,
+  round: number,
+  confirm: ToolConfirmation
+): Promise<ExecutedToolCall> => {
+  const name = toolCall.function.name;
+  let startedAt = Date.now();
+
+  const finish = (status: AssistantToolResult['status'], content: string): ExecutedToolCall => ({
+    content,
+    trace: {
+      tool_call_id: toolCall.id,
+      name,
+      arguments: toolCall.function.arguments,
+      result: content.substring(0, RESULT_PREVIEW_LENGTH),
+      status,
+      duration_ms: Date.now() - startedAt,
+      round,
+    },
+  });
+
+  let args: Record<string, any>;
+  try {
+    args = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    return finish('error', JSON.stringify({ error: 'Tool arguments were not valid JSON' }));
+  }
+
+  if (CONFIRMATION_REQUIRED_TOOLS.has(name)) {
+    const confirmed = await confirm(name, args);
+    if (!confirmed) {
+      console.log(`[AssistantRuntime] User declined tool: ${name}`);
+      return finish('declined', JSON.stringify({ declined: true, message: 'The user declined this action' }));
+    }
+    // Time spent waiting for the user isn't tool time
+    startedAt = Date.now();
+  }
+
+  const timeoutMs = TOOL_TIMEOUTS_MS[name] ?? DEFAULT_TOOL_TIMEOUT_MS;
+  try {
+    console.log(`[AssistantRuntime] Executing tool: ${name}`, args);
+    const result = await withTimeout(executeTool(name, args), name, timeoutMs);
+    console.log(`[AssistantRuntime] Tool result (${name}):`, result.substring(0, 200));
+    return finish(isErrorResult(result) ? 'error' : 'success', result);
+  } catch (error) {
+    if (error instanceof ToolTimeoutError) {
+      console.warn(`[AssistantRuntime] ${error.message}`);
+      return finish('timeout', JSON.stringify({ error: `The tool did not respond within ${timeoutMs / 1000} seconds` }));
+    }
+    console.error(`[AssistantRuntime] Tool execution error (${name}):`, error);
+    return finish('error', JSON.stringify({ error: 'Tool execution failed' }));
+  }
+};
+
+/**
+ * Run one round of tool calls. Read-only tools run in parallel; the rest
+ * (writes, and anything needing confirmation) run one after another alongside
+ * them. Results come back in the order the model made the calls.
+ */
+export const executeToolCalls = async (
+  toolCalls: ToolCall[],
+  round: number,
+  confirm: ToolConfirmation
+): Promise<ExecutedToolCall[]> => {
+  const results: ExecutedToolCall[] = new Array(toolCalls.length);
+
+  const parallel = Promise.all(
+    toolCalls.map(async (toolCall, index) => {
+      if (!PARALLEL_SAFE_TOOLS.has(toolCall.function.name)) return;
+      results[index] = await runToolCall(toolCall, round, confirm);
+    })
+  );
+
+  const sequential = (async () => {
+    for (let index = 0; index < toolCalls.length; index++) {
+      if (PARALLEL_SAFE_TOOLS.has(toolCalls[index].function.name)) continue;
+      results[index] = await runToolCall(toolCalls[index], round, confirm);
+    }
+  })();
+
+  await Promise.all([parallel, sequential]);
+  return results;
+};
+
+export interface AssistantTurnOptions {
+  // System prompt and conversation so far; tool turns are appended in place
+  messages: LLMMessage[];
+  tools: LLMTool[];
+  model: string;
+  stream: LLMStreamOptions;
+  // Asked before running a tool in CONFIRMATION_REQUIRED_TOOLS; false skips the call
+  confirm: ToolConfirmation;
+  // Each round streams a fresh reply
+  onRoundStart?: (round: number) => void;
+  maxRounds?: number;
+}
+
+export interface AssistantTurnResult {
+  content: string | null;
+  model: string | null;
+  tokens: { prompt: number; completion: number; total: number } | null;
+  // Cut short by the stream's abort signal
+  stopped: boolean;
+  // Items/memories returned by tools this turn - the only ids the reply may cite
+  citationSources: AssistantCitation[];
+  toolResults: AssistantToolResult[];
+}
+
+const toTokens = (usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) =>
+  usage ? { prompt: usage.prompt_tokens, completion: usage.completion_tokens, total: usage.total_tokens } : null;
+
+/**
+ * The assistant's agentic loop: call the model with tools, run whatever tools
+ * it asks for, feed the results back, and repeat until it answers in text or
+ * runs out of rounds (then it is asked once more without tools).
+ */
+export const runAssistantTurn = async ({
+  messages,
+  tools,
+  model,
+  stream,
+  confirm,
+  onRoundStart,
+  maxRounds = MAX_TOOL_ROUNDS,
+}: AssistantTurnOptions): Promise<AssistantTurnResult> => {
+  const result: AssistantTurnResult = {
+    content: null,
+    model: null,
+    tokens: null,
+    stopped: false,
+    citationSources: [],
+    toolResults: [],
+  };
+
+  for (let round = 1; round <= maxRounds; round++) {
+    console.log(`[AssistantRuntime] Tool round ${round}/${maxRounds}`);
+    onRoundStart?.(round);
+
+    const completion = await openai.createChatCompletionWithTools(messages, tools, {
+      model,
+      temperature: 0.7,
+      max_tokens: 1500,
+      stream,
+    });
+
+    if (!completion) {
+      throw new Error('Failed to get completion from OpenAI');
+    }
+
+    const choice = completion.choices?.[0];
+    if (!choice) {
+      throw new Error('No choice in completion');
+    }
+
+    // Stopped by the user - keep whatever text arrived and skip pending tool calls
+    if (choice.finish_reason === 'aborted') {
+      result.stopped = true;
+      result.content = choice.message?.content || null;
+      result.model = completion.model;
+      return result;
+    }
+
+    if (!completion.tool_calls || completion.tool_calls.length === 0) {
+      result.content = choice.message?.content || 'I apologize, but I could not generate a response.';
+      result.model = completion.model;
+      result.tokens = toTokens(completion.usage);
+      return result;
+    }
+
+    console.log('[AssistantRuntime] Processing tool calls:', completion.tool_calls.map(tc => tc.function.name).join(', '));
+    messages.push({
+      role: 'assistant',
+      content: choice.message?.content || null,
+      tool_calls: completion.tool_calls,
+    });
+
+    const executed = await executeToolCalls(completion.tool_calls, round, confirm);
+    executed.forEach(({ content, trace }) => {
+      messages.push({ role: 'tool', tool_call_id: trace.tool_call_id, content });
+      result.toolResults.push(trace);
+      if (trace.status === 'success') {
+        result.citationSources.push(...collectCitationSources(trace.name, content));
+      }
+    });
+  }
+
+  console.log('[AssistantRuntime] Hit max tool rounds, getting final response');
+  onRoundStart?.(maxRounds + 1);
+  const finalCompletion = await openai.createChatCompletion(messages, {
+    model,
+    temperature: 0.7,
+    max_tokens: 1500,
+    stream,
+  });
+
+  const finalChoice = finalCompletion?.choices[0];
+  if (finalCompletion && finalChoice) {
+    result.stopped = finalChoice.finish_reason === 'aborted';
+    result.content = finalChoice.message.content;
+    result.model = finalCompletion.model;
+    // Usage is only reported at the end of a stream
+    result.tokens = result.stopped ? null : toTokens(finalCompletion.usage);
+  }
+  return result;
+};
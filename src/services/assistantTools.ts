@@ -1,7 +1,17 @@
-import { db, supabase } from './supabase';
-import { Item, AssistantMemory, MemoryKind } from '../types';
+import uuid from 'react-native-uuid';
+import { supabase } from './supabase';
+import type { Json } from '../types/database';
+import { Item, AssistantMemory, MemoryKind, Space } from '../types';
 import { API } from '../constants';
-import { MEMORY_SCHEMA, getSchemaOverview, getKindDetails, SchemaEvolutionProposal } from './memorySchema';
+import {
+  MEMORY_SCHEMA,
+  getSchemaOverview,
+  getKindDetails,
+  applySchemaProposal,
+  validateMemory,
+  MemoryFieldSchema,
+  SchemaEvolutionProposal,
+} from './memorySchema';
 import {
   MEMEX_REPO_MAP,
   generateRepoMapMarkdown,
@@ -9,6 +19,19 @@ import {
   generateCodingAgentPrompt,
   formatCodingAgentPromptMarkdown,
 } from './repoMap';
+import { hybridSearchItems } from './embeddings/semanticSearch';
+import {
+  applyMemoryMaintenance,
+  effectiveImportance,
+  findDuplicateMemory,
+  mergeIntoMemory,
+} from './memoryMaintenance';
+import { itemProcessingQueue } from './itemProcessingQueue';
+import { itemsActions, itemsStore } from '../stores/items';
+import { spacesActions, spacesComputed } from '../stores/spaces';
+import { authComputed } from '../stores/auth';
+import { memorySchemaActions, memorySchemaComputed } from '../stores/memorySchema';
+import type { AssistantCitation } from '../stores/assistant';
 
 // Tool definitions for OpenAI function calling
 export const ASSISTANT_TOOLS = [
@@ -16,7 +39,7 @@ export const ASSISTANT_TOOLS = [
     type: 'function' as const,
     function: {
       name: 'search_items',
-      description: "Search the user's saved items in Memex by title, description, content, or tags. Use this when the user asks about things they've saved.",
+      description: "Search the user's saved items in Memex. Combines keyword matching (title, description, content, tags) with semantic matching over summaries, notes, transcripts and image descriptions, so natural-language descriptions of an item work. Use this when the user asks about things they've saved.",
       parameters: {
         type: 'object',
         properties: {
@@ -37,14 +60,13 @@ export const ASSISTANT_TOOLS = [
     type: 'function' as const,
     function: {
       name: 'create_memory',
-      description: 'Save a memory about the user for future reference. Use this when the user shares preferences, facts about themselves, information about people in their life, or important tasks/projects.',
+      description: 'Save a memory about the user for future reference. Use this when the user shares preferences, facts about themselves, information about people in their life, or important tasks/projects. A memory with a similar title and the same kind is updated with the new details instead of duplicated.',
       parameters: {
         type: 'object',
         properties: {
           kind: {
             type: 'string',
-            enum: ['preference', 'person', 'fact', 'task', 'project', 'general'],
-            description: 'The type of memory: preference (user likes/dislikes), person (someone in their life), fact (info about user), task (things to do), project (ongoing projects), general (other)',
+            description: 'The type of memory: preference (user likes/dislikes), person (someone in their life), fact (info about user), task (things to do), project (ongoing projects), general (other), or a kind added to the memory schema',
           },
           title: {
             type: 'string',
@@ -63,6 +85,10 @@ export const ASSISTANT_TOOLS = [
             items: { type: 'string' },
             description: 'Optional tags for categorizing the memory',
           },
+          fields: {
+            type: 'object',
+            description: "Optional structured fields defined for the kind in the memory schema (e.g. a person's birthday)",
+          },
         },
         required: ['kind', 'title', 'body'],
       },
@@ -82,7 +108,6 @@ export const ASSISTANT_TOOLS = [
           },
           kind: {
             type: 'string',
-            enum: ['preference', 'person', 'fact', 'task', 'project', 'general'],
             description: 'Optional: filter by memory type',
           },
           limit: {
@@ -94,8 +119,240 @@ export const ASSISTANT_TOOLS = [
       },
     },
   },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'list_spaces',
+      description: "List the user's spaces (collections) with their ids. Use this to find the space_id before saving or moving items into a space.",
+      parameters: {
+        type: 'object',
+        properties: {},
+      },
+    },
+  },
+  // Library write tools - each is confirmed by the user in chat before it runs
+  {
+    type: 'function' as const,
+    function: {
+      name: 'save_url',
+      description: 'Save a new link (article, video, post...) to Memex. It is processed in the background like a manually added item.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'The URL to save',
+          },
+          space_id: {
+            type: 'string',
+            description: 'Optional: id of the space to save it into (from list_spaces)',
+          },
+        },
+        required: ['url'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'update_item_tags',
+      description: 'Add and/or remove tags on a saved item.',
+      parameters: {
+        type: 'object',
+        properties: {
+          item_id: {
+            type: 'string',
+            description: 'Id of the item (from search_items)',
+          },
+          add: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Tags to add',
+          },
+          remove: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Tags to remove',
+          },
+        },
+        required: ['item_id'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'move_item_to_space',
+      description: 'Move a saved item into a space, or out of any space when space_id is null.',
+      parameters: {
+        type: 'object',
+        properties: {
+          item_id: {
+            type: 'string',
+            description: 'Id of the item (from search_items)',
+          },
+          space_id: {
+            type: ['string', 'null'],
+            description: 'Id of the target space (from list_spaces), or null for no space',
+          },
+        },
+        required: ['item_id', 'space_id'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'set_item_archived',
+      description: 'Archive or unarchive a saved item.',
+      parameters: {
+        type: 'object',
+        properties: {
+          item_id: {
+            type: 'string',
+            description: 'Id of the item (from search_items)',
+          },
+          archived: {
+            type: 'boolean',
+            description: 'true to archive, false to unarchive',
+          },
+        },
+        required: ['item_id', 'archived'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'create_space',
+      description: 'Create a new space (collection) for organizing items.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the space',
+          },
+          description: {
+            type: 'string',
+            description: 'Optional short description',
+          },
+        },
+        required: ['name'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'write_item_note',
+      description: "Write to a saved item's personal notes, appending by default.",
+      parameters: {
+        type: 'object',
+        properties: {
+          item_id: {
+            type: 'string',
+            description: 'Id of the item (from search_items)',
+          },
+          text: {
+            type: 'string',
+            description: 'The note text',
+          },
+          mode: {
+            type: 'string',
+            enum: ['append', 'replace'],
+            description: 'append (default) adds to existing notes, replace overwrites them',
+          },
+        },
+        required: ['item_id', 'text'],
+      },
+    },
+  },
 ];
 
+// Tools that change the library; AssistantChat asks the user before running them
+export const CONFIRMATION_REQUIRED_TOOLS = new Set([
+  'save_url',
+  'update_item_tags',
+  'move_item_to_space',
+  'set_item_archived',
+  'create_space',
+  'write_item_note',
+]);
+
+// Read-only tools that can run side by side when the model asks for several at once.
+// Anything else runs one call at a time, in the order the model gave them.
+export const PARALLEL_SAFE_TOOLS = new Set([
+  'search_items',
+  'list_spaces',
+  'search_memories',
+  'inspect_memory_schema',
+  'inspect_memory_stats',
+  'inspect_repo_map',
+  'generate_coding_prompt',
+]);
+
+// Default color for spaces created from chat (same default as CreateSpaceSheet)
+const DEFAULT_SPACE_COLOR = '#4ECDC4';
+
+const findItem = (itemId: string): Item | undefined =>
+  itemsStore.items.get().find(item => item.id === itemId && !item.is_deleted);
+
+const itemLabel = (itemId: string) => {
+  const item = findItem(itemId);
+  return item ? `"${item.title || item.url || 'Untitled'}"` : `unknown item (${itemId})`;
+};
+
+const spaceLabel = (spaceId: string | null | undefined) => {
+  if (!spaceId) return 'no space';
+  const space = spacesComputed.getSpaceById(spaceId);
+  return space ? `"${space.name}"` : `unknown space (${spaceId})`;
+};
+
+/**
+ * Human-readable summary of a write tool call, shown on the confirmation card
+ */
+export function describeToolAction(name: string, args: Record<string, any>): { title: string; details: string[] } {
+  switch (name) {
+    case 'save_url':
+      return {
+        title: 'Save link',
+        details: [args.url, ...(args.space_id ? [`Into ${spaceLabel(args.space_id)}`] : [])],
+      };
+    case 'update_item_tags':
+      return {
+        title: 'Update tags',
+        details: [
+          itemLabel(args.item_id),
+          ...(args.add?.length ? [`Add: ${args.add.join(', ')}`] : []),
+          ...(args.remove?.length ? [`Remove: ${args.remove.join(', ')}`] : []),
+        ],
+      };
+    case 'move_item_to_space':
+      return {
+        title: 'Move item',
+        details: [itemLabel(args.item_id), `To ${spaceLabel(args.space_id)}`],
+      };
+    case 'set_item_archived':
+      return {
+        title: args.archived ? 'Archive item' : 'Unarchive item',
+        details: [itemLabel(args.item_id)],
+      };
+    case 'create_space':
+      return {
+        title: 'Create space',
+        details: [`"${args.name}"`, ...(args.description ? [args.description] : [])],
+      };
+    case 'write_item_note':
+      return {
+        title: args.mode === 'replace' ? 'Replace note' : 'Add to note',
+        details: [itemLabel(args.item_id), args.text],
+      };
+    default:
+      return { title: name, details: [JSON.stringify(args)] };
+  }
+}
+
 // Architect mode tools (Phase 4)
 export const ARCHITECT_TOOLS = [
   ...ASSISTANT_TOOLS,
@@ -109,7 +366,6 @@ export const ARCHITECT_TOOLS = [
         properties: {
           kind: {
             type: 'string',
-            enum: ['preference', 'person', 'fact', 'task', 'project', 'general'],
             description: 'Optional: get detailed info about a specific memory kind',
           },
           include_full_schema: {
@@ -147,18 +403,34 @@ export const ARCHITECT_TOOLS = [
     type: 'function' as const,
     function: {
       name: 'propose_schema_evolution',
-      description: 'Generate a schema evolution proposal based on current usage patterns and user needs. Only use in architect mode when explicitly requested.',
+      description: 'Submit a schema evolution proposal based on current usage patterns and user needs. Proposals are saved for admin review; once approved they are applied to the memory schema and existing memories are migrated. Only use in architect mode when explicitly requested.',
       parameters: {
         type: 'object',
         properties: {
           evolution_type: {
             type: 'string',
-            enum: ['add_kind', 'add_field', 'modify_field', 'add_constraint'],
+            enum: ['add_kind', 'add_field', 'modify_field', 'add_constraint', 'remove_field'],
             description: 'Type of schema evolution to propose',
           },
           target_kind: {
             type: 'string',
-            description: 'The memory kind to modify (for add_field, modify_field)',
+            description: 'The memory kind to change (required for add_field, remove_field and for changing a kind field; omit to change a base field)',
+          },
+          new_kind: {
+            type: 'object',
+            description: 'add_kind only: { kind (lowercase name), description, examples?, use_cases? }',
+          },
+          field: {
+            type: 'object',
+            description: 'add_field only: { name, type (string|number|boolean|array|object), description, required, default?, constraints? }. Required fields need a default for existing memories.',
+          },
+          field_name: {
+            type: 'string',
+            description: 'modify_field / add_constraint / remove_field: name of the field to change',
+          },
+          modification: {
+            type: 'object',
+            description: 'modify_field: changed properties ({ name?, description?, required?, default?, constraints? }). add_constraint: { constraints: { minLength?, maxLength?, min?, max?, enum? } }',
           },
           proposal_description: {
             type: 'string',
@@ -236,14 +508,9 @@ export const toolHandlers = {
       }
 
       const limit = Math.min(args.limit || 5, 10);
-      const { data, error } = await db.searchItems(user.id, args.query, limit, 0);
+      const results = await hybridSearchItems(user.id, args.query, { limit });
 
-      if (error) {
-        console.error('[AssistantTools] Error searching items:', error);
-        return JSON.stringify({ error: 'Failed to search items' });
-      }
-
-      if (!data || data.length === 0) {
+      if (results.length === 0) {
         return JSON.stringify({
           message: 'No items found matching the query',
           items: []
@@ -251,7 +518,7 @@ export const toolHandlers = {
       }
 
       // Format items for the assistant
-      const formattedItems = data.map((item: any) => ({
+      const formattedItems = results.map(({ item, match, matchedBy }) => ({
         id: item.id,
         title: item.title,
         url: item.url,
@@ -259,6 +526,13 @@ export const toolHandlers = {
         description: item.desc?.substring(0, 200),
         tags: item.tags,
         created_at: item.created_at,
+        matched_by: matchedBy,
+        // Passage that matched semantically (e.g. part of a transcript)
+        matched_passage: match ? {
+          source: match.source,
+          text: match.content.substring(0, 400),
+          start_ms: match.startMs ?? undefined,
+        } : undefined,
       }));
 
       return JSON.stringify({
@@ -271,6 +545,139 @@ export const toolHandlers = {
     }
   },
 
+  // List spaces so items can be saved/moved into them
+  list_spaces: async (): Promise<string> => {
+    const spaces = spacesComputed.activeSpaces().map(space => ({
+      id: space.id,
+      name: space.name,
+      description: space.description || undefined,
+      item_count: space.item_count,
+      // Smart spaces fill themselves from a rule; items can't be moved into them
+      is_smart: !!space.smart_rule,
+    }));
+    return JSON.stringify({ message: `Found ${spaces.length} space(s)`, spaces });
+  },
+
+  // Save a URL through the same queue as the add-item sheet
+  save_url: async (args: { url: string; space_id?: string }): Promise<string> => {
+    try {
+      new URL(args.url);
+    } catch {
+      return JSON.stringify({ error: `Not a valid URL: ${args.url}` });
+    }
+    if (args.space_id && !spacesComputed.getSpaceById(args.space_id)) {
+      return JSON.stringify({ error: `Unknown space: ${args.space_id}` });
+    }
+
+    // Processing takes a while; don't hold the conversation for it
+    itemProcessingQueue.enqueue({
+      url: args.url,
+      spaceId: args.space_id || null,
+      source: 'manual',
+    }).catch(error => {
+      console.error('[AssistantTools] Error processing saved URL:', error);
+    });
+
+    return JSON.stringify({ success: true, message: `Saving ${args.url} - it will appear in Memex once processed` });
+  },
+
+  update_item_tags: async (args: { item_id: string; add?: string[]; remove?: string[] }): Promise<string> => {
+    const item = findItem(args.item_id);
+    if (!item) {
+      return JSON.stringify({ error: `Item not found: ${args.item_id}` });
+    }
+
+    const remove = new Set((args.remove || []).map(tag => tag.toLowerCase()));
+    const tags = (item.tags || []).filter(tag => !remove.has(tag.toLowerCase()));
+    for (const tag of args.add || []) {
+      const clean = tag.trim();
+      if (clean && !tags.some(existing => existing.toLowerCase() === clean.toLowerCase())) {
+        tags.push(clean);
+      }
+    }
+
+    await itemsActions.updateItemWithSync(item.id, { tags });
+    return JSON.stringify({ success: true, message: 'Tags updated', tags });
+  },
+
+  move_item_to_space: async (args: { item_id: string; space_id: string | null }): Promise<string> => {
+    const item = findItem(args.item_id);
+    if (!item) {
+      return JSON.stringify({ error: `Item not found: ${args.item_id}` });
+    }
+    const space = args.space_id ? spacesComputed.getSpaceById(args.space_id) : null;
+    if (args.space_id && !space) {
+      return JSON.stringify({ error: `Unknown space: ${args.space_id}` });
+    }
+    if (space?.smart_rule) {
+      return JSON.stringify({ error: `"${space.name}" is a smart space; items can't be moved into it` });
+    }
+
+    await itemsActions.updateItemWithSync(item.id, { space_id: args.space_id || null });
+    return JSON.stringify({
+      success: true,
+      message: space ? `Moved to "${space.name}"` : 'Removed from its space',
+    });
+  },
+
+  set_item_archived: async (args: { item_id: string; archived: boolean }): Promise<string> => {
+    const item = findItem(args.item_id);
+    if (!item) {
+      return JSON.stringify({ error: `Item not found: ${args.item_id}` });
+    }
+
+    try {
+      if (args.archived) {
+        await itemsActions.archiveItemWithSync(item.id);
+      } else {
+        await itemsActions.unarchiveItemWithSync(item.id);
+      }
+      return JSON.stringify({ success: true, message: args.archived ? 'Item archived' : 'Item unarchived' });
+    } catch (error) {
+      console.error('[AssistantTools] Error in set_item_archived:', error);
+      return JSON.stringify({ error: 'Failed to update archive state' });
+    }
+  },
+
+  create_space: async (args: { name: string; description?: string }): Promise<string> => {
+    const userId = authComputed.userId();
+    if (!userId) {
+      return JSON.stringify({ error: 'User not authenticated' });
+    }
+    const name = args.name.trim();
+    if (!name) {
+      return JSON.stringify({ error: 'Space name is required' });
+    }
+
+    const now = new Date().toISOString();
+    const space: Space = {
+      id: uuid.v4() as string,
+      name,
+      description: args.description?.trim() || '',
+      color: DEFAULT_SPACE_COLOR,
+      created_at: now,
+      updated_at: now,
+      user_id: userId,
+    };
+
+    await spacesActions.addSpaceWithSync(space);
+    return JSON.stringify({ success: true, message: `Created space "${name}"`, space_id: space.id });
+  },
+
+  write_item_note: async (args: { item_id: string; text: string; mode?: 'append' | 'replace' }): Promise<string> => {
+    const item = findItem(args.item_id);
+    if (!item) {
+      return JSON.stringify({ error: `Item not found: ${args.item_id}` });
+    }
+
+    const notes = args.mode === 'replace' || !item.notes?.trim()
+      ? args.text.trim()
+      : `${item.notes.trim()}\n\n${args.text.trim()}`;
+
+    await itemsActions.updateItemWithSync(item.id, { notes });
+    return JSON.stringify({ success: true, message: 'Note saved' });
+  },
+
   // Create a new memory
   create_memory: async (args: {
     kind: MemoryKind;
@@ -278,6 +685,7 @@ export const toolHandlers = {
     body: string;
     importance?: number;
     tags?: string[];
+    fields?: Record<string, unknown>;
   }): Promise<string> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -285,15 +693,67 @@ export const toolHandlers = {
         return JSON.stringify({ error: 'User not authenticated' });
       }
 
+      const title = args.title.substring(0, 100);
+      const importance = Math.min(Math.max(args.importance || 0.5, 0), 1);
+
+      const schema = memorySchemaComputed.activeSchema();
+      const validationErrors = validateMemory(schema, {
+        kind: args.kind,
+        title,
+        body: args.body,
+        importance,
+        tags: args.tags,
+        fields: args.fields,
+      });
+      if (validationErrors.length > 0) {
+        return JSON.stringify({ error: `Memory doesn't match schema v${schema.version}: ${validationErrors.join('; ')}` });
+      }
+
+      // Fields the model left out get their schema defaults
+      const kindFields = schema.kinds.find(k => k.kind === args.kind)?.fields || [];
+      const fields = {
+        ...Object.fromEntries(kindFields.filter(f => f.default !== undefined).map(f => [f.name, f.default])),
+        ...args.fields,
+      };
+
+      // Active memories of the same kind, for deduplication and the per-kind limit
+      const { data: existing, error: existingError } = await supabase
+        .from('assistant_memories')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('kind', args.kind)
+        .eq('is_archived', false);
+
+      if (existingError) {
+        console.error('[AssistantTools] Error checking existing memories:', existingError);
+        return JSON.stringify({ error: 'Failed to create memory' });
+      }
+
+      // Near-duplicate of something already remembered - update that memory instead
+      const sameKind = (existing || []) as AssistantMemory[];
+      const duplicate = findDuplicateMemory({ kind: args.kind, title }, sameKind);
+      if (duplicate) {
+        const merged = await mergeIntoMemory(duplicate, [{ body: args.body, importance, tags: args.tags, fields }]);
+        console.log('[AssistantTools] Merged memory into existing:', merged.id, merged.title);
+        return JSON.stringify({
+          success: true,
+          merged: true,
+          message: `Merged into existing memory: "${merged.title}"`,
+          memory_id: merged.id,
+        });
+      }
+
       const { data, error } = await supabase
         .from('assistant_memories')
         .insert({
           user_id: user.id,
           kind: args.kind,
-          title: args.title.substring(0, 100),
+          title,
           body: args.body,
-          importance: Math.min(Math.max(args.importance || 0.5, 0), 1),
+          importance,
           tags: args.tags || [],
+          fields: fields as Json,
+          schema_version: schema.version,
         })
         .select()
         .single();
@@ -304,6 +764,13 @@ export const toolHandlers = {
       }
 
       console.log('[AssistantTools] Created memory:', data.id, data.title);
+
+      // Keep the kind within maxMemoriesPerKind
+      if (sameKind.length + 1 > MEMORY_SCHEMA.recommendations.maxMemoriesPerKind) {
+        await applyMemoryMaintenance([...sameKind, data as AssistantMemory]).catch(maintenanceError => {
+          console.error('[AssistantTools] Error archiving surplus memories:', maintenanceError);
+        });
+      }
       return JSON.stringify({
         success: true,
         message: `Memory saved: "${args.title}"`,
@@ -334,6 +801,7 @@ export const toolHandlers = {
         .from('assistant_memories')
         .select('*')
         .eq('user_id', user.id)
+        .eq('is_archived', false)
         .order('importance', { ascending: false })
         .order('updated_at', { ascending: false })
         .limit(limit);
@@ -361,15 +829,27 @@ export const toolHandlers = {
         });
       }
 
-      // Format memories for the assistant
-      const formattedMemories = data.map((memory: AssistantMemory) => ({
-        kind: memory.kind,
-        title: memory.title,
-        body: memory.body,
-        importance: memory.importance,
-        tags: memory.tags,
-        created_at: memory.created_at,
-      }));
+      // Recalled memories count as fresh again for decay
+      supabase
+        .from('assistant_memories')
+        .update({ last_accessed_at: new Date().toISOString() })
+        .in('id', data.map(memory => memory.id))
+        .then(({ error: touchError }) => {
+          if (touchError) console.error('[AssistantTools] Error marking memories as recalled:', touchError);
+        });
+
+      // Format memories for the assistant, most relevant (after decay) first
+      const formattedMemories = (data as AssistantMemory[])
+        .sort((a, b) => effectiveImportance(b) - effectiveImportance(a))
+        .map(memory => ({
+          id: memory.id,
+          kind: memory.kind,
+          title: memory.title,
+          body: memory.body,
+          importance: Math.round(effectiveImportance(memory) * 100) / 100,
+          tags: memory.tags,
+          created_at: memory.created_at,
+        }));
 
       return JSON.stringify({
         message: `Found ${formattedMemories.length} memory/memories`,
@@ -387,8 +867,10 @@ export const toolHandlers = {
     include_full_schema?: boolean;
   }): Promise<string> => {
     try {
+      const schema = memorySchemaComputed.activeSchema();
+
       if (args.kind) {
-        const kindDetails = getKindDetails(args.kind);
+        const kindDetails = getKindDetails(args.kind, schema);
         if (!kindDetails) {
           return JSON.stringify({ error: `Unknown memory kind: ${args.kind}` });
         }
@@ -402,15 +884,15 @@ export const toolHandlers = {
       if (args.include_full_schema) {
         return JSON.stringify({
           success: true,
-          schema: MEMORY_SCHEMA,
+          schema,
         });
       }
 
       // Default: return overview
       return JSON.stringify({
         success: true,
-        overview: getSchemaOverview(),
-        version: MEMORY_SCHEMA.version,
+        overview: getSchemaOverview(schema),
+        version: schema.version,
       });
     } catch (error) {
       console.error('[AssistantTools] Error in inspect_memory_schema:', error);
@@ -532,45 +1014,85 @@ export const toolHandlers = {
 
   // Propose schema evolution (Phase 4)
   propose_schema_evolution: async (args: {
-    evolution_type: 'add_kind' | 'add_field' | 'modify_field' | 'add_constraint';
+    evolution_type: SchemaEvolutionProposal['type'];
     target_kind?: string;
+    new_kind?: { kind: string; description?: string; examples?: string[]; use_cases?: string[] };
+    field?: MemoryFieldSchema;
+    field_name?: string;
+    modification?: Partial<MemoryFieldSchema>;
     proposal_description: string;
     rationale: string;
   }): Promise<string> => {
     try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return JSON.stringify({ error: 'User not authenticated' });
+      }
+
+      // Proposals are checked against (and later applied to) the latest version
+      await memorySchemaActions.loadActiveSchema();
+      const activeSchema = memorySchemaComputed.activeSchema();
+
       const proposal: SchemaEvolutionProposal = {
-        id: `proposal_${Date.now()}`,
+        id: '',
         type: args.evolution_type,
         description: args.proposal_description,
         rationale: args.rationale,
-        impact: args.evolution_type === 'add_kind' ? 'medium' : 'low',
-        migration: {
-          required: args.evolution_type !== 'add_field',
-          steps: args.evolution_type === 'add_kind'
-            ? [
-                'Add new kind to MemoryKind type',
-                'Update MEMORY_SCHEMA with new kind definition',
-                'Add database migration if needed',
-                'Update UI to support new kind',
-              ]
-            : args.evolution_type === 'add_field'
-            ? [
-                'Add field to MemoryFieldSchema',
-                'Update database schema (optional)',
-                'Handle field in tool handlers',
-              ]
-            : [
-                'Review existing data for compatibility',
-                'Create migration plan',
-                'Update schema definition',
-                'Migrate existing records',
-              ],
-        },
+        impact: args.evolution_type === 'remove_field' ? 'high' : args.evolution_type === 'add_kind' ? 'medium' : 'low',
+        migration: { required: false },
         proposed: {
           kind: args.target_kind,
+          kindDefinition: args.new_kind && {
+            kind: args.new_kind.kind,
+            description: args.new_kind.description || '',
+            examples: args.new_kind.examples || [],
+            suggestedFields: [],
+            useCases: args.new_kind.use_cases || [],
+          },
+          field: args.field && { ...args.field, description: args.field.description || '', required: !!args.field.required },
+          fieldName: args.field_name,
+          modification: args.modification,
         },
       };
 
+      // Dry run so the model gets feedback now rather than the admin at review time
+      let preview;
+      try {
+        preview = applySchemaProposal(activeSchema, proposal);
+      } catch (validationError: any) {
+        return JSON.stringify({ error: `Invalid proposal: ${validationError.message}` });
+      }
+
+      proposal.migration = {
+        required: preview.rowMigrations.length > 0,
+        steps: preview.rowMigrations.map(step =>
+          step.op === 'set_default' ? `Set ${step.field} = ${JSON.stringify(step.value)} on existing ${step.kind} memories`
+          : step.op === 'rename' ? `Rename ${step.field} to ${step.to} on existing ${step.kind} memories`
+          : `Remove ${step.field} from existing ${step.kind} memories`
+        ),
+      };
+
+      const { data, error } = await supabase
+        .from('memory_schema_proposals')
+        .insert({
+          proposed_by: user.id,
+          type: proposal.type,
+          description: proposal.description,
+          rationale: proposal.rationale,
+          impact: proposal.impact,
+          migration: proposal.migration as Json,
+          proposed: proposal.proposed as Json,
+          base_version: activeSchema.version,
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('[AssistantTools] Error saving schema proposal:', error);
+        return JSON.stringify({ error: 'Failed to save proposal' });
+      }
+      proposal.id = data.id;
+
       // Format as markdown for readability
       const output = `
 ## Schema Evolution Proposal
@@ -578,6 +1100,7 @@ export const toolHandlers = {
 **ID:** ${proposal.id}
 **Type:** ${proposal.type}
 **Impact:** ${proposal.impact}
+**Version:** v${activeSchema.version} → v${preview.schema.version}
 
 ### Description
 ${proposal.description}
@@ -588,15 +1111,16 @@ ${proposal.rationale}
 ### Migration Required
 ${proposal.migration.required ? 'Yes' : 'No'}
 
-${proposal.migration.steps ? `### Migration Steps
+${proposal.migration.steps?.length ? `### Migration Steps
 ${proposal.migration.steps.map((s, i) => `${i + 1}. ${s}`).join('\n')}` : ''}
 
 ---
-*Note: This is a proposal only. Implementation requires manual changes to the codebase.*
+*Saved for review. An admin can approve it in Admin → Memory Schema, which applies it and migrates existing memories.*
 `;
 
       return JSON.stringify({
         success: true,
+        status: 'pending',
         proposal,
         formatted_output: output,
       });
@@ -725,6 +1249,62 @@ export async function executeTool(
   return handler(args);
 }
 
+// Matches [[item:<id>]] / [[memory:<id>]] markers (plus the space before them)
+const CITATION_PATTERN = /[ \t]?\[\[(item|memory):([\w-]+)\]\]/gi;
+
+/**
+ * Items and memories a tool result can be cited as
+ */
+export function collectCitationSources(toolName: string, result: string): AssistantCitation[] {
+  try {
+    const parsed = JSON.parse(result);
+    if (toolName === 'search_items') {
+      return (parsed.items || []).map((item: any) => ({
+        type: 'item' as const,
+        id: item.id,
+        title: item.title || item.url || 'Untitled',
+      }));
+    }
+    if (toolName === 'search_memories') {
+      return (parsed.memories || []).map((memory: any) => ({
+        type: 'memory' as const,
+        id: memory.id,
+        title: memory.title,
+        body: memory.body,
+      }));
+    }
+  } catch {
+    // Not JSON - nothing to cite
+  }
+  return [];
+}
+
+/**
+ * Strip citation markers from a reply and resolve them against the sources the
+ * tools actually returned this turn. Unknown ids (hallucinated) are dropped.
+ */
+export function extractCitations(
+  text: string,
+  sources: AssistantCitation[]
+): { content: string; citations: AssistantCitation[] } {
+  const byKey = new Map(sources.map(source => [`${source.type}:${source.id}`, source]));
+  const citations: AssistantCitation[] = [];
+
+  const content = text
+    .replace(CITATION_PATTERN, (_match, type: string, id: string) => {
+      const source = byKey.get(`${type.toLowerCase()}:${id}`);
+      if (source && !citations.includes(source)) {
+        citations.push(source);
+      }
+      return '';
+    })
+    .trim();
+
+  return { content, citations };
+}
+
+const CITATION_GUIDELINES = `When your answer uses saved items or memories returned by search_items or search_memories, cite each one right after the statement it supports with a marker like [[item:ITEM_ID]] or [[memory:MEMORY_ID]], using the exact id from the tool result. The markers are turned into tappable links for the user, so never make up ids and don't mention the ids in prose.`;
+
 // System prompt for the assistant with tools
 export const ASSISTANT_SYSTEM_PROMPT_WITH_TOOLS = `You are a helpful AI assistant for Memex, a personal knowledge management app. The user saves bookmarks, articles, videos, and notes to their Memex.
 
@@ -746,6 +1326,13 @@ You have access to the following tools:
    - When the user references something they told you before
    - To provide personalized responses based on known preferences
 
+4. **list_spaces**: List the user's spaces with their ids.
+
+5. **Library actions** - save_url, update_item_tags, move_item_to_space, set_item_archived, create_space, write_item_note:
+   - Use these when the user asks you to change their library
+   - Find item ids with search_items and space ids with list_spaces first; never guess ids
+   - The user confirms each action in the chat before it runs. If a result says it was declined, don't retry it
+
 Guidelines:
 - Be helpful, concise, and conversational
 - When searching items, summarize what you found in a natural way
@@ -754,6 +1341,9 @@ Guidelines:
 - If you don't find relevant items or memories, say so honestly
 - Always prioritize the user's privacy and handle their data respectfully
 
+Citations:
+${CITATION_GUIDELINES}
+
 Current time: {{CURRENT_TIME}}`;
 
 // System prompt for architect mode (Phase 4 & 5)
@@ -777,11 +1367,11 @@ You have access to all standard assistant tools plus specialized architect tools
    - Identify trends and gaps in the schema
    - Find areas that need new memory kinds
 
-6. **propose_schema_evolution**: Generate formal proposals for schema changes
+6. **propose_schema_evolution**: Submit formal proposals for schema changes
    - Add new memory kinds
-   - Add fields to existing kinds
+   - Add, rename or remove structured fields on a kind
    - Modify field constraints
-   - Suggest improvements based on usage patterns
+   - Proposals are saved for admin review; approved ones become a new schema version and existing memories are migrated
 
 ## Code Architect Tools (Phase 5)
 7. **inspect_repo_map**: Get an overview of the codebase structure
@@ -811,6 +1401,7 @@ When generating proposals or code tasks:
 - Provide migration steps if changes affect existing data
 - Rate the impact (low/medium/high) of each proposal
 - For coding prompts, specify all files that need to be modified
+- ${CITATION_GUIDELINES}
 
 Remember: You're helping design and evolve a system that stores personal, important information. Changes should be thoughtful and well-justified.
 
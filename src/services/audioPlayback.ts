@@ -0,0 +1,360 @@
+import { createAudioPlayer, setAudioModeAsync, AudioPlayer, AudioStatus, AudioSample, AudioMetadata } from 'expo-audio';
+import { audioPlayerStore, audioPlayerComputed, audioPlayerActions } from '../stores/audioPlayer';
+import { itemTypeMetadataActions, itemTypeMetadataComputed } from '../stores/itemTypeMetadata';
+import { itemsStore } from '../stores/items';
+import { itemMetadataComputed } from '../stores/itemMetadata';
+import { expandedItemUIStore, expandedItemUIActions } from '../stores/expandedItemUI';
+import { fetchPodcastChapters } from './podcast';
+
+// App-wide audio playback. One expo-audio player lives here for the whole app
+// session, so audio keeps playing when item views close, and the queue in the
+// audioPlayer store decides what plays next. Playback position and rate are
+// stored per item in item_type_metadata, as they always have been.
+//
+// The player is also the lock-screen (Now Playing) player. Remote play, pause
+// and seek act on it natively and come back through playbackStatusUpdate like
+// any other change.
+
+const SAVE_INTERVAL_MS = 10000;
+
+// Skip silence: audio samples quieter than this, for at least this long, are
+// played at SILENCE_RATE until sound returns
+const SILENCE_RMS_THRESHOLD = 0.01;
+const MIN_SILENCE_MS = 300;
+const SILENCE_RATE = 2.0;
+
+// Going back within this much of a chapter's start goes to the previous chapter
+const CHAPTER_RESTART_MS = 3000;
+
+class AudioPlaybackService {
+  private player: AudioPlayer | null = null;
+  private loadedItemId: string | null = null;
+  private itemRate = 1.0;
+  // Position to restore once the new source has loaded
+  private pendingSeekMs: number | null = null;
+  private lastSavedPositionMs = 0;
+  private saveTimer: ReturnType<typeof setInterval> | null = null;
+  private silentSince: number | null = null;
+  private audioModeSet = false;
+
+  constructor() {
+    // Timestamp jumps (chat citations) start playback even when no item view is open
+    expandedItemUIStore.seekRequest.onChange(({ value }) => {
+      if (!value || !audioPlayerComputed.isPlayable(value.itemId)) return;
+      expandedItemUIActions.clearSeekRequest();
+      this.playItem(value.itemId, { positionMs: value.positionMs }).catch(error => {
+        console.error('🎧 [AudioPlayback] Error jumping to requested position:', error);
+      });
+    });
+
+    audioPlayerStore.skipSilence.onChange(({ value }) => {
+      this.player?.setAudioSamplingEnabled(value);
+      if (!value) this.endSilence();
+    });
+  }
+
+  /**
+   * Play an item from its saved position (or `positionMs`), replacing whatever
+   * is playing. The item leaves the queue if it was in it.
+   */
+  async playItem(itemId: string, options: { positionMs?: number } = {}) {
+    const audioUrl = audioPlayerComputed.audioUrlForItem(itemId);
+    if (!audioUrl) {
+      throw new Error('This item has no audio to play');
+    }
+
+    if (this.loadedItemId === itemId && this.player) {
+      if (options.positionMs !== undefined) await this.seekTo(options.positionMs);
+      this.player.play();
+      return;
+    }
+
+    await this.savePosition(true);
+    await this.ensureAudioMode();
+
+    const metadata = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
+    this.itemRate = metadata?.data?.playback_rate || 1.0;
+    this.pendingSeekMs = options.positionMs ?? metadata?.data?.playback_position_ms ?? 0;
+    this.lastSavedPositionMs = this.pendingSeekMs || 0;
+    this.endSilence();
+
+    if (!this.player) {
+      this.player = createAudioPlayer(audioUrl);
+      this.player.addListener('playbackStatusUpdate', status => this.handleStatus(status));
+      this.player.addListener('audioSampleUpdate', sample => this.handleSample(sample));
+    } else {
+      this.player.replace(audioUrl);
+    }
+    this.loadedItemId = itemId;
+    this.player.setActiveForLockScreen(true, this.lockScreenMetadata(itemId), {
+      showSeekForward: true,
+      showSeekBackward: true,
+    });
+    this.player.setAudioSamplingEnabled(audioPlayerStore.skipSilence.get());
+    this.player.setPlaybackRate(this.itemRate, 'high');
+
+    audioPlayerActions.setCurrentItem(itemId);
+    audioPlayerActions.updateStatus({
+      isLoading: true,
+      positionMs: this.pendingSeekMs || 0,
+      durationMs: (metadata?.data?.duration || 0) * 1000,
+      playbackRate: this.itemRate,
+    });
+    console.log('🎧 [AudioPlayback] Playing:', itemId, 'from', Math.floor((this.pendingSeekMs || 0) / 1000), 'seconds');
+
+    this.player.play();
+    this.loadChapters(itemId);
+  }
+
+  togglePlayPause() {
+    const currentItemId = audioPlayerStore.currentItemId.get();
+    if (!currentItemId) return;
+
+    // The current item is restored from storage without loading its audio
+    if (this.loadedItemId !== currentItemId || !this.player) {
+      this.playItem(currentItemId).catch(error => {
+        console.error('🎧 [AudioPlayback] Error resuming playback:', error);
+      });
+      return;
+    }
+
+    if (this.player.playing) {
+      this.pause();
+    } else {
+      this.player.play();
+    }
+  }
+
+  pause() {
+    if (!this.player) return;
+    this.player.pause();
+    this.savePosition(true);
+  }
+
+  async seekTo(positionMs: number) {
+    if (!this.player) return;
+    const durationMs = audioPlayerStore.durationMs.get();
+    const target = Math.max(0, durationMs > 0 ? Math.min(positionMs, durationMs) : positionMs);
+    try {
+      await this.player.seekTo(target / 1000);
+      audioPlayerActions.updateStatus({ positionMs: target });
+    } catch (error) {
+      console.error('🎧 [AudioPlayback] Error seeking:', error);
+    }
+  }
+
+  skip(seconds: number) {
+    return this.seekTo(audioPlayerStore.positionMs.get() + seconds * 1000);
+  }
+
+  setRate(rate: number) {
+    this.itemRate = rate;
+    if (this.player && !audioPlayerStore.isSkippingSilence.get()) {
+      this.player.setPlaybackRate(rate, 'high');
+    }
+    audioPlayerActions.updateStatus({ playbackRate: rate });
+    this.savePosition(true);
+  }
+
+  jumpToChapter(index: number) {
+    const itemId = audioPlayerStore.currentItemId.get();
+    const chapter = itemId ? audioPlayerComputed.chaptersForItem(itemId)[index] : undefined;
+    if (chapter) this.seekTo(chapter.start_ms);
+  }
+
+  nextChapter() {
+    this.jumpToChapter(audioPlayerComputed.currentChapterIndex() + 1);
+  }
+
+  previousChapter() {
+    const itemId = audioPlayerStore.currentItemId.get();
+    const index = audioPlayerComputed.currentChapterIndex();
+    if (!itemId || index < 0) return;
+    const chapter = audioPlayerComputed.chaptersForItem(itemId)[index];
+    const intoChapter = audioPlayerStore.positionMs.get() - chapter.start_ms;
+    this.jumpToChapter(intoChapter > CHAPTER_RESTART_MS || index === 0 ? index : index - 1);
+  }
+
+  /**
+   * Move on to the next queued item, or stop when the queue is empty
+   */
+  async skipToNext() {
+    await this.savePosition(true);
+    const nextId = audioPlayerActions.takeNext();
+    if (nextId) {
+      await this.playItem(nextId);
+    } else {
+      this.release();
+    }
+  }
+
+  // Stop playback and forget the current item; the queue stays
+  async stop() {
+    await this.savePosition(true);
+    this.release();
+    audioPlayerActions.setCurrentItem(null);
+  }
+
+  // Drop the native player without saving (e.g. on sign out)
+  release() {
+    this.stopSaveTimer();
+    this.player?.clearLockScreenControls();
+    this.player?.remove();
+    this.player = null;
+    this.loadedItemId = null;
+    this.pendingSeekMs = null;
+    this.silentSince = null;
+    audioPlayerActions.updateStatus({ isPlaying: false, isLoading: false, isSkippingSilence: false });
+  }
+
+  private async ensureAudioMode() {
+    if (this.audioModeSet) return;
+    try {
+      await setAudioModeAsync({
+        allowsRecording: false,
+        playsInSilentMode: true,
+        shouldPlayInBackground: true,
+        interruptionModeAndroid: 'duckOthers',
+      });
+      this.audioModeSet = true;
+    } catch (error) {
+      console.error('🎧 [AudioPlayback] Error setting audio mode:', error);
+    }
+  }
+
+  private handleStatus(status: AudioStatus) {
+    if (!this.player) return;
+
+    if (status.isLoaded && this.pendingSeekMs !== null) {
+      const seekMs = this.pendingSeekMs;
+      this.pendingSeekMs = null;
+      if (seekMs > 0) {
+        this.player.seekTo(seekMs / 1000).catch(error => {
+          console.error('🎧 [AudioPlayback] Error restoring position:', error);
+        });
+      }
+    }
+
+    audioPlayerActions.updateStatus({
+      isPlaying: status.playing,
+      isLoading: !status.isLoaded || status.isBuffering,
+      // Keep showing the restore target until the seek lands
+      positionMs: this.pendingSeekMs ?? (status.currentTime || 0) * 1000,
+      durationMs: (status.duration || 0) * 1000 || audioPlayerStore.durationMs.get(),
+    });
+
+    if (status.playing) {
+      this.startSaveTimer();
+    } else {
+      // Also covers pauses from the lock screen, which bypass pause()
+      if (this.saveTimer) this.savePosition();
+      this.stopSaveTimer();
+    }
+
+    if (status.didJustFinish) {
+      console.log('🏁 [AudioPlayback] Finished:', this.loadedItemId);
+      // Start from the beginning next time
+      audioPlayerActions.updateStatus({ positionMs: 0 });
+      this.skipToNext().catch(error => {
+        console.error('🎧 [AudioPlayback] Error moving to next item:', error);
+      });
+    }
+  }
+
+  private lockScreenMetadata(itemId: string): AudioMetadata {
+    const item = itemsStore.items.get().find(i => i.id === itemId);
+    return {
+      title: item?.title,
+      artist: itemMetadataComputed.getMetadataForItem(itemId)?.author,
+      artworkUrl: item?.thumbnail_url,
+    };
+  }
+
+  private handleSample(sample: AudioSample) {
+    if (!this.player || !audioPlayerStore.skipSilence.get()) return;
+
+    const frames = sample.channels[0]?.frames || [];
+    if (frames.length === 0) return;
+    const rms = Math.sqrt(frames.reduce((sum, frame) => sum + frame * frame, 0) / frames.length);
+
+    if (rms >= SILENCE_RMS_THRESHOLD) {
+      this.endSilence();
+      return;
+    }
+
+    const now = Date.now();
+    if (this.silentSince === null) this.silentSince = now;
+    if (now - this.silentSince >= MIN_SILENCE_MS && !audioPlayerStore.isSkippingSilence.get() && this.itemRate < SILENCE_RATE) {
+      this.player.setPlaybackRate(SILENCE_RATE, 'low');
+      audioPlayerActions.updateStatus({ isSkippingSilence: true });
+    }
+  }
+
+  private endSilence() {
+    this.silentSince = null;
+    if (!audioPlayerStore.isSkippingSilence.get()) return;
+    this.player?.setPlaybackRate(this.itemRate, 'high');
+    audioPlayerActions.updateStatus({ isSkippingSilence: false });
+  }
+
+  private startSaveTimer() {
+    if (this.saveTimer) return;
+    this.saveTimer = setInterval(() => this.savePosition(), SAVE_INTERVAL_MS);
+  }
+
+  private stopSaveTimer() {
+    if (!this.saveTimer) return;
+    clearInterval(this.saveTimer);
+    this.saveTimer = null;
+  }
+
+  // Saves position and rate of the loaded item; skipped for moves under a second unless forced
+  private async savePosition(force = false) {
+    const itemId = this.loadedItemId;
+    if (!itemId || this.pendingSeekMs !== null) return;
+
+    const positionMs = Math.floor(audioPlayerStore.positionMs.get());
+    if (!force && Math.abs(positionMs - this.lastSavedPositionMs) < 1000) return;
+    this.lastSavedPositionMs = positionMs;
+
+    try {
+      const metadata = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
+      const item = itemsStore.items.get().find(i => i.id === itemId);
+      await itemTypeMetadataActions.upsertTypeMetadata({
+        item_id: itemId,
+        content_type: metadata?.content_type || item?.content_type || 'podcast',
+        data: {
+          ...metadata?.data,
+          playback_position_ms: positionMs,
+          playback_rate: this.itemRate,
+          last_played_at: new Date().toISOString(),
+        },
+      });
+      console.log('💾 [AudioPlayback] Saved position:', Math.floor(positionMs / 1000), 'seconds');
+    } catch (error) {
+      console.error('🎧 [AudioPlayback] Error saving playback position:', error);
+    }
+  }
+
+  // Podcasting 2.0 chapters are a separate file, fetched the first time the episode plays
+  private async loadChapters(itemId: string) {
+    const metadata = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
+    const chaptersUrl = metadata?.data?.chapters_url;
+    if (!metadata || !chaptersUrl || metadata.data.chapters?.length) return;
+
+    try {
+      const chapters = await fetchPodcastChapters(chaptersUrl);
+      if (chapters.length === 0) return;
+      const latest = itemTypeMetadataComputed.getTypeMetadataForItem(itemId) || metadata;
+      await itemTypeMetadataActions.upsertTypeMetadata({
+        ...latest,
+        data: { ...latest.data, chapters },
+      });
+      console.log('📑 [AudioPlayback] Loaded', chapters.length, 'chapters for', itemId);
+    } catch (error) {
+      console.error('🎧 [AudioPlayback] Error loading chapters:', error);
+    }
+  }
+}
+
+export const audioPlaybackService = new AudioPlaybackService();
@@ -1,9 +1,12 @@
-import { Item, ContentType } from '../types';
+import { Item, ContentType, Space } from '../types';
 import { videoTranscriptsComputed } from '../stores/videoTranscripts';
 import { imageDescriptionsComputed } from '../stores/imageDescriptions';
 import { itemMetadataComputed } from '../stores/itemMetadata';
 import { itemTypeMetadataComputed } from '../stores/itemTypeMetadata';
 import { estimateTokens } from '../utils/tokenEstimator';
+import { formatTimestamp } from '../utils/mediaTimestamps';
+import type { ItemExcerpts } from './embeddings/types';
+import { itemSearchIndex } from './search/itemSearchIndex';
 
 export interface ContextMetadata {
   includedFields: string[];
@@ -12,6 +15,8 @@ export interface ContextMetadata {
   hasTranscript: boolean;
   hasImageDescriptions: boolean;
   contentType: ContentType;
+  // Set when only retrieved excerpts of the transcript/content were included
+  excerptCount?: number;
 }
 
 export interface ContextResult {
@@ -19,11 +24,21 @@ export interface ContextResult {
   metadata: ContextMetadata;
 }
 
+// The PDF is usually the whole point of the item, so it gets far more room than the raw text preview
+const PDF_TEXT_LIMIT = 60000;
+
 /**
  * Builds a rich context string from an item for AI chat
  * Includes title, description, content, URL, transcript (for videos), and more
+ *
+ * With excerpts (see retrieveItemExcerpts), the full transcript and content are
+ * replaced by the selected sections, labelled with timestamps the model can cite.
  */
-export const buildItemContext = (item: Item): ContextResult => {
+export const buildItemContext = (
+  item: Item,
+  options: { excerpts?: ItemExcerpts | null } = {}
+): ContextResult => {
+  const { excerpts } = options;
   const includedFields: string[] = [];
   const contextParts: string[] = [];
 
@@ -136,12 +151,37 @@ export const buildItemContext = (item: Item): ContextResult => {
       contextParts.push('');
       includedFields.push('reddit_metadata');
     }
+
+    // Add repository stats and README for GitHub repos
+    if (item.content_type === 'github') {
+      const repo = typeMetadata.data;
+      contextParts.push('');
+      contextParts.push('--- GitHub Repository Metadata ---');
+      if (repo.full_name) contextParts.push(`Repository: ${repo.full_name}`);
+      if (repo.stars !== undefined) contextParts.push(`Stars: ${repo.stars}`);
+      if (repo.forks !== undefined) contextParts.push(`Forks: ${repo.forks}`);
+      if (repo.language) contextParts.push(`Primary Language: ${repo.language}`);
+      if (repo.topics?.length) contextParts.push(`Topics: ${repo.topics.join(', ')}`);
+      if (repo.license) contextParts.push(`License: ${repo.license}`);
+      if (repo.pushed_at) contextParts.push(`Last Push: ${repo.pushed_at}`);
+      if (repo.homepage) contextParts.push(`Homepage: ${repo.homepage}`);
+      if (repo.archived) contextParts.push('Status: Archived (read-only)');
+      contextParts.push('--- End GitHub Metadata ---');
+      includedFields.push('github_metadata');
+
+      if (repo.readme_excerpt) {
+        contextParts.push(`\n--- README (excerpt) ---`);
+        contextParts.push(repo.readme_excerpt);
+        contextParts.push('--- End README ---\n');
+        includedFields.push('readme');
+      }
+    }
   }
 
   // Add transcript for video content
   let hasTranscript = false;
   const transcript = videoTranscriptsComputed.getTranscriptByItemId(item.id);
-  if (transcript) {
+  if (transcript && !excerpts) {
     hasTranscript = true;
     // Prefer timestamped format from segments if available (enables LLM to reference timestamps)
     // Otherwise, use stored transcript as-is (may have timestamps or be plain text)
@@ -149,12 +189,7 @@ export const buildItemContext = (item: Item): ContextResult => {
     if (transcript.segments && transcript.segments.length > 0) {
       // Use timestamped format from segments (enables LLM to tell us where in video something was said)
       transcriptText = transcript.segments
-        .map((s) => {
-          const mm = Math.floor(s.startMs / 60000);
-          const ss = Math.floor((s.startMs % 60000) / 1000);
-          const ts = `${String(mm).padStart(2, '0')}:${String(ss).padStart(2, '0')}`;
-          return `[${ts}] ${s.text}`;
-        })
+        .map((s) => `[${formatTimestamp(s.startMs)}] ${s.text}`)
         .join('\n');
     } else {
       // Use stored transcript as-is (may have timestamps or be plain text)
@@ -167,6 +202,23 @@ export const buildItemContext = (item: Item): ContextResult => {
     includedFields.push('transcript');
   }
 
+  // Chapters are short, so they go in even when only excerpts of the transcript do.
+  // They let the model find "the chapter about X" and cite where it starts.
+  if (transcript?.chapters && transcript.chapters.length > 0) {
+    contextParts.push(`\n--- Chapters (${transcript.chapters.length}) ---`);
+    transcript.chapters.forEach((chapter) => {
+      contextParts.push(`[${formatTimestamp(chapter.start_ms)}] ${chapter.title}${chapter.summary ? ` - ${chapter.summary}` : ''}`);
+    });
+    if (transcript.key_moments && transcript.key_moments.length > 0) {
+      contextParts.push('\nKey moments:');
+      transcript.key_moments.forEach((moment) => {
+        contextParts.push(`[${formatTimestamp(moment.start_ms)}] ${moment.text}`);
+      });
+    }
+    contextParts.push('--- End Chapters ---\n');
+    includedFields.push('chapters');
+  }
+
   // Add image descriptions
   let hasImageDescriptions = false;
   const imageDescriptions = imageDescriptionsComputed.getDescriptionsByItemId(item.id);
@@ -181,16 +233,45 @@ export const buildItemContext = (item: Item): ContextResult => {
     includedFields.push('image_descriptions');
   }
 
+  // Add the retrieved sections in place of the full transcript and content
+  if (excerpts) {
+    hasTranscript = !!transcript;
+    const hasTimestamps = excerpts.chunks.some(chunk => chunk.startMs != null);
+    contextParts.push(`\n--- Relevant Excerpts (${excerpts.chunks.length} of ${excerpts.totalChunks} sections, selected for the latest question) ---`);
+    if (hasTimestamps) {
+      contextParts.push('When you use a timestamped excerpt, cite its timestamp exactly as written, e.g. [12:34], so the user can jump to it.');
+    }
+    contextParts.push('If the excerpts do not cover the question, say so rather than guessing about the rest.');
+    excerpts.chunks.forEach((chunk, idx) => {
+      const label = chunk.startMs != null ? `[${formatTimestamp(chunk.startMs)}]` : `Excerpt ${idx + 1}:`;
+      contextParts.push(`\n${label} ${chunk.content}`);
+    });
+    contextParts.push('--- End Excerpts ---\n');
+    includedFields.push('excerpts');
+  }
+
   // Add main content
-  if (item.content) {
+  if (item.content && !excerpts) {
     contextParts.push(`\n--- Content ---`);
     contextParts.push(item.content);
     contextParts.push('--- End Content ---\n');
     includedFields.push('content');
   }
 
+  // Add PDF text with its page markers, so answers can cite pages
+  if (item.content_type === 'pdf' && item.raw_text) {
+    const pageCount = typeMetadata?.data?.page_count;
+    const pdfText = item.raw_text.substring(0, PDF_TEXT_LIMIT);
+    contextParts.push(`\n--- PDF Text${pageCount ? ` (${pageCount} pages)` : ''} ---`);
+    contextParts.push(pdfText);
+    if (item.raw_text.length > PDF_TEXT_LIMIT) {
+      contextParts.push('\n[Remaining pages truncated for length...]');
+    }
+    contextParts.push('--- End PDF Text ---\n');
+    includedFields.push('pdf_text');
+  }
   // Add raw text (for extracted article content, etc.)
-  if (item.raw_text && item.raw_text !== item.content) {
+  else if (item.raw_text && item.raw_text !== item.content) {
     const rawTextPreview = item.raw_text.substring(0, 2000);
     contextParts.push(`\n--- Extracted Text (Preview) ---`);
     contextParts.push(rawTextPreview);
@@ -218,7 +299,7 @@ export const buildItemContext = (item: Item): ContextResult => {
   console.log(`  Total: ${contextString.length.toLocaleString()} chars, ${wordCount.toLocaleString()} words, ~${tokenEstimate.estimatedTokens.toLocaleString()} tokens`);
 
   // Show breakdown by field
-  const transcriptLength = transcript ?
+  const transcriptLength = transcript && !excerpts ?
     (transcript.segments?.length
       ? transcript.segments.map(s => `[00:00] ${s.text}`).join('\n').length
       : transcript.transcript.length)
@@ -226,9 +307,12 @@ export const buildItemContext = (item: Item): ContextResult => {
   if (transcriptLength > 0) {
     console.log(`  - Transcript: ${transcriptLength.toLocaleString()} chars`);
   }
-  if (item.content) {
+  if (item.content && !excerpts) {
     console.log(`  - Content: ${item.content.length.toLocaleString()} chars`);
   }
+  if (excerpts) {
+    console.log(`  - Excerpts: ${excerpts.chunks.length} of ${excerpts.totalChunks} chunks`);
+  }
   if (item.raw_text) {
     console.log(`  - Raw text: ${Math.min(item.raw_text.length, 2000).toLocaleString()} chars (${item.raw_text.length > 2000 ? 'truncated' : 'full'})`);
   }
@@ -246,10 +330,81 @@ export const buildItemContext = (item: Item): ContextResult => {
       hasTranscript,
       hasImageDescriptions,
       contentType: item.content_type,
+      excerptCount: excerpts?.chunks.length,
     },
   };
 };
 
+// Items in a space chat that get their summary and a slice of their text; the rest are listed by title
+const SPACE_DETAILED_ITEM_LIMIT = 12;
+const SPACE_LISTED_ITEM_LIMIT = 150;
+const SPACE_ITEM_TEXT_LIMIT = 1500;
+
+export interface SpaceContextResult {
+  contextString: string;
+  // Items sent with their text, most relevant first
+  detailedItemIds: string[];
+}
+
+/**
+ * Builds the context for chatting with a space. Items matching the question in
+ * the full-text index are described in detail (falling back to the newest),
+ * and the rest of the space is listed by title so the model knows it exists.
+ */
+export const buildSpaceContext = (space: Space, items: Item[], question: string): SpaceContextResult => {
+  // The index requires every term of a query, so score the question word by word
+  const scores = new Map<string, number>();
+  const words = new Set(question.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 3));
+  words.forEach(word => {
+    itemSearchIndex.search(word).forEach(result => {
+      scores.set(result.id, (scores.get(result.id) || 0) + result.score);
+    });
+  });
+  const ranked = items
+    .filter(item => scores.has(item.id))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+  const newest = [...items].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  const detailed = [...new Set([...ranked, ...newest])].slice(0, SPACE_DETAILED_ITEM_LIMIT);
+  const detailedIds = new Set(detailed.map(item => item.id));
+  const listed = newest.filter(item => !detailedIds.has(item.id));
+
+  const contextParts: string[] = [];
+  contextParts.push(`Space: ${space.name}`);
+  const spaceDescription = space.description || space.desc;
+  if (spaceDescription) contextParts.push(`Description: ${spaceDescription}`);
+  contextParts.push(`Items: ${items.length}`);
+  contextParts.push('Answer from the items below, and name the item you are drawing on.');
+
+  detailed.forEach((item, idx) => {
+    contextParts.push(`\n--- Item ${idx + 1}: ${item.title || 'Untitled'} (${getContentTypeLabel(item.content_type)}) ---`);
+    if (item.url) contextParts.push(`URL: ${item.url}`);
+    if (item.tags && item.tags.length > 0) contextParts.push(`Tags: ${item.tags.join(', ')}`);
+    if (item.tldr) contextParts.push(`Summary: ${item.tldr}`);
+    if (item.desc) contextParts.push(`Description: ${item.desc}`);
+    const text = item.content
+      || item.raw_text
+      || videoTranscriptsComputed.getTranscriptByItemId(item.id)?.transcript;
+    if (text) {
+      contextParts.push(text.length > SPACE_ITEM_TEXT_LIMIT ? `${text.substring(0, SPACE_ITEM_TEXT_LIMIT)}…` : text);
+    }
+  });
+
+  if (listed.length > 0) {
+    contextParts.push(`\n--- Other items in this space (titles only) ---`);
+    listed.slice(0, SPACE_LISTED_ITEM_LIMIT).forEach(item => {
+      contextParts.push(`- ${item.title || 'Untitled'} (${getContentTypeLabel(item.content_type)})`);
+    });
+    if (listed.length > SPACE_LISTED_ITEM_LIMIT) {
+      contextParts.push(`[${listed.length - SPACE_LISTED_ITEM_LIMIT} more not listed]`);
+    }
+  }
+
+  const contextString = contextParts.join('\n');
+  console.log(`📦 Context built for space: ${space.id} (${detailed.length} detailed, ${listed.length} listed, ${contextString.length.toLocaleString()} chars)`);
+
+  return { contextString, detailedItemIds: detailed.map(item => item.id) };
+};
+
 /**
  * Get a human-readable label for content type
  */
@@ -316,6 +471,7 @@ export const formatContextMetadata = (metadata: ContextMetadata): string => {
         domain: 'Domain',
         video_url: 'Video',
         image_urls: 'Images',
+        excerpts: 'Excerpts',
       };
       return labels[field] || field;
     });
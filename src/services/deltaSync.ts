@@ -0,0 +1,298 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { STORAGE_KEYS } from '../constants';
+
+// Incremental sync primitives. Each table is pulled in pages ordered by
+// (updated_at, key), and the position of the last applied row is stored as the
+// table's cursor after every page - an interrupted sync resumes from there
+// instead of starting over. Hard deletes come from the sync_deletions change log.
+
+export type SyncTable =
+  | 'spaces'
+  | 'items'
+  | 'item_spaces'
+  | 'item_metadata'
+  | 'item_type_metadata'
+  | 'video_transcripts';
+
+// Spaces before items, items before the rows that hang off them
+export const SYNC_TABLES: SyncTable[] = [
+  'spaces',
+  'items',
+  'item_spaces',
+  'item_metadata',
+  'item_type_metadata',
+  'video_transcripts',
+];
+
+export interface SyncCursor {
+  updated_at: string;
+  // Key column values of the last row at updated_at; empty means "everything after updated_at"
+  key: string[];
+}
+
+export interface TableSyncState {
+  status: 'idle' | 'syncing' | 'error' | 'interrupted';
+  lastSyncedAt: string | null;
+  // Rows applied/uploaded during the last run
+  pulled: number;
+  pushed: number;
+  error: string | null;
+}
+
+export const initialTableSyncState = (): TableSyncState => ({
+  status: 'idle',
+  lastSyncedAt: null,
+  pulled: 0,
+  pushed: 0,
+  error: null,
+});
+
+interface SyncCursors {
+  // Cursors are per account; signing in as someone else starts from scratch
+  userId: string;
+  tables: Partial<Record<SyncTable, {
+    pull: SyncCursor | null;
+    // Local clock time of the last completed push
+    pushedAt: string | null;
+  }>>;
+  lastDeletionId: number;
+}
+
+export interface DeltaTableConfig {
+  table: SyncTable;
+  storageKey: string;
+  keyColumns: string[];
+  // items and spaces carry user_id; child tables are scoped by RLS through their item
+  userScoped: boolean;
+  // Remote row -> the shape kept in AsyncStorage
+  toLocal: (row: any) => any;
+  // Field-level merge of converted remote rows with the local ones, in place of
+  // keeping whichever row is newer
+  mergeRows?: (pairs: Array<{ local?: any; remote: any }>) => Promise<any[]>;
+}
+
+export interface SyncDeletion {
+  table_name: SyncTable;
+  record_key: string;
+}
+
+const PAGE_SIZE = 500;
+
+// `.in()` filters go in the URL, so id lists are sent in chunks
+export const IN_FILTER_CHUNK_SIZE = 200;
+
+// Rows written by transactions that were still open when we last pulled can
+// carry an updated_at just behind the cursor, so each run re-reads a short window
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+export const chunk = <T,>(values: T[], size: number = IN_FILTER_CHUNK_SIZE): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Same format as sync_deletions.record_key
+export const recordKey = (row: Record<string, any>, keyColumns: string[]): string =>
+  keyColumns.map(column => row[column]).join(':');
+
+export const loadSyncCursors = async (userId: string): Promise<SyncCursors> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_CURSORS);
+    if (stored) {
+      const cursors: SyncCursors = JSON.parse(stored);
+      if (cursors.userId === userId) return cursors;
+      console.log('🔄 [DeltaSync] Different user signed in, starting a full sync');
+    }
+  } catch (error) {
+    console.error('🔄 [DeltaSync] Error loading sync cursors:', error);
+  }
+  return { userId, tables: {}, lastDeletionId: 0 };
+};
+
+export const saveSyncCursors = async (cursors: SyncCursors) => {
+  await AsyncStorage.setItem(STORAGE_KEYS.SYNC_CURSORS, JSON.stringify(cursors));
+};
+
+// Forget all cursors so the next sync pulls everything again
+export const resetSyncCursors = async () => {
+  await AsyncStorage.removeItem(STORAGE_KEYS.SYNC_CURSORS);
+};
+
+const rewind = (cursor: SyncCursor | null): SyncCursor | null => {
+  if (!cursor) return null;
+  const time = new Date(cursor.updated_at).getTime() - CURSOR_OVERLAP_MS;
+  return { updated_at: new Date(time).toISOString(), key: [] };
+};
+
+// PostgREST filter for rows strictly after the cursor in (updated_at, ...keyColumns) order
+const afterCursorFilter = (cursor: SyncCursor, keyColumns: string[]): string => {
+  const quote = (value: string) => `"${value}"`;
+  const conditions = [`updated_at.gt.${quote(cursor.updated_at)}`];
+  cursor.key.forEach((_, index) => {
+    const equalities = cursor.key.slice(0, index).map((value, i) => `${keyColumns[i]}.eq.${quote(value)}`);
+    conditions.push(`and(updated_at.eq.${quote(cursor.updated_at)},${[...equalities, `${keyColumns[index]}.gt.${quote(cursor.key[index])}`].join(',')})`);
+  });
+  return conditions.join(',');
+};
+
+const readLocal = async (storageKey: string): Promise<any[]> => {
+  const stored = await AsyncStorage.getItem(storageKey);
+  return stored ? JSON.parse(stored) : [];
+};
+
+// Newer local edits and local tombstones survive an older remote row
+const shouldApply = (local: any, remote: any): boolean => {
+  if (!local) return true;
+  if (local.is_deleted && !remote.is_deleted) return false;
+  if (local.updated_at && remote.updated_at) {
+    return new Date(remote.updated_at).getTime() >= new Date(local.updated_at).getTime();
+  }
+  return true;
+};
+
+/**
+ * Pull every row of a table changed since its cursor and merge it into
+ * AsyncStorage, one page at a time. Returns the number of rows applied.
+ */
+export const pullTableChanges = async (
+  config: DeltaTableConfig,
+  cursors: SyncCursors
+): Promise<number> => {
+  const state = cursors.tables[config.table] || { pull: null, pushedAt: null };
+  let cursor = rewind(state.pull);
+  let applied = 0;
+
+  const localRows = await readLocal(config.storageKey);
+  const localByKey = new Map(localRows.map(row => [recordKey(row, config.keyColumns), row]));
+
+  while (true) {
+    let query = supabase
+      .from(config.table)
+      .select('*')
+      .order('updated_at', { ascending: true });
+    config.keyColumns.forEach(column => {
+      query = query.order(column, { ascending: true });
+    });
+    if (config.userScoped) {
+      query = query.eq('user_id', cursors.userId);
+    }
+    if (cursor) {
+      query = query.or(afterCursorFilter(cursor, config.keyColumns));
+    }
+
+    const { data, error } = await query.limit(PAGE_SIZE);
+    if (error) throw error;
+
+    const rows = (data || []) as any[];
+    if (rows.length === 0) break;
+
+    if (config.mergeRows) {
+      const pairs = rows
+        .map(row => ({ local: localByKey.get(recordKey(row, config.keyColumns)), remote: config.toLocal(row) }))
+        .filter(({ local, remote }) => !(local?.is_deleted && !remote.is_deleted));
+      const merged = await config.mergeRows(pairs);
+      merged.forEach(row => localByKey.set(recordKey(row, config.keyColumns), row));
+      applied += merged.length;
+    } else {
+      rows.forEach(row => {
+        const key = recordKey(row, config.keyColumns);
+        if (shouldApply(localByKey.get(key), row)) {
+          localByKey.set(key, config.toLocal(row));
+          applied++;
+        }
+      });
+    }
+
+    await AsyncStorage.setItem(config.storageKey, JSON.stringify(Array.from(localByKey.values())));
+
+    const last = rows[rows.length - 1];
+    cursor = { updated_at: last.updated_at, key: config.keyColumns.map(column => String(last[column])) };
+    cursors.tables[config.table] = { ...state, pull: cursor };
+    await saveSyncCursors(cursors);
+
+    console.log(`🔄 [DeltaSync] ${config.table}: applied page of ${rows.length}`);
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return applied;
+};
+
+/**
+ * Keys of local rows that existed at the last sync (`syncedBefore`) but are gone
+ * remotely. Deletes made before the sync_deletions log existed never show up in
+ * it, so this runs once for a table that has no cursor yet.
+ */
+export const findRemotelyDeletedKeys = async (
+  config: DeltaTableConfig,
+  userId: string,
+  syncedBefore: string
+): Promise<SyncDeletion[]> => {
+  // Rows created or edited since then may not be uploaded yet
+  const cutoff = new Date(syncedBefore).getTime();
+  const candidates = (await readLocal(config.storageKey)).filter(row =>
+    new Date(row.updated_at || row.created_at || 0).getTime() <= cutoff
+  );
+  if (candidates.length === 0) return [];
+
+  const remoteKeys = new Set<string>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from(config.table)
+      .select(config.keyColumns.join(', '));
+    config.keyColumns.forEach(column => {
+      query = query.order(column, { ascending: true });
+    });
+    if (config.userScoped) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const rows = (data || []) as any[];
+    rows.forEach(row => remoteKeys.add(recordKey(row, config.keyColumns)));
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return candidates
+    .map(row => recordKey(row, config.keyColumns))
+    .filter(key => !remoteKeys.has(key))
+    .map(record_key => ({ table_name: config.table, record_key }));
+};
+
+/**
+ * Pull hard deletes recorded since the last run. `apply` removes them locally
+ * before the change log position is saved, so a page is never skipped.
+ */
+export const pullDeletions = async (
+  cursors: SyncCursors,
+  apply: (deletions: SyncDeletion[]) => Promise<void>
+): Promise<number> => {
+  let total = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('sync_deletions')
+      .select('id, table_name, record_key')
+      .eq('user_id', cursors.userId)
+      .gt('id', cursors.lastDeletionId)
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error) throw error;
+    const rows = data || [];
+    if (rows.length === 0) break;
+
+    await apply(rows.map(row => ({ table_name: row.table_name as SyncTable, record_key: row.record_key })));
+    cursors.lastDeletionId = rows[rows.length - 1].id;
+    await saveSyncCursors(cursors);
+
+    total += rows.length;
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return total;
+};
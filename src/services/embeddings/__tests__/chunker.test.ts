@@ -0,0 +1,137 @@
+import { chunkItem, splitText, hashString, EMBEDDED_ITEM_FIELDS } from '../chunker';
+import type { Item, VideoTranscript, ImageDescription } from '../../../types';
+
+const makeItem = (fields: Partial<Item> = {}): Item => ({
+  id: 'item-1',
+  user_id: 'user-1',
+  title: 'Offline-first sync',
+  content_type: 'article',
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  is_archived: false,
+  ...fields,
+});
+
+const makeTranscript = (fields: Partial<VideoTranscript>): VideoTranscript => ({
+  id: 'transcript-1',
+  item_id: 'item-1',
+  transcript: '',
+  platform: 'youtube',
+  language: 'en',
+  fetched_at: '2026-10-01T00:00:00.000Z',
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  ...fields,
+});
+
+const makeDescription = (description: string): ImageDescription => ({
+  id: `image-${description.length}`,
+  item_id: 'item-1',
+  image_url: 'https://example.com/image.png',
+  description,
+  model: 'gpt-4o-mini',
+  fetched_at: '2026-10-01T00:00:00.000Z',
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+});
+
+// A sentence of ~100 characters, repeated into text longer than one chunk
+const SENTENCE = 'Each device keeps a cursor of the last change it has seen and pulls only what came after it. ';
+
+describe('chunkItem', () => {
+  it('puts title, description and tags in one summary chunk and gives each text field its own source', () => {
+    const chunks = chunkItem(makeItem({
+      desc: 'Tombstones and cursors',
+      tags: ['sync', 'local-first'],
+      tldr: 'Deletes are the hard part.',
+      notes: 'Try this for the queue.',
+      content: 'Most apps treat the network as the source of truth.',
+    }));
+
+    expect(chunks.map(({ source, chunkIndex, content }) => ({ source, chunkIndex, content }))).toEqual([
+      { source: 'summary', chunkIndex: 0, content: 'Offline-first sync\nTombstones and cursors\nTags: sync, local-first' },
+      { source: 'tldr', chunkIndex: 0, content: 'Deletes are the hard part.' },
+      { source: 'notes', chunkIndex: 0, content: 'Try this for the queue.' },
+      { source: 'content', chunkIndex: 0, content: 'Most apps treat the network as the source of truth.' },
+    ]);
+  });
+
+  it('skips empty fields', () => {
+    const chunks = chunkItem(makeItem({ title: '', desc: undefined, notes: '   ', content: 'Body' }));
+    expect(chunks.map(chunk => chunk.source)).toEqual(['content']);
+  });
+
+  it('groups transcript segments and keeps where each group starts', () => {
+    const segments = Array.from({ length: 30 }, (_, i) => ({ startMs: i * 10000, text: SENTENCE.trim() }));
+    const chunks = chunkItem(makeItem(), makeTranscript({ segments }));
+    const transcriptChunks = chunks.filter(chunk => chunk.source === 'transcript');
+
+    expect(transcriptChunks.length).toBeGreaterThan(1);
+    expect(transcriptChunks[0].startMs).toBe(0);
+    transcriptChunks.forEach((chunk, idx) => {
+      expect(chunk.chunkIndex).toBe(idx);
+      expect(chunk.content.length).toBeLessThanOrEqual(1200);
+      // Groups start on a segment boundary
+      expect(chunk.startMs! % 10000).toBe(0);
+    });
+    expect(transcriptChunks[1].startMs).toBeGreaterThan(0);
+  });
+
+  it('splits a transcript without segments as plain text', () => {
+    const chunks = chunkItem(makeItem(), makeTranscript({ transcript: 'Welcome back to the show.' }));
+    expect(chunks.find(chunk => chunk.source === 'transcript')).toEqual({
+      source: 'transcript',
+      chunkIndex: 0,
+      content: 'Welcome back to the show.',
+      contentHash: hashString('Welcome back to the show.'),
+    });
+  });
+
+  it('adds one chunk per non-empty image description', () => {
+    const chunks = chunkItem(makeItem(), null, [makeDescription('A sync diagram'), makeDescription(' '), makeDescription('A phone offline')]);
+    expect(chunks.filter(chunk => chunk.source === 'image_description').map(chunk => chunk.content)).toEqual([
+      'A sync diagram',
+      'A phone offline',
+    ]);
+  });
+
+  it('changes the chunks when any embedded field changes', () => {
+    const base = makeItem({ desc: 'd', tags: ['t'], tldr: 'tl', notes: 'n', content: 'c' });
+    const baseHashes = chunkItem(base).map(chunk => chunk.contentHash);
+
+    EMBEDDED_ITEM_FIELDS.forEach(field => {
+      const edited = { ...base, [field]: field === 'tags' ? ['t', 'edited'] : 'edited' };
+      expect({ field, hashes: chunkItem(edited).map(chunk => chunk.contentHash) }).not.toEqual({ field, hashes: baseHashes });
+    });
+  });
+});
+
+describe('splitText', () => {
+  it('keeps short text in one chunk', () => {
+    expect(splitText('  Short note.  ')).toEqual(['Short note.']);
+    expect(splitText('   ')).toEqual([]);
+  });
+
+  it('breaks long text at sentence ends into overlapping windows', () => {
+    const text = SENTENCE.repeat(40).trim();
+    const chunks = splitText(text);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(1200));
+    chunks.slice(0, -1).forEach(chunk => expect(chunk.endsWith('.')).toBe(true));
+    // Each window repeats the tail of the previous one
+    chunks.slice(1).forEach((chunk, idx) => expect(chunks[idx]).toContain(chunk.slice(0, 40)));
+  });
+
+  it('falls back to a word break when there is no sentence end', () => {
+    const chunks = splitText('word '.repeat(400).trim(), 100, 10);
+    chunks.forEach(chunk => expect(chunk).toMatch(/^word( word)*$/));
+  });
+});
+
+describe('hashString', () => {
+  it('is stable for the same text and differs for different text', () => {
+    expect(hashString('cursor')).toBe(hashString('cursor'));
+    expect(hashString('cursor')).not.toBe(hashString('cursors'));
+  });
+});
@@ -0,0 +1,168 @@
+import { indexItem, hybridSearchItems, findUnindexedItems } from '../semanticSearch';
+import { createLocalEmbeddingProvider, setEmbeddingProvider } from '../providers';
+import { db } from '../../supabase';
+import { authActions } from '../../../stores/auth';
+import { itemsStore } from '../../../stores/items';
+import type { Database } from '../../../types/database';
+import type { Item } from '../../../types';
+
+type EmbeddingRow = Database['public']['Tables']['item_embeddings']['Insert'];
+type MatchRow = Database['public']['Functions']['match_item_embeddings']['Returns'][number];
+
+const makeItem = (id: string, fields: Partial<Item> = {}): Item => ({
+  id,
+  user_id: 'user-1',
+  title: '',
+  content_type: 'article',
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  is_archived: false,
+  ...fields,
+});
+
+const sourdough = makeItem('sourdough', { title: 'Sourdough starter feeding schedule' });
+const tombstones = makeItem('tombstones', { title: 'Tombstones keep deleted rows from coming back' });
+const cursors = makeItem('cursors', { title: 'Sync cursors', content: 'Deleted rows need tombstones so every device sees the delete.' });
+const archived = makeItem('archived', { title: 'Old notes on tombstones for deleted rows', is_archived: true });
+
+const QUERY = 'tombstones for deleted rows';
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+/**
+ * In-memory item_embeddings table behind the db calls semanticSearch makes.
+ * Local provider vectors are unit length, so similarity is a dot product.
+ */
+const fakeEmbeddingTable = (keywordHits: Item[]) => {
+  const rows = new Map<string, EmbeddingRow[]>();
+  const allItems = () => itemsStore.items.get();
+
+  const replace = jest.spyOn(db, 'replaceItemEmbeddings').mockImplementation(async (itemId, newRows) => {
+    rows.set(itemId, newRows);
+    return { error: null };
+  });
+  jest.spyOn(db, 'getItemEmbeddingHashes').mockImplementation(async itemId => ({
+    data: (rows.get(itemId) || []).map(({ source, chunk_index, content_hash, model }) => ({ source, chunk_index, content_hash, model })),
+    error: null,
+  } as Awaited<ReturnType<typeof db.getItemEmbeddingHashes>>));
+  jest.spyOn(db, 'getEmbeddedItemIds').mockImplementation(async (_userId, model) => ({
+    data: [...rows.values()].flat().filter(row => row.model === model && row.chunk_index === 0).map(row => ({ item_id: row.item_id })),
+    error: null,
+  } as Awaited<ReturnType<typeof db.getEmbeddedItemIds>>));
+  const match = jest.spyOn(db, 'matchItemEmbeddings').mockImplementation(async (_userId, embedding, matchCount, includeArchived) => {
+    const data: MatchRow[] = [...rows.values()]
+      .flat()
+      .filter(row => includeArchived || !allItems().find(item => item.id === row.item_id)?.is_archived)
+      .map(row => ({
+        item_id: row.item_id,
+        source: row.source,
+        chunk_index: row.chunk_index ?? 0,
+        content: row.content,
+        start_ms: row.start_ms ?? null,
+        similarity: dot(embedding, JSON.parse(row.embedding)),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, matchCount);
+    return { data, error: null } as Awaited<ReturnType<typeof db.matchItemEmbeddings>>;
+  });
+  const search = jest.spyOn(db, 'searchItems').mockImplementation(async (_userId, _query, _limit, _offset, includeArchived) => ({
+    data: keywordHits.filter(item => includeArchived || !item.is_archived),
+    error: null,
+  } as unknown as Awaited<ReturnType<typeof db.searchItems>>));
+
+  return { rows, replace, match, search };
+};
+
+const setItems = (items: Item[]) => itemsStore.items.set(items);
+
+describe('semantic search with the local embedding provider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setEmbeddingProvider(createLocalEmbeddingProvider(256));
+    authActions.setUser({ id: 'user-1', email: 'test@example.com' });
+    setItems([sourdough, tombstones, cursors, archived]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    authActions.setUser(null);
+    setItems([]);
+  });
+
+  it('embeds an item once and again only after an embedded field changes', async () => {
+    const { rows, replace } = fakeEmbeddingTable([]);
+
+    expect(await indexItem('cursors')).toBe(true);
+    expect(rows.get('cursors')!.map(row => [row.source, row.model])).toEqual([
+      ['summary', 'local-hash-256'],
+      ['content', 'local-hash-256'],
+    ]);
+
+    expect(await indexItem('cursors')).toBe(true);
+    expect(replace).toHaveBeenCalledTimes(1);
+
+    setItems([sourdough, tombstones, { ...cursors, notes: 'Compare with CRDT deletes' }, archived]);
+    expect(await indexItem('cursors')).toBe(true);
+    expect(replace).toHaveBeenCalledTimes(2);
+    expect(rows.get('cursors')!.map(row => row.source)).toEqual(['summary', 'notes', 'content']);
+  });
+
+  it('lists local items that have no embeddings yet', async () => {
+    fakeEmbeddingTable([]);
+    await indexItem('tombstones');
+
+    expect((await findUnindexedItems()).map(item => item.id)).toEqual(['sourdough', 'cursors', 'archived']);
+  });
+
+  it('fuses keyword and semantic ranks, putting items found by both first', async () => {
+    fakeEmbeddingTable([sourdough, tombstones]);
+    await Promise.all(['sourdough', 'tombstones', 'cursors'].map(indexItem));
+
+    const results = await hybridSearchItems('user-1', QUERY);
+
+    expect(results.map(({ item, matchedBy }) => [item.id, matchedBy])).toEqual([
+      ['tombstones', ['keyword', 'semantic']],
+      ['sourdough', ['keyword']],
+      ['cursors', ['semantic']],
+    ]);
+    expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(results[1].score).toBeCloseTo(1 / 61);
+    expect(results[2].score).toBeCloseTo(1 / 62);
+    // Semantic-only hits come from the local store and carry the chunk that matched
+    expect(results[2].item).toBe(itemsStore.items.get()[2]);
+    expect(results[2].match).toMatchObject({ itemId: 'cursors', source: 'content' });
+  });
+
+  it('passes includeArchived to both the keyword and semantic legs', async () => {
+    const { search, match } = fakeEmbeddingTable([tombstones, archived]);
+    await Promise.all(['tombstones', 'archived'].map(indexItem));
+
+    const active = await hybridSearchItems('user-1', QUERY);
+    expect(active.map(result => result.item.id)).toEqual(['tombstones']);
+    expect(search).toHaveBeenLastCalledWith('user-1', QUERY, 20, 0, false);
+    expect(match).toHaveBeenLastCalledWith('user-1', expect.any(Array), 80, false);
+
+    const all = await hybridSearchItems('user-1', QUERY, { includeArchived: true });
+    expect(all.map(result => result.item.id).sort()).toEqual(['archived', 'tombstones']);
+    expect(search).toHaveBeenLastCalledWith('user-1', QUERY, 20, 0, true);
+    expect(match).toHaveBeenLastCalledWith('user-1', expect.any(Array), 80, true);
+  });
+
+  it('falls back to keyword ranking when the provider cannot embed', async () => {
+    fakeEmbeddingTable([sourdough, tombstones]);
+    setEmbeddingProvider({
+      model: 'offline',
+      dimensions: 256,
+      embed: () => Promise.reject(new Error('OpenAI API key not configured')),
+    });
+
+    const results = await hybridSearchItems('user-1', QUERY);
+
+    expect(results.map(({ item, matchedBy }) => [item.id, matchedBy])).toEqual([
+      ['sourdough', ['keyword']],
+      ['tombstones', ['keyword']],
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { Item, VideoTranscript, ImageDescription } from '../../types';
+import type { ItemChunk, EmbeddingSource } from './types';
+
+// ~200 words per chunk keeps each embedding focused on a single topic
+const MAX_CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 150;
+
+// Item fields chunkItem reads; changing any of them needs a re-index
+export const EMBEDDED_ITEM_FIELDS: (keyof Item)[] = ['title', 'desc', 'tags', 'tldr', 'notes', 'content'];
+
+/**
+ * Split an item and its attached text (transcript, image descriptions) into
+ * embeddable chunks. Pure function so it can be exercised without stores.
+ */
+export const chunkItem = (
+  item: Item,
+  transcript?: VideoTranscript | null,
+  imageDescriptions: ImageDescription[] = []
+): ItemChunk[] => {
+  const chunks: ItemChunk[] = [];
+
+  const push = (source: EmbeddingSource, texts: string[]) => {
+    texts.forEach((content, chunkIndex) => {
+      chunks.push({ source, chunkIndex, content, contentHash: hashString(content) });
+    });
+  };
+
+  // Title + description (+ tags) form a single "summary" chunk
+  const summary = [item.title, item.desc, item.tags?.length ? `Tags: ${item.tags.join(', ')}` : '']
+    .filter(Boolean)
+    .join('\n');
+  if (summary.trim()) push('summary', [summary]);
+
+  if (item.tldr?.trim()) push('tldr', splitText(item.tldr));
+  if (item.notes?.trim()) push('notes', splitText(item.notes));
+  if (item.content?.trim()) push('content', splitText(item.content));
+
+  if (transcript) {
+    if (transcript.segments && transcript.segments.length > 0) {
+      // Group segments so each chunk remembers where it starts in the media
+      splitSegments(transcript.segments).forEach((group, chunkIndex) => {
+        chunks.push({
+          source: 'transcript',
+          chunkIndex,
+          content: group.text,
+          contentHash: hashString(group.text),
+          startMs: group.startMs,
+        });
+      });
+    } else if (transcript.transcript.trim()) {
+      push('transcript', splitText(transcript.transcript));
+    }
+  }
+
+  imageDescriptions.forEach((desc, chunkIndex) => {
+    if (!desc.description.trim()) return;
+    chunks.push({
+      source: 'image_description',
+      chunkIndex,
+      content: desc.description,
+      contentHash: hashString(desc.description),
+    });
+  });
+
+  return chunks;
+};
+
+/**
+ * Split long text on paragraph/sentence boundaries into overlapping windows
+ */
+export const splitText = (text: string, maxChars = MAX_CHUNK_CHARS, overlap = CHUNK_OVERLAP_CHARS): string[] => {
+  const clean = text.replace(/\s+\n/g, '\n').trim();
+  if (clean.length <= maxChars) return clean ? [clean] : [];
+
+  const result: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + maxChars, clean.length);
+    if (end < clean.length) {
+      // Prefer breaking at a paragraph, then a sentence, then a word
+      const window = clean.slice(start, end);
+      const breakAt = Math.max(
+        window.lastIndexOf('\n\n'),
+        window.lastIndexOf('. '),
+        window.lastIndexOf('? '),
+        window.lastIndexOf('! ')
+      );
+      const wordBreak = window.lastIndexOf(' ');
+      if (breakAt > maxChars / 2) end = start + breakAt + 1;
+      else if (wordBreak > maxChars / 2) end = start + wordBreak;
+    }
+    result.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return result.filter(Boolean);
+};
+
+const splitSegments = (
+  segments: Array<{ startMs: number; endMs?: number; text: string }>,
+  maxChars = MAX_CHUNK_CHARS
+): Array<{ startMs: number; text: string }> => {
+  const groups: Array<{ startMs: number; text: string }> = [];
+  let current: { startMs: number; text: string } | null = null;
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+    if (!current) {
+      current = { startMs: segment.startMs, text };
+    } else if (current.text.length + text.length + 1 > maxChars) {
+      groups.push(current);
+      current = { startMs: segment.startMs, text };
+    } else {
+      current.text += ` ${text}`;
+    }
+  }
+  if (current) groups.push(current);
+  return groups;
+};
+
+// djb2 - only used to detect changed chunks, not for security
+export const hashString = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+};
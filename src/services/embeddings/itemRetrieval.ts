@@ -0,0 +1,143 @@
+import { db } from '../supabase';
+import { videoTranscriptsComputed } from '../../stores/videoTranscripts';
+import { estimateTokens } from '../../utils/tokenEstimator';
+import type { Item } from '../../types';
+import { chunkItem } from './chunker';
+import { getEmbeddingProvider } from './providers';
+import type { EmbeddingSource, ItemChunk, ItemExcerpts, RetrievedChunk } from './types';
+
+// Below this the whole transcript/article still goes into the prompt
+const RETRIEVAL_THRESHOLD_TOKENS = 12000;
+// Room for the selected excerpts (~30 minutes of speech)
+const EXCERPT_TOKEN_BUDGET = 6000;
+// Same fusion constant as hybrid search
+const RRF_K = 60;
+const SEMANTIC_MATCH_COUNT = 40;
+// BM25 parameters (common defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Long-form sources worth retrieving from; everything else stays in the context as-is
+const RETRIEVAL_SOURCES: EmbeddingSource[] = ['transcript', 'content'];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'his', 'how', 'its', 'who', 'did', 'does', 'what', 'when', 'where', 'which',
+  'why', 'with', 'this', 'that', 'they', 'them', 'then', 'than', 'there', 'their', 'about', 'from',
+  'have', 'into', 'just', 'like', 'more', 'some', 'such', 'were', 'will', 'would', 'could', 'should',
+  'say', 'said', 'says', 'talk', 'talks', 'tell', 'video', 'episode', 'podcast', 'article',
+]);
+
+const chunkKey = (chunk: Pick<ItemChunk, 'source' | 'chunkIndex'>) => `${chunk.source}:${chunk.chunkIndex}`;
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 2 && !STOPWORDS.has(t));
+
+/**
+ * Pick the parts of a long transcript or article that matter for a question.
+ * Returns null when the item is small enough to send in full.
+ *
+ * Keyword (BM25) and semantic (stored item embeddings) rankings are fused with
+ * reciprocal rank fusion; semantic ranking is skipped when the item isn't
+ * indexed or the embedding provider is unavailable.
+ */
+export const retrieveItemExcerpts = async (item: Item, question: string): Promise<ItemExcerpts | null> => {
+  const chunks = chunkItem(item, videoTranscriptsComputed.getTranscriptByItemId(item.id))
+    .filter(chunk => RETRIEVAL_SOURCES.includes(chunk.source));
+
+  const totalTokens = estimateTokens(chunks.map(chunk => chunk.content).join('\n')).estimatedTokens;
+  if (totalTokens <= RETRIEVAL_THRESHOLD_TOKENS) return null;
+
+  const scores = new Map<string, number>();
+  const addRanking = (ranked: ItemChunk[]) => {
+    ranked.forEach((chunk, rank) => {
+      const key = chunkKey(chunk);
+      scores.set(key, (scores.get(key) || 0) + 1 / (RRF_K + rank + 1));
+    });
+  };
+
+  addRanking(rankByKeywords(chunks, question));
+  try {
+    addRanking(await rankBySimilarity(item.id, chunks, question));
+  } catch (error) {
+    console.warn('[Embeddings] Semantic ranking unavailable for item chat, using keywords only:', error);
+  }
+
+  const ranked: RetrievedChunk[] = chunks
+    .map(chunk => ({ ...chunk, score: scores.get(chunkKey(chunk)) || 0 }))
+    .filter(chunk => chunk.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  // Broad questions ("summarize this") match nothing specific - sample evenly instead
+  const candidates = ranked.length > 0 ? ranked : spreadEvenly(chunks);
+
+  const selected: RetrievedChunk[] = [];
+  let usedTokens = 0;
+  for (const chunk of candidates) {
+    const tokens = estimateTokens(chunk.content).estimatedTokens;
+    if (selected.length > 0 && usedTokens + tokens > EXCERPT_TOKEN_BUDGET) continue;
+    selected.push(chunk);
+    usedTokens += tokens;
+  }
+
+  const order = (chunk: ItemChunk) => RETRIEVAL_SOURCES.indexOf(chunk.source) * 1e6 + chunk.chunkIndex;
+  selected.sort((a, b) => order(a) - order(b));
+
+  console.log(`🧭 [Embeddings] Item chat excerpts for ${item.id}: ${selected.length}/${chunks.length} chunks, ~${usedTokens.toLocaleString()} tokens (full text ~${totalTokens.toLocaleString()})`);
+  return { chunks: selected, totalChunks: chunks.length };
+};
+
+/**
+ * BM25 over the item's own chunks; only chunks sharing a term with the question are returned
+ */
+const rankByKeywords = (chunks: ItemChunk[], question: string): ItemChunk[] => {
+  const terms = [...new Set(tokenize(question))];
+  if (terms.length === 0) return [];
+
+  const docs = chunks.map(chunk => tokenize(chunk.content));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(docs.length, 1);
+
+  const docFrequency = new Map<string, number>();
+  for (const term of terms) {
+    docFrequency.set(term, docs.filter(doc => doc.includes(term)).length);
+  }
+
+  return chunks
+    .map((chunk, idx) => {
+      const doc = docs[idx];
+      let score = 0;
+      for (const term of terms) {
+        const frequency = doc.filter(t => t === term).length;
+        if (frequency === 0) continue;
+        const df = docFrequency.get(term) || 0;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength)));
+      }
+      return { chunk, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk }) => chunk);
+};
+
+/**
+ * Nearest chunks from the item's stored embeddings. Rows whose text no longer
+ * matches the local chunk (stale index) are ignored.
+ */
+const rankBySimilarity = async (itemId: string, chunks: ItemChunk[], question: string): Promise<ItemChunk[]> => {
+  const [queryVector] = await getEmbeddingProvider().embed([question]);
+  const { data, error } = await db.matchItemChunks(itemId, queryVector, SEMANTIC_MATCH_COUNT);
+  if (error) throw error;
+
+  const byKey = new Map(chunks.map(chunk => [chunkKey(chunk), chunk]));
+  return (data || [])
+    .map(row => byKey.get(`${row.source}:${row.chunk_index}`))
+    .filter((chunk, idx): chunk is ItemChunk => !!chunk && chunk.content === data![idx].content);
+};
+
+const spreadEvenly = (chunks: ItemChunk[]): RetrievedChunk[] => {
+  const count = Math.min(chunks.length, 12);
+  const step = chunks.length / count;
+  return Array.from({ length: count }, (_, i) => ({ ...chunks[Math.floor(i * step)], score: 0 }));
+};
@@ -0,0 +1,89 @@
+import { API } from '../../constants';
+import type { EmbeddingProvider } from './types';
+
+// Must match the vector(1536) column in item_embeddings
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * OpenAI embeddings endpoint (text-embedding-3-small, 1536 dims)
+ */
+export const createOpenAIEmbeddingProvider = (
+  model: string = 'text-embedding-3-small'
+): EmbeddingProvider => ({
+  model,
+  dimensions: EMBEDDING_DIMENSIONS,
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!API.OPENAI_API_KEY) {
+      throw new Error('OpenAI API key not configured');
+    }
+    if (texts.length === 0) return [];
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${API.OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorDetails = await response.text();
+      throw new Error(`OpenAI embeddings error: ${response.status} - ${errorDetails}`);
+    }
+
+    const data = await response.json();
+    // Results are not guaranteed to be ordered, sort by index
+    return [...data.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((d: { embedding: number[] }) => d.embedding);
+  },
+});
+
+/**
+ * Deterministic, offline stand-in that hashes tokens into a fixed-size vector.
+ * Texts sharing words end up close together, which is enough to exercise
+ * indexing and ranking without network access.
+ */
+export const createLocalEmbeddingProvider = (
+  dimensions: number = EMBEDDING_DIMENSIONS
+): EmbeddingProvider => ({
+  model: `local-hash-${dimensions}`,
+  dimensions,
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(dimensions).fill(0);
+      const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+      for (const token of tokens) {
+        const hash = hashToken(token);
+        const index = Math.abs(hash) % dimensions;
+        vector[index] += hash > 0 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return norm > 0 ? vector.map(v => v / norm) : vector;
+    });
+  },
+});
+
+// 32-bit FNV-1a, returned as a signed int so the sign can carry a bit of information
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+};
+
+let activeProvider: EmbeddingProvider = createOpenAIEmbeddingProvider();
+
+export const getEmbeddingProvider = (): EmbeddingProvider => activeProvider;
+
+// Swap the provider (e.g. the local stand-in for tests or offline development)
+export const setEmbeddingProvider = (provider: EmbeddingProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,226 @@
+import { db } from '../supabase';
+import { authStore } from '../../stores/auth';
+import { itemsStore } from '../../stores/items';
+import { videoTranscriptsComputed } from '../../stores/videoTranscripts';
+import { imageDescriptionsComputed } from '../../stores/imageDescriptions';
+import type { Item } from '../../types';
+import { chunkItem } from './chunker';
+import { getEmbeddingProvider } from './providers';
+import type { HybridSearchResult, SemanticMatch, EmbeddingSource } from './types';
+
+// Reciprocal rank fusion constant - higher values flatten the rank curve
+const RRF_K = 60;
+// Chunks below this cosine similarity are treated as noise
+const MIN_SIMILARITY = 0.2;
+// Embedding APIs cap the batch size; stay well below it
+const EMBED_BATCH_SIZE = 64;
+// Edits come in bursts (pipeline steps, typing); index once they settle
+const INDEX_DEBOUNCE_MS = 2000;
+// PostgREST caps responses at 1000 rows by default
+const INDEXED_IDS_PAGE_SIZE = 1000;
+
+const pendingIndexes = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * (Re)build the embeddings for one item from the local stores.
+ * Skips the network round-trip when every chunk hash is unchanged.
+ */
+export const indexItem = async (itemId: string): Promise<boolean> => {
+  const user = authStore.user.get();
+  const item = itemsStore.items.get().find(i => i.id === itemId);
+  if (!user || !item || item.is_deleted) return false;
+
+  const provider = getEmbeddingProvider();
+  const chunks = chunkItem(
+    item,
+    videoTranscriptsComputed.getTranscriptByItemId(itemId),
+    imageDescriptionsComputed.getDescriptionsByItemId(itemId)
+  );
+
+  try {
+    const { data: existing, error: existingError } = await db.getItemEmbeddingHashes(itemId);
+    if (existingError) throw existingError;
+
+    const existingKeys = new Set(
+      (existing || [])
+        .filter(row => row.model === provider.model)
+        .map(row => `${row.source}:${row.chunk_index}:${row.content_hash}`)
+    );
+    const unchanged =
+      existingKeys.size === chunks.length &&
+      chunks.every(c => existingKeys.has(`${c.source}:${c.chunkIndex}:${c.contentHash}`));
+    if (unchanged) {
+      console.log(`🧭 [Embeddings] Item ${itemId} unchanged, skipping (${chunks.length} chunks)`);
+      return true;
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE).map(c => c.content);
+      // eslint-disable-next-line no-await-in-loop
+      vectors.push(...(await provider.embed(batch)));
+    }
+
+    const { error } = await db.replaceItemEmbeddings(
+      itemId,
+      chunks.map((chunk, idx) => ({
+        item_id: itemId,
+        user_id: user.id,
+        source: chunk.source,
+        chunk_index: chunk.chunkIndex,
+        content: chunk.content,
+        content_hash: chunk.contentHash,
+        embedding: JSON.stringify(vectors[idx]),
+        model: provider.model,
+        start_ms: chunk.startMs ?? null,
+      }))
+    );
+    if (error) throw error;
+
+    console.log(`🧭 [Embeddings] Indexed item ${itemId}: ${chunks.length} chunks with ${provider.model}`);
+    return true;
+  } catch (error) {
+    console.error('[Embeddings] Error indexing item:', error);
+    return false;
+  }
+};
+
+/**
+ * Index an item after its text stops changing; repeated calls restart the wait
+ */
+export const scheduleIndexItem = (itemId: string) => {
+  clearTimeout(pendingIndexes.get(itemId));
+  pendingIndexes.set(itemId, setTimeout(() => {
+    pendingIndexes.delete(itemId);
+    indexItem(itemId);
+  }, INDEX_DEBOUNCE_MS));
+};
+
+/**
+ * Local items with no embeddings for the current model - saved before
+ * semantic search existed, or indexed with a different model
+ */
+export const findUnindexedItems = async (): Promise<Item[]> => {
+  const user = authStore.user.get();
+  if (!user) return [];
+
+  const model = getEmbeddingProvider().model;
+  const indexed = new Set<string>();
+  for (let offset = 0; ; offset += INDEXED_IDS_PAGE_SIZE) {
+    // eslint-disable-next-line no-await-in-loop
+    const { data, error } = await db.getEmbeddedItemIds(user.id, model, offset, INDEXED_IDS_PAGE_SIZE);
+    if (error) throw error;
+    (data || []).forEach(row => indexed.add(row.item_id));
+    if (!data || data.length < INDEXED_IDS_PAGE_SIZE) break;
+  }
+
+  return itemsStore.items.get().filter(item => !item.is_deleted && !indexed.has(item.id));
+};
+
+/**
+ * Nearest-neighbour search collapsed to one (best) match per item
+ */
+export const searchSemantic = async (
+  userId: string,
+  query: string,
+  options: { limit?: number; includeArchived?: boolean } = {}
+): Promise<SemanticMatch[]> => {
+  const limit = options.limit ?? 10;
+  const [queryVector] = await getEmbeddingProvider().embed([query]);
+
+  // Over-fetch chunks since several can belong to the same item
+  const { data, error } = await db.matchItemEmbeddings(userId, queryVector, limit * 4, options.includeArchived ?? false);
+  if (error) throw error;
+
+  const bestByItem = new Map<string, SemanticMatch>();
+  for (const row of data || []) {
+    if (row.similarity < MIN_SIMILARITY) continue;
+    const current = bestByItem.get(row.item_id);
+    if (!current || row.similarity > current.similarity) {
+      bestByItem.set(row.item_id, {
+        itemId: row.item_id,
+        source: row.source as EmbeddingSource,
+        content: row.content,
+        startMs: row.start_ms,
+        similarity: row.similarity,
+      });
+    }
+  }
+
+  return [...bestByItem.values()]
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
+
+/**
+ * Hybrid ranking: keyword (ilike) and semantic (pgvector) result lists are
+ * fused with reciprocal rank fusion. Falls back to keyword-only results when
+ * the embedding provider is unavailable.
+ */
+export const hybridSearchItems = async (
+  userId: string,
+  query: string,
+  options: { limit?: number; includeArchived?: boolean } = {}
+): Promise<HybridSearchResult[]> => {
+  const limit = options.limit ?? 10;
+  const includeArchived = options.includeArchived ?? false;
+
+  const [keywordResult, semanticResult] = await Promise.allSettled([
+    db.searchItems(userId, query, limit * 2, 0, includeArchived),
+    searchSemantic(userId, query, { limit: limit * 2, includeArchived }),
+  ]);
+
+  const keywordItems: Item[] =
+    keywordResult.status === 'fulfilled' && !keywordResult.value.error
+      ? ((keywordResult.value.data || []) as unknown as Item[])
+      : [];
+  if (keywordResult.status === 'rejected' || (keywordResult.status === 'fulfilled' && keywordResult.value.error)) {
+    console.warn('[Embeddings] Keyword search failed:', keywordResult.status === 'rejected' ? keywordResult.reason : keywordResult.value.error);
+  }
+
+  const semanticMatches: SemanticMatch[] = semanticResult.status === 'fulfilled' ? semanticResult.value : [];
+  if (semanticResult.status === 'rejected') {
+    console.warn('[Embeddings] Semantic search unavailable, using keyword results only:', semanticResult.reason);
+  }
+
+  const results = new Map<string, HybridSearchResult>();
+  const itemsById = new Map<string, Item>(keywordItems.map(item => [item.id, item]));
+
+  keywordItems.forEach((item, rank) => {
+    results.set(item.id, { item, score: 1 / (RRF_K + rank + 1), matchedBy: ['keyword'] });
+  });
+
+  // Semantic-only hits still need their item rows
+  const missingIds = semanticMatches.map(m => m.itemId).filter(id => !itemsById.has(id));
+  if (missingIds.length > 0) {
+    const localItems = itemsStore.items.get();
+    const stillMissing: string[] = [];
+    for (const id of missingIds) {
+      const local = localItems.find(i => i.id === id);
+      if (local) itemsById.set(id, local);
+      else stillMissing.push(id);
+    }
+    if (stillMissing.length > 0) {
+      const { data } = await db.getItemsByIds(userId, stillMissing);
+      (data || []).forEach(row => itemsById.set(row.id, row as unknown as Item));
+    }
+  }
+
+  semanticMatches.forEach((match, rank) => {
+    const item = itemsById.get(match.itemId);
+    if (!item) return;
+    const existing = results.get(match.itemId);
+    const score = 1 / (RRF_K + rank + 1);
+    if (existing) {
+      existing.score += score;
+      existing.match = match;
+      existing.matchedBy.push('semantic');
+    } else {
+      results.set(match.itemId, { item, score, match, matchedBy: ['semantic'] });
+    }
+  });
+
+  return [...results.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
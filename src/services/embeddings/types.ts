@@ -0,0 +1,53 @@
+import type { Item } from '../../types';
+
+// Which part of an item a chunk was taken from
+export type EmbeddingSource =
+  | 'summary'
+  | 'tldr'
+  | 'notes'
+  | 'transcript'
+  | 'image_description'
+  | 'content';
+
+export interface EmbeddingProvider {
+  // Identifier stored alongside each vector (e.g. "text-embedding-3-small")
+  model: string;
+  dimensions: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface ItemChunk {
+  source: EmbeddingSource;
+  chunkIndex: number;
+  content: string;
+  contentHash: string;
+  startMs?: number;
+}
+
+export interface SemanticMatch {
+  itemId: string;
+  source: EmbeddingSource;
+  content: string;
+  startMs?: number | null;
+  similarity: number;
+}
+
+export interface HybridSearchResult {
+  item: Item;
+  score: number;
+  // Best matching chunk when the item was found semantically
+  match?: SemanticMatch;
+  matchedBy: Array<'keyword' | 'semantic'>;
+}
+
+// A chunk picked for item chat, with its fused relevance score
+export interface RetrievedChunk extends ItemChunk {
+  score: number;
+}
+
+export interface ItemExcerpts {
+  // Selected chunks in document order
+  chunks: RetrievedChunk[];
+  // How many chunks the long-form text was split into
+  totalChunks: number;
+}
@@ -0,0 +1,147 @@
+// GitHub API service for repository metadata
+// Uses the public REST API; EXPO_PUBLIC_GITHUB_TOKEN is optional and only raises the rate limit
+
+import { API_CONFIG } from '../config/api';
+import { extractGitHubRepo } from '../utils/urlHelpers';
+import { httpFetch } from './http/fixtureFetch';
+
+export interface GitHubRepoData {
+  owner: string;
+  name: string;
+  full_name: string;
+  description?: string;
+  html_url: string;
+  homepage?: string;
+  stars: number;
+  forks: number;
+  watchers: number;
+  open_issues: number;
+  language?: string;
+  topics: string[];
+  license?: string;
+  pushed_at?: string;
+  created_at?: string;
+  archived: boolean;
+  is_fork: boolean;
+  owner_avatar?: string;
+  readme_excerpt?: string;
+}
+
+// Enough of the README for the item view and chat context without storing whole docs sites
+const README_EXCERPT_LENGTH = 4000;
+
+export class GitHubApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'GitHubApiError';
+    this.status = status;
+  }
+}
+
+const buildHeaders = (accept: string): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'Accept': accept,
+    'User-Agent': 'MemexSecondBrain/1.0',
+  };
+  if (API_CONFIG.GITHUB.TOKEN) {
+    headers['Authorization'] = `Bearer ${API_CONFIG.GITHUB.TOKEN}`;
+  }
+  return headers;
+};
+
+const toApiError = (response: Response, path: string): GitHubApiError => {
+  // GitHub reports an exhausted rate limit as a 403 with no remaining requests
+  if (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0') {
+    return new GitHubApiError(403, 'GitHub API rate limit exceeded');
+  }
+  return new GitHubApiError(response.status, `GitHub API error ${response.status} for ${path}`);
+};
+
+/**
+ * Turn a raw README into a plain-ish text excerpt: drops HTML blocks,
+ * badge/image lines and excess blank lines, then truncates.
+ */
+const toReadmeExcerpt = (markdown: string): string => {
+  const cleaned = markdown
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, '')
+    .split('\n')
+    .filter(line => !/^\s*(\[!\[|!\[)/.test(line))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return cleaned.length > README_EXCERPT_LENGTH
+    ? `${cleaned.slice(0, README_EXCERPT_LENGTH).trimEnd()}…`
+    : cleaned;
+};
+
+const fetchReadmeExcerpt = async (owner: string, repo: string): Promise<string | undefined> => {
+  const path = `/repos/${owner}/${repo}/readme`;
+  const response = await httpFetch(`${API_CONFIG.GITHUB.BASE_URL}${path}`, {
+    headers: buildHeaders('application/vnd.github.raw'),
+  });
+
+  // Plenty of repos have no README
+  if (response.status === 404) return undefined;
+  if (!response.ok) throw toApiError(response, path);
+
+  const excerpt = toReadmeExcerpt(await response.text());
+  return excerpt || undefined;
+};
+
+/**
+ * Fetch repository details and a README excerpt for a GitHub repo URL
+ *
+ * @param url - Any github.com link inside a repo (e.g., https://github.com/owner/repo/tree/main)
+ * @returns Repository data, or null if the URL isn't a repo or the repo is private/missing
+ * @throws GitHubApiError for rate limits and other API failures
+ */
+export async function fetchGitHubRepoData(url: string): Promise<GitHubRepoData | null> {
+  const parsed = extractGitHubRepo(url);
+  if (!parsed) return null;
+
+  const path = `/repos/${parsed.owner}/${parsed.repo}`;
+  console.log('[GitHub] Fetching repo:', path);
+
+  const response = await httpFetch(`${API_CONFIG.GITHUB.BASE_URL}${path}`, {
+    headers: buildHeaders('application/vnd.github+json'),
+  });
+
+  if (response.status === 404) {
+    console.warn('[GitHub] Repo not found (private or deleted):', path);
+    return null;
+  }
+  if (!response.ok) throw toApiError(response, path);
+
+  const repo = await response.json();
+  // Use the canonical names from the API; the URL may point at a renamed repo
+  const readmeExcerpt = await fetchReadmeExcerpt(repo.owner?.login || parsed.owner, repo.name || parsed.repo);
+
+  return {
+    owner: repo.owner?.login || parsed.owner,
+    name: repo.name || parsed.repo,
+    full_name: repo.full_name || `${parsed.owner}/${parsed.repo}`,
+    description: repo.description || undefined,
+    html_url: repo.html_url || url,
+    homepage: repo.homepage || undefined,
+    stars: repo.stargazers_count || 0,
+    forks: repo.forks_count || 0,
+    watchers: repo.subscribers_count || 0,
+    open_issues: repo.open_issues_count || 0,
+    language: repo.language || undefined,
+    topics: repo.topics || [],
+    // 'NOASSERTION' means GitHub couldn't identify the license
+    license: repo.license?.spdx_id && repo.license.spdx_id !== 'NOASSERTION'
+      ? repo.license.spdx_id
+      : repo.license?.name || undefined,
+    pushed_at: repo.pushed_at || undefined,
+    created_at: repo.created_at || undefined,
+    archived: !!repo.archived,
+    is_fork: !!repo.fork,
+    owner_avatar: repo.owner?.avatar_url || undefined,
+    readme_excerpt: readmeExcerpt,
+  };
+}
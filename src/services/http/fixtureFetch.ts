@@ -0,0 +1,116 @@
+/**
+ * Swappable fetch used by the enrichment services (urlMetadata, reddit,
+ * youtube, podcast, serpapi, twitter, instagram, github, linkedom, pdf, AI classifier).
+ *
+ * - live:   plain global fetch (default)
+ * - record: live fetch, but every response is captured into a fixture set
+ * - replay: responses are served from a fixture set; unmatched requests throw
+ *
+ * The mode is global, so recording or replaying while the app is processing
+ * other items will capture/intercept those requests too. It's meant for the
+ * pipeline dry-run (see pipeline/dryRun.ts), not for normal use.
+ */
+
+export interface HttpFixture {
+  method: string;
+  url: string;
+  // Only set for requests with a string body (e.g. JSON POSTs), used to tell them apart
+  requestBody?: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface FixtureSet {
+  name?: string;
+  recordedAt: string;
+  fixtures: HttpFixture[];
+}
+
+export class FixtureMissingError extends Error {
+  constructor(method: string, url: string) {
+    super(`No recorded fixture for ${method} ${url}`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+type Mode =
+  | { kind: 'live' }
+  | { kind: 'record'; fixtures: HttpFixture[] }
+  | { kind: 'replay'; fixtureSet: FixtureSet };
+
+let mode: Mode = { kind: 'live' };
+
+const requestUrl = (input: RequestInfo | URL): string =>
+  typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+const requestMethod = (input: RequestInfo | URL, init?: RequestInit): string =>
+  (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+
+const requestBody = (init?: RequestInit): string | undefined =>
+  typeof init?.body === 'string' ? init.body : undefined;
+
+const findFixture = (fixtureSet: FixtureSet, method: string, url: string, body?: string) =>
+  fixtureSet.fixtures.find(
+    fixture =>
+      fixture.method === method &&
+      fixture.url === url &&
+      (fixture.requestBody === undefined || fixture.requestBody === body)
+  );
+
+export const httpFetch: typeof fetch = async (input, init) => {
+  const current = mode;
+  if (current.kind === 'live') return fetch(input, init);
+
+  const method = requestMethod(input, init);
+  const url = requestUrl(input);
+  const body = requestBody(init);
+
+  if (current.kind === 'replay') {
+    const fixture = findFixture(current.fixtureSet, method, url, body);
+    if (!fixture) throw new FixtureMissingError(method, url);
+    return new Response(fixture.body, { status: fixture.status, headers: fixture.headers });
+  }
+
+  const response = await fetch(input, init);
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  current.fixtures.push({
+    method,
+    url,
+    requestBody: body,
+    status: response.status,
+    headers,
+    body: await response.clone().text(),
+  });
+  return response;
+};
+
+export const fixtureFetch = {
+  mode: () => mode.kind,
+
+  startRecording: () => {
+    console.log('📼 [fixtureFetch] Recording HTTP fixtures');
+    mode = { kind: 'record', fixtures: [] };
+  },
+
+  /**
+   * Stop recording and return everything captured since startRecording()
+   */
+  stopRecording: (name?: string): FixtureSet => {
+    const fixtures = mode.kind === 'record' ? mode.fixtures : [];
+    mode = { kind: 'live' };
+    console.log(`📼 [fixtureFetch] Recorded ${fixtures.length} fixtures`);
+    return { name, recordedAt: new Date().toISOString(), fixtures };
+  },
+
+  replay: (fixtureSet: FixtureSet) => {
+    mode = { kind: 'replay', fixtureSet };
+  },
+
+  useLive: () => {
+    mode = { kind: 'live' };
+  },
+};
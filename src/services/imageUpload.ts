@@ -1,7 +1,7 @@
 import * as ImagePicker from 'expo-image-picker';
 import { storage } from './supabase';
 
-const BUCKET_NAME = 'item-images';
+export const BUCKET_NAME = 'item-images';
 
 export interface ImageUploadResult {
   url: string;
@@ -1,4 +1,5 @@
 import { API_CONFIG, isAPIConfigured } from '../config/api';
+import { httpFetch } from './http/fixtureFetch';
 
 export interface InstagramMetadata {
   id: string;
@@ -110,7 +111,7 @@ export const fetchInstagramData = async (url: string): Promise<InstagramMetadata
     });
 
     console.log('Fetching Instagram oEmbed data for:', url);
-    const response = await fetch(`${oembedUrl}?${params.toString()}`);
+    const response = await httpFetch(`${oembedUrl}?${params.toString()}`);
 
     if (!response.ok) {
       const errorText = await response.text();
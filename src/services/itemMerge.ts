@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants';
+import { Item } from '../types';
+import { itemConflictsActions } from '../stores/itemConflicts';
+
+// Field-level merge for items edited on more than one device. Each item keeps a
+// base snapshot - its fields as last seen on the server - so a three-way merge
+// can tell which side changed a field. Tags merge as sets, space_id goes to the
+// newer edit, and text edited on both sides becomes a conflict for the user.
+
+export const MERGEABLE_ITEM_FIELDS = ['title', 'notes', 'tags', 'space_id', 'tldr'] as const;
+
+export type MergeableItemField = typeof MERGEABLE_ITEM_FIELDS[number];
+
+export type ConflictField = 'title' | 'notes' | 'tldr';
+
+export type ItemSnapshot = Pick<Item, MergeableItemField>;
+
+export interface ItemConflict {
+  id: string;
+  item_id: string;
+  field: ConflictField;
+  base_value: string | null;
+  // This device's version; the merged item keeps the remote one until resolved
+  local_value: string | null;
+  remote_value: string | null;
+  detected_at: string;
+}
+
+export interface ItemMergeResult {
+  merged: ItemSnapshot;
+  conflicts: ItemConflict[];
+}
+
+let basesCache: Record<string, ItemSnapshot> | null = null;
+
+const loadBases = async (): Promise<Record<string, ItemSnapshot>> => {
+  if (basesCache) return basesCache;
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_SYNC_BASES);
+    basesCache = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('🔀 [ItemMerge] Error loading base snapshots:', error);
+    basesCache = {};
+  }
+  return basesCache!;
+};
+
+export const snapshotItem = (item: Partial<Item>): ItemSnapshot => ({
+  title: item.title ?? '',
+  notes: item.notes,
+  tags: item.tags,
+  space_id: item.space_id ?? null,
+  tldr: item.tldr,
+});
+
+export const getItemBase = async (itemId: string): Promise<ItemSnapshot | null> => {
+  const bases = await loadBases();
+  return bases[itemId] || null;
+};
+
+// Record what the server holds for these items after a push or pull
+export const saveItemBases = async (items: Partial<Item>[]): Promise<void> => {
+  const bases = await loadBases();
+  items.forEach(item => {
+    if (item.id) bases[item.id] = snapshotItem(item);
+  });
+  await AsyncStorage.setItem(STORAGE_KEYS.ITEM_SYNC_BASES, JSON.stringify(bases));
+};
+
+export const removeItemBases = async (itemIds: string[]): Promise<void> => {
+  const bases = await loadBases();
+  itemIds.forEach(itemId => delete bases[itemId]);
+  await AsyncStorage.setItem(STORAGE_KEYS.ITEM_SYNC_BASES, JSON.stringify(bases));
+};
+
+// null, undefined and '' all mean "no value"
+const normalizeText = (value: string | null | undefined): string | null => value || null;
+
+const sameTags = (a?: string[] | null, b?: string[] | null): boolean => {
+  const left = new Set(a || []);
+  const right = new Set(b || []);
+  return left.size === right.size && Array.from(left).every(tag => right.has(tag));
+};
+
+const sameValue = (field: MergeableItemField, a: any, b: any): boolean =>
+  field === 'tags' ? sameTags(a, b) : normalizeText(a) === normalizeText(b);
+
+// Keep tags both sides have, plus tags either side added; drop tags either side removed
+const mergeTags = (base?: string[] | null, local?: string[] | null, remote?: string[] | null): string[] => {
+  const baseSet = new Set(base || []);
+  const localSet = new Set(local || []);
+  const remoteSet = new Set(remote || []);
+  const keep = (tag: string) =>
+    (localSet.has(tag) && remoteSet.has(tag)) || !baseSet.has(tag);
+  return Array.from(new Set([...Array.from(localSet), ...Array.from(remoteSet)])).filter(keep);
+};
+
+const isNewer = (a?: string, b?: string): boolean =>
+  !!a && !!b && new Date(a).getTime() > new Date(b).getTime();
+
+/**
+ * Three-way merge of the mergeable fields. Without a base there is nothing to
+ * compare against, so the remote row wins as it always has.
+ */
+export const mergeItemFields = (
+  base: ItemSnapshot | null,
+  local: Item,
+  remote: Item
+): ItemMergeResult => {
+  const merged = snapshotItem(remote);
+  const conflicts: ItemConflict[] = [];
+  if (!base) return { merged, conflicts };
+
+  const detectedAt = new Date().toISOString();
+
+  MERGEABLE_ITEM_FIELDS.forEach(field => {
+    const baseValue = base[field];
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    const localChanged = !sameValue(field, localValue, baseValue);
+    const remoteChanged = !sameValue(field, remoteValue, baseValue);
+    if (!localChanged) return;
+    if (!remoteChanged) {
+      (merged as any)[field] = localValue;
+      return;
+    }
+    if (sameValue(field, localValue, remoteValue)) return;
+
+    // Changed differently on both sides
+    switch (field) {
+      case 'tags':
+        merged.tags = mergeTags(base.tags, local.tags, remote.tags);
+        break;
+      case 'space_id':
+        if (isNewer(local.updated_at, remote.updated_at)) {
+          merged.space_id = local.space_id ?? null;
+        }
+        break;
+      default:
+        conflicts.push({
+          id: `${local.id}:${field}`,
+          item_id: local.id,
+          field,
+          base_value: normalizeText(baseValue as string | undefined),
+          local_value: normalizeText(localValue as string | undefined),
+          remote_value: normalizeText(remoteValue as string | undefined),
+          detected_at: detectedAt,
+        });
+        break;
+    }
+  });
+
+  return { merged, conflicts };
+};
+
+// Fields of `merged` that differ from `target`
+export const diffItemFields = (target: Partial<Item>, merged: ItemSnapshot): Partial<Item> => {
+  const changes: Partial<Item> = {};
+  MERGEABLE_ITEM_FIELDS.forEach(field => {
+    if (!sameValue(field, target[field], merged[field])) {
+      (changes as any)[field] = merged[field];
+    }
+  });
+  return changes;
+};
+
+export interface RemoteItemPair {
+  // Missing when the item isn't on this device yet
+  local?: Item;
+  remote: Item;
+}
+
+/**
+ * Apply remote versions of items on top of the local ones and return the items
+ * to keep locally. Diverged text fields are recorded as conflicts, and the
+ * remote versions become the new bases.
+ */
+export const mergeRemoteItems = async (pairs: RemoteItemPair[]): Promise<Item[]> => {
+  const bases = await loadBases();
+  const conflicts: ItemConflict[] = [];
+
+  const items = pairs.map(({ local, remote }) => {
+    if (!local) return remote;
+    const result = mergeItemFields(bases[local.id] || null, local, remote);
+    conflicts.push(...result.conflicts);
+    return { ...remote, ...result.merged };
+  });
+
+  if (conflicts.length > 0) {
+    console.log(`🔀 [ItemMerge] ${conflicts.length} conflicting field(s):`, conflicts.map(c => c.id).join(', '));
+    itemConflictsActions.addConflicts(conflicts);
+  }
+  await saveItemBases(pairs.map(({ remote }) => remote));
+
+  return items;
+};
+
+export const mergeRemoteItem = async (local: Item | undefined, remote: Item): Promise<Item> => {
+  const [item] = await mergeRemoteItems([{ local, remote }]);
+  return item;
+};
@@ -1,17 +1,22 @@
 import { API_CONFIG } from '../config/api';
 import { resolveToAbsoluteUrl } from '../utils/urlHelpers';
+import { httpFetch } from './http/fixtureFetch';
+import { extractArticle, ExtractedArticle } from './readability';
 
 // Lightweight client-side HTML parsing using linkedom
-// Extracts: title, description, lead image, full HTML, and siteName
+// Extracts: title, description, lead image, full HTML, siteName and the readable article body
 export interface ParsedPage {
   siteName?: string;
   title: string;
   description?: string;
   image?: string;
   html: string;
+  article?: ExtractedArticle | null;
+  // The URL served a PDF (e.g. arxiv.org/pdf/... without the extension); nothing else is set
+  isPdf?: boolean;
 }
 
-export async function parseUrlWithLinkedom(url: string): Promise<ParsedPage> {
+export async function parseUrlWithLinkedom(url: string, signal?: AbortSignal): Promise<ParsedPage> {
   // Basic validation
   try {
     new URL(url);
@@ -20,14 +25,19 @@ export async function parseUrlWithLinkedom(url: string): Promise<ParsedPage> {
   }
 
   // Fetch HTML. On mobile, CORS is not enforced like web, but sites may block with UA checks.
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: {
       'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
       'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
       'Accept-Language': 'en-US,en;q=0.9',
     },
+    signal,
   });
 
+  if (response.headers.get('content-type')?.toLowerCase().includes('application/pdf')) {
+    return { title: '', html: '', isPdf: true };
+  }
+
   const htmlText = await response.text();
 
   // Dynamic import to avoid impacting bundle startup
@@ -57,10 +67,18 @@ export async function parseUrlWithLinkedom(url: string): Promise<ParsedPage> {
   // Return full HTML for offline purposes
   const fullHTML = document.documentElement?.outerHTML || htmlText;
 
+  // Runs last - extraction strips clutter from the document in place
+  let article: ExtractedArticle | null = null;
+  try {
+    article = extractArticle(document as unknown as Document, url);
+  } catch (error) {
+    console.warn('⚠️ [linkedomParser] Article extraction failed:', error);
+  }
+
   const title = rawTitle && rawTitle.trim().length > 0
     ? rawTitle
     : (siteName || 'No title');
 
-  return { title, description, image, html: fullHTML, siteName };
+  return { title, description, image, html: fullHTML, siteName, article };
 }
 
@@ -0,0 +1,273 @@
+import { API_CONFIG } from '../../config/api';
+import { httpError } from './openaiCompatible';
+import { isAbortError, readServerSentEvents, streamingFetch } from './sse';
+import type { ChatCompletion, LLMContentPart, LLMMessage, LLMModel, LLMProvider, LLMRequest, LLMStreamOptions, ToolCall } from './types';
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'url'; url: string } | { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+const headers = () => ({
+  'Content-Type': 'application/json',
+  'x-api-key': API_CONFIG.ANTHROPIC.API_KEY,
+  'anthropic-version': API_CONFIG.ANTHROPIC.VERSION,
+  // Keys are used client-side here, same as the OpenAI key
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+const toBlocks = (content: string | LLMContentPart[] | null): AnthropicBlock[] => {
+  if (!content) return [];
+  if (typeof content === 'string') return content ? [{ type: 'text', text: content }] : [];
+  return content.map((part): AnthropicBlock => {
+    if (part.type === 'text') return { type: 'text', text: part.text };
+    const dataUrl = part.image_url.url.match(/^data:([^;]+);base64,(.+)$/);
+    return dataUrl
+      ? { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } }
+      : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+  });
+};
+
+const parseArguments = (args: string) => {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * System prompts move to the top-level `system` field, tool calls become
+ * tool_use blocks and tool results are sent back as user tool_result blocks.
+ * Consecutive turns from the same role are merged (e.g. several tool results).
+ */
+export const toAnthropicMessages = (messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } => {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage['role'], blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        if (typeof message.content === 'string') system.push(message.content);
+        break;
+      case 'tool':
+        push('user', [{
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id || '',
+          content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+        }]);
+        break;
+      case 'assistant':
+        push('assistant', [
+          ...toBlocks(message.content),
+          ...(message.tool_calls || []).map((call): AnthropicBlock => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: parseArguments(call.function.arguments),
+          })),
+        ]);
+        break;
+      default:
+        push('user', toBlocks(message.content));
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+};
+
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  aborted: 'aborted',
+};
+
+export const fromAnthropicResponse = (data: any): ChatCompletion => {
+  const blocks: any[] = data.content || [];
+  const text = blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+  const toolCalls: ToolCall[] = blocks
+    .filter(b => b.type === 'tool_use')
+    .map(b => ({
+      id: b.id,
+      type: 'function' as const,
+      function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+    }));
+
+  const promptTokens = data.usage?.input_tokens ?? 0;
+  const completionTokens = data.usage?.output_tokens ?? 0;
+
+  return {
+    id: data.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: FINISH_REASONS[data.stop_reason] || data.stop_reason || 'stop',
+    }],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+};
+
+const buildBody = (request: LLMRequest): Record<string, any> => {
+  const { system, messages } = toAnthropicMessages(request.messages);
+
+  const body: Record<string, any> = {
+    model: request.model,
+    messages,
+    max_tokens: request.max_tokens || DEFAULT_MAX_TOKENS,
+  };
+  // No response_format equivalent; ask for JSON in the system prompt instead
+  const systemPrompt = request.json
+    ? [system, 'Respond with a single valid JSON object and nothing else.'].filter(Boolean).join('\n\n')
+    : system;
+  if (systemPrompt) body.system = systemPrompt;
+  // Anthropic accepts 0-1 where OpenAI accepts 0-2
+  if (request.temperature !== undefined) body.temperature = Math.min(request.temperature, 1);
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters || { type: 'object', properties: {} },
+    }));
+    const choice = request.tool_choice || 'auto';
+    body.tool_choice = typeof choice === 'string'
+      ? { type: choice }
+      : { type: 'tool', name: choice.function.name };
+  }
+  return body;
+};
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  isConfigured: () => !!API_CONFIG.ANTHROPIC.API_KEY,
+
+  async complete(request: LLMRequest): Promise<ChatCompletion> {
+    const response = await fetch(`${API_CONFIG.ANTHROPIC.BASE_URL}/messages`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify(buildBody(request)),
+    });
+
+    if (!response.ok) {
+      throw await httpError('Anthropic', response);
+    }
+
+    return fromAnthropicResponse(await response.json());
+  },
+
+  async stream(request: LLMRequest, { onText, signal }: LLMStreamOptions): Promise<ChatCompletion> {
+    // Rebuild the non-streaming response shape from the event stream, then convert as usual
+    const message: any = { id: '', model: request.model, content: [], stop_reason: 'end_turn', usage: {} };
+    // tool_use input arrives as partial JSON strings per content block
+    const partialJson: Record<number, string> = {};
+    let text = '';
+
+    try {
+      const response = await streamingFetch(`${API_CONFIG.ANTHROPIC.BASE_URL}/messages`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ ...buildBody(request), stream: true }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await httpError('Anthropic', response as unknown as Response);
+      }
+
+      await readServerSentEvents(response.body!, ({ data }) => {
+        const event = JSON.parse(data);
+        switch (event.type) {
+          case 'message_start':
+            Object.assign(message, event.message, { content: [] });
+            break;
+          case 'content_block_start':
+            message.content[event.index] = { ...event.content_block };
+            break;
+          case 'content_block_delta': {
+            const block = message.content[event.index];
+            if (event.delta.type === 'text_delta') {
+              block.text = (block.text || '') + event.delta.text;
+              text += event.delta.text;
+              onText(text);
+            } else if (event.delta.type === 'input_json_delta') {
+              partialJson[event.index] = (partialJson[event.index] || '') + event.delta.partial_json;
+            }
+            break;
+          }
+          case 'content_block_stop':
+            if (partialJson[event.index] !== undefined) {
+              message.content[event.index].input = parseArguments(partialJson[event.index]);
+            }
+            break;
+          case 'message_delta':
+            if (event.delta?.stop_reason) message.stop_reason = event.delta.stop_reason;
+            message.usage = { ...message.usage, ...event.usage };
+            break;
+          case 'error':
+            throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+        }
+      });
+    } catch (error) {
+      if (!isAbortError(error, signal)) throw error;
+      // Drop half-received tool calls; the partial text is still useful
+      message.content = message.content.filter((block: any) => block?.type === 'text');
+      message.stop_reason = 'aborted';
+    }
+
+    message.content = message.content.filter(Boolean);
+    return fromAnthropicResponse(message);
+  },
+
+  async listModels(): Promise<LLMModel[]> {
+    const response = await fetch(`${API_CONFIG.ANTHROPIC.BASE_URL}/models?limit=100`, {
+      method: 'GET',
+      headers: headers(),
+    });
+
+    if (!response.ok) {
+      throw await httpError('Anthropic', response);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((model: any) => ({
+      id: model.id,
+      object: 'model',
+      created: model.created_at ? Math.floor(new Date(model.created_at).getTime() / 1000) : 0,
+      owned_by: 'anthropic',
+      provider: 'anthropic' as const,
+    }));
+  },
+};
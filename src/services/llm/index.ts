@@ -0,0 +1,87 @@
+import { API_CONFIG } from '../../config/api';
+import { anthropicProvider } from './anthropic';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import type { LLMModel, LLMProvider, LLMProviderId } from './types';
+
+export * from './types';
+
+const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: () => API_CONFIG.OPENAI.BASE_URL,
+  apiKey: () => API_CONFIG.OPENAI.API_KEY,
+  requiresApiKey: true,
+});
+
+const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local',
+  baseUrl: () => API_CONFIG.LOCAL_LLM.BASE_URL.replace(/\/+$/, ''),
+  apiKey: () => API_CONFIG.LOCAL_LLM.API_KEY,
+  requiresApiKey: false,
+});
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+};
+
+export const LLM_PROVIDERS: LLMProvider[] = Object.values(PROVIDERS);
+
+export const getLLMProvider = (id: LLMProviderId): LLMProvider => PROVIDERS[id];
+
+export const isAnyLLMConfigured = () => LLM_PROVIDERS.some(provider => provider.isConfigured());
+
+/**
+ * Model settings store a single string per purpose (chat, metadata).
+ * OpenAI models stay unprefixed so existing settings keep working;
+ * other providers are prefixed: "anthropic:claude-sonnet-4-5", "local:llama3.1:8b".
+ */
+export const toModelRef = (provider: LLMProviderId, model: string) =>
+  provider === 'openai' ? model : `${provider}:${model}`;
+
+export const parseModelRef = (ref: string): { provider: LLMProviderId; model: string } => {
+  const separator = ref.indexOf(':');
+  const prefix = separator > 0 ? ref.slice(0, separator) : '';
+  // Only known prefixes count - OpenAI fine-tune ids ("ft:gpt-4o-mini:...") contain colons too
+  if (prefix in PROVIDERS) {
+    return { provider: prefix as LLMProviderId, model: ref.slice(separator + 1) };
+  }
+  return { provider: 'openai', model: ref };
+};
+
+export const resolveModel = (ref: string) => {
+  const { provider, model } = parseModelRef(ref);
+  return { provider: PROVIDERS[provider], model };
+};
+
+/**
+ * Pick a model for image description based on the selected chat model.
+ * Older OpenAI chat models can't see images; Claude models and local servers
+ * are used as-is (a local server needs a multimodal model such as llava).
+ */
+export const getVisionModel = (ref: string): string => {
+  const { provider, model } = parseModelRef(ref);
+  if (provider !== 'openai') return ref;
+  return model.includes('gpt-4') ? ref : 'gpt-4o-mini';
+};
+
+/**
+ * Models from every configured provider, with ids turned into model refs.
+ * A provider that fails to list (e.g. local server not running) is skipped.
+ */
+export const listAllModels = async (): Promise<LLMModel[]> => {
+  const results = await Promise.all(
+    LLM_PROVIDERS.filter(provider => provider.isConfigured()).map(async provider => {
+      try {
+        const models = await provider.listModels();
+        return models.map(model => ({ ...model, id: toModelRef(provider.id, model.id) }));
+      } catch (error) {
+        console.warn(`🤖 Could not list ${provider.label} models:`, error);
+        return [];
+      }
+    })
+  );
+  return results.flat();
+};
@@ -0,0 +1,178 @@
+import { isAbortError, readServerSentEvents, streamingFetch } from './sse';
+import type { ChatCompletion, LLMModel, LLMProvider, LLMProviderId, LLMRequest, LLMStreamOptions, ToolCall } from './types';
+
+interface OpenAICompatibleOptions {
+  id: LLMProviderId;
+  label: string;
+  // Read lazily so a changed env/config doesn't need a reload of this module
+  baseUrl: () => string;
+  apiKey: () => string;
+  // Local servers (llama.cpp, Ollama) usually run without a key
+  requiresApiKey: boolean;
+}
+
+export const httpError = async (providerLabel: string, response: Response): Promise<Error> => {
+  let details = '';
+  try {
+    details = JSON.stringify(await response.json(), null, 2);
+  } catch {
+    details = await response.text().catch(() => '');
+  }
+  const error = new Error(`${providerLabel} API error: ${response.status} - ${details}`) as Error & { status: number };
+  error.status = response.status;
+  return error;
+};
+
+const EMPTY_USAGE = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+const buildBody = (request: LLMRequest): Record<string, any> => {
+  const body: Record<string, any> = {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.max_tokens,
+  };
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools;
+    body.tool_choice = request.tool_choice || 'auto';
+  }
+  if (request.json) {
+    body.response_format = { type: 'json_object' };
+  }
+  return body;
+};
+
+/**
+ * Adapter for OpenAI and any server exposing the OpenAI chat-completions API.
+ * Requests are already in the common format, so this is a thin passthrough.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => {
+  const headers = (): Record<string, string> => {
+    const key = options.apiKey();
+    return {
+      'Content-Type': 'application/json',
+      ...(key ? { 'Authorization': `Bearer ${key}` } : {}),
+    };
+  };
+
+  return {
+    id: options.id,
+    label: options.label,
+    isConfigured: () => !!options.baseUrl() && (!options.requiresApiKey || !!options.apiKey()),
+
+    async complete(request: LLMRequest): Promise<ChatCompletion> {
+      const response = await fetch(`${options.baseUrl()}/chat/completions`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify(buildBody(request)),
+      });
+
+      if (!response.ok) {
+        throw await httpError(options.label, response);
+      }
+
+      const data = await response.json();
+      // Some local servers omit usage entirely
+      return {
+        ...data,
+        usage: data.usage || EMPTY_USAGE,
+      };
+    },
+
+    async stream(request: LLMRequest, { onText, signal }: LLMStreamOptions): Promise<ChatCompletion> {
+      const body = {
+        ...buildBody(request),
+        stream: true,
+        // Usage arrives in a final chunk; local servers generally ignore this option
+        stream_options: { include_usage: true },
+      };
+
+      let id = '';
+      let model = request.model;
+      let text = '';
+      let finishReason = 'stop';
+      let usage = EMPTY_USAGE;
+      // Tool calls arrive as fragments keyed by index: id/name first, then argument pieces
+      const toolCalls: ToolCall[] = [];
+
+      try {
+        const response = await streamingFetch(`${options.baseUrl()}/chat/completions`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify(body),
+          signal,
+        });
+
+        if (!response.ok) {
+          throw await httpError(options.label, response as unknown as Response);
+        }
+
+        await readServerSentEvents(response.body!, ({ data }) => {
+          if (data === '[DONE]') return;
+          const chunk = JSON.parse(data);
+          id = chunk.id || id;
+          model = chunk.model || model;
+          if (chunk.usage) usage = chunk.usage;
+
+          const choice = chunk.choices?.[0];
+          if (!choice) return;
+          if (choice.finish_reason) finishReason = choice.finish_reason;
+
+          const delta = choice.delta || {};
+          if (delta.content) {
+            text += delta.content;
+            onText(text);
+          }
+          for (const part of delta.tool_calls || []) {
+            const index = part.index ?? toolCalls.length;
+            const call = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.function.name += part.function.name;
+            if (part.function?.arguments) call.function.arguments += part.function.arguments;
+          }
+        });
+      } catch (error) {
+        if (!isAbortError(error, signal)) throw error;
+        finishReason = 'aborted';
+      }
+
+      const calls = toolCalls.filter(Boolean);
+      return {
+        id,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: text,
+            ...(calls.length > 0 && finishReason !== 'aborted' ? { tool_calls: calls } : {}),
+          },
+          finish_reason: finishReason,
+        }],
+        usage,
+      };
+    },
+
+    async listModels(): Promise<LLMModel[]> {
+      const response = await fetch(`${options.baseUrl()}/models`, {
+        method: 'GET',
+        headers: headers(),
+      });
+
+      if (!response.ok) {
+        throw await httpError(options.label, response);
+      }
+
+      const data = await response.json();
+      return (data.data || []).map((model: any) => ({
+        id: model.id,
+        object: model.object || 'model',
+        created: model.created || 0,
+        owned_by: model.owned_by || options.id,
+        provider: options.id,
+      }));
+    },
+  };
+};
@@ -0,0 +1,51 @@
+import { fetch as streamingFetch } from 'expo/fetch';
+
+// React Native's built-in fetch buffers the whole body; expo/fetch exposes it as a stream
+export { streamingFetch };
+
+export const isAbortError = (error: unknown, signal?: AbortSignal) =>
+  !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+
+/**
+ * Read a server-sent events body, calling onEvent for every complete event.
+ * Resolves when the stream ends. Rejects with the abort error if the signal fires.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event?: string; data: string }) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (data.length > 0) onEvent({ event, data: data.join('\n') });
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        flush(block);
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) flush(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
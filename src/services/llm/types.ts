@@ -0,0 +1,97 @@
+// The OpenAI chat-completions shape is the common format across the app.
+// Each provider adapter translates requests and responses to and from it.
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'local';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+// Superset of ChatMessage used on the wire: tool turns and multimodal content
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | LLMContentPart[] | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+export interface LLMTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+  };
+}
+
+export type LLMToolChoice = 'auto' | 'none' | { type: 'function'; function: { name: string } };
+
+export interface LLMRequest {
+  // Provider-native model id (without the provider prefix)
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  tools?: LLMTool[];
+  tool_choice?: LLMToolChoice;
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+}
+
+export interface ChatCompletion {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: ChatMessage & { tool_calls?: ToolCall[] };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface LLMModel {
+  // Model reference as stored in settings (see toModelRef)
+  id: string;
+  object: string;
+  created: number;
+  owned_by: string;
+  provider: LLMProviderId;
+}
+
+export interface LLMStreamOptions {
+  // Called with the full text received so far, for incremental rendering
+  onText: (text: string) => void;
+  // Aborting stops the request; the partial completion is returned with finish_reason 'aborted'
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  // Throws on HTTP errors; the error carries `status` when there is one
+  complete: (request: LLMRequest) => Promise<ChatCompletion>;
+  // Same result as complete(), assembled from server-sent events (tool-call deltas included)
+  stream: (request: LLMRequest, options: LLMStreamOptions) => Promise<ChatCompletion>;
+  listModels: () => Promise<LLMModel[]>;
+}
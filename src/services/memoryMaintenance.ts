@@ -0,0 +1,217 @@
+// Memory lifecycle rules from MEMORY_SCHEMA.recommendations: near-duplicate
+// detection and merging, importance decay, and archiving of stale or surplus memories
+import { supabase } from './supabase';
+import { MEMORY_SCHEMA } from './memorySchema';
+import type { AssistantMemory } from '../types';
+import type { Json } from '../types/database';
+
+const { recommendations } = MEMORY_SCHEMA;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Title word overlap (Jaccard) from which two memories of the same kind are treated as one
+const DUPLICATE_TITLE_SIMILARITY = 0.8;
+// Matches the body maxLength in MEMORY_SCHEMA.baseFields
+const MAX_BODY_LENGTH = 5000;
+
+export type MemoryArchiveReason = 'stale' | 'over_limit';
+
+export interface MemoryMaintenancePlan {
+  archive: Array<{ id: string; reason: MemoryArchiveReason }>;
+}
+
+type MemoryContent = Pick<AssistantMemory, 'body' | 'importance' | 'tags' | 'pinned' | 'fields'>;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const titleWords = (title: string) =>
+  new Set(title.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+
+export const titleSimilarity = (a: string, b: string): number => {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return normalize(a) === normalize(b) ? 1 : 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+const isDuplicate = (a: Pick<AssistantMemory, 'kind' | 'title'>, b: Pick<AssistantMemory, 'kind' | 'title'>) =>
+  a.kind === b.kind && titleSimilarity(a.title, b.title) >= DUPLICATE_TITLE_SIMILARITY;
+
+/**
+ * Closest active memory that the candidate would duplicate ('merge_similar_titles'), if any
+ */
+export const findDuplicateMemory = (
+  candidate: Pick<AssistantMemory, 'kind' | 'title'>,
+  memories: AssistantMemory[]
+): AssistantMemory | null => {
+  let best: AssistantMemory | null = null;
+  let bestScore = 0;
+  for (const memory of memories) {
+    if (memory.is_archived || !isDuplicate(candidate, memory)) continue;
+    const score = titleSimilarity(candidate.title, memory.title);
+    if (score > bestScore) {
+      best = memory;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Groups of active memories that look like the same thing, for review in the memory inbox
+ */
+export const findDuplicateGroups = (memories: AssistantMemory[]): AssistantMemory[][] => {
+  const active = memories.filter(memory => !memory.is_archived);
+  const grouped = new Set<string>();
+  const groups: AssistantMemory[][] = [];
+
+  for (const memory of active) {
+    if (grouped.has(memory.id)) continue;
+    const group = [memory, ...active.filter(other =>
+      other.id !== memory.id && !grouped.has(other.id) && isDuplicate(memory, other)
+    )];
+    if (group.length > 1) {
+      group.forEach(member => grouped.add(member.id));
+      groups.push(group);
+    }
+  }
+  return groups;
+};
+
+/**
+ * Combined content of a memory and its duplicates: bodies not already covered are
+ * appended, tags are unioned, structured fields fill gaps, and the highest
+ * importance (and any pin) wins
+ */
+export const mergeMemoryContent = (target: MemoryContent, others: MemoryContent[]): Required<MemoryContent> => {
+  let body = target.body.trim();
+  for (const other of others) {
+    const otherBody = other.body.trim();
+    if (otherBody && !normalize(body).includes(normalize(otherBody))) {
+      body = `${body}\n\n${otherBody}`;
+    }
+  }
+
+  const tags = [...new Set([target, ...others].flatMap(memory => memory.tags || []))];
+
+  return {
+    body: body.substring(0, MAX_BODY_LENGTH),
+    importance: Math.max(target.importance, ...others.map(memory => memory.importance)),
+    tags,
+    pinned: [target, ...others].some(memory => memory.pinned),
+    fields: Object.assign({}, ...[...others].reverse().map(memory => memory.fields || {}), target.fields || {}),
+  };
+};
+
+const lastTouchedAt = (memory: AssistantMemory) => Math.max(
+  new Date(memory.updated_at).getTime(),
+  memory.last_accessed_at ? new Date(memory.last_accessed_at).getTime() : 0
+);
+
+/**
+ * Importance after decay: halves every `importanceHalfLifeDays` since the memory
+ * was last updated or recalled. Pinned memories keep their importance.
+ */
+export const effectiveImportance = (memory: AssistantMemory, now = Date.now()): number => {
+  if (memory.pinned) return memory.importance;
+  const ageDays = Math.max(0, (now - lastTouchedAt(memory)) / DAY_MS);
+  return memory.importance * Math.pow(0.5, ageDays / recommendations.importanceHalfLifeDays);
+};
+
+/**
+ * Which memories maintenance would archive:
+ * - stale: untouched for `autoArchiveAfterDays` and decayed below the low threshold
+ *   (critical memories are exempt)
+ * - over_limit: the lowest-importance memories beyond `maxMemoriesPerKind`
+ * Pinned and already archived memories are never touched.
+ */
+export const planMemoryMaintenance = (memories: AssistantMemory[], now = Date.now()): MemoryMaintenancePlan => {
+  const { importanceThresholds, autoArchiveAfterDays, maxMemoriesPerKind } = recommendations;
+  const archive: MemoryMaintenancePlan['archive'] = [];
+  const remaining: AssistantMemory[] = [];
+
+  for (const memory of memories) {
+    if (memory.is_archived) continue;
+    const isStale = !memory.pinned
+      && memory.importance < importanceThresholds.critical
+      && now - lastTouchedAt(memory) >= autoArchiveAfterDays * DAY_MS
+      && effectiveImportance(memory, now) < importanceThresholds.low;
+
+    if (isStale) {
+      archive.push({ id: memory.id, reason: 'stale' });
+    } else {
+      remaining.push(memory);
+    }
+  }
+
+  const byKind = new Map<string, AssistantMemory[]>();
+  remaining.forEach(memory => byKind.set(memory.kind, [...(byKind.get(memory.kind) || []), memory]));
+
+  for (const kindMemories of byKind.values()) {
+    const overflow = kindMemories.length - maxMemoriesPerKind;
+    if (overflow <= 0) continue;
+    kindMemories
+      .filter(memory => !memory.pinned)
+      .sort((a, b) => effectiveImportance(a, now) - effectiveImportance(b, now))
+      .slice(0, overflow)
+      .forEach(memory => archive.push({ id: memory.id, reason: 'over_limit' }));
+  }
+
+  return { archive };
+};
+
+/**
+ * Archive what planMemoryMaintenance selects. Returns the archived ids.
+ */
+export const applyMemoryMaintenance = async (memories: AssistantMemory[]): Promise<string[]> => {
+  const { archive } = planMemoryMaintenance(memories);
+  if (archive.length === 0) return [];
+
+  const ids = archive.map(entry => entry.id);
+  const { error } = await supabase
+    .from('assistant_memories')
+    .update({ is_archived: true, archived_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) throw error;
+
+  const stale = archive.filter(entry => entry.reason === 'stale').length;
+  console.log(`🧹 [MemoryMaintenance] Archived ${ids.length} memories (${stale} stale, ${ids.length - stale} over the per-kind limit)`);
+  return ids;
+};
+
+/**
+ * Fold new content into an existing memory (a duplicate caught on insert).
+ * Returns the updated memory.
+ */
+export const mergeIntoMemory = async (target: AssistantMemory, incoming: MemoryContent[]): Promise<AssistantMemory> => {
+  const { fields, ...content } = mergeMemoryContent(target, incoming);
+  const { data, error } = await supabase
+    .from('assistant_memories')
+    .update({ ...content, fields: fields as Json })
+    .eq('id', target.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as AssistantMemory;
+};
+
+/**
+ * Fold `sources` into `target` and delete them. Returns the updated target.
+ */
+export const mergeMemories = async (target: AssistantMemory, sources: AssistantMemory[]): Promise<AssistantMemory> => {
+  const merged = await mergeIntoMemory(target, sources);
+
+  if (sources.length > 0) {
+    const { error } = await supabase
+      .from('assistant_memories')
+      .delete()
+      .in('id', sources.map(source => source.id));
+
+    if (error) throw error;
+  }
+
+  console.log(`🔗 [MemoryMaintenance] Merged ${sources.length} memories into "${target.title}"`);
+  return merged;
+};
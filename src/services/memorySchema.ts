@@ -1,5 +1,7 @@
 // Memory Schema Definition for Assistant
-// This defines the structure of memory types and their fields
+// This defines the structure of memory types and their fields.
+// MEMORY_SCHEMA is the built-in version; approved evolution proposals create newer
+// versions stored in memory_schema_versions (see stores/memorySchema).
 
 export interface MemoryFieldSchema {
   name: string;
@@ -14,6 +16,8 @@ export interface MemoryFieldSchema {
     enum?: string[];
     itemType?: string;
   };
+  // Given to existing memories when the field is added or becomes required
+  default?: string | number | boolean | string[];
 }
 
 export interface MemoryKindSchema {
@@ -22,6 +26,8 @@ export interface MemoryKindSchema {
   examples: string[];
   suggestedFields: string[];
   useCases: string[];
+  // Structured fields, stored in assistant_memories.fields
+  fields?: MemoryFieldSchema[];
 }
 
 export interface MemorySchemaDefinition {
@@ -38,6 +44,8 @@ export interface MemorySchemaDefinition {
       critical: number;
     };
     autoArchiveAfterDays: number;
+    // Days for an untouched memory's importance to halve
+    importanceHalfLifeDays: number;
     deduplicationStrategy: string;
   };
 }
@@ -108,6 +116,24 @@ export const MEMORY_SCHEMA: MemorySchemaDefinition = {
         itemType: 'string',
       },
     },
+    {
+      name: 'pinned',
+      type: 'boolean',
+      description: 'Pinned by the user; never decays, merges away or auto-archives',
+      required: false,
+    },
+    {
+      name: 'is_archived',
+      type: 'boolean',
+      description: 'Archived memories are kept but no longer recalled',
+      required: false,
+    },
+    {
+      name: 'last_accessed_at',
+      type: 'string',
+      description: 'Timestamp when the assistant last recalled the memory',
+      required: false,
+    },
     {
       name: 'created_at',
       type: 'string',
@@ -226,14 +252,17 @@ export const MEMORY_SCHEMA: MemorySchemaDefinition = {
       critical: 0.9,
     },
     autoArchiveAfterDays: 365,
+    importanceHalfLifeDays: 180,
     deduplicationStrategy: 'merge_similar_titles',
   },
 };
 
+export type SchemaEvolutionType = 'add_kind' | 'add_field' | 'modify_field' | 'add_constraint' | 'remove_field';
+
 // Schema evolution proposals interface
 export interface SchemaEvolutionProposal {
   id: string;
-  type: 'add_kind' | 'add_field' | 'modify_field' | 'add_constraint' | 'remove_field';
+  type: SchemaEvolutionType;
   description: string;
   rationale: string;
   impact: 'low' | 'medium' | 'high';
@@ -243,22 +272,231 @@ export interface SchemaEvolutionProposal {
   };
   proposed: {
     kind?: string;
+    // add_kind: the new kind
+    kindDefinition?: MemoryKindSchema;
+    // add_field: the new field
     field?: MemoryFieldSchema;
+    // modify_field / add_constraint / remove_field: the field being changed
+    fieldName?: string;
     modification?: Partial<MemoryFieldSchema>;
   };
 }
 
+// A proposal as stored in memory_schema_proposals
+export interface StoredSchemaProposal extends SchemaEvolutionProposal {
+  proposed_by: string;
+  status: 'pending' | 'applied' | 'rejected';
+  // Active schema version when the proposal was made
+  base_version: string;
+  applied_version?: string | null;
+  review_note?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+// Changes to existing assistant_memories.fields, run by apply_memory_schema_proposal
+export type MemoryRowMigration =
+  | { op: 'set_default'; kind: string; field: string; value: MemoryFieldSchema['default'] }
+  | { op: 'rename'; kind: string; field: string; to: string }
+  | { op: 'remove'; kind: string; field: string };
+
+const KIND_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Removing a field (or a high-impact change) is a major version, anything else minor
+ */
+export function nextSchemaVersion(version: string, proposal: Pick<SchemaEvolutionProposal, 'type' | 'impact'>): string {
+  const [major = 1, minor = 0] = version.split('.').map(part => parseInt(part, 10) || 0);
+  return proposal.type === 'remove_field' || proposal.impact === 'high'
+    ? `${major + 1}.0.0`
+    : `${major}.${minor + 1}.0`;
+}
+
+/**
+ * The schema that results from applying a proposal, plus the row migrations it needs.
+ * Throws with a readable message when the proposal doesn't fit the schema.
+ */
+export function applySchemaProposal(
+  schema: MemorySchemaDefinition,
+  proposal: SchemaEvolutionProposal
+): { schema: MemorySchemaDefinition; rowMigrations: MemoryRowMigration[] } {
+  const next: MemorySchemaDefinition = JSON.parse(JSON.stringify(schema));
+  const rowMigrations: MemoryRowMigration[] = [];
+  const { proposed } = proposal;
+
+  const findKind = (kindName?: string) => {
+    const kind = next.kinds.find(k => k.kind === kindName);
+    if (!kind) throw new Error(`Unknown memory kind: ${kindName || '(none)'}`);
+    return kind;
+  };
+
+  // Kind fields live in the fields JSON; without a kind the change targets a base column
+  const findField = () => {
+    const fields = proposed.kind ? findKind(proposed.kind).fields || [] : next.baseFields;
+    const field = fields.find(f => f.name === proposed.fieldName);
+    if (!field) throw new Error(`Unknown field: ${proposed.fieldName || '(none)'}${proposed.kind ? ` on ${proposed.kind}` : ''}`);
+    return field;
+  };
+
+  switch (proposal.type) {
+    case 'add_kind': {
+      const definition = proposed.kindDefinition;
+      if (!definition || !KIND_NAME_PATTERN.test(definition.kind)) {
+        throw new Error('New kinds need a lowercase name (letters, digits, underscores)');
+      }
+      if (next.kinds.some(k => k.kind === definition.kind)) {
+        throw new Error(`Kind "${definition.kind}" already exists`);
+      }
+      next.kinds.push({
+        kind: definition.kind,
+        description: definition.description || '',
+        examples: definition.examples || [],
+        suggestedFields: definition.suggestedFields || [],
+        useCases: definition.useCases || [],
+        fields: definition.fields || [],
+      });
+      const kindField = next.baseFields.find(f => f.name === 'kind');
+      if (kindField?.constraints?.enum) kindField.constraints.enum.push(definition.kind);
+      break;
+    }
+
+    case 'add_field': {
+      const kind = findKind(proposed.kind);
+      const field = proposed.field;
+      if (!field?.name) throw new Error('The new field needs a name');
+      if ([...next.baseFields, ...(kind.fields || [])].some(f => f.name === field.name)) {
+        throw new Error(`Field "${field.name}" already exists on ${kind.kind}`);
+      }
+      if (field.required && field.default === undefined) {
+        throw new Error(`Required field "${field.name}" needs a default for existing memories`);
+      }
+      kind.fields = [...(kind.fields || []), field];
+      if (field.default !== undefined) {
+        rowMigrations.push({ op: 'set_default', kind: kind.kind, field: field.name, value: field.default });
+      }
+      break;
+    }
+
+    case 'modify_field':
+    case 'add_constraint': {
+      const field = findField();
+      const modification = proposal.type === 'add_constraint'
+        ? { constraints: proposed.modification?.constraints }
+        : proposed.modification || {};
+      const isBaseField = !proposed.kind;
+
+      if (isBaseField && ((modification.name && modification.name !== field.name) || (modification.type && modification.type !== field.type))) {
+        throw new Error('Base fields are database columns; only their description and constraints can change');
+      }
+
+      const oldName = field.name;
+      Object.assign(field, {
+        ...modification,
+        constraints: { ...field.constraints, ...modification.constraints },
+      });
+
+      if (!isBaseField) {
+        if (field.name !== oldName) {
+          rowMigrations.push({ op: 'rename', kind: proposed.kind!, field: oldName, to: field.name });
+        }
+        if (field.required) {
+          if (field.default === undefined) {
+            throw new Error(`Required field "${field.name}" needs a default for existing memories`);
+          }
+          rowMigrations.push({ op: 'set_default', kind: proposed.kind!, field: field.name, value: field.default });
+        }
+      }
+      break;
+    }
+
+    case 'remove_field': {
+      if (!proposed.kind) throw new Error('Base fields are database columns and cannot be removed');
+      const kind = findKind(proposed.kind);
+      findField();
+      kind.fields = (kind.fields || []).filter(f => f.name !== proposed.fieldName);
+      rowMigrations.push({ op: 'remove', kind: kind.kind, field: proposed.fieldName! });
+      break;
+    }
+  }
+
+  next.version = nextSchemaVersion(schema.version, proposal);
+  return { schema: next, rowMigrations };
+}
+
+const checkFieldValue = (field: MemoryFieldSchema, value: unknown): string | null => {
+  const { constraints = {} } = field;
+  const typeOk =
+    field.type === 'array' ? Array.isArray(value)
+    : field.type === 'object' ? typeof value === 'object' && value !== null && !Array.isArray(value)
+    : typeof value === field.type;
+  if (!typeOk) return `${field.name} must be a ${field.type}`;
+
+  if (typeof value === 'string') {
+    if (constraints.minLength !== undefined && value.length < constraints.minLength) return `${field.name} is too short`;
+    if (constraints.maxLength !== undefined && value.length > constraints.maxLength) return `${field.name} is longer than ${constraints.maxLength} characters`;
+    if (constraints.enum && !constraints.enum.includes(value)) return `${field.name} must be one of: ${constraints.enum.join(', ')}`;
+  }
+  if (typeof value === 'number') {
+    if (constraints.min !== undefined && value < constraints.min) return `${field.name} must be at least ${constraints.min}`;
+    if (constraints.max !== undefined && value > constraints.max) return `${field.name} must be at most ${constraints.max}`;
+  }
+  if (Array.isArray(value) && constraints.itemType && value.some(item => typeof item !== constraints.itemType)) {
+    return `${field.name} must only contain ${constraints.itemType} values`;
+  }
+  return null;
+};
+
+/**
+ * Problems with a new memory under the given schema (empty when valid)
+ */
+export function validateMemory(
+  schema: MemorySchemaDefinition,
+  memory: { kind: string; title: string; body: string; importance?: number; tags?: string[]; fields?: Record<string, unknown> }
+): string[] {
+  const errors: string[] = [];
+  const kind = schema.kinds.find(k => k.kind === memory.kind);
+  if (!kind) {
+    return [`Unknown kind "${memory.kind}". Available kinds: ${schema.kinds.map(k => k.kind).join(', ')}`];
+  }
+
+  for (const field of schema.baseFields) {
+    const value = (memory as Record<string, unknown>)[field.name];
+    if (value === undefined) continue;
+    const error = checkFieldValue(field, value);
+    if (error) errors.push(error);
+  }
+
+  const kindFields = kind.fields || [];
+  const values = memory.fields || {};
+  for (const field of kindFields) {
+    if (values[field.name] === undefined) {
+      if (field.required && field.default === undefined) errors.push(`${field.name} is required for ${kind.kind} memories`);
+      continue;
+    }
+    const error = checkFieldValue(field, values[field.name]);
+    if (error) errors.push(error);
+  }
+  for (const name of Object.keys(values)) {
+    if (!kindFields.some(f => f.name === name)) {
+      errors.push(`Unknown field "${name}" for ${kind.kind} memories${kindFields.length > 0 ? ` (fields: ${kindFields.map(f => f.name).join(', ')})` : ''}`);
+    }
+  }
+  return errors;
+}
+
 // Helper to generate schema summary for the assistant
-export function getSchemaOverview(): string {
-  const kinds = MEMORY_SCHEMA.kinds.map(k => `- **${k.kind}**: ${k.description}`).join('\n');
-  const fields = MEMORY_SCHEMA.baseFields.map(f =>
+export function getSchemaOverview(schema: MemorySchemaDefinition = MEMORY_SCHEMA): string {
+  const kinds = schema.kinds.map(k =>
+    `- **${k.kind}**: ${k.description}${k.fields?.length ? ` (fields: ${k.fields.map(f => f.name).join(', ')})` : ''}`
+  ).join('\n');
+  const fields = schema.baseFields.map(f =>
     `- \`${f.name}\` (${f.type}${f.required ? ', required' : ''}): ${f.description}`
   ).join('\n');
 
-  return `# Memory Schema v${MEMORY_SCHEMA.version}
+  return `# Memory Schema v${schema.version}
 
 ## Description
-${MEMORY_SCHEMA.description}
+${schema.description}
 
 ## Memory Kinds
 ${kinds}
@@ -267,15 +505,16 @@ ${kinds}
 ${fields}
 
 ## Recommendations
-- Max memories per kind: ${MEMORY_SCHEMA.recommendations.maxMemoriesPerKind}
-- Auto-archive after: ${MEMORY_SCHEMA.recommendations.autoArchiveAfterDays} days
-- Deduplication: ${MEMORY_SCHEMA.recommendations.deduplicationStrategy}
+- Max memories per kind: ${schema.recommendations.maxMemoriesPerKind}
+- Auto-archive after: ${schema.recommendations.autoArchiveAfterDays} days
+- Importance half-life: ${schema.recommendations.importanceHalfLifeDays} days (pinned memories don't decay)
+- Deduplication: ${schema.recommendations.deduplicationStrategy}
 `;
 }
 
 // Helper to get detailed info about a specific kind
-export function getKindDetails(kindName: string): string | null {
-  const kind = MEMORY_SCHEMA.kinds.find(k => k.kind === kindName);
+export function getKindDetails(kindName: string, schema: MemorySchemaDefinition = MEMORY_SCHEMA): string | null {
+  const kind = schema.kinds.find(k => k.kind === kindName);
   if (!kind) return null;
 
   return `# Memory Kind: ${kind.kind}
@@ -286,6 +525,9 @@ ${kind.description}
 ## Examples
 ${kind.examples.map(e => `- ${e}`).join('\n')}
 
+## Structured Fields
+${kind.fields?.length ? kind.fields.map(f => `- \`${f.name}\` (${f.type}${f.required ? ', required' : ''}): ${f.description}`).join('\n') : '(none)'}
+
 ## Suggested Additional Fields
 ${kind.suggestedFields.length > 0 ? kind.suggestedFields.map(f => `- ${f}`).join('\n') : '(none)'}
 
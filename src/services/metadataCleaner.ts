@@ -1,6 +1,6 @@
-import OpenAI from 'openai';
-import { API_CONFIG, isAPIConfigured } from '../config/api';
 import { aiSettingsComputed } from '../stores/aiSettings';
+import { resolveModel } from './llm';
+import { openai } from './openai';
 
 export interface MetadataCleanerOptions {
   /**
@@ -61,17 +61,16 @@ export interface CleanedMetadata {
 export const cleanMetadataWithLLM = async (
   options: MetadataCleanerOptions
 ): Promise<CleanedMetadata | null> => {
-  if (!isAPIConfigured.openai()) {
-    console.warn('OpenAI not configured, skipping LLM metadata cleaning');
+  // Use user's selected metadata model, fallback to gpt-4o-mini
+  const selectedModel = aiSettingsComputed.metadataModel?.() || 'gpt-4o-mini';
+  if (!resolveModel(selectedModel).provider.isConfigured()) {
+    console.warn(`LLM provider for ${selectedModel} not configured, skipping LLM metadata cleaning`);
     return null;
   }
 
   const { rawData, extract, context } = options;
 
   try {
-    const openai = new OpenAI({
-      apiKey: API_CONFIG.OPENAI.API_KEY,
-    });
 
     // Build the prompt based on what we're extracting
     let task = '';
@@ -115,12 +114,8 @@ ${extract.both
       ? 'You extract and clean metadata from web content. Always return valid JSON with "title" and "description" fields.'
       : 'You extract and clean metadata from web content. Return only the requested information, nothing else.';
 
-    // Use user's selected metadata model, fallback to gpt-4o-mini
-    const selectedModel = aiSettingsComputed.metadataModel?.() || 'gpt-4o-mini';
-
-    const completion = await openai.chat.completions.create({
-      model: selectedModel,
-      messages: [
+    const completion = await openai.createChatCompletion(
+      [
         {
           role: 'system',
           content: systemPrompt,
@@ -130,12 +125,15 @@ ${extract.both
           content: prompt,
         },
       ],
-      temperature: 0.3, // Low temperature for consistent extraction
-      max_tokens: 150,
-      ...(extract.both && { response_format: { type: 'json_object' } }),
-    });
+      {
+        model: selectedModel,
+        temperature: 0.3, // Low temperature for consistent extraction
+        max_tokens: 150,
+        json: extract.both,
+      }
+    );
 
-    const response = completion.choices[0]?.message?.content?.trim();
+    const response = completion?.choices[0]?.message?.content?.trim();
 
     if (!response) {
       return null;
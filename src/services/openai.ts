@@ -1,27 +1,40 @@
 import { API } from '../constants';
 import { estimateMessageTokens, getRecommendedModel } from '../utils/tokenEstimator';
+import { getVisionModel, listAllModels, resolveModel } from './llm';
+import type { ChatCompletion, ChatMessage, LLMMessage, LLMModel, LLMRequest, LLMStreamOptions, LLMTool, LLMToolChoice, ToolCall } from './llm';
 
-export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
+export type { ChatCompletion, ChatMessage, ToolCall } from './llm';
 
-export interface ChatCompletion {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: ChatMessage;
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+// Fallbacks when no model is passed; callers normally pass the admin-selected model
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+
+// Chat vs metadata work can be routed to different providers via the admin model settings
+const chatModel = (): string => {
+  const { aiSettingsComputed } = require('../stores/aiSettings');
+  return aiSettingsComputed.selectedModel() || DEFAULT_CHAT_MODEL;
+};
+
+const metadataModel = (): string => {
+  const { aiSettingsComputed } = require('../stores/aiSettings');
+  return aiSettingsComputed.metadataModel() || DEFAULT_CHAT_MODEL;
+};
+
+// Route a request to the provider named by the model ref (see services/llm).
+// Passing stream options streams the reply; the resolved value is the same either way.
+const complete = async (
+  modelRef: string,
+  request: Omit<LLMRequest, 'model'>,
+  stream?: LLMStreamOptions
+): Promise<ChatCompletion | null> => {
+  const { provider, model } = resolveModel(modelRef);
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.label} API not configured (model: ${modelRef})`);
+    return null;
+  }
+  return stream
+    ? provider.stream({ ...request, model }, stream)
+    : provider.complete({ ...request, model });
+};
 
 export interface ChatCompletionResult extends ChatCompletion {
   wasAutoSwitched?: boolean;
@@ -83,68 +96,32 @@ export interface OpenAIError {
 }
 
 // Tool-related types for function calling
-export interface ToolCall {
-  id: string;
-  type: 'function';
-  function: {
-    name: string;
-    arguments: string;
-  };
-}
-
 export interface ToolCompletionResult extends ChatCompletion {
   tool_calls?: ToolCall[];
   finish_reason?: string;
 }
 
-// OpenAI API helpers
+// LLM helpers - requests go to OpenAI, Anthropic or a local server depending on the model
 export const openai = {
   async createChatCompletion(
-    messages: ChatMessage[],
+    messages: LLMMessage[],
     options: {
       model?: string;
       temperature?: number;
       max_tokens?: number;
+      json?: boolean;
+      stream?: LLMStreamOptions;
     } = {}
   ): Promise<ChatCompletion | null> {
-    if (!API.OPENAI_API_KEY) {
-      console.warn('OpenAI API key not configured');
-      return null;
-    }
-
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${API.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: options.model || 'gpt-3.5-turbo',
-          messages,
-          temperature: options.temperature || 0.7,
-          max_tokens: options.max_tokens || 1000,
-        }),
-      });
-
-      if (!response.ok) {
-        // Parse error response body for more details
-        let errorDetails = '';
-        try {
-          const errorData = await response.json();
-          errorDetails = JSON.stringify(errorData, null, 2);
-          console.error('OpenAI API error response:', errorData);
-        } catch (parseError) {
-          errorDetails = await response.text();
-          console.error('OpenAI API error (raw):', errorDetails);
-        }
-        throw new Error(`OpenAI API error: ${response.status} - ${errorDetails}`);
-      }
-
-      const data = await response.json();
-      return data;
+      return await complete(options.model || chatModel(), {
+        messages,
+        temperature: options.temperature || 0.7,
+        max_tokens: options.max_tokens || 1000,
+        json: options.json,
+      }, options.stream);
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error('LLM API error:', error);
       return null;
     }
   },
@@ -163,7 +140,7 @@ export const openai = {
     ];
 
     const result = await this.createChatCompletion(messages, {
-      model: 'gpt-3.5-turbo',
+      model: metadataModel(),
       temperature: 0.3,
       max_tokens: 100,
     });
@@ -190,7 +167,7 @@ export const openai = {
     ];
 
     const result = await this.createChatCompletion(messages, {
-      model: 'gpt-3.5-turbo',
+      model: metadataModel(),
       temperature: 0.3,
       max_tokens: 300,
     });
@@ -202,6 +179,32 @@ export const openai = {
     return 'Summary not available';
   },
 
+  // Split a timestamped transcript into chapters and key moments; returns the raw JSON reply
+  async generateChapters(timedTranscript: string, title: string): Promise<string | null> {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You split long video and podcast transcripts into chapters. Each transcript line starts with its [mm:ss] or [h:mm:ss] timestamp. ' +
+          'Reply with JSON only: {"chapters": [{"start": "mm:ss", "title": "...", "summary": "..."}], "key_moments": [{"start": "mm:ss", "text": "..."}]}. ' +
+          'Chapters cover the whole transcript in order, start at 00:00, and begin where the topic changes; use 4-15 of them with titles under 8 words and one-sentence summaries. ' +
+          'Key moments are the 3-8 most notable points (a claim, a number, a recommendation), each one sentence. Only use timestamps that appear in the transcript.',
+      },
+      {
+        role: 'user',
+        content: `Title: ${title}\n\n${timedTranscript}`,
+      },
+    ];
+
+    const result = await this.createChatCompletion(messages, {
+      model: metadataModel(),
+      temperature: 0.2,
+      max_tokens: 2000,
+      json: true,
+    });
+
+    return result?.choices[0]?.message.content || null;
+  },
+
   // Chat with item/space content as context
   async chatWithContext(
     context: string,
@@ -221,7 +224,7 @@ export const openai = {
     ];
 
     const result = await this.createChatCompletion(messages, {
-      model: 'gpt-3.5-turbo',
+      model: chatModel(),
       temperature: 0.7,
       max_tokens: 1000,
     });
@@ -243,6 +246,7 @@ export const openai = {
       model?: string;
       temperature?: number;
       max_tokens?: number;
+      stream?: LLMStreamOptions;
     } = {}
   ): Promise<ChatCompletionResult | null> {
     // Add current timestamp to system message
@@ -260,8 +264,8 @@ export const openai = {
       },
     ];
 
-    // Debug logging: show what we're sending to OpenAI
-    console.log('📨 Messages array being sent to OpenAI:');
+    // Debug logging: show what we're sending to the model
+    console.log('📨 Messages array being sent to LLM:');
     console.log(`  Total messages: ${messages.length}`);
     messages.forEach((msg, idx) => {
       const preview = msg.content.substring(0, 100).replace(/\n/g, ' ');
@@ -275,11 +279,11 @@ export const openai = {
     console.log(`📊 Estimated context size: ${tokenEstimate.estimatedTokens.toLocaleString()} tokens (${tokenEstimate.wordCount.toLocaleString()} words)`);
 
     // Get recommended model based on context size
-    const requestedModel = options.model || 'gpt-4o-mini';
-    const { model: selectedModel, reason, autoSwitched } = getRecommendedModel(
-      tokenEstimate.estimatedTokens,
-      requestedModel
-    );
+    // The auto-switch target is an OpenAI model, so other providers keep the requested one
+    const requestedModel = options.model || chatModel();
+    const { model: selectedModel, reason, autoSwitched } = resolveModel(requestedModel).provider.id === 'openai'
+      ? getRecommendedModel(tokenEstimate.estimatedTokens, requestedModel)
+      : { model: requestedModel, reason: undefined, autoSwitched: false };
 
     if (autoSwitched) {
       console.log(`🔄 ${reason}`);
@@ -289,6 +293,7 @@ export const openai = {
       model: selectedModel,
       temperature: options.temperature || 0.7,
       max_tokens: options.max_tokens || 1500,
+      stream: options.stream,
     });
 
     // Add auto-switch metadata to result
@@ -304,128 +309,71 @@ export const openai = {
     return result;
   },
 
-  // Describe an image using OpenAI Vision API
+  // Describe an image with a vision-capable model
   async describeImage(
     imageUrl: string,
     options: {
       model?: string;
     } = {}
   ): Promise<string | null> {
-    if (!API.OPENAI_API_KEY) {
-      console.warn('OpenAI API key not configured');
-      return null;
-    }
-
     try {
-      // Use a vision-capable model (gpt-4o or gpt-4o-mini)
-      const model = options.model || 'gpt-4o-mini';
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${API.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: 'Describe this image in extreme detail and precision. Your description will be used as context for another AI model that cannot see the image, so be thorough about all visible elements, text, colors, composition, mood, and any other relevant details. Focus on what is actually shown in the image.',
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: imageUrl,
-                  },
+      const result = await complete(options.model || getVisionModel(chatModel()), {
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: 'Describe this image in extreme detail and precision. Your description will be used as context for another AI model that cannot see the image, so be thorough about all visible elements, text, colors, composition, mood, and any other relevant details. Focus on what is actually shown in the image.',
+              },
+              {
+                type: 'image_url',
+                image_url: {
+                  url: imageUrl,
                 },
-              ],
-            },
-          ],
-          max_tokens: 500,
-        }),
+              },
+            ],
+          },
+        ],
+        max_tokens: 500,
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      if (data.choices && data.choices[0]) {
-        return data.choices[0].message.content;
-      }
-
-      return null;
+      return result?.choices?.[0]?.message.content || null;
     } catch (error) {
-      console.error('OpenAI Vision API error:', error);
+      console.error('Vision API error:', error);
       return null;
     }
   },
 
   // Create chat completion with tools (function calling)
+  // Tools use the OpenAI schema; the Anthropic adapter translates them
   async createChatCompletionWithTools(
-    messages: ChatMessage[],
-    tools: any[],
+    messages: LLMMessage[],
+    tools: LLMTool[],
     options: {
       model?: string;
       temperature?: number;
       max_tokens?: number;
-      tool_choice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
+      tool_choice?: LLMToolChoice;
+      stream?: LLMStreamOptions;
     } = {}
   ): Promise<ToolCompletionResult | null> {
-    if (!API.OPENAI_API_KEY) {
-      console.warn('OpenAI API key not configured');
-      return null;
-    }
-
     try {
-      const requestBody: any = {
-        model: options.model || 'gpt-4o-mini',
+      console.log('[LLM] Sending request with tools:', tools.map(t => t.function.name).join(', '));
+
+      const data = await complete(options.model || chatModel(), {
         messages,
+        tools,
+        tool_choice: options.tool_choice,
         temperature: options.temperature || 0.7,
         max_tokens: options.max_tokens || 1500,
-      };
-
-      // Add tools if provided
-      if (tools && tools.length > 0) {
-        requestBody.tools = tools;
-        requestBody.tool_choice = options.tool_choice || 'auto';
-      }
-
-      console.log('[OpenAI] Sending request with tools:', tools.map(t => t.function.name).join(', '));
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${API.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        let errorDetails = '';
-        try {
-          const errorData = await response.json();
-          errorDetails = JSON.stringify(errorData, null, 2);
-          console.error('OpenAI API error response:', errorData);
-        } catch (parseError) {
-          errorDetails = await response.text();
-          console.error('OpenAI API error (raw):', errorDetails);
-        }
-        throw new Error(`OpenAI API error: ${response.status} - ${errorDetails}`);
-      }
-
-      const data = await response.json();
+      }, options.stream);
+      if (!data) return null;
 
       // Extract tool calls if present
       const choice = data.choices?.[0];
-      if (choice?.message?.tool_calls) {
-        console.log('[OpenAI] Tool calls received:', choice.message.tool_calls.map((tc: any) => tc.function.name).join(', '));
+      if (choice?.message?.tool_calls && choice.message.tool_calls.length > 0) {
+        console.log('[LLM] Tool calls received:', choice.message.tool_calls.map(tc => tc.function.name).join(', '));
         return {
           ...data,
           tool_calls: choice.message.tool_calls,
@@ -435,36 +383,14 @@ export const openai = {
 
       return data;
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error('LLM API error:', error);
       return null;
     }
   },
 
-  // Fetch available models from OpenAI
-  async fetchAvailableModels(): Promise<any[]> {
-    if (!API.OPENAI_API_KEY) {
-      console.warn('OpenAI API key not configured');
-      return [];
-    }
-
-    try {
-      const response = await fetch('https://api.openai.com/v1/models', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API.OPENAI_API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.data || [];
-    } catch (error) {
-      console.error('Error fetching OpenAI models:', error);
-      return [];
-    }
+  // Fetch available models from every configured provider
+  async fetchAvailableModels(): Promise<LLMModel[]> {
+    return listAllModels();
   },
 
   // Extract rate limit information from response headers
@@ -0,0 +1,130 @@
+// PDF capture: storage upload, detection and text/thumbnail extraction
+// Extraction runs in the extract-pdf edge function (MuPDF), since nothing in the app can parse PDFs
+
+import { decode } from 'base-64';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE } from '../constants';
+import { supabase, storage } from './supabase';
+import { BUCKET_NAME } from './imageUpload';
+import { httpFetch } from './http/fixtureFetch';
+
+export interface PdfExtraction {
+  page_count: number;
+  title?: string;
+  author?: string;
+  pages: string[];
+  thumbnail_png?: string; // base64
+}
+
+export interface PdfUploadResult {
+  url: string;
+  path: string;
+}
+
+// Pages are kept in raw_text separated by these markers, so per-page text survives sync
+const PAGE_MARKER = /^--- Page (\d+) ---$/m;
+
+export const isPdfUrl = (url: string): boolean => {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return /\.pdf($|[?#])/i.test(url);
+  }
+};
+
+/**
+ * File name from a PDF URL or path, without the extension
+ */
+export const getPdfFileName = (url: string): string => {
+  const lastSegment = decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() || '');
+  return lastSegment.replace(/\.pdf$/i, '');
+};
+
+export const formatPdfPages = (pages: string[]): string =>
+  pages.map((text, index) => `--- Page ${index + 1} ---\n${text}`).join('\n\n');
+
+export const splitPdfPages = (rawText: string): string[] => {
+  if (!PAGE_MARKER.test(rawText)) return [rawText];
+  return rawText
+    .split(/^--- Page \d+ ---$/m)
+    .slice(1)
+    .map(page => page.trim());
+};
+
+/**
+ * Upload a local PDF (e.g. from the share sheet) to the item storage bucket.
+ * The share extension passes its own authenticated client.
+ */
+export const uploadPdfToStorage = async (
+  uri: string,
+  userId: string,
+  client: SupabaseClient<any> = supabase
+): Promise<PdfUploadResult> => {
+  const response = await fetch(uri);
+  const fileData = new Uint8Array(await response.arrayBuffer());
+
+  // Keep the original file name as the last path segment; it becomes the item title
+  const fileName = (uri.split('/').pop() || 'document.pdf').replace(/[^\w.\-]+/g, '_');
+  const filePath = `${userId}/pdfs/${Date.now()}/${fileName}`;
+
+  const { error } = await client.storage
+    .from(BUCKET_NAME)
+    .upload(filePath, fileData, { contentType: 'application/pdf', upsert: false });
+  if (error) throw error;
+
+  const { data } = client.storage.from(BUCKET_NAME).getPublicUrl(filePath);
+  return { url: data.publicUrl, path: filePath };
+};
+
+/**
+ * Upload the rendered first page as the item thumbnail
+ */
+export const uploadPdfThumbnail = async (base64Png: string, userId: string, itemId: string): Promise<string> => {
+  const binary = decode(base64Png);
+  const fileData = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    fileData[i] = binary.charCodeAt(i);
+  }
+
+  const filePath = `${userId}/${itemId}-pdf-${Date.now()}.png`;
+  const { error } = await storage.uploadImage(BUCKET_NAME, filePath, fileData, 'image/png');
+  if (error) throw error;
+
+  return storage.getPublicUrl(BUCKET_NAME, filePath);
+};
+
+export class PdfExtractionError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'PdfExtractionError';
+    this.status = status;
+  }
+}
+
+/**
+ * Extract per-page text, document info and a first-page thumbnail.
+ * Calls the edge function over httpFetch (not supabase.functions.invoke)
+ * so pipeline dry runs record and replay it like any other request.
+ */
+export const extractPdf = async (url: string, signal?: AbortSignal): Promise<PdfExtraction> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await httpFetch(`${SUPABASE.URL}/functions/v1/extract-pdf`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: SUPABASE.ANON_KEY,
+      Authorization: `Bearer ${session?.access_token || SUPABASE.ANON_KEY}`,
+    },
+    body: JSON.stringify({ url }),
+    signal,
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || data?.error) {
+    throw new PdfExtractionError(response.status, `PDF extraction failed: ${data?.error || `status ${response.status}`}`);
+  }
+
+  return data as PdfExtraction;
+};
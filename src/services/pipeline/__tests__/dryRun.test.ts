@@ -0,0 +1,357 @@
+import { dryRunPipeline, DryRunOptions } from '../dryRun';
+import { PIPELINE_STEPS } from '../runPipeline';
+import type { PipelineRun, StepStatus } from '../types';
+import { fixtureFetch, FixtureSet } from '../../http/fixtureFetch';
+import { API_CONFIG } from '../../../config/api';
+import bookmarkFixtures from '../__fixtures__/bookmark.json';
+import articleFixtures from '../__fixtures__/article.json';
+import githubFixtures from '../__fixtures__/github.json';
+import youtubeFixtures from '../__fixtures__/youtube.json';
+import youtubeShortFixtures from '../__fixtures__/youtube_short.json';
+import xFixtures from '../__fixtures__/x.json';
+import redditFixtures from '../__fixtures__/reddit.json';
+import productFixtures from '../__fixtures__/product.json';
+import tvShowFixtures from '../__fixtures__/tv_show.json';
+import tiktokFixtures from '../__fixtures__/tiktok.json';
+import podcastEpisodeFixtures from '../__fixtures__/podcast_episode.json';
+import pdfFixtures from '../__fixtures__/pdf.json';
+import pdfServedFixtures from '../__fixtures__/pdf_served.json';
+
+// Fixture files are named after the URL they were recorded from
+const replay = (fixtures: FixtureSet, options: Omit<DryRunOptions, 'url' | 'fixtures'> = {}) =>
+  dryRunPipeline({ url: fixtures.name!, fixtures, ...options });
+
+// Steps that ran for the content type; every other step must be skipped as not applicable
+const expectSteps = (run: PipelineRun, contentType: string, ran: Record<string, StepStatus>) => {
+  expect(run.steps.map(step => step.stepId)).toEqual(PIPELINE_STEPS.map(step => step.id));
+  run.steps.forEach(step => {
+    if (step.stepId in ran) {
+      expect({ stepId: step.stepId, status: step.status, error: step.error }).toEqual({
+        stepId: step.stepId,
+        status: ran[step.stepId],
+        error: undefined,
+      });
+      expect(step.attempts).toBe(1);
+    } else {
+      expect(step).toEqual({
+        stepId: step.stepId,
+        status: 'skipped',
+        attempts: 0,
+        durationMs: expect.any(Number),
+        reason: `Not applicable to ${contentType}`,
+      });
+    }
+  });
+};
+
+describe('dryRunPipeline in replay mode', () => {
+  const liveFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = jest.fn(() => Promise.reject(new Error('Replay must not hit the network')));
+  });
+
+  afterEach(() => {
+    global.fetch = liveFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('parses a generic bookmark into a reader body', async () => {
+    const { run, item, metadata, typeMetadata } = await replay(bookmarkFixtures);
+
+    expect(run.itemId).toBe('dry-run');
+    expect(new Date(run.finishedAt).getTime()).toBeGreaterThanOrEqual(new Date(run.startedAt).getTime());
+    expectSteps(run, 'bookmark', { detect_type: 'success', detect_type_ai: 'success', parse_linkedom: 'success' });
+
+    expect(item).toMatchObject({
+      title: 'Offline-first sync, the hard parts',
+      desc: 'Conflict resolution, tombstones and incremental cursors for a local-first app.',
+      thumbnail_url: 'https://blog.example.com/images/offline-sync.png',
+    });
+    expect(item.content_type).toBeUndefined();
+    expect(item.content).toContain('each device keeps a cursor of the last change it has seen');
+    expect(item.content).not.toContain('<nav>');
+    expect(metadata).toBeNull();
+    expect(typeMetadata).toEqual({
+      item_id: 'dry-run',
+      content_type: 'bookmark',
+      data: { word_count: expect.any(Number), reading_minutes: 1, byline: 'Dana Reyes' },
+    });
+  });
+
+  it('classifies an article with the AI step and extracts its reader body', async () => {
+    jest.replaceProperty(API_CONFIG.OPENAI, 'API_KEY', 'test-openai-key');
+    const { run, item, typeMetadata } = await replay(articleFixtures);
+
+    // detect_type leaves it a bookmark; the AI step narrows it to an article
+    expectSteps(run, 'article', { detect_type: 'success', detect_type_ai: 'success', parse_linkedom: 'success' });
+    expect(item).toMatchObject({
+      content_type: 'article',
+      title: 'Cursor-based sync without the pain',
+      desc: 'Pull only what changed since the last sync, and never miss a row.',
+      thumbnail_url: 'https://notes.example.com/img/cursors.png',
+    });
+    expect(item.content).toContain('page by updated_at and id together');
+    expect(item.content).not.toContain('<header>');
+    expect(typeMetadata).toEqual({
+      item_id: 'dry-run',
+      content_type: 'article',
+      data: { word_count: expect.any(Number), reading_minutes: 1, byline: 'Sam Okafor' },
+    });
+  });
+
+  it('enriches a GitHub repository', async () => {
+    const { run, item, metadata, typeMetadata } = await replay(githubFixtures);
+
+    expectSteps(run, 'github', { detect_type: 'success', enrich_github: 'success' });
+    expect(item).toEqual({
+      content_type: 'github',
+      title: 'acme/widgets',
+      desc: 'Composable UI widgets for React Native',
+      thumbnail_url: 'https://opengraph.githubassets.com/1/acme/widgets',
+    });
+    expect(metadata).toMatchObject({ domain: 'github.com', author: 'acme', published_date: '2021-03-04T10:00:00Z' });
+    expect(typeMetadata?.data).toMatchObject({
+      full_name: 'acme/widgets',
+      stars: 1842,
+      language: 'TypeScript',
+      license: 'MIT',
+      // Badge lines are dropped from the excerpt
+      readme_excerpt: '# widgets\n\nComposable UI widgets for React Native.\n\n## Install\n\n```\nnpm install @acme/widgets\n```',
+    });
+  });
+
+  it('enriches a YouTube video through SerpAPI', async () => {
+    jest.replaceProperty(API_CONFIG.SERPAPI, 'API_KEY', 'test-serpapi-key');
+    const { run, item, metadata, typeMetadata } = await replay(youtubeFixtures, { preferences: { youtubeSource: 'serpapi' } });
+
+    // youtubei replays would need YouTube's player script, so the SerpAPI source is recorded
+    expectSteps(run, 'youtube', {
+      detect_type: 'success',
+      enrich_youtube_serpapi: 'success',
+      enrich_youtube: 'skipped',
+    });
+    expect(run.steps.find(step => step.stepId === 'enrich_youtube')?.reason).toBe('Already enriched via SerpAPI');
+    expect(item).toEqual({
+      content_type: 'youtube',
+      title: 'Building a local-first app with Supabase',
+      desc: 'Offline writes, tombstones and cursors, end to end.',
+      thumbnail_url: 'https://i.ytimg.com/vi/Lf1rStS9nCk/maxresdefault.jpg',
+    });
+    expect(metadata).toEqual({ item_id: 'dry-run', author: 'Sync Lab', published_date: '2026-09-02' });
+    expect(typeMetadata).toEqual({
+      item_id: 'dry-run',
+      content_type: 'youtube',
+      data: {
+        video_id: 'Lf1rStS9nCk',
+        view_count: 48213,
+        duration: '24:31',
+        channel_id: 'UCsynclab0000000000000000',
+        channel_name: 'Sync Lab',
+        channel_url: 'https://www.youtube.com/@synclab',
+        category: undefined,
+        tags: ['local-first', 'supabase', 'sync'],
+        is_live: undefined,
+        serpapi_enriched: true,
+      },
+    });
+  });
+
+  it('detects a YouTube Short from its URL', async () => {
+    jest.replaceProperty(API_CONFIG.SERPAPI, 'API_KEY', 'test-serpapi-key');
+    const { run, item, metadata, typeMetadata } = await replay(youtubeShortFixtures, { preferences: { youtubeSource: 'serpapi' } });
+
+    expectSteps(run, 'youtube_short', {
+      detect_type: 'success',
+      enrich_youtube_serpapi: 'success',
+      enrich_youtube: 'skipped',
+    });
+    expect(item).toMatchObject({ content_type: 'youtube_short', title: 'Tombstones in 45 seconds' });
+    // "Premiered" is stripped before the date is parsed
+    expect(metadata).toMatchObject({ published_date: '2026-09-09' });
+    expect(typeMetadata).toMatchObject({
+      content_type: 'youtube_short',
+      data: { video_id: 'Q7bXc2mPz0e', duration: '0:45', serpapi_enriched: true },
+    });
+  });
+
+  it('enriches an X post', async () => {
+    jest.replaceProperty(API_CONFIG.TWITTER, 'BEARER_TOKEN', 'test-x-token');
+    const { run, item, metadata, typeMetadata } = await replay(xFixtures);
+
+    expectSteps(run, 'x', { detect_type: 'success', enrich_x: 'success' });
+    // The post text goes to post_content; X items keep an empty title and desc
+    expect(item).toEqual({
+      content_type: 'x',
+      title: '',
+      desc: null,
+      thumbnail_url: 'https://pbs.twimg.com/media/GYsyncDiagram.jpg',
+      posted_at: '2026-09-20T14:05:00.000Z',
+      post_content: 'Shipped incremental sync today: each device keeps a cursor, deletes are tombstones.',
+    });
+    expect(metadata).toEqual({
+      item_id: 'dry-run',
+      author: 'Dana Reyes',
+      username: 'dana_reyes',
+      profile_image: 'https://pbs.twimg.com/profile_images/1/dana_normal.jpg',
+      published_date: '2026-09-20T14:05:00.000Z',
+    });
+    expect(typeMetadata?.data).toEqual({
+      video_url: undefined,
+      image_urls: ['https://pbs.twimg.com/media/GYsyncDiagram.jpg'],
+    });
+  });
+
+  it('enriches a Reddit post', async () => {
+    const { run, item, metadata, typeMetadata } = await replay(redditFixtures);
+
+    expectSteps(run, 'reddit', { detect_type: 'success', enrich_reddit: 'success' });
+    expect(item).toEqual({
+      content_type: 'reddit',
+      title: 'How do you handle deletes in an offline-first app?',
+      desc: 'r/reactnative: We sync with Supabase and deleted rows keep coming back on other devices. Tombstones? Soft deletes?',
+    });
+    expect(metadata).toEqual({
+      item_id: 'dry-run',
+      author: 'u/sync_curious',
+      published_date: new Date(1759000000 * 1000).toISOString(),
+    });
+    expect(typeMetadata?.data).toMatchObject({
+      subreddit: 'reactnative',
+      ups: 214,
+      num_comments: 48,
+      link_flair_text: 'Question',
+      permalink: 'https://reddit.com/r/reactnative/comments/1k2m3n4/how_do_you_handle_deletes/',
+    });
+  });
+
+  it('enriches an Amazon product from its page tags', async () => {
+    const { run, item, metadata, typeMetadata } = await replay(productFixtures);
+
+    expectSteps(run, 'product', { detect_type: 'success', enrich_amazon: 'success' });
+    expect(item).toEqual({
+      content_type: 'product',
+      title: 'Dot Grid Notebook, A5, 120 Pages',
+      desc: 'Lay-flat binding, 100gsm paper, numbered pages and an index.',
+      thumbnail_url: 'https://m.media-amazon.com/images/I/71dotgridA5.jpg',
+    });
+    expect(metadata).toEqual({ item_id: 'dry-run', domain: 'Amazon' });
+    expect(typeMetadata).toBeNull();
+  });
+
+  it('refines an IMDb title to a TV show', async () => {
+    const { run, item, metadata } = await replay(tvShowFixtures);
+
+    // detect_type files every IMDb title as a movie; steps after enrich_movie see the refined type
+    expect(run.steps.filter(step => step.status !== 'skipped').map(step => [step.stepId, step.status])).toEqual([
+      ['detect_type', 'success'],
+      ['enrich_movie', 'success'],
+    ]);
+    expect(run.steps.find(step => step.stepId === 'enrich_amazon')?.reason).toBe('Not applicable to movie');
+    expect(run.steps.find(step => step.stepId === 'enrich_tiktok')?.reason).toBe('Not applicable to tv_show');
+    expect(item).toEqual({
+      content_type: 'tv_show',
+      title: 'Tombstone Protocol (TV Series 2024– )',
+      desc: 'A sync engineer discovers that nothing she deletes ever really goes away.',
+      thumbnail_url: 'https://m.media-amazon.com/images/M/tombstone-protocol.jpg',
+    });
+    expect(metadata).toEqual({ item_id: 'dry-run', domain: 'IMDb' });
+  });
+
+  it('enriches a TikTok video', async () => {
+    const { run, item, metadata } = await replay(tiktokFixtures);
+
+    expectSteps(run, 'tiktok', { detect_type: 'success', enrich_tiktok: 'success' });
+    expect(item).toEqual({
+      content_type: 'tiktok',
+      title: 'Offline-first in 60 seconds',
+      desc: 'How our app keeps working on the subway #localfirst #sync',
+      thumbnail_url: 'https://p16-sign.tiktokcdn.com/obj/synclab-7423012345678901234.jpeg',
+    });
+    // No author in the page tags, so it comes from the URL
+    expect(metadata).toEqual({ item_id: 'dry-run', domain: 'TikTok', author: '@synclab' });
+  });
+
+  it('splits an Apple Podcasts link into an episode and matches it in the feed', async () => {
+    const { run, item, metadata, typeMetadata } = await replay(podcastEpisodeFixtures);
+
+    // detect_type sees a podcast; the AI step narrows it to an episode by URL
+    expectSteps(run, 'podcast_episode', { detect_type: 'success', detect_type_ai: 'success', enrich_podcast: 'success' });
+    expect(item).toEqual({
+      content_type: 'podcast_episode',
+      title: 'Tombstones and cursors',
+      desc: 'Why deletes are the hardest part of sync.',
+      thumbnail_url: 'https://is1-ssl.mzstatic.com/image/thumb/local-first-radio/1200x630wf.jpg',
+    });
+    expect(metadata).toMatchObject({ author: 'Sam Okafor', published_date: 'Thu, 18 Sep 2026 07:00:00 GMT' });
+    expect(typeMetadata).toEqual({
+      item_id: 'dry-run',
+      content_type: 'podcast_episode',
+      data: {
+        audio_url: 'https://cdn.example.fm/lfr/42.mp3',
+        duration: 2893,
+        episode_number: 42,
+        season_number: 3,
+        is_episode: true,
+      },
+    });
+  });
+
+  it('extracts a PDF through the edge function without uploading a thumbnail', async () => {
+    const { run, item, metadata, typeMetadata } = await replay(pdfFixtures);
+
+    expectSteps(run, 'pdf', { detect_type: 'success', enrich_pdf: 'success' });
+    expect(item).toEqual({
+      content_type: 'pdf',
+      title: 'Local-first software: you own your data',
+      desc: "Local-first software Cloud apps are easy to collaborate in, but the data lives on someone else's server.",
+      raw_text: expect.stringMatching(/^--- Page 1 ---\nLocal-first software[\s\S]*--- Page 3 ---\nReferences$/),
+      // Dry runs skip the storage upload, so the rendered page isn't used
+      thumbnail_url: undefined,
+    });
+    expect(metadata).toEqual({ item_id: 'dry-run', author: 'A. Researcher' });
+    expect(typeMetadata?.data).toEqual({ page_count: 3, extracted_pages: 3, has_text: true });
+  });
+
+  it('switches to PDF when the page request returns one, without a separate type request', async () => {
+    const { run, item, typeMetadata } = await replay(pdfServedFixtures);
+
+    // detect_type only looks at the URL; the parser sees the PDF in its own GET
+    expectSteps(run, 'pdf', {
+      detect_type: 'success',
+      detect_type_ai: 'success',
+      parse_linkedom: 'success',
+      enrich_pdf: 'success',
+    });
+    expect(item).toMatchObject({
+      content_type: 'pdf',
+      title: 'Local-first software: you own your data',
+    });
+    expect(typeMetadata?.data).toEqual({ page_count: 3, extracted_pages: 3, has_text: true });
+  });
+
+  it('fails the step when a request has no fixture, without retrying', async () => {
+    const fixtures: FixtureSet = {
+      ...githubFixtures,
+      fixtures: githubFixtures.fixtures.filter(fixture => !fixture.url.endsWith('/readme')),
+    };
+    const { run, item } = await replay(fixtures);
+
+    const step = run.steps.find(s => s.stepId === 'enrich_github');
+    expect(step).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'No recorded fixture for GET https://api.github.com/repos/acme/widgets/readme',
+    });
+    expect(item).toEqual({ content_type: 'github' });
+  });
+
+  it('goes back to live fetch after the run, and never used the network', async () => {
+    await replay(githubFixtures);
+    expect(fixtureFetch.mode()).toBe('live');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import type { Item, ItemMetadata, ItemTypeMetadata } from '../../types';
+import type { PipelineInput, PipelineRun, PipelineStore } from './types';
+import { executePipeline } from './runPipeline';
+import { fixtureFetch, FixtureSet } from '../http/fixtureFetch';
+
+/**
+ * Dry runs execute the real pipeline steps against a throwaway item and
+ * collect what they would write, without touching the stores or Supabase.
+ * With a fixture set, every HTTP call is answered from the recording, so
+ * enricher changes can be checked without network.
+ */
+
+export interface DryRunOptions {
+  url: string;
+  // Replay HTTP from these fixtures; omit to hit the network
+  fixtures?: FixtureSet;
+  // Starting state of the item, e.g. the content_type of an existing item
+  item?: Partial<Item>;
+  preferences?: PipelineInput['preferences'];
+  steps?: string[];
+}
+
+export interface DryRunResult {
+  run: PipelineRun;
+  // Every item update merged together, in the order the steps wrote them
+  item: Partial<Item>;
+  metadata: ItemMetadata | null;
+  typeMetadata: ItemTypeMetadata | null;
+}
+
+const DRY_RUN_ITEM_ID = 'dry-run';
+
+const assertLiveFetch = () => {
+  if (fixtureFetch.mode() !== 'live') {
+    throw new Error('Another recording or replay is already in progress');
+  }
+};
+
+const runAgainstScratchItem = async (options: Omit<DryRunOptions, 'fixtures'>): Promise<DryRunResult> => {
+  const now = new Date().toISOString();
+  let item: Item = {
+    id: DRY_RUN_ITEM_ID,
+    user_id: '',
+    title: '',
+    url: options.url,
+    content_type: 'bookmark',
+    created_at: now,
+    updated_at: now,
+    is_archived: false,
+    ...options.item,
+  };
+  const result: Omit<DryRunResult, 'run'> = { item: {}, metadata: null, typeMetadata: null };
+
+  // Same merge semantics as the real stores, so later steps see earlier writes
+  const store: PipelineStore = {
+    updateItem: async updates => {
+      item = { ...item, ...updates };
+      result.item = { ...result.item, ...updates };
+    },
+    upsertMetadata: async metadata => {
+      result.metadata = { ...result.metadata, ...metadata };
+    },
+    upsertTypeMetadata: async metadata => {
+      result.typeMetadata = result.typeMetadata
+        ? { ...metadata, data: { ...result.typeMetadata.data, ...metadata.data } }
+        : metadata;
+    },
+    getTypeMetadata: () => result.typeMetadata ?? undefined,
+  };
+
+  const run = await executePipeline(
+    { itemId: item.id, url: options.url, preferences: options.preferences, steps: options.steps },
+    { getItem: () => item, store, dryRun: true }
+  );
+  return { run, ...result };
+};
+
+export async function dryRunPipeline(options: DryRunOptions): Promise<DryRunResult> {
+  assertLiveFetch();
+  if (options.fixtures) fixtureFetch.replay(options.fixtures);
+  try {
+    return await runAgainstScratchItem(options);
+  } finally {
+    fixtureFetch.useLive();
+  }
+}
+
+/**
+ * Dry-run a URL against the live network and record every response, so the
+ * same run can be replayed later with dryRunPipeline({ url, fixtures }).
+ */
+export async function recordPipelineFixtures(
+  options: Omit<DryRunOptions, 'fixtures'>
+): Promise<{ result: DryRunResult; fixtures: FixtureSet }> {
+  assertLiveFetch();
+  fixtureFetch.startRecording();
+  try {
+    const result = await runAgainstScratchItem(options);
+    return { result, fixtures: fixtureFetch.stopRecording(options.url) };
+  } finally {
+    // No-op after a successful stopRecording; leaves record mode if the run threw
+    fixtureFetch.useLive();
+  }
+}
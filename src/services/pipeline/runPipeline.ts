@@ -1,4 +1,17 @@
-import type { StepContext, Step } from './types';
+import uuid from 'react-native-uuid';
+import type {
+  PipelineEnvironment,
+  PipelineInput,
+  PipelineRun,
+  PipelineStore,
+  StepDefinition,
+  StepResult,
+  StepRunRecord,
+} from './types';
+import { itemsStore, itemsActions } from '../../stores/items';
+import { itemMetadataActions } from '../../stores/itemMetadata';
+import { itemTypeMetadataActions, itemTypeMetadataComputed } from '../../stores/itemTypeMetadata';
+import { pipelineRunsActions } from '../../stores/pipelineRuns';
 import { Step01_DetectType } from './steps/Step01_DetectType';
 import { Step02_DetectTypeAI } from './steps/Step02_DetectTypeAI';
 import { Step03_ParseLinkedom } from './steps/Step03_ParseLinkedom';
@@ -11,10 +24,14 @@ import { Step04_5_EnrichAmazon } from './steps/Step04_5_EnrichAmazon';
 import { Step04_6_EnrichMovie } from './steps/Step04_6_EnrichMovie';
 import { Step04_7_EnrichTikTok } from './steps/Step04_7_EnrichTikTok';
 import { Step04_8_EnrichPodcast } from './steps/Step04_8_EnrichPodcast';
+import { Step04_9_EnrichGitHub } from './steps/Step04_9_EnrichGitHub';
+import { Step04_10_EnrichPdf } from './steps/Step04_10_EnrichPdf';
+import { indexItem } from '../embeddings/semanticSearch';
 // import { Step99_Finalize } from './steps/Step99_Finalize';
 
-// Order: Detect type first (URL patterns), then AI fallback, then linkedom fallback for generic bookmarks, then enrichers
-const STEPS: Step[] = [
+// Order: Detect type first (URL patterns), then AI fallback, then linkedom fallback for generic bookmarks, then enrichers.
+// Declared dependencies are validated against this order at load time.
+const STEPS: StepDefinition[] = [
   Step01_DetectType,
   Step02_DetectTypeAI,
   Step03_ParseLinkedom,
@@ -27,17 +44,218 @@ const STEPS: Step[] = [
   Step04_6_EnrichMovie,
   Step04_7_EnrichTikTok,
   Step04_8_EnrichPodcast,
+  Step04_9_EnrichGitHub,
+  Step04_10_EnrichPdf,
 ];
 
-export async function runPipeline(ctx: StepContext) {
-  for (const step of STEPS) {
+const DEFAULT_TIMEOUT_MS = 30000;
+const RETRY_BASE_DELAY_MS = 1000;
+
+class StepTimeoutError extends Error {
+  constructor(stepId: string, timeoutMs: number) {
+    super(`Step ${stepId} timed out after ${timeoutMs}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+const validateStepOrder = (steps: StepDefinition[]) => {
+  const seen = new Set<string>();
+  for (const step of steps) {
+    if (seen.has(step.id)) throw new Error(`[pipeline] Duplicate step id: ${step.id}`);
+    for (const dep of step.dependsOn || []) {
+      if (!seen.has(dep)) throw new Error(`[pipeline] Step ${step.id} depends on ${dep}, which must run before it`);
+    }
+    seen.add(step.id);
+  }
+};
+
+validateStepOrder(STEPS);
+
+// Step list for pickers (e.g. re-enrichment), in execution order
+export const PIPELINE_STEPS: Pick<StepDefinition, 'id' | 'label' | 'contentTypes' | 'excludeContentTypes'>[] =
+  STEPS.map(({ id, label, contentTypes, excludeContentTypes }) => ({ id, label, contentTypes, excludeContentTypes }));
+
+/**
+ * Network failures, timeouts, rate limits and 5xx responses are worth retrying;
+ * anything else (bad data, missing keys) will fail the same way again.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof StepTimeoutError) return true;
+  const status = (error as any)?.status ?? (error as any)?.statusCode;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /network|timed? ?out|fetch failed|ECONNRESET|ETIMEDOUT|socket hang up|rate limit|\b429\b|\b50[0-4]\b/i.test(message);
+};
+
+// Aborts the attempt's signal on timeout so the step can stop its own work
+const withTimeout = <T,>(promise: Promise<T>, controller: AbortController, stepId: string, timeoutMs: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new StepTimeoutError(stepId, timeoutMs));
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * A timed-out attempt may still be running when its retry starts. Its writes
+ * are rejected once the signal is aborted so they can't land on top of the retry.
+ */
+const abortableStore = (store: PipelineStore, signal: AbortSignal, stepId: string): PipelineStore => {
+  const guard = <A,>(write: (arg: A) => Promise<void>) => (arg: A) =>
+    signal.aborted ? Promise.reject(new Error(`Step ${stepId} was aborted`)) : write(arg);
+  return {
+    updateItem: guard(store.updateItem),
+    upsertMetadata: guard(store.upsertMetadata),
+    upsertTypeMetadata: guard(store.upsertTypeMetadata),
+    getTypeMetadata: store.getTypeMetadata,
+  };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const appliesTo = (step: StepDefinition, contentType: string): string | null => {
+  if (step.contentTypes && !step.contentTypes.some(type => type === contentType)) {
+    return `Not applicable to ${contentType}`;
+  }
+  if (step.excludeContentTypes?.some(type => type === contentType)) {
+    return `Not applicable to ${contentType}`;
+  }
+  return null;
+};
+
+const runStep = async (
+  step: StepDefinition,
+  input: PipelineInput,
+  env: PipelineEnvironment
+): Promise<{ record: StepRunRecord; halt: boolean }> => {
+  const startedAt = Date.now();
+  const finish = (fields: Omit<StepRunRecord, 'stepId' | 'durationMs'>, halt = false) => ({
+    record: { stepId: step.id, durationMs: Date.now() - startedAt, ...fields },
+    halt,
+  });
+
+  const maxAttempts = 1 + (step.retries ?? 0);
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    // Re-read on every attempt - earlier steps (or a partial attempt) may have changed the item
+    const item = env.getItem();
+    if (!item) return finish({ status: 'skipped', attempts, reason: 'Item no longer exists' }, true);
+
+    const notApplicable = appliesTo(step, item.content_type);
+    if (notApplicable) return finish({ status: 'skipped', attempts: 0, reason: notApplicable });
+
+    const controller = new AbortController();
     try {
       // eslint-disable-next-line no-await-in-loop
-      await step(ctx);
+      const result: StepResult | void = await withTimeout(
+        step.run({
+          ...input,
+          item,
+          store: abortableStore(env.store, controller.signal, step.id),
+          dryRun: env.dryRun,
+          signal: controller.signal,
+        }),
+        controller,
+        step.id,
+        step.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      );
+      if (result?.skipped) return finish({ status: 'skipped', attempts, reason: result.skipped }, !!result.halt);
+      return finish({ status: 'success', attempts }, !!result?.halt);
     } catch (error) {
-      console.error('[pipeline] Step error:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (attempts < maxAttempts && isTransientError(error)) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+        console.warn(`🔁 [pipeline] ${step.id} failed (attempt ${attempts}/${maxAttempts}), retrying in ${delay}ms:`, message);
+        // eslint-disable-next-line no-await-in-loop
+        await sleep(delay);
+        continue;
+      }
+      console.error(`[pipeline] Step ${step.id} failed:`, error);
+      return finish({ status: 'failed', attempts, error: message });
+    }
+  }
+};
+
+/**
+ * Run the (selected) steps in order against an environment and build the run
+ * log. Shared by live runs and dry runs (see dryRun.ts).
+ */
+export async function executePipeline(input: PipelineInput, env: PipelineEnvironment): Promise<PipelineRun> {
+  const startedAt = new Date();
+  const records: StepRunRecord[] = [];
+  const byId = new Map<string, StepRunRecord>();
+  let haltedBy: string | null = null;
+  const selected = input.steps ? new Set(input.steps) : null;
+
+  for (const step of STEPS) {
+    if (selected && !selected.has(step.id)) continue;
+    let record: StepRunRecord;
+
+    const unmetDependency = (step.dependsOn || []).find(dep => {
+      const status = byId.get(dep)?.status;
+      return status === 'failed' || status === 'blocked';
+    });
+
+    if (haltedBy) {
+      record = { stepId: step.id, status: 'skipped', attempts: 0, durationMs: 0, reason: `Pipeline halted by ${haltedBy}` };
+    } else if (unmetDependency) {
+      record = { stepId: step.id, status: 'blocked', attempts: 0, durationMs: 0, reason: `Dependency ${unmetDependency} did not complete` };
+    } else {
+      // eslint-disable-next-line no-await-in-loop
+      const outcome = await runStep(step, input, env);
+      record = outcome.record;
+      if (outcome.halt) haltedBy = step.id;
     }
+
+    records.push(record);
+    byId.set(step.id, record);
   }
+
+  const finishedAt = new Date();
+  const run: PipelineRun = {
+    id: uuid.v4() as string,
+    itemId: input.itemId,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    steps: records,
+  };
+
+  const failed = records.filter(r => r.status === 'failed').map(r => r.stepId);
+  console.log(
+    `🧪 [pipeline] ${env.dryRun ? 'Dry run of' : 'Finished'} ${input.itemId} in ${run.durationMs}ms` +
+      (failed.length > 0 ? ` (failed: ${failed.join(', ')})` : '')
+  );
+
+  return run;
 }
 
+const liveStore = (itemId: string): PipelineStore => ({
+  updateItem: updates => itemsActions.updateItemWithSync(itemId, updates),
+  upsertMetadata: metadata => itemMetadataActions.upsertMetadata(metadata),
+  upsertTypeMetadata: metadata => itemTypeMetadataActions.upsertTypeMetadata(metadata),
+  getTypeMetadata: () => itemTypeMetadataComputed.getTypeMetadataForItem(itemId),
+});
+
+/**
+ * Run every step in order, recording status, duration and errors per step.
+ * The run log is persisted per item (see pipelineRunsStore) and returned.
+ */
+export async function runPipeline(input: PipelineInput): Promise<PipelineRun> {
+  const run = await executePipeline(input, {
+    getItem: () => itemsStore.items.get().find(i => i.id === input.itemId),
+    store: liveStore(input.itemId),
+    dryRun: false,
+  });
+  pipelineRunsActions.recordRun(run);
 
+  // Embed the enriched item so it shows up in semantic search
+  await indexItem(input.itemId);
+
+  return run;
+}
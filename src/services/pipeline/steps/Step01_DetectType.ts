@@ -1,9 +1,9 @@
-import type { Step } from '../types';
+import type { Step, StepDefinition } from '../types';
 import type { ContentType } from '../../../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
-import { isAmazonUrl } from '../../../utils/urlHelpers';
+import { extractGitHubRepo, isAmazonUrl } from '../../../utils/urlHelpers';
+import { isPdfUrl } from '../../../services/pdf';
 
-export const Step01_DetectType: Step = async ({ itemId, url }) => {
+const detectType: Step = async ({ itemId, url, store }) => {
   console.log('🧭 [Step01_DetectType] Detecting content type');
 
   // STEP 1: Validate URL format
@@ -18,21 +18,22 @@ export const Step01_DetectType: Step = async ({ itemId, url }) => {
   // STEP 2: Handle invalid URLs (convert to notes)
   if (!isValidUrl) {
     console.log('🧭 [Step01_DetectType] Not a valid URL - converting to note');
-    await itemsActions.updateItemWithSync(itemId, {
+    await store.updateItem({
       content_type: 'note',
       title: '',
       notes: url, // Save the text as note body
       url: undefined,
       thumbnail_url: undefined,
     });
-    return; // Stop pipeline here
+    return { halt: true }; // Stop pipeline here
   }
 
   // STEP 3: Detect content type for valid URLs
   const lower = url.toLowerCase();
   let content_type: ContentType = 'bookmark';
   // YouTube detection: Match youtube.com (with any subdomain) or youtu.be
-  if (/(youtube\.com|youtu\.be)/i.test(lower)) content_type = 'youtube';
+  if (/youtube\.com\/shorts\//i.test(lower)) content_type = 'youtube_short';
+  else if (/(youtube\.com|youtu\.be)/i.test(lower)) content_type = 'youtube';
   else if (/(twitter\.com|x\.com)/i.test(lower)) content_type = 'x';
   else if (/instagram\.com/i.test(lower)) content_type = 'instagram';
   else if (/(tiktok\.com|vm\.tiktok\.com)/i.test(lower)) content_type = 'tiktok';
@@ -45,13 +46,22 @@ export const Step01_DetectType: Step = async ({ itemId, url }) => {
   else if (/(podcasts\.apple\.com|itunes\.apple\.com)/i.test(lower)) content_type = 'podcast';
   else if (/(spotify\.com\/episode|spotify\.com\/show)/i.test(lower)) content_type = 'podcast';
   else if (/overcast\.fm/i.test(lower)) content_type = 'podcast';
+  else if (extractGitHubRepo(url)) content_type = 'github';
   else if (isAmazonUrl(url)) content_type = 'product';
+  // Links that serve a PDF without the extension are caught by parse_linkedom
+  else if (isPdfUrl(url)) content_type = 'pdf';
 
   if (content_type !== 'bookmark') {
-    await itemsActions.updateItemWithSync(itemId, { content_type });
+    await store.updateItem({ content_type });
     console.log('🧭 [Step01_DetectType] Set content_type =', content_type);
   } else {
     console.log('🧭 [Step01_DetectType] Defaulting content_type to bookmark');
   }
 };
 
+export const Step01_DetectType: StepDefinition = {
+  id: 'detect_type',
+  label: 'Detect type',
+  run: detectType,
+};
+
@@ -1,11 +1,8 @@
-import type { Step } from '../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
+import type { Step, StepDefinition } from '../types';
 import { classifyUrlWithAI } from '../../../services/aiUrlClassifier';
 
-export const Step02_DetectTypeAI: Step = async ({ itemId, url }) => {
+const detectTypeAI: Step = async ({ itemId, url, item, store }) => {
   console.log('🧠 [Step02_DetectTypeAI] Considering AI classification');
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (!item) return;
 
   // Special handling for podcast URLs - use URL pattern to detect episodes
   if (item.content_type === 'podcast') {
@@ -19,7 +16,7 @@ export const Step02_DetectTypeAI: Step = async ({ itemId, url }) => {
 
     if (isEpisode) {
       console.log('🧠 [Step02_DetectTypeAI] URL pattern indicates podcast episode');
-      await itemsActions.updateItemWithSync(itemId, {
+      await store.updateItem({
         content_type: 'podcast_episode',
       });
     } else {
@@ -29,11 +26,6 @@ export const Step02_DetectTypeAI: Step = async ({ itemId, url }) => {
     return;
   }
 
-  // Skip if already classified (including notes)
-  if (item.content_type !== 'bookmark') {
-    console.log('🧠 [Step02_DetectTypeAI] Skipping AI - content_type already set:', item.content_type);
-    return;
-  }
 
   // Provide minimal context to improve AI accuracy
   let siteName: string | undefined;
@@ -49,10 +41,20 @@ export const Step02_DetectTypeAI: Step = async ({ itemId, url }) => {
 
   if (classified && classified !== 'bookmark') {
     console.log('🧠 [Step02_DetectTypeAI] AI classified as:', classified);
-    await itemsActions.updateItemWithSync(itemId, { content_type: classified });
+    await store.updateItem({ content_type: classified });
   } else {
     console.log('🧠 [Step02_DetectTypeAI] AI returned no better classification');
   }
 };
 
+export const Step02_DetectTypeAI: StepDefinition = {
+  id: 'detect_type_ai',
+  label: 'AI type detection',
+  run: detectTypeAI,
+  // Only unclassified bookmarks go to the AI; podcasts are split into show/episode by URL
+  contentTypes: ['bookmark', 'podcast'],
+  dependsOn: ['detect_type'],
+  retries: 2,
+};
+
 
@@ -1,41 +1,80 @@
-import type { Step } from '../types';
+import type { Step, StepDefinition } from '../types';
+import type { Item } from '../../../types';
 import { parseUrlWithLinkedom } from '../../linkedomParser';
-import { itemsStore, itemsActions } from '../../../stores/items';
 
-export const Step03_ParseLinkedom: Step = async ({ itemId, url }) => {
+// Types that get a reader-mode body even when OG metadata is already present
+const READER_CONTENT_TYPES = ['article', 'bookmark'];
+
+const parseLinkedom: Step = async ({ itemId, url, item, store, signal }) => {
   console.log('🧰 [Step03_ParseLinkedom] Checking if linkedom fallback needed');
 
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (!item) return;
+  const needsMetadata = !(item.title && item.desc);
+  const wantsReader = READER_CONTENT_TYPES.includes(item.content_type);
 
-  // Skip if content_type has a specialized enricher (Step04)
-  const hasEnricher = ['youtube', 'youtube_short', 'x', 'reddit', 'ebay', 'yelp', 'app_store', 'product', 'movie', 'tv_show', 'tiktok', 'podcast', 'podcast_episode', 'note'].includes(item.content_type);
-  if (hasEnricher) {
-    console.log('🧰 [Step03_ParseLinkedom] Skipping - content_type has specialized handler');
-    return;
+  // Skip if metadata already populated and there is no article body to extract
+  if (!needsMetadata && !wantsReader) {
+    console.log('🧰 [Step03_ParseLinkedom] Skipping - metadata already populated');
+    return { skipped: 'Metadata already populated' };
   }
 
-  // Skip if metadata already populated
-  if (item.title && item.desc) {
-    console.log('🧰 [Step03_ParseLinkedom] Skipping - metadata already populated');
+  console.log('🧰 [Step03_ParseLinkedom] Running linkedom parser for generic bookmark');
+  const parsed = await parseUrlWithLinkedom(url, signal);
+
+  // Detected from the page response rather than a separate request in detect_type;
+  // enrich_pdf runs next for the new type
+  if (parsed.isPdf) {
+    console.log('🧰 [Step03_ParseLinkedom] URL serves a PDF - switching content_type to pdf');
+    await store.updateItem({ content_type: 'pdf' });
     return;
   }
 
-  console.log('🧰 [Step03_ParseLinkedom] Running linkedom fallback for generic bookmark');
-  const parsed = await parseUrlWithLinkedom(url);
-
   // If linkedom fails, just skip (don't convert to note anymore - that's handled in Step01)
   if (parsed.title === 'Invalid URL') {
     console.log('🧰 [Step03_ParseLinkedom] Linkedom failed - keeping as bookmark with minimal data');
-    return;
+    return { skipped: 'Page could not be parsed' };
   }
 
-  await itemsActions.updateItemWithSync(itemId, {
-    title: parsed.title,
-    desc: parsed.description,
-    thumbnail_url: parsed.image,
-    content: parsed.html,
-  });
+  const article = wantsReader ? parsed.article : null;
+  const updates: Partial<Item> = {};
+  if (needsMetadata) {
+    updates.title = parsed.title;
+    updates.desc = parsed.description || article?.excerpt;
+    updates.thumbnail_url = parsed.image;
+  }
+  if (article) {
+    // Clean reader body instead of the raw page - readable offline and much smaller
+    updates.content = article.body;
+  } else if (needsMetadata) {
+    updates.content = parsed.html;
+  }
+  await store.updateItem(updates);
+
+  if (article) {
+    await store.upsertTypeMetadata({
+      item_id: itemId,
+      content_type: item.content_type,
+      data: {
+        // Keep user-added images and anything else already stored for the item
+        ...store.getTypeMetadata()?.data,
+        word_count: article.wordCount,
+        reading_minutes: article.readingMinutes,
+        byline: article.byline,
+      },
+    });
+    console.log(`📖 [Step03_ParseLinkedom] Extracted article body (${article.wordCount} words)`);
+  } else if (wantsReader) {
+    console.log('🧰 [Step03_ParseLinkedom] No readable article body found');
+  }
+};
+
+export const Step03_ParseLinkedom: StepDefinition = {
+  id: 'parse_linkedom',
+  label: 'Generic page parser',
+  run: parseLinkedom,
+  // Types with a specialized enricher (Step04) don't need the generic fallback
+  excludeContentTypes: ['youtube', 'youtube_short', 'x', 'reddit', 'ebay', 'yelp', 'app_store', 'product', 'movie', 'tv_show', 'tiktok', 'podcast', 'podcast_episode', 'github', 'pdf', 'note'],
+  dependsOn: ['detect_type_ai'],
+  retries: 2,
 };
 
 
@@ -0,0 +1,54 @@
+import type { Step, StepDefinition } from '../types';
+import { extractPdf, formatPdfPages, getPdfFileName, uploadPdfThumbnail } from '../../../services/pdf';
+
+const enrichPdf: Step = async ({ itemId, url, item, store, dryRun, signal }) => {
+  console.log('📄 [Step04_10_EnrichPdf] Extracting PDF text and thumbnail');
+
+  const pdf = await extractPdf(url, signal);
+  const hasText = pdf.pages.some(page => page.length > 0);
+
+  // Scanned PDFs have no text layer; the thumbnail is still worth keeping
+  let thumbnailUrl = item.thumbnail_url;
+  if (pdf.thumbnail_png && !dryRun) {
+    thumbnailUrl = await uploadPdfThumbnail(pdf.thumbnail_png, item.user_id, itemId);
+  }
+
+  const firstText = pdf.pages.find(page => page.length > 0);
+  await store.updateItem({
+    title: pdf.title?.trim() || getPdfFileName(url) || item.title,
+    desc: item.desc || firstText?.replace(/\s+/g, ' ').slice(0, 300),
+    raw_text: hasText ? formatPdfPages(pdf.pages) : undefined,
+    thumbnail_url: thumbnailUrl,
+  });
+
+  if (pdf.author) {
+    await store.upsertMetadata({ item_id: itemId, author: pdf.author });
+  }
+
+  await store.upsertTypeMetadata({
+    item_id: itemId,
+    content_type: 'pdf',
+    data: {
+      page_count: pdf.page_count,
+      // Pages past the edge function's cap have no extracted text
+      extracted_pages: pdf.pages.length,
+      has_text: hasText,
+    },
+  });
+
+  if (hasText) {
+    console.log(`✅ [Step04_10_EnrichPdf] Extracted ${pdf.pages.length} of ${pdf.page_count} pages`);
+  } else {
+    console.warn('⚠️ [Step04_10_EnrichPdf] PDF has no text layer (scanned?)');
+  }
+};
+
+export const Step04_10_EnrichPdf: StepDefinition = {
+  id: 'enrich_pdf',
+  label: 'PDF',
+  run: enrichPdf,
+  contentTypes: ['pdf'],
+  // Large documents take a while to download and render
+  timeoutMs: 90000,
+  retries: 1,
+};
@@ -1,22 +1,17 @@
-import type { Step } from '../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
+import type { Step, StepDefinition } from '../types';
+import { itemsActions } from '../../../stores/items';
 import { extractYouTubeData } from '../../../services/youtube';
-import { itemMetadataActions } from '../../../stores/itemMetadata';
-import { itemTypeMetadataActions } from '../../../stores/itemTypeMetadata';
-import { itemTypeMetadataComputed } from '../../../stores/itemTypeMetadata';
 import { adminSettingsComputed } from '../../../stores/adminSettings';
 
-export const Step04_1_EnrichYouTube: Step = async ({ itemId, url }) => {
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (item?.content_type !== 'youtube' && item?.content_type !== 'youtube_short') return;
-  // If admin preference is SerpAPI and SerpAPI step enriched, skip youtubei fallback
-  if (adminSettingsComputed.youtubeSource() === 'serpapi') {
-    const md = itemTypeMetadataComputed.getTypeMetadataForItem(itemId);
-    if (md && (md.data as any)?.serpapi_enriched) return;
+const enrichYouTube: Step = async ({ itemId, url, preferences, item, store, dryRun }) => {
+  // If the source is SerpAPI and the SerpAPI step enriched, skip youtubei fallback
+  if ((preferences?.youtubeSource || adminSettingsComputed.youtubeSource()) === 'serpapi') {
+    const md = store.getTypeMetadata();
+    if (md && (md.data as any)?.serpapi_enriched) return { skipped: 'Already enriched via SerpAPI' };
   }
   console.log('🎬 [Step04_1_EnrichYouTube] Enriching from YouTube API');
   const data = await extractYouTubeData(url);
-  await itemsActions.updateItemWithSync(itemId, {
+  await store.updateItem({
     title: data.title || item.title,
     desc: data.description || item.desc,
     thumbnail_url: data.thumbnail || item.thumbnail_url,
@@ -27,14 +22,14 @@ export const Step04_1_EnrichYouTube: Step = async ({ itemId, url }) => {
   });
 
   // Persist cross-type metadata (author, published date)
-  await itemMetadataActions.upsertMetadata({
+  await store.upsertMetadata({
     item_id: itemId,
     author: data.author || undefined,
     published_date: (data as any).publishedAt || undefined,
   });
 
   // Persist type-specific metadata (video id, duration, view count)
-  await itemTypeMetadataActions.upsertTypeMetadata({
+  await store.upsertTypeMetadata({
     item_id: itemId,
     content_type: data.isShort ? 'youtube_short' : 'youtube',
     data: {
@@ -52,11 +47,22 @@ export const Step04_1_EnrichYouTube: Step = async ({ itemId, url }) => {
   });
 
   // Auto-generate transcript if enabled (non-blocking)
-  setTimeout(() => {
-    itemsActions.autoGenerateYouTubeTranscript(itemId).catch(err => {
-      console.error('Error auto-generating YouTube transcript:', err);
-    });
-  }, 100);
+  if (!dryRun) {
+    setTimeout(() => {
+      itemsActions.autoGenerateYouTubeTranscript(itemId).catch(err => {
+        console.error('Error auto-generating YouTube transcript:', err);
+      });
+    }, 100);
+  }
+};
+
+// Runs after the SerpAPI step but doesn't depend on it succeeding - it's the fallback when SerpAPI fails
+export const Step04_1_EnrichYouTube: StepDefinition = {
+  id: 'enrich_youtube',
+  label: 'YouTube',
+  run: enrichYouTube,
+  contentTypes: ['youtube', 'youtube_short'],
+  retries: 2,
 };
 
 
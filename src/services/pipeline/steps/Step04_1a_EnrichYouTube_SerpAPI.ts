@@ -1,26 +1,21 @@
-import type { Step } from '../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
-import { itemMetadataActions } from '../../../stores/itemMetadata';
-import { itemTypeMetadataActions } from '../../../stores/itemTypeMetadata';
+import type { Step, StepDefinition } from '../types';
+import { itemsActions } from '../../../stores/items';
 import { serpapi } from '../../../services/serpapi';
 import { adminSettingsComputed } from '../../../stores/adminSettings';
 import { trackApiUsage } from '../../../services/apiUsageTracking';
 
-export const Step04_1a_EnrichYouTube_SerpAPI: Step = async ({ itemId, url, preferences }) => {
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (!item || (item.content_type !== 'youtube' && item.content_type !== 'youtube_short')) return;
+const enrichYouTubeSerpApi: Step = async ({ itemId, url, preferences, item, store, dryRun }) => {
   const sourcePref = preferences?.youtubeSource || adminSettingsComputed.youtubeSource();
-  if (sourcePref !== 'serpapi') return;
+  if (sourcePref !== 'serpapi') return { skipped: 'YouTube source is not SerpAPI' };
 
   console.log('🎬 [Step04_1a_EnrichYouTube_SerpAPI] Enriching YouTube via SerpAPI');
   const res = await serpapi.fetchYouTubeViaSerpApi(url);
   if ((res as any)?.error) {
-    console.warn('[YouTube_SerpAPI] Skipping due to error:', (res as any).error);
-    return;
+    throw new Error((res as any).error);
   }
 
   // Track API usage for successful enrichment
-  await trackApiUsage('serpapi', 'youtube_enrichment', itemId);
+  if (!dryRun) await trackApiUsage('serpapi', 'youtube_enrichment', itemId);
 
   // Map fields from youtube_video engine or fallback youtube search
   const video = ((): any => {
@@ -28,7 +23,7 @@ export const Step04_1a_EnrichYouTube_SerpAPI: Step = async ({ itemId, url, prefe
     const fromSearch = (res as any)?.video_results?.[0] || (res as any)?.top_result || null;
     return fromSearch;
   })();
-  if (!video) return;
+  if (!video) return { skipped: 'No video found' };
 
   const thumbnail = video.thumbnails?.[0]?.url || video.thumbnail?.static || video.thumbnail?.rich || video.thumbnail || (video.thumbnail_url) || item.thumbnail_url;
 
@@ -44,19 +39,19 @@ export const Step04_1a_EnrichYouTube_SerpAPI: Step = async ({ itemId, url, prefe
     const dd = String(d.getDate()).padStart(2, '0');
     return `${yyyy}-${mm}-${dd}`;
   };
-  await itemsActions.updateItemWithSync(itemId, {
+  await store.updateItem({
     title: video.title || item.title,
     desc: video.description || video.snippet || item.desc,
     thumbnail_url: thumbnail,
   });
 
-  await itemMetadataActions.upsertMetadata({
+  await store.upsertMetadata({
     item_id: itemId,
     author: video.channel?.name || video.channel?.title || video.author,
     published_date: normalizeDate(video.upload_date || video.date || video.published_date),
   });
 
-  await itemTypeMetadataActions.upsertTypeMetadata({
+  await store.upsertTypeMetadata({
     item_id: itemId,
     content_type: item.content_type,
     data: {
@@ -74,11 +69,21 @@ export const Step04_1a_EnrichYouTube_SerpAPI: Step = async ({ itemId, url, prefe
   });
 
   // Auto-generate transcript if enabled (non-blocking)
-  setTimeout(() => {
-    itemsActions.autoGenerateYouTubeTranscript(itemId).catch(err => {
-      console.error('Error auto-generating YouTube transcript:', err);
-    });
-  }, 100);
+  if (!dryRun) {
+    setTimeout(() => {
+      itemsActions.autoGenerateYouTubeTranscript(itemId).catch(err => {
+        console.error('Error auto-generating YouTube transcript:', err);
+      });
+    }, 100);
+  }
+};
+
+export const Step04_1a_EnrichYouTube_SerpAPI: StepDefinition = {
+  id: 'enrich_youtube_serpapi',
+  label: 'YouTube (SerpAPI)',
+  run: enrichYouTubeSerpApi,
+  contentTypes: ['youtube', 'youtube_short'],
+  retries: 2,
 };
 
 
@@ -1,15 +1,11 @@
-import type { Step } from '../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
+import type { Step, StepDefinition } from '../types';
+import { itemsActions } from '../../../stores/items';
 import { extractTweetId, fetchTweetData } from '../../../services/twitter';
-import { itemTypeMetadataActions } from '../../../stores/itemTypeMetadata';
-import { itemMetadataActions } from '../../../stores/itemMetadata';
 
-export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (item?.content_type !== 'x') return;
+const enrichX: Step = async ({ itemId, url, item, store, dryRun }) => {
   console.log('🧵 [Step04_2_EnrichX] Enriching from X API');
   const id = extractTweetId(url);
-  if (!id) return;
+  if (!id) return { skipped: 'No post id in URL' };
   const tweet = await fetchTweetData(id);
 
   // Media
@@ -19,14 +15,14 @@ export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
   const firstImage = imageUrls[0];
 
   // Title/desc policy: title is a short snippet (no username), desc is full text
-  await itemsActions.updateItemWithSync(itemId, {
+  await store.updateItem({
     title: '',
     desc: null as any, // keep desc empty for X posts
     thumbnail_url: videoMedia?.previewUrl || firstImage || item.thumbnail_url,
   });
 
   // Persist media for renderers (cards/views)
-  await itemTypeMetadataActions.upsertTypeMetadata({
+  await store.upsertTypeMetadata({
     item_id: itemId,
     content_type: 'x',
     data: {
@@ -36,7 +32,7 @@ export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
   });
 
   // Persist author/username/published date
-  await itemMetadataActions.upsertMetadata({
+  await store.upsertMetadata({
     item_id: itemId,
     author: tweet.author.name,
     username: tweet.author.username,
@@ -46,7 +42,7 @@ export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
 
   // Optionally mirror posted time on the item if column exists in your DB
   try {
-    await itemsActions.updateItemWithSync(itemId, {
+    await store.updateItem({
       // posted_at is optional; will be ignored by Supabase if column missing in db.updateItem mapping
       // @ts-ignore - field may not exist in local Item type yet
       posted_at: tweet.createdAt as any,
@@ -59,7 +55,7 @@ export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
   }
 
   // Auto-generate video transcript if enabled (non-blocking)
-  if (videoUrl) {
+  if (videoUrl && !dryRun) {
     setTimeout(() => {
       itemsActions.autoGenerateXVideoTranscript(itemId).catch(err => {
         console.error('Error auto-generating X video transcript:', err);
@@ -68,7 +64,7 @@ export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
   }
 
   // Auto-generate image descriptions if enabled (non-blocking)
-  if (imageUrls.length > 0) {
+  if (imageUrls.length > 0 && !dryRun) {
     setTimeout(() => {
       itemsActions.autoGenerateXImageDescriptions(itemId).catch(err => {
         console.error('Error auto-generating X image descriptions:', err);
@@ -77,4 +73,12 @@ export const Step04_2_EnrichX: Step = async ({ itemId, url }) => {
   }
 };
 
+export const Step04_2_EnrichX: StepDefinition = {
+  id: 'enrich_x',
+  label: 'X/Twitter',
+  run: enrichX,
+  contentTypes: ['x'],
+  retries: 2,
+};
+
 
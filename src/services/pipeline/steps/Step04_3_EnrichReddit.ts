@@ -1,34 +1,29 @@
-import type { Step } from '../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
-import { itemMetadataActions } from '../../../stores/itemMetadata';
-import { itemTypeMetadataActions } from '../../../stores/itemTypeMetadata';
+import type { Step, StepDefinition } from '../types';
 import { fetchRedditPostData } from '../../../services/reddit';
 
-export const Step04_3_EnrichReddit: Step = async ({ itemId, url }) => {
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (item?.content_type !== 'reddit') return;
+const enrichReddit: Step = async ({ itemId, url, item, store }) => {
   console.log('🧶 [Step04_3_EnrichReddit] Enriching from Reddit JSON API');
 
   const data = await fetchRedditPostData(url);
-  if (!data) return;
+  if (!data) return { skipped: 'Reddit returned no post data' };
 
   const desc = data.selftext
     ? `r/${data.subreddit}: ${data.selftext.slice(0, 400)}`
     : `r/${data.subreddit}`;
 
-  await itemsActions.updateItemWithSync(itemId, {
+  await store.updateItem({
     title: data.title || item.title,
     desc,
     thumbnail_url: data.thumbnail || data.images?.[0] || item.thumbnail_url,
   });
 
-  await itemMetadataActions.upsertMetadata({
+  await store.upsertMetadata({
     item_id: itemId,
     author: data.author ? `u/${data.author}` : undefined,
     published_date: new Date(data.created_utc * 1000).toISOString(),
   });
 
-  await itemTypeMetadataActions.upsertTypeMetadata({
+  await store.upsertTypeMetadata({
     item_id: itemId,
     content_type: 'reddit',
     data: {
@@ -55,4 +50,12 @@ export const Step04_3_EnrichReddit: Step = async ({ itemId, url }) => {
   });
 };
 
+export const Step04_3_EnrichReddit: StepDefinition = {
+  id: 'enrich_reddit',
+  label: 'Reddit',
+  run: enrichReddit,
+  contentTypes: ['reddit'],
+  retries: 2,
+};
+
 
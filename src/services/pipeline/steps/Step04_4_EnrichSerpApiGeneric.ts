@@ -1,13 +1,7 @@
-import type { Step } from '../types';
-import { itemsStore, itemsActions } from '../../../stores/items';
-import { itemMetadataActions } from '../../../stores/itemMetadata';
-import { itemTypeMetadataActions } from '../../../stores/itemTypeMetadata';
+import type { Step, StepDefinition } from '../types';
 import { serpapi } from '../../../services/serpapi';
 
-export const Step04_4_EnrichSerpApiGeneric: Step = async ({ itemId, url }) => {
-  const item = itemsStore.items.get().find(i => i.id === itemId);
-  if (!item) return;
-
+const enrichSerpApiGeneric: Step = async ({ itemId, url, item, store }) => {
   const hostname = (() => {
     try { return new URL(url).hostname.replace(/^www\./, ''); } catch { return ''; }
   })();
@@ -26,33 +20,39 @@ export const Step04_4_EnrichSerpApiGeneric: Step = async ({ itemId, url }) => {
     res = await serpapi.fetchAppleAppStore(url);
   }
 
-  if (!type || !res || (res as any)?.error) {
-    if ((res as any)?.error) console.warn('[SerpAPI Generic] Error:', (res as any).error);
-    return;
-  }
+  if ((res as any)?.error) throw new Error((res as any).error);
+  if (!type || !res) return { skipped: 'SerpAPI returned no result' };
 
   // Normalize minimal fields across engines
   const title = (res as any)?.title || (res as any)?.product_title || (res as any)?.app_title || (res as any)?.business?.name;
   const description = (res as any)?.description || (res as any)?.snippet || (res as any)?.product_highlights?.[0];
   const thumbnail = (res as any)?.thumbnail || (res as any)?.image || (res as any)?.icon || (res as any)?.business?.image_url;
 
-  await itemsActions.updateItemWithSync(itemId, {
+  await store.updateItem({
     title: title || item.title,
     desc: description || item.desc,
     thumbnail_url: thumbnail || item.thumbnail_url,
   });
 
-  await itemMetadataActions.upsertMetadata({
+  await store.upsertMetadata({
     item_id: itemId,
     author: (res as any)?.seller || (res as any)?.developer || (res as any)?.business?.name,
     published_date: undefined,
   });
 
-  await itemTypeMetadataActions.upsertTypeMetadata({
+  await store.upsertTypeMetadata({
     item_id: itemId,
     content_type: type,
     data: (res as any),
   });
 };
 
+export const Step04_4_EnrichSerpApiGeneric: StepDefinition = {
+  id: 'enrich_serpapi_generic',
+  label: 'eBay / Yelp / App Store',
+  run: enrichSerpApiGeneric,
+  contentTypes: ['ebay', 'yelp', 'app_store'],
+  retries: 2,
+};
+
 
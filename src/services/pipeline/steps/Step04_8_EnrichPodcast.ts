@@ -1,33 +1,10 @@
-import type { Step } from '../types';
-import { itemsActions, itemsStore } from '../../../stores/items';
+import type { Step, StepDefinition } from '../types';
+import { itemsActions } from '../../../stores/items';
 import { extractPodcastData } from '../../../services/podcast';
-import { itemMetadataActions } from '../../../stores/itemMetadata';
-import { itemTypeMetadataActions } from '../../../stores/itemTypeMetadata';
 import { parseUrlWithLinkedom } from '../../linkedomParser';
 
-export const Step04_8_EnrichPodcast: Step = async ({ itemId, url }) => {
-  console.log('🎙️ [Step04_8_EnrichPodcast] Starting podcast enrichment');
-
-  // Read item from local store (pipeline steps run sequentially with await,
-  // so Step02/Step03 store updates will have completed before this step runs)
-  const allItems = itemsStore.items.get();
-  console.log('🎙️ [Step04_8_EnrichPodcast] Total items in store:', allItems.length);
-
-  const item = allItems.find(i => i.id === itemId);
-  if (!item) {
-    console.error('🎙️ [Step04_8_EnrichPodcast] Item not found in store:', itemId);
-    console.error('🎙️ [Step04_8_EnrichPodcast] Available item IDs:', allItems.map(i => i.id).slice(0, 5));
-    return;
-  }
-
-  console.log('🎙️ [Step04_8_EnrichPodcast] Found item, content_type:', item.content_type);
-
-  // Run for both 'podcast' and 'podcast_episode' types
-  // (Need to check both due to potential race condition with store updates)
-  if (item.content_type !== 'podcast' && item.content_type !== 'podcast_episode') {
-    console.log('🎙️ [Step04_8_EnrichPodcast] Skipping - not a podcast, content_type:', item.content_type);
-    return;
-  }
+const enrichPodcast: Step = async ({ itemId, url, item, store, dryRun }) => {
+  console.log('🎙️ [Step04_8_EnrichPodcast] Starting podcast enrichment, content_type:', item.content_type);
 
   // Double-check URL pattern to ensure it's actually an episode
   const isEpisodeUrl =
@@ -48,7 +25,7 @@ export const Step04_8_EnrichPodcast: Step = async ({ itemId, url }) => {
         console.log('🎙️ [Step04_8_EnrichPodcast] Thumbnail:', parsed.image ? 'Yes' : 'No');
 
         // Update item with the fetched metadata
-        await itemsActions.updateItemWithSync(itemId, {
+        await store.updateItem({
           title: parsed.title,
           desc: parsed.description || undefined,
           thumbnail_url: parsed.image || undefined,
@@ -61,7 +38,7 @@ export const Step04_8_EnrichPodcast: Step = async ({ itemId, url }) => {
     }
 
     // Mark as non-episode
-    await itemTypeMetadataActions.upsertTypeMetadata({
+    await store.upsertTypeMetadata({
       item_id: itemId,
       content_type: 'podcast',
       data: {
@@ -69,7 +46,7 @@ export const Step04_8_EnrichPodcast: Step = async ({ itemId, url }) => {
       },
     });
 
-    return;
+    return { skipped: 'Podcast homepage - basic metadata only' };
   }
 
   console.log('🎙️ [Step04_8_EnrichPodcast] URL pattern confirmed as episode');
@@ -88,7 +65,7 @@ export const Step04_8_EnrichPodcast: Step = async ({ itemId, url }) => {
         console.log('🎙️ [Step04_8_EnrichPodcast] Fetched description:', parsed.description ? 'Yes' : 'No');
         console.log('🎙️ [Step04_8_EnrichPodcast] Fetched thumbnail:', parsed.image ? 'Yes' : 'No');
         // Update the item with the fetched metadata
-        await itemsActions.updateItemWithSync(itemId, {
+        await store.updateItem({
           title: episodeTitle,
           desc: parsed.description || undefined,
           thumbnail_url: parsed.image || undefined,
@@ -104,62 +81,70 @@ export const Step04_8_EnrichPodcast: Step = async ({ itemId, url }) => {
   console.log('🎙️ [Step04_8_EnrichPodcast] Enriching podcast from URL');
   console.log('🎙️ [Step04_8_EnrichPodcast] Using episode title for matching:', episodeTitle || '(no title)');
 
-  try {
-    // Pass the episode title as a hint for RSS feed matching
-    const data = await extractPodcastData(url, episodeTitle || undefined);
-
-    // If not a specific episode, skip further enrichment
-    if (!data.isEpisode) {
-      console.log('🎙️ [Step04_8_EnrichPodcast] URL is podcast homepage, not enriching');
-      // Store flag to indicate this is a homepage, not an episode
-      await itemTypeMetadataActions.upsertTypeMetadata({
-        item_id: itemId,
-        content_type: 'podcast_episode',
-        data: {
-          is_episode: false,
-        },
-      });
-      return;
-    }
-
-    // Update item with podcast episode data
-    await itemsActions.updateItemWithSync(itemId, {
-      title: data.title || item.title,
-      desc: data.description || item.desc,
-    });
-
-    // Persist cross-type metadata (author, published date)
-    await itemMetadataActions.upsertMetadata({
-      item_id: itemId,
-      author: data.author || undefined,
-      published_date: data.publishedDate || undefined,
-    });
+  // Pass the episode title as a hint for RSS feed matching
+  const data = await extractPodcastData(url, episodeTitle || undefined);
 
-    // Persist type-specific metadata (audio URL, duration, episode/season numbers)
-    await itemTypeMetadataActions.upsertTypeMetadata({
+  // If not a specific episode, skip further enrichment
+  if (!data.isEpisode) {
+    console.log('🎙️ [Step04_8_EnrichPodcast] URL is podcast homepage, not enriching');
+    // Store flag to indicate this is a homepage, not an episode
+    await store.upsertTypeMetadata({
       item_id: itemId,
       content_type: 'podcast_episode',
       data: {
-        audio_url: data.audioUrl,
-        duration: data.duration,
-        episode_number: data.episodeNumber,
-        season_number: data.seasonNumber,
-        podcast_title: data.podcastTitle,
-        is_episode: true,
+        is_episode: false,
       },
     });
+    return { skipped: 'Not an episode' };
+  }
 
-    // Auto-generate transcript if audio URL is available and enabled (non-blocking)
-    if (data.audioUrl) {
-      setTimeout(() => {
-        itemsActions.autoGeneratePodcastTranscript(itemId).catch(err => {
-          console.error('Error auto-generating podcast transcript:', err);
-        });
-      }, 100);
-    } else {
-      console.log('🎙️ [Step04_8_EnrichPodcast] No audio URL found, skipping transcript generation');
-    }
-  } catch (error) {
-    console.error('Error enriching podcast:', error);
+  // Update item with podcast episode data
+  await store.updateItem({
+    title: data.title || item.title,
+    desc: data.description || item.desc,
+  });
+
+  // Persist cross-type metadata (author, published date)
+  await store.upsertMetadata({
+    item_id: itemId,
+    author: data.author || undefined,
+    published_date: data.publishedDate || undefined,
+  });
+
+  // Persist type-specific metadata (audio URL, duration, episode/season numbers)
+  await store.upsertTypeMetadata({
+    item_id: itemId,
+    content_type: 'podcast_episode',
+    data: {
+      audio_url: data.audioUrl,
+      duration: data.duration,
+      episode_number: data.episodeNumber,
+      season_number: data.seasonNumber,
+      podcast_title: data.podcastTitle,
+      is_episode: true,
+    },
+  });
+
+  // Auto-generate transcript if audio URL is available and enabled (non-blocking)
+  if (!data.audioUrl) {
+    console.log('🎙️ [Step04_8_EnrichPodcast] No audio URL found, skipping transcript generation');
+  } else if (!dryRun) {
+    setTimeout(() => {
+      itemsActions.autoGeneratePodcastTranscript(itemId).catch(err => {
+        console.error('Error auto-generating podcast transcript:', err);
+      });
+    }, 100);
   }
 };
+
+export const Step04_8_EnrichPodcast: StepDefinition = {
+  id: 'enrich_podcast',
+  label: 'Podcasts',
+  run: enrichPodcast,
+  contentTypes: ['podcast', 'podcast_episode'],
+  // Step02 decides between show and episode
+  dependsOn: ['detect_type_ai'],
+  // RSS feed lookups can be slow
+  timeoutMs: 60000,
+  retries: 2,
+};
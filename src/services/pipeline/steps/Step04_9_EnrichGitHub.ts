@@ -0,0 +1,56 @@
+import type { Step, StepDefinition } from '../types';
+import { fetchGitHubRepoData } from '../../../services/github';
+
+const enrichGitHub: Step = async ({ itemId, url, item, store }) => {
+  console.log('🐙 [Step04_9_EnrichGitHub] Enriching from GitHub API');
+
+  const repo = await fetchGitHubRepoData(url);
+  if (!repo) return { skipped: 'Not a public GitHub repository' };
+
+  await store.updateItem({
+    title: repo.full_name,
+    desc: repo.description || item.desc,
+    // GitHub renders a social card per repo with the name, description and stats
+    thumbnail_url: item.thumbnail_url || `https://opengraph.githubassets.com/1/${repo.full_name}`,
+  });
+
+  await store.upsertMetadata({
+    item_id: itemId,
+    domain: 'github.com',
+    author: repo.owner,
+    username: repo.owner,
+    profile_image: repo.owner_avatar,
+    published_date: repo.created_at,
+  });
+
+  await store.upsertTypeMetadata({
+    item_id: itemId,
+    content_type: 'github',
+    data: {
+      full_name: repo.full_name,
+      stars: repo.stars,
+      forks: repo.forks,
+      watchers: repo.watchers,
+      open_issues: repo.open_issues,
+      language: repo.language,
+      topics: repo.topics,
+      license: repo.license,
+      pushed_at: repo.pushed_at,
+      homepage: repo.homepage,
+      archived: repo.archived,
+      is_fork: repo.is_fork,
+      owner_avatar: repo.owner_avatar,
+      readme_excerpt: repo.readme_excerpt,
+    },
+  });
+
+  console.log('✅ [Step04_9_EnrichGitHub] Enriched', repo.full_name);
+};
+
+export const Step04_9_EnrichGitHub: StepDefinition = {
+  id: 'enrich_github',
+  label: 'GitHub',
+  run: enrichGitHub,
+  contentTypes: ['github'],
+  retries: 2,
+};
@@ -1,8 +1,10 @@
-import type { Step } from '../types';
+import type { StepDefinition } from '../types';
 
-export const Step99_Finalize: Step = async () => {
+export const Step99_Finalize: StepDefinition = {
+  id: 'finalize',
+  label: 'Finalize',
   // Reserved for future hooks (e.g., analytics)
-  return;
+  run: async () => {},
 };
 
 
@@ -1,18 +1,84 @@
-import type { Item } from '../../types';
+import type { ContentType, Item, ItemMetadata, ItemTypeMetadata } from '../../types';
 
-export interface StepContext {
+export interface PipelineInput {
   itemId: string;
   url: string;
   preferences?: {
     youtubeSource?: 'youtubei' | 'serpapi';
     youtubeTranscriptSource?: 'youtubei' | 'serpapi';
   };
+  // Only run these step ids (re-enrichment); other steps are left out of the run log
+  steps?: string[];
+}
+
+/**
+ * Where steps write their results. Live runs go through the item stores
+ * (and on to Supabase); dry runs collect the writes instead.
+ */
+export interface PipelineStore {
+  updateItem: (updates: Partial<Item>) => Promise<void>;
+  upsertMetadata: (metadata: ItemMetadata) => Promise<void>;
+  upsertTypeMetadata: (metadata: ItemTypeMetadata) => Promise<void>;
+  getTypeMetadata: () => ItemTypeMetadata | undefined;
+}
+
+// What the runner reads items from and writes results to
+export interface PipelineEnvironment {
+  getItem: () => Item | undefined;
+  store: PipelineStore;
+  dryRun: boolean;
+}
+
+export interface StepContext extends PipelineInput {
+  // Fresh snapshot of the item, re-read by the runner before every step
+  item: Item;
+  store: PipelineStore;
+  // Steps skip fire-and-forget side effects (transcripts, usage tracking) when set
+  dryRun: boolean;
+  // Aborted when the attempt times out; `store` rejects writes from then on
+  signal: AbortSignal;
 }
 
 export interface StepResult {
   updates?: Partial<Item>;
+  // Set when the step decided it had nothing to do; recorded as the skip reason
+  skipped?: string;
+  // Stop the pipeline after this step (e.g. text was converted into a note)
+  halt?: boolean;
 }
 
 export type Step = (ctx: StepContext) => Promise<StepResult | void>;
 
+export interface StepDefinition {
+  id: string;
+  label: string;
+  run: Step;
+  // Content types the step applies to; omit for all types
+  contentTypes?: ContentType[];
+  excludeContentTypes?: ContentType[];
+  // Steps that must have completed (succeeded or skipped) before this one runs
+  dependsOn?: string[];
+  timeoutMs?: number;
+  // Extra attempts for transient failures (network, timeouts, 429/5xx)
+  retries?: number;
+}
+
+export type StepStatus = 'success' | 'skipped' | 'failed' | 'blocked';
+
+export interface StepRunRecord {
+  stepId: string;
+  status: StepStatus;
+  attempts: number;
+  durationMs: number;
+  reason?: string; // why the step was skipped or blocked
+  error?: string;
+}
 
+export interface PipelineRun {
+  id: string;
+  itemId: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  steps: StepRunRecord[];
+}
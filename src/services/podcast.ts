@@ -3,6 +3,9 @@
  * Extracts audio URL and episode information from podcast RSS feeds
  */
 
+import { httpFetch } from './http/fixtureFetch';
+import { PodcastChapter } from '../types';
+
 export interface PodcastEpisodeData {
   audioUrl?: string;
   title?: string;
@@ -56,6 +59,133 @@ export const extractPodcastData = async (url: string, episodeTitle?: string): Pr
   }
 };
 
+export interface FeedEpisode extends Omit<PodcastEpisodeData, 'isEpisode'> {
+  guid: string;
+  link?: string;
+  showNotes?: string;
+  chapters?: PodcastChapter[];
+  chaptersUrl?: string;
+}
+
+export interface PodcastFeed {
+  title?: string;
+  imageUrl?: string;
+  episodes: FeedEpisode[]; // in feed order, usually newest first
+}
+
+/**
+ * Find the RSS feed of a podcast from its homepage (Apple Podcasts show pages,
+ * pages that advertise their feed, or a feed URL itself)
+ */
+export const findPodcastFeedUrl = async (url: string): Promise<string | null> => {
+  try {
+    console.log('🎙️ [Podcast] Looking up feed URL for:', url);
+
+    if (url.includes('podcasts.apple.com')) {
+      const podcastIdMatch = url.match(/\/id(\d+)/);
+      if (!podcastIdMatch) return null;
+      const lookupResponse = await httpFetch(`https://itunes.apple.com/lookup?id=${podcastIdMatch[1]}&entity=podcast`);
+      const lookupData = await lookupResponse.json();
+      return lookupData.results?.[0]?.feedUrl || null;
+    }
+
+    const response = await httpFetch(url);
+    const text = await response.text();
+    if (text.includes('<rss') || text.includes('<feed')) {
+      return url;
+    }
+
+    // <link rel="alternate" type="application/rss+xml" href="...">
+    const linkTags = text.match(/<link[^>]+>/g) || [];
+    for (const tag of linkTags) {
+      if (!/type=["']application\/(rss|atom)\+xml["']/.test(tag)) continue;
+      const hrefMatch = tag.match(/href=["']([^"']+)["']/);
+      if (hrefMatch) {
+        return new URL(decodeHtml(hrefMatch[1]), url).toString();
+      }
+    }
+
+    console.log('🎙️ [Podcast] No feed URL found');
+    return null;
+  } catch (error) {
+    console.error('Error finding podcast feed URL:', error);
+    return null;
+  }
+};
+
+/**
+ * Fetch a podcast RSS feed and parse all of its episodes
+ */
+export const fetchPodcastFeed = async (feedUrl: string): Promise<PodcastFeed> => {
+  const response = await httpFetch(feedUrl);
+  if (!response.ok) {
+    throw new Error(`Feed request failed with status ${response.status}`);
+  }
+  const xml = await response.text();
+  if (!xml.includes('<rss') && !xml.includes('<channel')) {
+    throw new Error('Not an RSS feed');
+  }
+
+  // Channel-level fields come before the first <item>
+  const channelXml = xml.split(/<item[\s>]/)[0];
+  const titleMatch = channelXml.match(/<title>([\s\S]*?)<\/title>/);
+  const imageMatch = channelXml.match(/<itunes:image[^>]*href="([^"]+)"/) || channelXml.match(/<image>[\s\S]*?<url>([\s\S]*?)<\/url>/);
+
+  const episodes: FeedEpisode[] = [];
+  const itemRegex = /<item[\s>]([\s\S]*?)<\/item>/g;
+  let match;
+  while ((match = itemRegex.exec(xml)) !== null) {
+    const itemXml = match[1];
+    const episode = parseEpisodeFromItemXml(itemXml);
+
+    const guidMatch = itemXml.match(/<guid[^>]*>([\s\S]*?)<\/guid>/);
+    const guid = guidMatch ? stripCdata(guidMatch[1]).trim() : episode.audioUrl;
+    if (!guid) continue;
+
+    const linkMatch = itemXml.match(/<link>([\s\S]*?)<\/link>/);
+    // Show notes are usually HTML inside CDATA, often longer in content:encoded
+    const notesMatch = itemXml.match(/<content:encoded>([\s\S]*?)<\/content:encoded>/) || itemXml.match(/<description>([\s\S]*?)<\/description>/);
+    const episodeTitleMatch = itemXml.match(/<title>([\s\S]*?)<\/title>/);
+    const chaptersUrlMatch = itemXml.match(/<podcast:chapters[^>]*url="([^"]+)"/);
+    const chapters = parsePodloveChapters(itemXml);
+
+    episodes.push({
+      ...episode,
+      title: episodeTitleMatch ? decodeHtml(stripCdata(episodeTitleMatch[1])).trim() : episode.title,
+      guid,
+      link: linkMatch ? stripCdata(linkMatch[1]).trim() || undefined : undefined,
+      showNotes: notesMatch ? decodeHtml(stripCdata(notesMatch[1])).trim() || undefined : undefined,
+      chapters: chapters.length > 0 ? chapters : undefined,
+      chaptersUrl: chaptersUrlMatch ? decodeHtml(chaptersUrlMatch[1]) : undefined,
+    });
+  }
+
+  return {
+    title: titleMatch ? decodeHtml(stripCdata(titleMatch[1])).trim() : undefined,
+    imageUrl: imageMatch ? stripCdata(imageMatch[1]).trim() : undefined,
+    episodes,
+  };
+};
+
+/**
+ * Fetch a Podcasting 2.0 chapters file (the url of a <podcast:chapters> tag)
+ */
+export const fetchPodcastChapters = async (chaptersUrl: string): Promise<PodcastChapter[]> => {
+  const response = await httpFetch(chaptersUrl);
+  if (!response.ok) {
+    throw new Error(`Chapters request failed with status ${response.status}`);
+  }
+  const json = await response.json();
+  const chapters: PodcastChapter[] = (json?.chapters || [])
+    // Chapters with toc: false are only meant for artwork changes, not navigation
+    .filter((chapter: any) => typeof chapter?.startTime === 'number' && chapter.toc !== false)
+    .map((chapter: any) => ({
+      start_ms: Math.round(chapter.startTime * 1000),
+      title: chapter.title || 'Untitled chapter',
+    }));
+  return chapters.sort((a, b) => a.start_ms - b.start_ms);
+};
+
 /**
  * Check if URL points to a specific episode or podcast homepage
  */
@@ -106,7 +236,7 @@ const extractApplePodcast = async (url: string, episodeTitle?: string): Promise<
     console.log('🍎 [Apple Podcasts] Podcast ID:', podcastId, 'Episode ID:', episodeId);
 
     // First, fetch episode-specific data from iTunes API
-    const episodeLookupResponse = await fetch(`https://itunes.apple.com/lookup?id=${episodeId}`);
+    const episodeLookupResponse = await httpFetch(`https://itunes.apple.com/lookup?id=${episodeId}`);
     const episodeLookupData = await episodeLookupResponse.json();
 
     let episodeGuid: string | undefined;
@@ -130,7 +260,7 @@ const extractApplePodcast = async (url: string, episodeTitle?: string): Promise<
     }
 
     // Use iTunes API to get podcast feed URL
-    const lookupResponse = await fetch(`https://itunes.apple.com/lookup?id=${podcastId}&entity=podcast`);
+    const lookupResponse = await httpFetch(`https://itunes.apple.com/lookup?id=${podcastId}&entity=podcast`);
     const lookupData = await lookupResponse.json();
 
     if (!lookupData.results || lookupData.results.length === 0) {
@@ -163,7 +293,7 @@ const extractApplePodcast = async (url: string, episodeTitle?: string): Promise<
     console.log('🍎 [Apple Podcasts] Feed URL:', feedUrl);
 
     // Fetch and parse RSS feed
-    const feedResponse = await fetch(feedUrl);
+    const feedResponse = await httpFetch(feedUrl);
     const feedText = await feedResponse.text();
 
     // Try multiple matching strategies in order of reliability:
@@ -243,7 +373,7 @@ const extractOvercastPodcast = async (url: string): Promise<PodcastEpisodeData>
 
     // Overcast URLs often redirect to the actual audio file
     // We can try to fetch the page and look for the audio element
-    const response = await fetch(url);
+    const response = await httpFetch(url);
     const html = await response.text();
 
     // Look for audio source in HTML
@@ -279,7 +409,7 @@ const extractGenericPodcast = async (url: string): Promise<PodcastEpisodeData> =
   try {
     console.log('📻 [Generic] Attempting to fetch as RSS feed');
 
-    const response = await fetch(url);
+    const response = await httpFetch(url);
     const text = await response.text();
 
     // Check if this is an RSS feed
@@ -448,6 +578,33 @@ const parseEpisodeFromItemXml = (itemXml: string): Omit<PodcastEpisodeData, 'isE
   };
 };
 
+const stripCdata = (text: string): string => text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+
+// Podlove Simple Chapters use normal play time: HH:MM:SS(.mmm), MM:SS or seconds
+const parseChapterTime = (time: string): number | null => {
+  const parts = time.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(Number.isNaN)) return null;
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return Math.round(seconds * 1000);
+};
+
+const parsePodloveChapters = (itemXml: string): PodcastChapter[] => {
+  const chapters: PodcastChapter[] = [];
+  const chapterRegex = /<psc:chapter\s([^>]*?)\/?>/g;
+  let match;
+  while ((match = chapterRegex.exec(itemXml)) !== null) {
+    const startMatch = match[1].match(/start="([^"]+)"/);
+    const titleMatch = match[1].match(/title="([^"]*)"/);
+    const startMs = startMatch ? parseChapterTime(startMatch[1]) : null;
+    if (startMs === null) continue;
+    chapters.push({
+      start_ms: startMs,
+      title: titleMatch ? decodeHtml(titleMatch[1]).trim() || 'Untitled chapter' : 'Untitled chapter',
+    });
+  }
+  return chapters.sort((a, b) => a.start_ms - b.start_ms);
+};
+
 /**
  * Decode HTML entities in text
  */
@@ -0,0 +1,184 @@
+import { itemsStore } from '../stores/items';
+import { processingItemsActions, processingItemsComputed } from '../stores/processingItems';
+import { adminSettingsComputed } from '../stores/adminSettings';
+import { runPipeline, PIPELINE_STEPS } from './pipeline/runPipeline';
+import { findUnindexedItems, indexItem } from './embeddings/semanticSearch';
+import type { ContentType, Item } from '../types';
+
+export type ReEnrichTarget =
+  | { kind: 'item'; itemId: string }
+  | { kind: 'items'; itemIds: string[] } // e.g. the currently filtered list
+  | { kind: 'content_type'; contentType: ContentType };
+
+export interface ReEnrichOptions {
+  // Step ids to run; all steps when omitted
+  steps?: string[];
+  // Minimum gap between items, so a large batch doesn't hammer third-party APIs
+  delayMs?: number;
+}
+
+export interface ReEnrichSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: boolean;
+}
+
+const DEFAULT_DELAY_MS = 1500;
+const MAX_DELAY_MS = 30000;
+
+const RATE_LIMIT_PATTERN = /\b429\b|rate limit|too many requests|quota/i;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stepApplies = (step: (typeof PIPELINE_STEPS)[number], contentType: ContentType) =>
+  (!step.contentTypes || step.contentTypes.includes(contentType)) &&
+  !step.excludeContentTypes?.includes(contentType);
+
+/**
+ * Items a re-enrichment would touch. Items without a URL (notes) are never
+ * re-enriched, and when only some steps are selected, items none of them
+ * apply to are left out rather than queued for a run that does nothing.
+ */
+export const resolveReEnrichItems = (target: ReEnrichTarget, steps?: string[]): Item[] => {
+  const items = itemsStore.items.get().filter(item => !item.is_deleted && !!item.url);
+
+  let targeted: Item[];
+  switch (target.kind) {
+    case 'item':
+      targeted = items.filter(item => item.id === target.itemId);
+      break;
+    case 'items': {
+      const ids = new Set(target.itemIds);
+      targeted = items.filter(item => ids.has(item.id));
+      break;
+    }
+    case 'content_type':
+      // Treat 'podcast' and 'podcast_episode' as equivalent
+      targeted = items.filter(item =>
+        target.contentType === 'podcast'
+          ? item.content_type === 'podcast' || item.content_type === 'podcast_episode'
+          : item.content_type === target.contentType
+      );
+      break;
+  }
+
+  if (!steps) return targeted;
+  const selectedSteps = PIPELINE_STEPS.filter(step => steps.includes(step.id));
+  // Type detection steps can change the type, so they apply to everything
+  if (selectedSteps.some(step => !step.contentTypes)) return targeted;
+  return targeted.filter(item => selectedSteps.some(step => stepApplies(step, item.content_type)));
+};
+
+/**
+ * Re-run the enrichment pipeline (or some of its steps) over existing items,
+ * one item at a time. Progress is tracked in processingItemsStore.batch and
+ * can be cancelled between items with processingItemsActions.cancelBatch().
+ * Only one batch runs at a time.
+ */
+export async function reEnrichItems(target: ReEnrichTarget, options: ReEnrichOptions = {}): Promise<ReEnrichSummary> {
+  if (processingItemsComputed.isBatchRunning()) {
+    throw new Error('A re-enrichment is already running');
+  }
+
+  const items = resolveReEnrichItems(target, options.steps);
+  const summary: ReEnrichSummary = { total: items.length, succeeded: 0, failed: 0, cancelled: false };
+  if (items.length === 0) return summary;
+
+  const baseDelay = options.delayMs ?? DEFAULT_DELAY_MS;
+  let delay = baseDelay;
+  const preferences = {
+    youtubeSource: adminSettingsComputed.youtubeSource(),
+    youtubeTranscriptSource: adminSettingsComputed.youtubeTranscriptSource(),
+  };
+
+  console.log(`🔄 [ReEnrich] Re-enriching ${items.length} items` + (options.steps ? ` (steps: ${options.steps.join(', ')})` : ''));
+  processingItemsActions.startBatch(items.length);
+
+  try {
+    for (const [index, item] of items.entries()) {
+      if (processingItemsComputed.batch()?.cancelRequested) {
+        console.log(`🛑 [ReEnrich] Cancelled after ${index} of ${items.length} items`);
+        summary.cancelled = true;
+        break;
+      }
+
+      if (index > 0) {
+        // eslint-disable-next-line no-await-in-loop
+        await sleep(delay);
+      }
+
+      processingItemsActions.setBatchCurrent(item.id);
+      processingItemsActions.add(item.id);
+
+      let success = false;
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const run = await runPipeline({ itemId: item.id, url: item.url!, preferences, steps: options.steps });
+        const failures = run.steps.filter(step => step.status === 'failed');
+        success = failures.length === 0;
+
+        // Back off when providers start rate limiting, and ease off again once they recover
+        if (failures.some(step => RATE_LIMIT_PATTERN.test(step.error || ''))) {
+          delay = Math.min(delay * 2, MAX_DELAY_MS);
+          console.warn(`⏳ [ReEnrich] Rate limited - slowing down to one item every ${delay}ms`);
+        } else {
+          delay = Math.max(baseDelay, Math.floor(delay / 2));
+        }
+      } catch (error) {
+        console.error(`❌ [ReEnrich] Pipeline failed for ${item.id}:`, error);
+      } finally {
+        processingItemsActions.remove(item.id);
+      }
+
+      if (success) summary.succeeded++;
+      else summary.failed++;
+      processingItemsActions.recordBatchResult(success);
+    }
+  } finally {
+    processingItemsActions.finishBatch();
+  }
+
+  console.log(`✅ [ReEnrich] Done: ${summary.succeeded} succeeded, ${summary.failed} failed${summary.cancelled ? ' (cancelled)' : ''}`);
+  return summary;
+}
+
+/**
+ * Embed the items that aren't in the semantic search index yet, one at a
+ * time. Shares the batch progress and cancellation with reEnrichItems; items
+ * edited later are re-indexed as they change.
+ */
+export async function backfillSearchIndex(): Promise<ReEnrichSummary> {
+  if (processingItemsComputed.isBatchRunning()) {
+    throw new Error('A re-enrichment is already running');
+  }
+
+  const items = await findUnindexedItems();
+  const summary: ReEnrichSummary = { total: items.length, succeeded: 0, failed: 0, cancelled: false };
+  if (items.length === 0) return summary;
+
+  console.log(`🧭 [ReEnrich] Indexing ${items.length} items for semantic search`);
+  processingItemsActions.startBatch(items.length, 'Indexing');
+
+  try {
+    for (const [index, item] of items.entries()) {
+      if (processingItemsComputed.batch()?.cancelRequested) {
+        console.log(`🛑 [ReEnrich] Indexing cancelled after ${index} of ${items.length} items`);
+        summary.cancelled = true;
+        break;
+      }
+
+      processingItemsActions.setBatchCurrent(item.id);
+      // eslint-disable-next-line no-await-in-loop
+      const success = await indexItem(item.id);
+      if (success) summary.succeeded++;
+      else summary.failed++;
+      processingItemsActions.recordBatchResult(success);
+    }
+  } finally {
+    processingItemsActions.finishBatch();
+  }
+
+  console.log(`✅ [ReEnrich] Indexed ${summary.succeeded} items, ${summary.failed} failed${summary.cancelled ? ' (cancelled)' : ''}`);
+  return summary;
+}
@@ -0,0 +1,279 @@
+import { resolveToAbsoluteUrl } from '../utils/urlHelpers';
+
+// Readability-style article extraction on top of a parsed (linkedom) document.
+// The body is stored on items.content as a small markdown subset so it can be
+// rendered natively in the reader view and read offline:
+//   ## Heading / ### Subheading, paragraphs, "- " and "1. " list items,
+//   "> " quotes, ``` fenced code, and ![alt](absolute-url) images.
+// Blocks are separated by a blank line.
+
+export interface ExtractedArticle {
+  body: string;
+  wordCount: number;
+  readingMinutes: number;
+  byline?: string;
+  excerpt?: string;
+}
+
+export type ReaderBlock =
+  | { type: 'heading'; level: 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list_item'; ordered: boolean; index: number; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'image'; url: string; alt: string };
+
+// Below this the "article" is usually a landing page, paywall or cookie wall
+export const MIN_ARTICLE_WORDS = 150;
+const WORDS_PER_MINUTE = 230;
+
+const REMOVE_TAGS = 'script, style, noscript, template, nav, header, footer, aside, form, iframe, svg, canvas, button, select, input, textarea, dialog';
+const UNLIKELY_RE = /comment|share|social|related|sidebar|promo|newsletter|subscribe|cookie|consent|banner|advert|sponsor|popup|modal|breadcrumb|pagination|menu|footer|masthead|skip-link/i;
+const POSITIVE_RE = /article|body|content|entry|main|post|story|text|prose/i;
+const NEGATIVE_RE = /hidden|meta|byline|caption|widget|tags|author|related|share|comment|footer|sidebar/i;
+const BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'BLOCKQUOTE', 'PRE', 'IMG', 'FIGURE', 'PICTURE', 'TABLE', 'DIV', 'SECTION', 'ARTICLE', 'MAIN']);
+
+const collapse = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+export const countWords = (text: string) => (text.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || []).length;
+
+export const estimateReadingMinutes = (wordCount: number) => Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
+
+const classAndId = (el: Element) => `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`;
+
+const linkDensity = (el: Element) => {
+  const textLength = collapse(el.textContent).length;
+  if (!textLength) return 0;
+  let linkLength = 0;
+  el.querySelectorAll('a').forEach(a => { linkLength += collapse(a.textContent).length; });
+  return linkLength / textLength;
+};
+
+const classWeight = (el: Element) => {
+  const names = classAndId(el);
+  let weight = 0;
+  if (POSITIVE_RE.test(names)) weight += 25;
+  if (NEGATIVE_RE.test(names)) weight -= 25;
+  return weight;
+};
+
+function stripClutter(root: Element) {
+  root.querySelectorAll(REMOVE_TAGS).forEach(el => el.remove());
+  root.querySelectorAll('[aria-hidden="true"], [hidden], [role="complementary"], [role="navigation"]').forEach(el => el.remove());
+  root.querySelectorAll('[class], [id]').forEach(el => {
+    const names = classAndId(el);
+    if (el.tagName === 'BODY' || el.tagName === 'ARTICLE' || el.tagName === 'MAIN') return;
+    if (UNLIKELY_RE.test(names) && !POSITIVE_RE.test(names)) el.remove();
+  });
+}
+
+// Score every paragraph's parent and grandparent; the best-scoring container wins
+function findMainContainer(root: Element): Element | null {
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, score: number) => {
+    if (!el || el.tagName === 'HTML') return;
+    if (!scores.has(el)) scores.set(el, classWeight(el));
+    scores.set(el, scores.get(el)! + score);
+  };
+
+  root.querySelectorAll('p, pre, td, blockquote').forEach(p => {
+    const text = collapse(p.textContent);
+    if (text.length < 25) return;
+    const score = 1 + text.split(/[,，]/).length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(p.parentElement, score);
+    addScore(p.parentElement?.parentElement ?? null, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  });
+  return best;
+}
+
+function serialize(container: Element, pageUrl: string): string[] {
+  const blocks: string[] = [];
+
+  const pushImage = (img: Element) => {
+    const src = img.getAttribute('src') || img.getAttribute('data-src') || img.getAttribute('data-original');
+    if (!src || src.startsWith('data:')) return;
+    const url = resolveToAbsoluteUrl(pageUrl, src);
+    if (url) blocks.push(`![${collapse(img.getAttribute('alt')).replace(/[[\]]/g, '')}](${url})`);
+  };
+
+  const walk = (el: Element) => {
+    const tag = el.tagName;
+    switch (tag) {
+      case 'H1':
+      case 'H2': {
+        const text = collapse(el.textContent);
+        if (text) blocks.push(`## ${text}`);
+        return;
+      }
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6': {
+        const text = collapse(el.textContent);
+        if (text) blocks.push(`### ${text}`);
+        return;
+      }
+      case 'P': {
+        el.querySelectorAll('img').forEach(pushImage);
+        const text = collapse(el.textContent);
+        if (text) blocks.push(text);
+        return;
+      }
+      case 'UL':
+      case 'OL': {
+        let index = 1;
+        Array.from(el.children).forEach(li => {
+          const text = collapse(li.textContent);
+          if (!text) return;
+          blocks.push(tag === 'OL' ? `${index++}. ${text}` : `- ${text}`);
+        });
+        return;
+      }
+      case 'BLOCKQUOTE': {
+        const text = collapse(el.textContent);
+        if (text) blocks.push(`> ${text}`);
+        return;
+      }
+      case 'PRE': {
+        const text = (el.textContent || '').replace(/\n+$/, '');
+        if (text.trim()) blocks.push('```\n' + text + '\n```');
+        return;
+      }
+      case 'IMG':
+        pushImage(el);
+        return;
+      case 'FIGCAPTION':
+      case 'TABLE':
+        // Tables rarely survive plain-text rendering; captions duplicate alt text
+        return;
+    }
+
+    // Generic container: recurse into block children, keep loose inline text as paragraphs
+    const hasBlockChildren = Array.from(el.children).some(child => BLOCK_TAGS.has(child.tagName));
+    if (!hasBlockChildren) {
+      el.querySelectorAll('img').forEach(pushImage);
+      const text = collapse(el.textContent);
+      if (text.length >= 25) blocks.push(text);
+      return;
+    }
+    Array.from(el.children).forEach(walk);
+  };
+
+  Array.from(container.children).forEach(walk);
+  return blocks;
+}
+
+function findByline(document: Document): string | undefined {
+  const meta = document.querySelector('meta[name="author"]')?.getAttribute('content')
+    || document.querySelector('meta[property="article:author"]')?.getAttribute('content');
+  // article:author is often a profile URL rather than a name
+  if (meta && !/^https?:\/\//i.test(meta)) return collapse(meta);
+  const node = document.querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+  const text = collapse(node?.textContent);
+  return text && text.length < 100 ? text.replace(/^by\s+/i, '') : undefined;
+}
+
+/**
+ * Extract the readable body of an article page.
+ * Mutates the document (clutter is removed in place), so read any metadata first.
+ * Returns null when the page doesn't look like an article.
+ */
+export function extractArticle(document: Document, pageUrl: string): ExtractedArticle | null {
+  const byline = findByline(document);
+  const body = document.body;
+  if (!body) return null;
+
+  stripClutter(body);
+
+  // Trust a semantic <article> when it holds enough text, otherwise score the page
+  const article = document.querySelector('article');
+  const container = article && countWords(collapse(article.textContent)) >= MIN_ARTICLE_WORDS
+    ? article
+    : findMainContainer(body);
+  if (!container) return null;
+
+  const blocks = serialize(container, pageUrl);
+  const wordCount = blocks
+    .filter(block => !block.startsWith('!['))
+    .reduce((total, block) => total + countWords(block), 0);
+  if (wordCount < MIN_ARTICLE_WORDS) return null;
+
+  const firstParagraph = blocks.find(block => !/^(#|!\[|>|-|\d+\.|```)/.test(block));
+  return {
+    body: blocks.join('\n\n'),
+    wordCount,
+    readingMinutes: estimateReadingMinutes(wordCount),
+    byline,
+    excerpt: firstParagraph?.slice(0, 300),
+  };
+}
+
+/**
+ * Split a stored reader body back into renderable blocks.
+ */
+export function parseReaderBlocks(body: string): ReaderBlock[] {
+  const blocks: ReaderBlock[] = [];
+  const chunks: string[] = [];
+
+  // Split on blank lines, but keep fenced code blocks together
+  let fence: string[] | null = null;
+  for (const part of body.split(/\n{2,}/)) {
+    if (fence) {
+      fence.push(part);
+      if (part.trimEnd().endsWith('```')) {
+        chunks.push(fence.join('\n\n'));
+        fence = null;
+      }
+    } else if (part.startsWith('```') && !/\n```\s*$/.test(part)) {
+      fence = [part];
+    } else {
+      chunks.push(part);
+    }
+  }
+  if (fence) chunks.push(fence.join('\n\n'));
+
+  for (const chunk of chunks) {
+    const text = chunk.trim();
+    if (!text) continue;
+
+    if (text.startsWith('```')) {
+      blocks.push({ type: 'code', text: text.replace(/^```\n?/, '').replace(/\n?```$/, '') });
+      continue;
+    }
+    const image = text.match(/^!\[([^\]]*)\]\((\S+)\)$/);
+    if (image) {
+      blocks.push({ type: 'image', alt: image[1], url: image[2] });
+      continue;
+    }
+    const heading = text.match(/^(#{2,3}) (.+)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length === 2 ? 2 : 3, text: heading[2] });
+      continue;
+    }
+    if (text.startsWith('> ')) {
+      blocks.push({ type: 'quote', text: text.slice(2) });
+      continue;
+    }
+    const ordered = text.match(/^(\d+)\. (.+)$/s);
+    if (ordered) {
+      blocks.push({ type: 'list_item', ordered: true, index: Number(ordered[1]), text: ordered[2] });
+      continue;
+    }
+    if (text.startsWith('- ')) {
+      blocks.push({ type: 'list_item', ordered: false, index: 0, text: text.slice(2) });
+      continue;
+    }
+    blocks.push({ type: 'paragraph', text });
+  }
+  return blocks;
+}
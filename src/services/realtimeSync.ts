@@ -12,6 +12,7 @@ import { toastActions } from '../stores/toast';
 import { processingItemsActions } from '../stores/processingItems';
 import { pendingItemsActions, pendingItemsStore, PendingItemDisplay } from '../stores/pendingItems';
 import { pendingItemsProcessor } from './pendingItemsProcessor';
+import { mergeRemoteItem, saveItemBases } from './itemMerge';
 
 /**
  * Real-time sync service that listens for changes from other devices
@@ -119,18 +120,23 @@ class RealtimeSyncService {
             console.log('➕ [RealtimeSync] Adding new item:', newItem.id);
             const convertedItem = this.convertRemoteToLocal(newItem);
             updatedItems.push(convertedItem);
+            await saveItemBases([convertedItem]);
           }
           break;
 
         case 'UPDATE':
-          // Update existing item
+          // Merge field by field so local edits not yet pushed aren't overwritten
           console.log('🔄 [RealtimeSync] Updating item:', newItem.id);
           const itemIndex = updatedItems.findIndex(i => i.id === newItem.id);
+          const mergedItem = await mergeRemoteItem(
+            itemIndex >= 0 ? updatedItems[itemIndex] : undefined,
+            this.convertRemoteToLocal(newItem)
+          );
           if (itemIndex >= 0) {
-            updatedItems[itemIndex] = this.convertRemoteToLocal(newItem);
+            updatedItems[itemIndex] = mergedItem;
           } else {
             // Item doesn't exist locally, add it
-            updatedItems.push(this.convertRemoteToLocal(newItem));
+            updatedItems.push(mergedItem);
           }
           break;
 
@@ -1,6 +1,8 @@
 // Reddit API service for extracting post metadata
 // Uses Reddit's public JSON API (no authentication required)
 
+import { httpFetch } from './http/fixtureFetch';
+
 export interface RedditPostData {
   title: string;
   selftext?: string;
@@ -139,7 +141,7 @@ export async function fetchRedditPostData(url: string): Promise<RedditPostData |
       console.log('Detected Reddit share link, resolving to full URL...');
 
       try {
-        const response = await fetch(url, {
+        const response = await httpFetch(url, {
           method: 'HEAD',
           redirect: 'follow',
           headers: {
@@ -154,7 +156,7 @@ export async function fetchRedditPostData(url: string): Promise<RedditPostData |
         console.error('Failed to resolve share link:', redirectError);
         // Try with GET request as fallback
         try {
-          const response = await fetch(url, {
+          const response = await httpFetch(url, {
             redirect: 'follow',
             headers: {
               'User-Agent': 'MemexSecondBrain/1.0',
@@ -188,7 +190,7 @@ export async function fetchRedditPostData(url: string): Promise<RedditPostData |
 
     console.log('[Reddit] Constructed JSON URL:', jsonUrl);
 
-    const response = await fetch(jsonUrl, {
+    const response = await httpFetch(jsonUrl, {
       headers: {
         'User-Agent': 'MemexSecondBrain/1.0',
         'Accept': 'application/json',
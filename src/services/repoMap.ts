@@ -77,7 +77,8 @@ export const MEMEX_REPO_MAP: RepoMap = {
       name: 'Services',
       description: 'Business logic and external API integrations',
       files: [
-        { path: 'src/services/openai.ts', type: 'service', description: 'OpenAI chat completions with tool support' },
+        { path: 'src/services/openai.ts', type: 'service', description: 'Chat completions with tool support, routed by model to an LLM provider' },
+        { path: 'src/services/llm/index.ts', type: 'service', description: 'LLM provider registry (OpenAI, Anthropic, local OpenAI-compatible) and model refs' },
         { path: 'src/services/assistantTools.ts', type: 'service', description: 'Tool definitions and handlers for assistant' },
         { path: 'src/services/memorySchema.ts', type: 'service', description: 'Memory schema definition for architect mode' },
         { path: 'src/services/supabase.ts', type: 'service', description: 'Supabase client and database operations' },
@@ -0,0 +1,338 @@
+/**
+ * In-memory inverted index with field weighting, light stemming,
+ * quoted phrases, prefix matching and highlighted snippets.
+ *
+ * Pure data structure - store wiring lives in itemSearchIndex.ts.
+ */
+
+export type SearchField =
+  | 'title'
+  | 'tags'
+  | 'desc'
+  | 'tldr'
+  | 'notes'
+  | 'content'
+  | 'transcript'
+  | 'image_descriptions'
+  | 'url'
+  | 'type';
+
+export interface SearchDocument {
+  id: string;
+  fields: Partial<Record<SearchField, string>>;
+}
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  // [start, end) character ranges within text to highlight
+  highlights: Array<[number, number]>;
+}
+
+export interface FullTextResult {
+  id: string;
+  score: number;
+  matchedFields: SearchField[];
+  snippets: SearchSnippet[];
+}
+
+export interface ParsedTextQuery {
+  terms: string[]; // stemmed terms, all required
+  prefixes: string[]; // raw prefixes, all required
+  phrases: string[][]; // stemmed phrase terms, all required
+}
+
+interface Token {
+  term: string;
+  raw: string;
+  start: number;
+  end: number;
+}
+
+// Relative importance of a hit in each field
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2.5,
+  desc: 1.5,
+  tldr: 1.5,
+  notes: 1.3,
+  content: 1,
+  transcript: 0.8,
+  image_descriptions: 0.7,
+  url: 0.6,
+  type: 0.5,
+};
+
+const PHRASE_BONUS = 2;
+const SNIPPET_RADIUS = 60;
+const MAX_SNIPPETS = 2;
+
+// Latin (incl. accented), Greek and Cyrillic letters plus digits
+const TOKEN_PATTERN = /[a-z0-9\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+/g;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'it', 'at', 'by']);
+
+/**
+ * Minimal English suffix stripper - enough to match "videos"/"video",
+ * "running"/"run", "studies"/"study" without pulling in a full stemmer.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+  let w = word;
+  if (w.endsWith('ies') && w.length > 4) return w.slice(0, -3) + 'y';
+  if (w.endsWith('sses')) return w.slice(0, -2);
+  if (/(xes|zes|ches|shes)$/.test(w)) return w.slice(0, -2);
+  if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us') && !w.endsWith('is')) w = w.slice(0, -1);
+  if (w.endsWith('ing') && w.length > 5) w = w.slice(0, -3);
+  else if (w.endsWith('ed') && w.length > 4) w = w.slice(0, -2);
+  else if (w.endsWith('ly') && w.length > 4) w = w.slice(0, -2);
+  // running -> runn -> run
+  if (/([^aeiouls])\1$/.test(w)) w = w.slice(0, -1);
+  return w;
+};
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const lower = text.toLowerCase();
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(lower)) !== null) {
+    tokens.push({
+      raw: match[0],
+      term: stem(match[0]),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+};
+
+/**
+ * Parse free text into required terms, "quoted phrases" and prefixes.
+ * A trailing `*` marks a prefix; with `prefixLast` the final bare word is
+ * also treated as a prefix so results update while the user is typing.
+ */
+export const parseTextQuery = (query: string, options: { prefixLast?: boolean } = {}): ParsedTextQuery => {
+  const parsed: ParsedTextQuery = { terms: [], prefixes: [], phrases: [] };
+  const phrasePattern = /"([^"]*)"?/g;
+  let rest = query;
+
+  let match: RegExpExecArray | null;
+  while ((match = phrasePattern.exec(query)) !== null) {
+    const phraseTerms = tokenize(match[1]).map(t => t.term);
+    if (phraseTerms.length === 1) parsed.terms.push(phraseTerms[0]);
+    else if (phraseTerms.length > 1) parsed.phrases.push(phraseTerms);
+    rest = rest.replace(match[0], ' ');
+  }
+
+  const words = rest.split(/\s+/).filter(Boolean);
+  const endsWithSpace = /\s$/.test(query);
+  words.forEach((word, index) => {
+    const isPrefix = word.endsWith('*') || (options.prefixLast && index === words.length - 1 && !endsWithSpace);
+    const tokens = tokenize(word);
+    tokens.forEach((token, tokenIndex) => {
+      if (isPrefix && tokenIndex === tokens.length - 1) {
+        parsed.prefixes.push(token.raw);
+      } else if (!STOP_WORDS.has(token.raw)) {
+        parsed.terms.push(token.term);
+      }
+    });
+  });
+
+  return parsed;
+};
+
+export class FullTextIndex {
+  // term -> docId -> field -> token positions
+  private postings = new Map<string, Map<string, Map<SearchField, number[]>>>();
+  // raw token -> stemmed term, used for prefix expansion
+  private vocabulary = new Map<string, string>();
+  private documents = new Map<string, SearchDocument>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  clear() {
+    this.postings.clear();
+    this.vocabulary.clear();
+    this.documents.clear();
+  }
+
+  upsert(doc: SearchDocument) {
+    if (this.documents.has(doc.id)) this.remove(doc.id);
+    this.documents.set(doc.id, doc);
+
+    (Object.keys(doc.fields) as SearchField[]).forEach(field => {
+      const text = doc.fields[field];
+      if (!text) return;
+      tokenize(text).forEach((token, position) => {
+        this.vocabulary.set(token.raw, token.term);
+        let byDoc = this.postings.get(token.term);
+        if (!byDoc) {
+          byDoc = new Map();
+          this.postings.set(token.term, byDoc);
+        }
+        let byField = byDoc.get(doc.id);
+        if (!byField) {
+          byField = new Map();
+          byDoc.set(doc.id, byField);
+        }
+        const positions = byField.get(field);
+        if (positions) positions.push(position);
+        else byField.set(field, [position]);
+      });
+    });
+  }
+
+  remove(id: string) {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+    Object.values(doc.fields).forEach(text => {
+      if (!text) return;
+      tokenize(text).forEach(token => {
+        const byDoc = this.postings.get(token.term);
+        if (!byDoc) return;
+        byDoc.delete(id);
+        if (byDoc.size === 0) this.postings.delete(token.term);
+      });
+    });
+    this.documents.delete(id);
+  }
+
+  search(query: string, options: { limit?: number; prefixLast?: boolean } = {}): FullTextResult[] {
+    const parsed = parseTextQuery(query, { prefixLast: options.prefixLast ?? true });
+    const requiredGroups: string[][] = [
+      ...parsed.terms.map(term => [term]),
+      ...parsed.prefixes.map(prefix => this.expandPrefix(prefix)),
+      ...parsed.phrases.flat().map(term => [term]),
+    ];
+    if (requiredGroups.length === 0) return [];
+
+    // Every group (term, prefix expansion, phrase word) must match somewhere in the doc
+    const docsMatching = (group: string[]) => {
+      const docs = new Set<string>();
+      group.forEach(term => this.postings.get(term)?.forEach((_fields, docId) => docs.add(docId)));
+      return docs;
+    };
+    let candidates = [...docsMatching(requiredGroups[0])];
+    for (const group of requiredGroups.slice(1)) {
+      if (candidates.length === 0) break;
+      const docs = docsMatching(group);
+      candidates = candidates.filter(id => docs.has(id));
+    }
+    if (candidates.length === 0) return [];
+
+    const totalDocs = Math.max(this.documents.size, 1);
+    const results: FullTextResult[] = [];
+
+    for (const docId of candidates) {
+      let score = 0;
+      const matchedFields = new Set<SearchField>();
+      const matchedTerms = new Set<string>();
+
+      for (const group of requiredGroups) {
+        for (const term of group) {
+          const byField = this.postings.get(term)?.get(docId);
+          if (!byField) continue;
+          const df = this.postings.get(term)!.size;
+          const idf = Math.log(1 + totalDocs / df);
+          byField.forEach((positions, field) => {
+            score += FIELD_WEIGHTS[field] * (1 + Math.log(positions.length)) * idf;
+            matchedFields.add(field);
+          });
+          matchedTerms.add(term);
+        }
+      }
+
+      // Phrases must appear as consecutive tokens within a single field
+      let phrasesOk = true;
+      for (const phrase of parsed.phrases) {
+        const field = this.findPhraseField(docId, phrase);
+        if (!field) {
+          phrasesOk = false;
+          break;
+        }
+        score += PHRASE_BONUS * FIELD_WEIGHTS[field];
+      }
+      if (!phrasesOk) continue;
+
+      const orderedFields = [...matchedFields].sort((a, b) => FIELD_WEIGHTS[b] - FIELD_WEIGHTS[a]);
+      results.push({
+        id: docId,
+        score,
+        matchedFields: orderedFields,
+        snippets: this.buildSnippets(docId, orderedFields, matchedTerms),
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    // A complete word should still match its other inflections ("runs" -> "running")
+    const terms = new Set<string>(this.postings.has(stem(prefix)) ? [stem(prefix)] : []);
+    this.vocabulary.forEach((term, raw) => {
+      if (raw.startsWith(prefix)) terms.add(term);
+    });
+    return [...terms];
+  }
+
+  private findPhraseField(docId: string, phrase: string[]): SearchField | null {
+    const first = this.postings.get(phrase[0])?.get(docId);
+    if (!first) return null;
+    for (const [field, starts] of first) {
+      const ok = starts.some(start =>
+        phrase.every((term, offset) =>
+          offset === 0 || !!this.postings.get(term)?.get(docId)?.get(field)?.includes(start + offset)
+        )
+      );
+      if (ok) return field;
+    }
+    return null;
+  }
+
+  private buildSnippets(docId: string, fields: SearchField[], terms: Set<string>): SearchSnippet[] {
+    const doc = this.documents.get(docId);
+    if (!doc) return [];
+    const snippets: SearchSnippet[] = [];
+
+    for (const field of fields) {
+      if (snippets.length >= MAX_SNIPPETS) break;
+      const text = doc.fields[field];
+      if (!text) continue;
+
+      const hits = tokenize(text).filter(token => terms.has(token.term));
+      if (hits.length === 0) continue;
+
+      // Window around the first hit, snapped to word boundaries
+      let start = Math.max(0, hits[0].start - SNIPPET_RADIUS);
+      let end = Math.min(text.length, hits[0].end + SNIPPET_RADIUS * 2);
+      if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space !== -1 && space < hits[0].start) start = space + 1;
+      }
+      if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > hits[0].end) end = space;
+      }
+
+      const prefix = start > 0 ? '…' : '';
+      const suffix = end < text.length ? '…' : '';
+      const body = text.slice(start, end).replace(/\s+/g, ' ');
+      // Whitespace collapsing can shift offsets, so re-tokenize the final window
+      const highlights = tokenize(body)
+        .filter(token => terms.has(token.term))
+        .map(token => [token.start + prefix.length, token.end + prefix.length] as [number, number]);
+
+      snippets.push({ field, text: `${prefix}${body}${suffix}`, highlights });
+    }
+
+    return snippets;
+  }
+}
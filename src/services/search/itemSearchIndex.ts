@@ -0,0 +1,127 @@
+import { observable } from '@legendapp/state';
+import { itemsStore } from '../../stores/items';
+import { videoTranscriptsStore } from '../../stores/videoTranscripts';
+import { imageDescriptionsStore } from '../../stores/imageDescriptions';
+import type { Item, VideoTranscript, ImageDescription } from '../../types';
+import { FullTextIndex, SearchDocument, FullTextResult } from './fullTextIndex';
+
+/**
+ * Keeps a FullTextIndex in step with itemsStore, videoTranscriptsStore and
+ * imageDescriptionsStore. Only documents whose signature changed are
+ * re-indexed, so store updates cost O(changed items).
+ */
+
+const index = new FullTextIndex();
+
+// Bumped after every index change so observers (e.g. the grid) recompute
+export const searchIndexStore = observable({ version: 0 });
+
+// item id -> signature of the data that was indexed
+const indexedSignatures = new Map<string, string>();
+
+const itemSignature = (item: Item, transcript?: VideoTranscript, descriptions: ImageDescription[] = []) =>
+  [
+    item.updated_at,
+    item.title,
+    item.tags?.join(','),
+    item.desc?.length,
+    item.tldr?.length,
+    item.notes?.length,
+    item.content?.length,
+    item.url,
+    item.content_type,
+    transcript ? `${transcript.updated_at}:${transcript.transcript.length}` : '',
+    descriptions.map(d => `${d.image_url}:${d.updated_at}`).join('|'),
+  ].join('\u0001');
+
+const buildDocument = (item: Item, transcript?: VideoTranscript, descriptions: ImageDescription[] = []): SearchDocument => ({
+  id: item.id,
+  fields: {
+    title: item.title,
+    tags: item.tags?.join(' '),
+    desc: item.desc,
+    tldr: item.tldr,
+    notes: item.notes,
+    content: item.content || item.raw_text,
+    transcript: transcript?.transcript,
+    image_descriptions: descriptions.map(d => d.description).join('\n'),
+    url: item.url,
+    type: item.content_type.replace(/_/g, ' '),
+  },
+});
+
+const syncIndex = () => {
+  const items = itemsStore.items.get();
+  const transcriptsByItem = new Map(videoTranscriptsStore.transcripts.get().map(t => [t.item_id, t]));
+  const descriptionsByItem = new Map<string, ImageDescription[]>();
+  imageDescriptionsStore.descriptions.get().forEach(d => {
+    const list = descriptionsByItem.get(d.item_id);
+    if (list) list.push(d);
+    else descriptionsByItem.set(d.item_id, [d]);
+  });
+
+  let changed = 0;
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    if (item.is_deleted) continue;
+    seen.add(item.id);
+    const transcript = transcriptsByItem.get(item.id);
+    const descriptions = descriptionsByItem.get(item.id) || [];
+    const signature = itemSignature(item, transcript, descriptions);
+    if (indexedSignatures.get(item.id) === signature) continue;
+
+    index.upsert(buildDocument(item, transcript, descriptions));
+    indexedSignatures.set(item.id, signature);
+    changed++;
+  }
+
+  // Deleted or removed items
+  for (const id of [...indexedSignatures.keys()]) {
+    if (seen.has(id)) continue;
+    index.remove(id);
+    indexedSignatures.delete(id);
+    changed++;
+  }
+
+  if (changed > 0) {
+    console.log(`🔎 [SearchIndex] Updated ${changed} document(s), ${index.size} indexed`);
+    searchIndexStore.version.set(v => v + 1);
+  }
+};
+
+// Coalesce bursts of store writes (e.g. sync reloading every store) into one pass
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+const scheduleSync = () => {
+  if (syncTimer) return;
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncIndex();
+  }, 50);
+};
+
+itemsStore.items.onChange(scheduleSync);
+videoTranscriptsStore.transcripts.onChange(scheduleSync);
+imageDescriptionsStore.descriptions.onChange(scheduleSync);
+scheduleSync();
+
+export const itemSearchIndex = {
+  search: (query: string, options: { limit?: number } = {}): FullTextResult[] => {
+    if (!query.trim()) return [];
+    // Flush pending updates so results reflect the latest edits
+    if (syncTimer) {
+      clearTimeout(syncTimer);
+      syncTimer = null;
+      syncIndex();
+    }
+    return index.search(query, { limit: options.limit, prefixLast: true });
+  },
+
+  rebuild: () => {
+    index.clear();
+    indexedSignatures.clear();
+    syncIndex();
+  },
+
+  size: () => index.size,
+};
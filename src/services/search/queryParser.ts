@@ -0,0 +1,274 @@
+import { CONTENT_TYPES } from '../../constants';
+import type { ContentType, Item, ItemMetadata, ItemTypeMetadata, Space } from '../../types';
+
+/**
+ * Structured search syntax for the search box, e.g.
+ *   type:youtube tag:ml -tag:todo space:"Reading" after:2025-01 is:archived domain:github.com
+ *
+ * Anything that isn't a recognised `key:value` operator is left as free text
+ * for the full-text / semantic search, except `-word` / `-"some phrase"`,
+ * which excludes items containing that text.
+ */
+
+// 'text' is only produced by a negated bare word; there is no `text:` operator
+export type SearchFilterKey = 'type' | 'tag' | 'space' | 'before' | 'after' | 'is' | 'domain' | 'author' | 'has' | 'text';
+
+export type IsValue = 'archived' | 'active' | 'untagged';
+export type HasValue = 'video' | 'images' | 'notes' | 'tldr';
+
+export interface SearchFilter {
+  key: SearchFilterKey;
+  value: string;
+  negated: boolean;
+  // [start, end) of the whole token in the original query, used to remove it again
+  start: number;
+  end: number;
+}
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  filters: SearchFilter[];
+  text: string; // free text with operators stripped
+  errors: SearchQueryError[];
+}
+
+export interface CompiledSearchQuery extends ParsedSearchQuery {
+  predicate: (item: Item) => boolean;
+}
+
+export interface SearchQueryContext {
+  spaces: Space[];
+  getMetadata: (itemId: string) => ItemMetadata | undefined;
+  getTypeMetadata: (itemId: string) => ItemTypeMetadata | undefined;
+  // Membership test for `space:`; defaults to `space_id`, pass the smart-space matcher so rule-based spaces resolve
+  matchSpace?: (space: Space) => (item: Item) => boolean;
+}
+
+const FILTER_KEYS = new Set<SearchFilterKey>(['type', 'tag', 'space', 'before', 'after', 'is', 'domain', 'author', 'has']);
+const IS_VALUES = new Set<IsValue>(['archived', 'active', 'untagged']);
+const HAS_VALUES = new Set<HasValue>(['video', 'images', 'notes', 'tldr']);
+
+// Tokens are bare words or "quoted strings", optionally joined as key:value
+const TOKEN_PATTERN = /(-?)([a-z]+):("([^"]*)"?|\S*)|-?"[^"]*"?|\S+/gi;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+
+/**
+ * Accepts a content type key ("tv_show") or its label ("YouTube Short", "youtube-short")
+ */
+export const resolveContentType = (value: string): ContentType | null => {
+  const normalized = value.toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalized in CONTENT_TYPES) return normalized as ContentType;
+  const byLabel = (Object.keys(CONTENT_TYPES) as ContentType[]).find(
+    type => CONTENT_TYPES[type].label.toLowerCase().replace(/[\s/-]+/g, '_') === normalized
+  );
+  return byLabel || null;
+};
+
+/**
+ * Parse YYYY, YYYY-MM or YYYY-MM-DD into the start of that period (local time).
+ * `after:` is inclusive of the period and `before:` exclusive of it.
+ */
+export const parseDateStart = (value: string): Date | null => {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : 0;
+  const day = match[3] ? Number(match[3]) : 1;
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  return new Date(year, month, day);
+};
+
+const validateFilter = (key: SearchFilterKey, value: string): string | null => {
+  if (!value) return `"${key}:" needs a value`;
+  switch (key) {
+    case 'type':
+      return resolveContentType(value) ? null : `Unknown type "${value}"`;
+    case 'before':
+    case 'after':
+      return parseDateStart(value) ? null : `Invalid date "${value}" (use YYYY, YYYY-MM or YYYY-MM-DD)`;
+    case 'is':
+      return IS_VALUES.has(value.toLowerCase() as IsValue)
+        ? null
+        : `Unknown value "is:${value}" (try ${[...IS_VALUES].join(', ')})`;
+    case 'has':
+      return HAS_VALUES.has(value.toLowerCase() as HasValue)
+        ? null
+        : `Unknown value "has:${value}" (try ${[...HAS_VALUES].join(', ')})`;
+    default:
+      return null;
+  }
+};
+
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { filters: [], text: '', errors: [] };
+  const textParts: string[] = [];
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(query)) !== null) {
+    const [token, negation, rawKey, rawValue, quotedValue] = match;
+    const start = match.index;
+    const end = start + token.length;
+    const key = rawKey?.toLowerCase() as SearchFilterKey | undefined;
+
+    // Not an operator (or a URL like https://...) - keep as free text
+    if (!key || !FILTER_KEYS.has(key) || rawValue.startsWith('//')) {
+      const isNegated = token.length > 1 && token.startsWith('-');
+      const word = isNegated ? token.slice(1) : token;
+      const unterminated = word.startsWith('"') && (word.length === 1 || !word.endsWith('"'));
+      if (unterminated) {
+        parsed.errors.push({ message: 'Unterminated quote', start, end });
+      }
+      if (isNegated && !unterminated) {
+        const value = word.replace(/^"|"$/g, '').trim();
+        if (!value) {
+          parsed.errors.push({ message: '"-" needs a word to exclude', start, end });
+        } else {
+          parsed.filters.push({ key: 'text', value, negated: true, start, end });
+        }
+        continue;
+      }
+      if (!isNegated) textParts.push(token);
+      continue;
+    }
+
+    if (rawValue.startsWith('"') && (rawValue.length === 1 || !rawValue.endsWith('"'))) {
+      parsed.errors.push({ message: 'Unterminated quote', start, end });
+      continue;
+    }
+
+    const value = (quotedValue ?? rawValue).trim();
+    const error = validateFilter(key, value);
+    if (error) {
+      parsed.errors.push({ message: error, start, end });
+      continue;
+    }
+
+    parsed.filters.push({ key, value, negated: negation === '-', start, end });
+  }
+
+  parsed.text = textParts.join(' ');
+  return parsed;
+};
+
+const hostnameOf = (url?: string): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Compile parsed filters into a single predicate. Filters are ANDed;
+ * negated filters are inverted. Space names that don't resolve are
+ * reported back as errors rather than silently matching nothing.
+ */
+export const compileSearchFilters = (
+  filters: SearchFilter[],
+  context: SearchQueryContext
+): { predicate: (item: Item) => boolean; errors: SearchQueryError[] } => {
+  const errors: SearchQueryError[] = [];
+  const checks: Array<(item: Item) => boolean> = [];
+
+  for (const filter of filters) {
+    const value = filter.value.toLowerCase();
+    let check: ((item: Item) => boolean) | null = null;
+
+    switch (filter.key) {
+      case 'type': {
+        const type = resolveContentType(value);
+        // Treat 'podcast' and 'podcast_episode' as equivalent
+        check = type === 'podcast'
+          ? item => item.content_type === 'podcast' || item.content_type === 'podcast_episode'
+          : item => item.content_type === type;
+        break;
+      }
+      case 'tag':
+        check = item => !!item.tags?.some(tag => tag.toLowerCase() === value);
+        break;
+      case 'space': {
+        if (value === 'none') {
+          check = item => !item.space_id;
+          break;
+        }
+        const space = context.spaces.find(s => s.name.toLowerCase() === value);
+        if (!space) {
+          errors.push({ message: `No space named "${filter.value}"`, start: filter.start, end: filter.end });
+          continue;
+        }
+        check = context.matchSpace ? context.matchSpace(space) : item => item.space_id === space.id;
+        break;
+      }
+      case 'before': {
+        const start = parseDateStart(value)!.getTime();
+        check = item => new Date(item.created_at).getTime() < start;
+        break;
+      }
+      case 'after': {
+        const start = parseDateStart(value)!.getTime();
+        check = item => new Date(item.created_at).getTime() >= start;
+        break;
+      }
+      case 'is':
+        if (value === 'archived') check = item => item.is_archived;
+        else if (value === 'active') check = item => !item.is_archived;
+        else check = item => !item.tags || item.tags.length === 0;
+        break;
+      case 'domain':
+        check = item => {
+          const domain = (context.getMetadata(item.id)?.domain || hostnameOf(item.url) || '').toLowerCase().replace(/^www\./, '');
+          return domain === value || domain.endsWith(`.${value}`);
+        };
+        break;
+      case 'author':
+        check = item => {
+          const metadata = context.getMetadata(item.id);
+          return [metadata?.author, metadata?.username].some(field => field?.toLowerCase().includes(value));
+        };
+        break;
+      case 'text':
+        check = item =>
+          [item.title, item.desc, item.content, item.notes, item.tldr, item.url, ...(item.tags || [])]
+            .some(field => field?.toLowerCase().includes(value));
+        break;
+      case 'has':
+        check = item => {
+          const data = context.getTypeMetadata(item.id)?.data;
+          switch (value as HasValue) {
+            case 'video': return !!data?.video_url;
+            case 'images': return !!data?.image_urls?.length;
+            case 'notes': return !!item.notes?.trim();
+            case 'tldr': return !!item.tldr?.trim();
+          }
+        };
+        break;
+    }
+
+    if (check) {
+      const base = check;
+      checks.push(filter.negated ? item => !base(item) : base);
+    }
+  }
+
+  return { predicate: item => checks.every(check => check(item)), errors };
+};
+
+/**
+ * Remove a filter's token from the query text (e.g. when its pill is dismissed)
+ */
+export const removeFilterFromQuery = (query: string, filter: SearchFilter): string =>
+  `${query.slice(0, filter.start)}${query.slice(filter.end)}`.replace(/\s{2,}/g, ' ').trim();
+
+/**
+ * True when the query explicitly asks about archive state, in which case the
+ * default "hide archived items" rule should not apply.
+ */
+export const queryControlsArchive = (parsed: ParsedSearchQuery): boolean =>
+  parsed.filters.some(f => f.key === 'is' && (f.value.toLowerCase() === 'archived' || f.value.toLowerCase() === 'active'));
@@ -1,4 +1,5 @@
 import { API_CONFIG } from '../config/api';
+import { httpFetch } from './http/fixtureFetch';
 
 export interface SerpApiAccount {
   account_id?: string;
@@ -36,7 +37,7 @@ export const serpapi = {
     const url = `${API_CONFIG.SERPAPI.BASE_URL}/account.json?api_key=${encodeURIComponent(apiKey)}`;
 
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -70,7 +71,7 @@ export const serpapi = {
         .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
         .join('&');
     try {
-      const res = await fetch(url);
+      const res = await httpFetch(url);
       const data = await res.json();
       if (!res.ok) return { error: data?.error || `HTTP ${res.status}` };
       return data;
@@ -152,7 +153,7 @@ export const serpapi = {
     const transcriptLink = (meta as any)?.transcript?.serpapi_link;
     if (transcriptLink) {
       try {
-        const resp = await fetch(transcriptLink);
+        const resp = await httpFetch(transcriptLink);
         const data = await resp.json();
         const text = data?.transcript?.text
           || (Array.isArray(data?.transcript) ? data.transcript.map((s: any) => s.snippet || s.text).join('\n') : undefined)
@@ -214,7 +215,7 @@ export const serpapi = {
       const list = (tr as any)?.available_transcripts;
       if (Array.isArray(list) && list.length > 0 && list[0]?.serpapi_link) {
         try {
-          const resp = await fetch(list[0].serpapi_link);
+          const resp = await httpFetch(list[0].serpapi_link);
           const data = await resp.json();
           const out2 = tryAsText(data);
           if (out2.transcript) return out2 as any;
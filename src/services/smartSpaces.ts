@@ -0,0 +1,222 @@
+import { itemsStore } from '../stores/items';
+import { spacesStore } from '../stores/spaces';
+import { itemMetadataComputed } from '../stores/itemMetadata';
+import { itemTypeMetadataComputed } from '../stores/itemTypeMetadata';
+import type { Item, Space, SmartSpaceRule } from '../types';
+import { itemSearchIndex } from './search/itemSearchIndex';
+import {
+  parseSearchQuery,
+  compileSearchFilters,
+  resolveContentType,
+  parseDateStart,
+  queryControlsArchive,
+  SearchQueryError,
+} from './search/queryParser';
+
+/**
+ * Smart spaces are regular `spaces` rows with a `smart_rule`. Their contents
+ * are never stored - they're evaluated live against itemsStore, so a new or
+ * edited item shows up as soon as it matches.
+ */
+
+export const isSmartSpace = (space?: Space | null): boolean => !!space?.smart_rule;
+
+const normalizeDomain = (value: string) => value.toLowerCase().replace(/^www\./, '');
+
+const itemDomain = (item: Item): string => {
+  const domain = itemMetadataComputed.getMetadataForItem(item.id)?.domain;
+  if (domain) return normalizeDomain(domain);
+  try {
+    return item.url ? normalizeDomain(new URL(item.url).hostname) : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Build a predicate for a rule. The free text part of `rule.query` is
+ * resolved through the local full-text index once, up front.
+ */
+const compileRule = (rule: SmartSpaceRule): ((item: Item) => boolean) => {
+  const contentTypes = new Set(rule.content_types || []);
+  // Treat 'podcast' and 'podcast_episode' as equivalent
+  if (contentTypes.has('podcast')) contentTypes.add('podcast_episode');
+  const tags = (rule.tags || []).map(tag => tag.toLowerCase());
+  const excludeTags = (rule.exclude_tags || []).map(tag => tag.toLowerCase());
+  const domains = (rule.domains || []).map(normalizeDomain);
+  const author = rule.author?.toLowerCase();
+  const after = rule.created_after ? new Date(rule.created_after).getTime() : null;
+  const before = rule.created_before ? new Date(rule.created_before).getTime() : null;
+
+  const parsedQuery = rule.query ? parseSearchQuery(rule.query) : null;
+  const queryPredicate = parsedQuery
+    ? compileSearchFilters(parsedQuery.filters, {
+        spaces: spacesStore.spaces.get().filter(space => !space.is_deleted),
+        getMetadata: itemMetadataComputed.getMetadataForItem,
+        getTypeMetadata: itemTypeMetadataComputed.getTypeMetadataForItem,
+        matchSpace: spaceItemMatcher,
+      }).predicate
+    : null;
+  const textMatches = parsedQuery?.text.trim()
+    ? new Set(itemSearchIndex.search(parsedQuery.text).map(result => result.id))
+    : null;
+
+  return (item: Item) => {
+    if (contentTypes.size > 0 && !contentTypes.has(item.content_type)) return false;
+
+    const itemTags = (item.tags || []).map(tag => tag.toLowerCase());
+    if (!tags.every(tag => itemTags.includes(tag))) return false;
+    if (excludeTags.some(tag => itemTags.includes(tag))) return false;
+
+    if (domains.length > 0) {
+      const domain = itemDomain(item);
+      if (!domains.some(d => domain === d || domain.endsWith(`.${d}`))) return false;
+    }
+
+    if (author) {
+      const metadata = itemMetadataComputed.getMetadataForItem(item.id);
+      if (![metadata?.author, metadata?.username].some(value => value?.toLowerCase().includes(author))) return false;
+    }
+
+    const createdAt = new Date(item.created_at).getTime();
+    if (after !== null && createdAt < after) return false;
+    if (before !== null && createdAt >= before) return false;
+
+    if (queryPredicate && !queryPredicate(item)) return false;
+    if (textMatches && !textMatches.has(item.id)) return false;
+
+    return true;
+  };
+};
+
+// Smart spaces being compiled, so a rule whose `space:` points back at itself
+// (directly or through another smart space) matches nothing instead of recursing
+const compilingSpaceIds = new Set<string>();
+
+/**
+ * Membership test for a space - rule matches for smart spaces, `space_id`
+ * otherwise. Compile once and reuse it across a list of items.
+ */
+export const spaceItemMatcher = (space: Space): ((item: Item) => boolean) => {
+  if (!space.smart_rule) return item => item.space_id === space.id;
+  if (compilingSpaceIds.has(space.id)) return () => false;
+  compilingSpaceIds.add(space.id);
+  try {
+    return compileRule(space.smart_rule);
+  } finally {
+    compilingSpaceIds.delete(space.id);
+  }
+};
+
+/**
+ * True when a rule's query sets is:archived / is:active itself, in which
+ * case archived items are left for the rule to decide
+ */
+export const ruleControlsArchive = (rule?: SmartSpaceRule | null): boolean =>
+  !!rule?.query && queryControlsArchive(parseSearchQuery(rule.query));
+
+/**
+ * Items belonging to a space. Deleted items are always excluded; archived
+ * items unless `includeArchived` is set or the rule controls archive state.
+ */
+export const getSpaceItems = (
+  space: Space,
+  options: { items?: Item[]; includeArchived?: boolean } = {}
+): Item[] => {
+  const matches = spaceItemMatcher(space);
+  const includeArchived = options.includeArchived || ruleControlsArchive(space.smart_rule);
+  return (options.items ?? itemsStore.items.get()).filter(
+    item => !item.is_deleted && (includeArchived || !item.is_archived) && matches(item)
+  );
+};
+
+/**
+ * Convert search box syntax into a rule, e.g.
+ *   type:youtube type:podcast tag:ml -tag:todo domain:github.com after:2025-01
+ * Operators without a structured equivalent (is:, has:, space:, negated
+ * types...) stay in `query` along with the free text.
+ */
+export const ruleFromQuery = (query: string): { rule: SmartSpaceRule; errors: SearchQueryError[] } => {
+  const parsed = parseSearchQuery(query);
+  const rule: SmartSpaceRule = {};
+  const remaining: string[] = [];
+
+  for (const filter of parsed.filters) {
+    const token = query.slice(filter.start, filter.end);
+    if (filter.negated) {
+      if (filter.key === 'tag') rule.exclude_tags = [...(rule.exclude_tags || []), filter.value];
+      else remaining.push(token);
+      continue;
+    }
+
+    switch (filter.key) {
+      case 'type':
+        rule.content_types = [...(rule.content_types || []), resolveContentType(filter.value)!];
+        break;
+      case 'tag':
+        rule.tags = [...(rule.tags || []), filter.value];
+        break;
+      case 'domain':
+        rule.domains = [...(rule.domains || []), filter.value];
+        break;
+      case 'author':
+        rule.author = filter.value;
+        break;
+      case 'after':
+        rule.created_after = parseDateStart(filter.value)!.toISOString();
+        break;
+      case 'before':
+        rule.created_before = parseDateStart(filter.value)!.toISOString();
+        break;
+      default:
+        remaining.push(token);
+    }
+  }
+
+  const text = [...remaining, parsed.text].filter(Boolean).join(' ').trim();
+  if (text) rule.query = text;
+  return { rule, errors: parsed.errors };
+};
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Inverse of ruleFromQuery, used to prefill the rule editor
+ */
+export const ruleToQuery = (rule: SmartSpaceRule): string =>
+  [
+    ...(rule.content_types || []).map(type => `type:${type}`),
+    ...(rule.tags || []).map(tag => `tag:${quoteIfNeeded(tag)}`),
+    ...(rule.exclude_tags || []).map(tag => `-tag:${quoteIfNeeded(tag)}`),
+    ...(rule.domains || []).map(domain => `domain:${domain}`),
+    rule.author ? `author:${quoteIfNeeded(rule.author)}` : '',
+    rule.created_after ? `after:${formatDate(rule.created_after)}` : '',
+    rule.created_before ? `before:${formatDate(rule.created_before)}` : '',
+    rule.query || '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Parse rule text from the create/edit sheets and count what it would match,
+ * so the sheet can show a live preview. `rule` is null for empty text.
+ */
+export const previewSmartRule = (
+  query: string
+): { rule: SmartSpaceRule | null; errors: SearchQueryError[]; matchCount: number } => {
+  if (!query.trim()) return { rule: null, errors: [], matchCount: 0 };
+  const { rule, errors } = ruleFromQuery(query);
+  const matches = compileRule(rule);
+  const includeArchived = ruleControlsArchive(rule);
+  const matchCount = itemsStore.items
+    .get()
+    .filter(item => !item.is_deleted && (includeArchived || !item.is_archived) && matches(item)).length;
+  return { rule, errors, matchCount };
+};
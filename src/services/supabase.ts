@@ -1,7 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SUPABASE } from '../constants';
-import { Database } from '../types/database';
+import { Database, Json } from '../types/database';
+import type { TranscriptChapter, TranscriptKeyMoment } from '../types';
 
 console.log('🔍 Creating Supabase client with URL:', SUPABASE.URL.substring(0, 30) + '...');
 
@@ -95,8 +96,8 @@ export const db = {
     return { data, error };
   },
 
-  searchItems: async (userId: string, query: string, limit = 20, offset = 0) => {
-    const { data, error } = await supabase
+  searchItems: async (userId: string, query: string, limit = 20, offset = 0, includeArchived = false) => {
+    let request = supabase
       .from('items')
       .select(`
         *,
@@ -107,8 +108,13 @@ export const db = {
         )
       `)
       .eq('user_id', userId)
-      .eq('is_deleted', false)
-      .eq('is_archived', false)
+      .eq('is_deleted', false);
+
+    if (!includeArchived) {
+      request = request.eq('is_archived', false);
+    }
+
+    const { data, error } = await request
       .or(`title.ilike.%${query}%,desc.ilike.%${query}%,content.ilike.%${query}%,tags.cs.{${query}}`)
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
@@ -116,6 +122,77 @@ export const db = {
     return { data, error };
   },
 
+  getItemsByIds: async (userId: string, ids: string[]) => {
+    const { data, error } = await supabase
+      .from('items')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', ids);
+
+    return { data, error };
+  },
+
+  // Item embeddings (semantic search)
+  getItemEmbeddingHashes: async (itemId: string) => {
+    const { data, error } = await supabase
+      .from('item_embeddings')
+      .select('source, chunk_index, content_hash, model')
+      .eq('item_id', itemId);
+
+    return { data, error };
+  },
+
+  // First chunk of each source embedded by `model`; every indexed item has at least one
+  getEmbeddedItemIds: async (userId: string, model: string, offset = 0, limit = 1000) => {
+    const { data, error } = await supabase
+      .from('item_embeddings')
+      .select('item_id')
+      .eq('user_id', userId)
+      .eq('model', model)
+      .eq('chunk_index', 0)
+      .range(offset, offset + limit - 1);
+
+    return { data, error };
+  },
+
+  replaceItemEmbeddings: async (itemId: string, rows: Database['public']['Tables']['item_embeddings']['Insert'][]) => {
+    const { error: deleteError } = await supabase
+      .from('item_embeddings')
+      .delete()
+      .eq('item_id', itemId);
+
+    if (deleteError || rows.length === 0) {
+      return { error: deleteError };
+    }
+
+    const { error } = await supabase
+      .from('item_embeddings')
+      .insert(rows);
+
+    return { error };
+  },
+
+  matchItemEmbeddings: async (userId: string, embedding: number[], matchCount = 20, includeArchived = false) => {
+    const { data, error } = await supabase.rpc('match_item_embeddings', {
+      query_embedding: JSON.stringify(embedding),
+      p_user_id: userId,
+      match_count: matchCount,
+      include_archived: includeArchived,
+    });
+
+    return { data, error };
+  },
+
+  matchItemChunks: async (itemId: string, embedding: number[], matchCount = 20) => {
+    const { data, error } = await supabase.rpc('match_item_chunks', {
+      query_embedding: JSON.stringify(embedding),
+      p_item_id: itemId,
+      match_count: matchCount,
+    });
+
+    return { data, error };
+  },
+
   createItem: async (item: Omit<Database['public']['Tables']['items']['Insert'], 'id' | 'created_at' | 'updated_at'>) => {
     const { data, error } = await supabase
       .from('items')
@@ -204,11 +281,15 @@ export const db = {
     language: string;
     duration?: number;
     segments?: Array<{ startMs: number; endMs?: number; text: string }>;
+    chapters?: TranscriptChapter[] | null;
+    key_moments?: TranscriptKeyMoment[] | null;
   }) => {
     const { data, error } = await supabase
       .from('video_transcripts')
       .upsert({
         ...transcript,
+        chapters: (transcript.chapters ?? null) as Json | null,
+        key_moments: (transcript.key_moments ?? null) as Json | null,
         fetched_at: new Date().toISOString(),
       })
       .select()
@@ -101,6 +101,7 @@ export const syncOperations = {
         description: space.description || space.desc || null,
         color: space.color,
         item_count: space.item_count || 0,
+        smart_rule: space.smart_rule || null,
         created_at: space.created_at || new Date().toISOString(),
         updated_at: space.updated_at || new Date().toISOString(),
       });
@@ -119,6 +120,7 @@ export const syncOperations = {
         item_count: space.item_count || 0,
         is_archived: space.is_archived || false,
         archived_at: space.archived_at || null,
+        smart_rule: space.smart_rule || null,
         updated_at: new Date().toISOString(),
       })
       .eq('id', space.id);
@@ -223,6 +225,8 @@ export const syncOperations = {
       language: transcript.language,
       duration: transcript.duration,
       segments: transcript.segments,
+      chapters: transcript.chapters,
+      key_moments: transcript.key_moments,
     });
     
     if (error) throw error;
@@ -12,6 +12,32 @@ import { itemMetadataActions } from '../stores/itemMetadata';
 import { itemTypeMetadataActions } from '../stores/itemTypeMetadata';
 import { videoTranscriptsActions } from '../stores/videoTranscripts';
 import { userSettingsActions } from '../stores/userSettings';
+import { itemConflictsActions } from '../stores/itemConflicts';
+import {
+  SyncTable,
+  SyncDeletion,
+  TableSyncState,
+  DeltaTableConfig,
+  SYNC_TABLES,
+  initialTableSyncState,
+  loadSyncCursors,
+  saveSyncCursors,
+  pullTableChanges,
+  pullDeletions,
+  findRemotelyDeletedKeys,
+  recordKey,
+  chunk,
+} from './deltaSync';
+import {
+  MERGEABLE_ITEM_FIELDS,
+  getItemBase,
+  saveItemBases,
+  removeItemBases,
+  snapshotItem,
+  mergeItemFields,
+  mergeRemoteItems,
+  diffItemFields,
+} from './itemMerge';
 
 interface SyncResult {
   success: boolean;
@@ -20,6 +46,97 @@ interface SyncResult {
   timestamp: string;
 }
 
+const VALID_CONTENT_TYPES = ['bookmark', 'youtube', 'youtube_short', 'x', 'github', 'instagram', 'tiktok', 'reddit', 'amazon', 'linkedin', 'image', 'pdf', 'video', 'audio', 'note', 'article', 'product', 'book', 'course'];
+
+// Convert remote item to local format
+const toLocalItem = (remoteItem: any): Item => ({
+  id: remoteItem.id,
+  user_id: remoteItem.user_id,
+  title: remoteItem.title,
+  desc: remoteItem.desc,
+  content: remoteItem.content,
+  url: remoteItem.url,
+  thumbnail_url: remoteItem.thumbnail_url,
+  tags: remoteItem.tags || null,
+  content_type: remoteItem.content_type as ContentType,
+  space_id: remoteItem.space_id || null,
+  is_archived: remoteItem.is_archived || false,
+  archived_at: remoteItem.archived_at || null,
+  auto_archived: remoteItem.auto_archived || false,
+  is_deleted: remoteItem.is_deleted || false,
+  deleted_at: remoteItem.deleted_at || null,
+  tldr: remoteItem.tldr || null,
+  notes: remoteItem.notes || null,
+  raw_text: remoteItem.raw_text,
+  created_at: remoteItem.created_at,
+  updated_at: remoteItem.updated_at,
+});
+
+// How each synced table maps onto its AsyncStorage copy
+const DELTA_TABLES: Record<SyncTable, DeltaTableConfig> = {
+  spaces: {
+    table: 'spaces',
+    storageKey: STORAGE_KEYS.SPACES,
+    keyColumns: ['id'],
+    userScoped: true,
+    toLocal: (row): Space => row,
+  },
+  items: {
+    table: 'items',
+    storageKey: STORAGE_KEYS.ITEMS,
+    keyColumns: ['id'],
+    userScoped: true,
+    toLocal: toLocalItem,
+    mergeRows: mergeRemoteItems,
+  },
+  item_spaces: {
+    table: 'item_spaces',
+    storageKey: STORAGE_KEYS.ITEM_SPACES,
+    keyColumns: ['item_id', 'space_id'],
+    userScoped: false,
+    toLocal: (row): ItemSpace => ({
+      item_id: row.item_id,
+      space_id: row.space_id,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    }),
+  },
+  item_metadata: {
+    table: 'item_metadata',
+    storageKey: STORAGE_KEYS.ITEM_METADATA,
+    keyColumns: ['item_id'],
+    userScoped: false,
+    toLocal: (row): ItemMetadata => ({
+      item_id: row.item_id,
+      domain: row.domain ?? undefined,
+      author: row.author ?? undefined,
+      username: row.username ?? undefined,
+      profile_image: row.profile_image ?? undefined,
+      published_date: row.published_date ?? undefined,
+      updated_at: row.updated_at,
+    }),
+  },
+  item_type_metadata: {
+    table: 'item_type_metadata',
+    storageKey: STORAGE_KEYS.ITEM_TYPE_METADATA,
+    keyColumns: ['item_id'],
+    userScoped: false,
+    toLocal: (row): ItemTypeMetadata => ({
+      item_id: row.item_id,
+      content_type: row.content_type,
+      data: row.data || {},
+      updated_at: row.updated_at,
+    }),
+  },
+  video_transcripts: {
+    table: 'video_transcripts',
+    storageKey: STORAGE_KEYS.VIDEO_TRANSCRIPTS,
+    keyColumns: ['item_id'],
+    userScoped: false,
+    toLocal: (row): VideoTranscript => row,
+  },
+};
+
 class SyncService {
   private isSyncing = false;
   private syncListeners: ((status: any) => void)[] = [];
@@ -32,6 +149,9 @@ class SyncService {
     isOnline: true,
     isSyncing: false,
     lastError: null as string | null,
+    tables: Object.fromEntries(
+      SYNC_TABLES.map(table => [table, initialTableSyncState()])
+    ) as Record<SyncTable, TableSyncState>,
   };
 
   constructor() {
@@ -67,7 +187,7 @@ class SyncService {
     }
   }
 
-  // Main sync method - syncs all tables
+  // Main sync method - pushes local changes, then pulls what changed remotely since the last sync
   async syncToCloud(): Promise<SyncResult> {
     const result: SyncResult = {
       success: true,
@@ -90,62 +210,82 @@ class SyncService {
 
     this.isSyncing = true;
     this.syncStatus.isSyncing = true;
+    this.syncStatus.lastError = null;
+    SYNC_TABLES.forEach(table => {
+      this.setTableStatus(table, { status: 'syncing', pulled: 0, pushed: 0, error: null });
+    });
     this.notifyListeners();
 
-    // DIAGNOSTIC: Log user info and current state
     console.log('🔍 [DIAGNOSTIC] Syncing for user:', user.id, user.email);
-    console.log('🔍 [DIAGNOSTIC] Current store item count:', itemsStore.items.get().length);
 
     try {
       // First, process offline queue
       await this.processOfflineQueue();
 
-      // Sync all tables in order
-      console.log('🔄 Starting full sync...');
-
-      // DIAGNOSTIC: Log local data counts
-      const localItemsData = await AsyncStorage.getItem(STORAGE_KEYS.ITEMS);
-      const localItems = localItemsData ? JSON.parse(localItemsData) : [];
-
-      const localItemSpacesData = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_SPACES);
-      const localItemSpaces = localItemSpacesData ? JSON.parse(localItemSpacesData) : [];
-
-      const localMetadataData = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_METADATA);
-      const localMetadata = localMetadataData ? JSON.parse(localMetadataData) : [];
-
-      const localTypeMetadataData = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_TYPE_METADATA);
-      const localTypeMetadata = localTypeMetadataData ? JSON.parse(localTypeMetadataData) : [];
-
       // 0. Sync user settings first (global preferences)
       console.log('⚙️ Syncing user settings...');
       await userSettingsActions.syncFromCloud();
 
-      // 1. Sync spaces first (items depend on spaces)
-      console.log('📦 Syncing spaces...');
-      await this.syncSpaces(user.id);
-
-      // 2. Sync items
-      console.log('📝 Syncing items...');
-      const itemsSynced = await this.syncItems(user.id);
-      result.itemsSynced += itemsSynced;
+      const cursors = await loadSyncCursors(user.id);
+      // Local clock; compared against local updated_at/created_at on the next push
+      const pushStartedAt = new Date().toISOString();
+
+      // Without a cursor, drop rows deleted remotely before the change log
+      // existed - otherwise the push below would upload them again
+      const lastSyncTime = this.syncStatus.lastSyncTime;
+      if (lastSyncTime) {
+        for (const table of SYNC_TABLES.filter(t => !cursors.tables[t]?.pull)) {
+          await this.runTableStep(table, result, async () => {
+            const deleted = await findRemotelyDeletedKeys(DELTA_TABLES[table], user.id, lastSyncTime);
+            if (deleted.length > 0) {
+              console.log(`🗑️ ${table}: ${deleted.length} local rows no longer exist remotely`);
+              await this.applyDeletions(deleted);
+            }
+          });
+        }
+      }
 
-      // 3. Sync item_spaces relationships
-      console.log('🔗 Syncing item-space relationships...');
-      await this.syncItemSpaces(user.id);
+      // 1. Upload local rows the server hasn't seen (created offline or before sign-in)
+      console.log('📤 Pushing local changes...');
+      const changedItemIds = new Set<string>();
+      for (const table of SYNC_TABLES) {
+        if (this.syncStatus.tables[table].status === 'error') continue;
+        await this.runTableStep(table, result, async () => {
+          const since = cursors.tables[table]?.pushedAt ?? null;
+          const pushed = await this.pushTable(table, user.id, since, changedItemIds);
+          this.setTableStatus(table, { pushed });
+          if (table === 'items') result.itemsSynced += pushed;
+          cursors.tables[table] = { pull: cursors.tables[table]?.pull ?? null, pushedAt: pushStartedAt };
+          await saveSyncCursors(cursors);
+        });
+      }
 
-      // 4. Sync item metadata
-      console.log('📊 Syncing item metadata...');
-      await this.syncItemMetadata(user.id);
+      // 2. Pull rows changed since each table's cursor
+      console.log('📥 Pulling remote changes...');
+      for (const table of SYNC_TABLES) {
+        if (this.syncStatus.tables[table].status === 'error') continue;
+        await this.runTableStep(table, result, async () => {
+          const pulled = await pullTableChanges(DELTA_TABLES[table], cursors);
+          this.setTableStatus(table, { pulled });
+          if (table === 'items') result.itemsSynced += pulled;
+          console.log(`✅ ${table}: pulled ${pulled} changed rows`);
+        });
+      }
 
-      // 5. Sync item type metadata
-      console.log('🎨 Syncing item type metadata...');
-      await this.syncItemTypeMetadata(user.id);
+      // 3. Hard deletes from the server-side change log
+      const deletions = await pullDeletions(cursors, deleted => this.applyDeletions(deleted));
+      if (deletions > 0) {
+        console.log(`🗑️ Applied ${deletions} remote deletions`);
+      }
 
-      // 6. Sync video transcripts
-      console.log('📝 Syncing video transcripts...');
-      await this.syncVideoTranscripts(user.id);
+      const finishedAt = new Date().toISOString();
+      SYNC_TABLES.forEach(table => {
+        if (this.syncStatus.tables[table].status === 'syncing') {
+          this.setTableStatus(table, { status: 'idle', lastSyncedAt: finishedAt });
+        }
+      });
 
-      console.log('✅ Sync completed successfully');
+      console.log(result.success ? '✅ Sync completed successfully' : `⚠️ Sync completed with errors: ${result.errors.join('; ')}`);
 
       // Reload all stores from AsyncStorage to reflect synced data in UI
       console.log('🔄 Reloading stores from AsyncStorage...');
@@ -160,61 +300,93 @@ class SyncService {
       console.log('✅ Stores reloaded successfully');
 
       // Update sync status
-      this.syncStatus.lastSyncTime = new Date().toISOString();
+      this.syncStatus.lastSyncTime = finishedAt;
       this.syncStatus.totalSynced = result.itemsSynced;
-      await this.saveSyncStatus();
+      this.syncStatus.lastError = result.errors[0] || null;
 
     } catch (error: any) {
       console.error('Sync error:', error);
       result.success = false;
       result.errors.push(error.message);
       this.syncStatus.lastError = error.message;
+      // Cursors are saved page by page, so the next sync resumes where this one stopped
+      SYNC_TABLES.forEach(table => {
+        if (this.syncStatus.tables[table].status === 'syncing') {
+          this.setTableStatus(table, { status: 'interrupted' });
+        }
+      });
     } finally {
       this.isSyncing = false;
       this.syncStatus.isSyncing = false;
+      await this.saveSyncStatus();
       this.notifyListeners();
     }
 
     return result;
   }
 
-  // Sync spaces table
-  private async syncSpaces(userId: string): Promise<void> {
-    // Get local spaces from AsyncStorage
-    const spacesData = await AsyncStorage.getItem(STORAGE_KEYS.SPACES);
-    const localSpaces: Space[] = spacesData ? JSON.parse(spacesData) : [];
-    console.log(`📦 Found ${localSpaces.length} local spaces to sync`);
-    console.log('Local spaces:', localSpaces.map(s => ({ id: s.id, name: s.name, user_id: s.user_id, is_deleted: s.is_deleted })));
-
-    // Get ALL remote spaces including deleted (need to know what was deleted remotely)
-    const { data: remoteSpaces, error } = await supabase
-      .from('spaces')
-      .select('*')
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error fetching remote spaces:', error);
-      throw error;
+  // A failing table is reported on its own; the other tables still sync
+  private async runTableStep(table: SyncTable, result: SyncResult, step: () => Promise<void>) {
+    try {
+      await step();
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.error(`❌ Sync error in ${table}:`, error);
+      result.success = false;
+      result.errors.push(`${table}: ${message}`);
+      this.setTableStatus(table, { status: 'error', error: message });
     }
+  }
 
-    const activeRemoteSpaces = (remoteSpaces || []).filter(space => !space.is_deleted);
-    console.log(`📦 Found ${activeRemoteSpaces.length} active remote spaces, ${(remoteSpaces?.length || 0) - activeRemoteSpaces.length} deleted remote spaces`);
-
-    const localSpacesMap = new Map(localSpaces.map(space => [space.id, space]));
-    const remoteSpacesMap = new Map((remoteSpaces || []).map(space => [space.id, space]));
-
-    // Upload local spaces not in remote (but skip spaces marked as deleted locally)
-    for (const localSpace of localSpaces) {
-      const remoteSpace = remoteSpacesMap.get(localSpace.id);
+  private setTableStatus(table: SyncTable, updates: Partial<TableSyncState>) {
+    this.syncStatus.tables = {
+      ...this.syncStatus.tables,
+      [table]: { ...this.syncStatus.tables[table], ...updates },
+    };
+    this.notifyListeners();
+  }
 
-      // Skip if space is marked as deleted locally (tombstone)
-      if (localSpace.is_deleted) {
-        console.log(`⚠️ Skipping upload of deleted space (tombstone): ${localSpace.name} (${localSpace.id})`);
-        continue;
-      }
+  // Keys (per DELTA_TABLES keyColumns) of the given rows that already exist remotely
+  private async findRemoteKeys(table: SyncTable, lookupColumn: string, values: string[]): Promise<Set<string>> {
+    const { keyColumns } = DELTA_TABLES[table];
+    const existing = new Set<string>();
+    for (const batch of chunk(Array.from(new Set(values)))) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(keyColumns.join(', '))
+        .in(lookupColumn, batch);
+      if (error) throw error;
+      ((data || []) as any[]).forEach(row => existing.add(recordKey(row, keyColumns)));
+    }
+    return existing;
+  }
 
-      // Upload if not in remote at all
-      if (!remoteSpace) {
+  /**
+   * Upload local rows changed since `since` (all rows on the first sync) that
+   * don't exist remotely. Edits to rows the server already has go through
+   * syncOperations and the offline queue, not here. Item children are also
+   * pushed when their item changed; `changedItemIds` is filled by the items step.
+   */
+  private async pushTable(
+    table: SyncTable,
+    userId: string,
+    since: string | null,
+    changedItemIds: Set<string>
+  ): Promise<number> {
+    const changedSince = (row: { updated_at?: string | null; created_at?: string | null }) =>
+      !since || new Date(row.updated_at || row.created_at || 0).getTime() > new Date(since).getTime();
+
+    const config = DELTA_TABLES[table];
+    const stored = await AsyncStorage.getItem(config.storageKey);
+    const localRows: any[] = stored ? JSON.parse(stored) : [];
+
+    if (table === 'spaces') {
+      const candidates = (localRows as Space[]).filter(space => !space.is_deleted && changedSince(space));
+      if (candidates.length === 0) return 0;
+
+      const remoteIds = await this.findRemoteKeys('spaces', 'id', candidates.map(space => space.id));
+      let pushed = 0;
+      for (const localSpace of candidates.filter(space => !remoteIds.has(space.id))) {
         console.log(`📤 Uploading space: ${localSpace.name} (${localSpace.id})`);
         const { error } = await supabase
           .from('spaces')
@@ -225,600 +397,143 @@ class SyncService {
             description: localSpace.description || localSpace.desc || null,
             color: localSpace.color,
             item_count: localSpace.item_count || 0,
+            smart_rule: localSpace.smart_rule || null,
             created_at: localSpace.created_at || new Date().toISOString(),
-            updated_at: localSpace.updated_at || new Date().toISOString(),
           });
         if (error) {
           console.error(`❌ Error uploading space ${localSpace.name}:`, error);
         } else {
-          console.log(`✅ Successfully uploaded space: ${localSpace.name}`);
+          pushed++;
         }
       }
+      return pushed;
     }
 
-    // Mark spaces as deleted locally if they were deleted remotely
-    const spacesToMarkDeleted: string[] = [];
-    for (const localSpace of localSpaces) {
-      const remoteSpace = remoteSpacesMap.get(localSpace.id);
+    if (table === 'items') {
+      // UUID regex pattern
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-      // If remote space is deleted but local space is not, mark it deleted locally
-      if (remoteSpace?.is_deleted && !localSpace.is_deleted) {
-        console.log(`🗑️ Marking space ${localSpace.name} as deleted locally (deleted remotely)`);
-        spacesToMarkDeleted.push(localSpace.id);
+      // Remove items with invalid UUIDs (mock items) from local storage
+      const localItems = (localRows as Item[]).filter(item => uuidRegex.test(item.id));
+      if (localItems.length < localRows.length) {
+        console.log(`🧹 Removing ${localRows.length - localItems.length} items with invalid UUIDs`);
+        await AsyncStorage.setItem(STORAGE_KEYS.ITEMS, JSON.stringify(localItems));
       }
-    }
-
-    // Apply deletions to local storage
-    let updatedLocalSpaces = localSpaces;
-    if (spacesToMarkDeleted.length > 0) {
-      updatedLocalSpaces = localSpaces.map(space => {
-        if (spacesToMarkDeleted.includes(space.id)) {
-          const remoteSpace = remoteSpacesMap.get(space.id);
-          return {
-            ...space,
-            is_deleted: true,
-            deleted_at: remoteSpace?.deleted_at || new Date().toISOString(),
-            updated_at: remoteSpace?.deleted_at || new Date().toISOString(),
-          };
-        }
-        return space;
-      });
-      console.log(`🗑️ Marked ${spacesToMarkDeleted.length} spaces as deleted locally`);
-    }
-
-    // Download remote spaces not in local (only active spaces, not deleted)
-    const newSpaces: Space[] = [];
-    for (const remoteSpace of activeRemoteSpaces) {
-      if (!localSpacesMap.has(remoteSpace.id)) {
-        newSpaces.push(remoteSpace as Space);
-      }
-    }
-
-    if (newSpaces.length > 0 || spacesToMarkDeleted.length > 0) {
-      const finalSpaces = [...updatedLocalSpaces, ...newSpaces];
-      await AsyncStorage.setItem(STORAGE_KEYS.SPACES, JSON.stringify(finalSpaces));
-      console.log(`✅ Updated local spaces: ${newSpaces.length} new, ${spacesToMarkDeleted.length} marked deleted`);
-    }
-  }
-
-  // Sync items table
-  private async syncItems(userId: string): Promise<number> {
-    let itemsSynced = 0;
-
-    // Get local items from AsyncStorage
-    const itemsData = await AsyncStorage.getItem(STORAGE_KEYS.ITEMS);
-    const allLocalItems: Item[] = itemsData ? JSON.parse(itemsData) : [];
-
-    // UUID regex pattern
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-    // Filter out items with invalid UUIDs (mock items)
-    const localItems = allLocalItems.filter(item => uuidRegex.test(item.id));
-
-    // Remove invalid items from local storage
-    const invalidItems = allLocalItems.filter(item => !uuidRegex.test(item.id));
-    if (invalidItems.length > 0) {
-      console.log(`🧹 Removing ${invalidItems.length} items with invalid UUIDs`);
-      await AsyncStorage.setItem(STORAGE_KEYS.ITEMS, JSON.stringify(localItems));
-    }
-
-    // Get ALL remote items including deleted (need to know what was deleted remotely)
-    // Also get updated_at and space_id to detect changes
-    const { data: remoteItems, error: idsError } = await supabase
-      .from('items')
-      .select('id, is_deleted, deleted_at, updated_at, space_id')
-      .eq('user_id', userId);
-
-    if (idsError) throw idsError;
-
-    // DIAGNOSTIC: Log sync status
-    const activeRemoteItems = (remoteItems || []).filter(item => !item.is_deleted);
-    console.log('🔍 [DIAGNOSTIC] Found', activeRemoteItems.length, 'active remote items,', (remoteItems?.length || 0) - activeRemoteItems.length, 'deleted remote items for user:', userId);
-    console.log('🔍 [DIAGNOSTIC] Found', localItems.length, 'local items (after filtering invalid UUIDs)');
-
-    // Create maps for O(1) lookup
-    const remoteItemsMap = new Map((remoteItems || []).map(item => [item.id, item]));
-    const localItemsMap = new Map(localItems.map(item => [item.id, item]));
 
-    // Upload local items not in remote (but skip items marked as deleted locally)
-    for (const localItem of localItems) {
-      const remoteItem = remoteItemsMap.get(localItem.id);
+      const candidates = localItems.filter(item => !item.is_deleted && changedSince(item));
+      candidates.forEach(item => changedItemIds.add(item.id));
+      if (candidates.length === 0) return 0;
 
-      // Skip if item is marked as deleted locally (tombstone)
-      if (localItem.is_deleted) {
-        console.log(`⚠️ Skipping upload of deleted item (tombstone): ${localItem.id}`);
-        continue;
-      }
-
-      // Upload if not in remote at all
-      if (!remoteItem) {
+      const remoteIds = await this.findRemoteKeys('items', 'id', candidates.map(item => item.id));
+      const missing = candidates.filter(item => !remoteIds.has(item.id));
+      for (const localItem of missing) {
         await this.uploadItem(localItem, userId);
-        itemsSynced++;
-      }
-    }
-
-    // Mark items as deleted locally if they were deleted remotely
-    const itemsToMarkDeleted: string[] = [];
-    for (const localItem of localItems) {
-      const remoteItem = remoteItemsMap.get(localItem.id);
-
-      // If remote item is deleted but local item is not, mark it deleted locally
-      if (remoteItem?.is_deleted && !localItem.is_deleted) {
-        console.log(`🗑️ Marking item ${localItem.id} as deleted locally (deleted remotely)`);
-        itemsToMarkDeleted.push(localItem.id);
-      }
-    }
-
-    // Check for items that need updating (remote version is newer)
-    const itemsToUpdate: string[] = [];
-    for (const remoteItem of activeRemoteItems) {
-      const localItem = localItemsMap.get(remoteItem.id);
-      if (localItem && !localItem.is_deleted) {
-        const remoteUpdated = new Date(remoteItem.updated_at || 0).getTime();
-        const localUpdated = new Date(localItem.updated_at || 0).getTime();
-
-        // If remote is newer, or if space_id changed, we need to update
-        if (remoteUpdated > localUpdated || remoteItem.space_id !== localItem.space_id) {
-          console.log(`🔄 Item ${remoteItem.id} needs update (remote newer or space changed)`);
-          itemsToUpdate.push(remoteItem.id);
-        }
-      }
-    }
-
-    // Apply deletions to local storage
-    if (itemsToMarkDeleted.length > 0) {
-      const updatedLocalItems = localItems.map(item => {
-        if (itemsToMarkDeleted.includes(item.id)) {
-          const remoteItem = remoteItemsMap.get(item.id);
-          return {
-            ...item,
-            is_deleted: true,
-            deleted_at: remoteItem?.deleted_at || new Date().toISOString(),
-            updated_at: remoteItem?.deleted_at || new Date().toISOString(),
-          };
-        }
-        return item;
-      });
-      await AsyncStorage.setItem(STORAGE_KEYS.ITEMS, JSON.stringify(updatedLocalItems));
-      console.log(`🗑️ Marked ${itemsToMarkDeleted.length} items as deleted locally`);
-    }
-
-    // Download remote items not in local (fetch full data only for missing items)
-    // Only download active items (not deleted)
-    const missingItemIds = activeRemoteItems
-      .map(item => item.id)
-      .filter(id => !localItemsMap.has(id));
-
-    // DIAGNOSTIC: Log missing items
-    console.log('🔍 [DIAGNOSTIC] Missing items to download:', missingItemIds.length);
-    console.log('🔍 [DIAGNOSTIC] Items to update:', itemsToUpdate.length);
-    if (missingItemIds.length > 0) {
-      console.log('🔍 [DIAGNOSTIC] Missing item IDs:', missingItemIds);
-    }
-
-    // Combine missing items and items that need updating
-    const itemsToFetch = [...missingItemIds, ...itemsToUpdate];
-
-    if (itemsToFetch.length > 0) {
-      const { data: fullRemoteItems, error } = await supabase
-        .from('items')
-        .select('*')
-        .in('id', itemsToFetch);
-
-      if (error) throw error;
-
-      // Convert remote items to local format
-      const fetchedItems = (fullRemoteItems || []).map(item => this.convertRemoteToLocal(item));
-
-      // Update existing items or add new ones
-      let updatedLocalItems = [...localItems];
-      for (const fetchedItem of fetchedItems) {
-        const existingIndex = updatedLocalItems.findIndex(item => item.id === fetchedItem.id);
-        if (existingIndex >= 0) {
-          // Update existing item
-          updatedLocalItems[existingIndex] = fetchedItem;
-          console.log(`✅ Updated item ${fetchedItem.id} with remote changes`);
-        } else {
-          // Add new item
-          updatedLocalItems.push(fetchedItem);
-          console.log(`✅ Added new item ${fetchedItem.id}`);
-          itemsSynced++;
-        }
       }
-
-      await AsyncStorage.setItem(STORAGE_KEYS.ITEMS, JSON.stringify(updatedLocalItems));
-      console.log(`✅ Synced ${missingItemIds.length} new items and updated ${itemsToUpdate.length} existing items`);
-    }
-
-    return itemsSynced;
-  }
-
-  // Sync item_spaces relationships
-  private async syncItemSpaces(userId: string): Promise<void> {
-
-    // Get local item spaces from AsyncStorage
-    const itemSpacesData = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_SPACES);
-    const localItemSpaces: ItemSpace[] = itemSpacesData ? JSON.parse(itemSpacesData) : [];
-
-    // Get all item IDs for this user to filter item_spaces
-    const { data: userItems, error: itemsError } = await supabase
-      .from('items')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('is_deleted', false);
-
-    if (itemsError) {
-      console.error('🔍 [DIAGNOSTIC] Error fetching user items:', itemsError);
-      throw itemsError;
-    }
-
-    if (!userItems || userItems.length === 0) {
-      console.log('🔍 [DIAGNOSTIC] No remote items found, skipping item_spaces sync');
-      return;
-    }
-
-    const userItemIds = userItems.map(item => item.id);
-
-    const { data: remoteItemSpaces, error } = await supabase
-      .from('item_spaces')
-      .select('*')
-      .in('item_id', userItemIds);
-
-    if (error) {
-      console.error('🔍 [DIAGNOSTIC] Error fetching remote item_spaces:', error);
-      throw error;
-    }
-
-    const localMap = new Map(localItemSpaces.map(is => [`${is.item_id}_${is.space_id}`, is]));
-    const remoteMap = new Map((remoteItemSpaces || []).map(is => [`${is.item_id}_${is.space_id}`, is]));
-
-    // Upload local relationships not in remote
-    console.log('🔍 [SYNC] Checking for item_spaces to upload...');
-    let skippedOrphanedItemSpaces = 0;
-    let uploadedItemSpaces = 0;
-
-    for (const localIS of localItemSpaces) {
-      const key = `${localIS.item_id}_${localIS.space_id}`;
-
-      if (!remoteMap.has(key)) {
-        // Check if this item exists in remote
-        const itemExists = userItemIds.includes(localIS.item_id);
-        
-        // Skip orphaned item-space relationships (item doesn't exist in remote)
-        if (!itemExists) {
-          console.log(`⚠️ Skipping orphaned item_space: ${key} (item not in remote)`);
-          skippedOrphanedItemSpaces++;
-          continue;
-        }
-
-        // Check if space exists and is owned by user
-        const { data: spaceCheck, error: spaceError } = await supabase
-          .from('spaces')
-          .select('id')
-          .eq('id', localIS.space_id)
-          .eq('user_id', userId)
-          .single();
-
-        if (spaceError || !spaceCheck) {
-          console.log(`⚠️ Skipping item_space: ${key} (space not found or not owned)`);
-          skippedOrphanedItemSpaces++;
-          continue;
-        }
-
-        // Both item and space exist, safe to upload
-        const { error } = await supabase
-          .from('item_spaces')
-          .insert({
-            item_id: localIS.item_id,
-            space_id: localIS.space_id,
-          });
-
-        if (error) {
-          console.error(`Error uploading item_space ${key}:`, error);
-        } else {
-          uploadedItemSpaces++;
-        }
+      return missing.length;
+    }
+
+    // Rows that belong to an item: new ones, plus all rows of items changed locally
+    const candidates = localRows.filter(row => changedSince(row) || changedItemIds.has(row.item_id));
+    if (candidates.length === 0) return 0;
+
+    const remoteKeys = await this.findRemoteKeys(table, 'item_id', candidates.map(row => row.item_id));
+    const missing = candidates.filter(row => !remoteKeys.has(recordKey(row, config.keyColumns)));
+    let pushed = 0;
+
+    for (const row of missing) {
+      let error: any = null;
+      switch (table) {
+        case 'item_spaces':
+          ({ error } = await supabase
+            .from('item_spaces')
+            .insert({ item_id: row.item_id, space_id: row.space_id }));
+          break;
+        case 'item_metadata':
+          ({ error } = await supabase
+            .from('item_metadata')
+            .upsert({
+              item_id: row.item_id,
+              domain: row.domain ?? null,
+              author: row.author ?? null,
+              username: row.username ?? null,
+              profile_image: row.profile_image ?? null,
+              published_date: row.published_date ?? null,
+            }, { onConflict: 'item_id' }));
+          break;
+        case 'item_type_metadata':
+          ({ error } = await supabase
+            .from('item_type_metadata')
+            .upsert({
+              item_id: row.item_id,
+              content_type: VALID_CONTENT_TYPES.includes(row.content_type) ? row.content_type : 'bookmark',
+              data: row.data || {},
+            }, { onConflict: 'item_id' }));
+          break;
+        case 'video_transcripts':
+          ({ error } = await db.saveVideoTranscript({
+            item_id: row.item_id,
+            transcript: row.transcript,
+            platform: row.platform,
+            language: row.language,
+            duration: row.duration,
+            segments: row.segments,
+            chapters: row.chapters,
+            key_moments: row.key_moments,
+          }));
+          break;
       }
-    }
-
-    if (skippedOrphanedItemSpaces > 0) {
-      console.log(`⚠️ Skipped ${skippedOrphanedItemSpaces} orphaned item_spaces`);
-    }
-    if (uploadedItemSpaces > 0) {
-      console.log(`✅ Uploaded ${uploadedItemSpaces} item_spaces`);
-    }
 
-    // Download remote relationships not in local
-    const newItemSpaces: ItemSpace[] = [];
-    for (const remoteIS of (remoteItemSpaces || [])) {
-      const key = `${remoteIS.item_id}_${remoteIS.space_id}`;
-      if (!localMap.has(key)) {
-        newItemSpaces.push(remoteIS as ItemSpace);
+      // Usually an orphan: the item never made it to the server
+      if (error) {
+        console.error(`❌ Error uploading ${table} row ${recordKey(row, config.keyColumns)}:`, error);
+      } else {
+        pushed++;
       }
     }
 
-    if (newItemSpaces.length > 0) {
-      const updatedItemSpaces = [...localItemSpaces, ...newItemSpaces];
-      await AsyncStorage.setItem(STORAGE_KEYS.ITEM_SPACES, JSON.stringify(updatedItemSpaces));
-    }
-  }
-
-  // Sync item metadata
-  private async syncItemMetadata(userId: string): Promise<void> {
-
-    // Get local metadata from AsyncStorage
-    const metadataData = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_METADATA);
-    const localMetadata: ItemMetadata[] = metadataData ? JSON.parse(metadataData) : [];
-
-    // Get all item IDs for this user
-    const { data: userItems, error: itemsError } = await supabase
-      .from('items')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('is_deleted', false);
-
-    if (itemsError) {
-      console.error('🔍 [DIAGNOSTIC] Error fetching user items for metadata:', itemsError);
-      throw itemsError;
-    }
-
-    if (!userItems || userItems.length === 0) {
-      console.log('🔍 [DIAGNOSTIC] No remote items found, skipping item_metadata sync');
-      return;
-    }
-
-    const userItemIds = userItems.map(item => item.id);
-
-    const { data: remoteMetadata, error } = await supabase
-      .from('item_metadata')
-      .select('*')
-      .in('item_id', userItemIds);
-
-    if (error) {
-      console.error('🔍 [DIAGNOSTIC] Error fetching remote item_metadata:', error);
-      throw error;
-    }
-
-    const localMap = new Map(localMetadata.map(m => [m.item_id, m]));
-    const remoteMap = new Map((remoteMetadata || []).map(m => [m.item_id, m]));
-
-    // Reconcile: newest-wins using updated_at; upsert to other side as needed
-    const byIdLocal = new Map(localMetadata.map(m => [m.item_id, m]));
-    const byIdRemote = new Map((remoteMetadata || []).map(m => [m.item_id, m as any]));
-
-    const allIds = new Set<string>([
-      ...Array.from(byIdLocal.keys()),
-      ...Array.from(byIdRemote.keys()),
-    ]);
-
-    const merged: ItemMetadata[] = [];
-
-    for (const id of allIds) {
-      const l = byIdLocal.get(id) as any;
-      const r = byIdRemote.get(id) as any;
-
-      if (l && !r) {
-        // Only local → upsert remote
-        await supabase
-          .from('item_metadata')
-          .upsert({ ...l }, { onConflict: 'item_id' });
-        merged.push({ ...l });
-        continue;
-      }
-
-      if (!l && r) {
-        // Only remote → keep remote locally
-        merged.push({
-          item_id: r.item_id,
-          domain: r.domain ?? undefined,
-          author: r.author ?? undefined,
-          username: r.username ?? undefined,
-          profile_image: r.profile_image ?? undefined,
-          published_date: r.published_date ?? undefined,
-        });
-        continue;
-      }
-
-      // Both exist → newest wins
-      const lUpdated = l.updated_at ? new Date(l.updated_at).getTime() : undefined;
-      const rUpdated = r.updated_at ? new Date(r.updated_at).getTime() : undefined;
-
-      let winner: any = r; // default remote
-      if (lUpdated && rUpdated) {
-        winner = lUpdated >= rUpdated ? l : r;
-      } else if (lUpdated && !rUpdated) {
-        winner = l;
-      } else if (!lUpdated && rUpdated) {
-        winner = r;
-      }
-
-      // Upsert winner to remote to ensure consistency
-      await supabase
-        .from('item_metadata')
-        .upsert({ ...winner }, { onConflict: 'item_id' });
-
-      merged.push({
-        item_id: winner.item_id,
-        domain: winner.domain ?? undefined,
-        author: winner.author ?? undefined,
-        username: winner.username ?? undefined,
-        profile_image: winner.profile_image ?? undefined,
-        published_date: winner.published_date ?? undefined,
-      });
+    if (pushed > 0) {
+      console.log(`✅ Uploaded ${pushed} ${table} rows`);
     }
-
-    await AsyncStorage.setItem(STORAGE_KEYS.ITEM_METADATA, JSON.stringify(merged));
+    return pushed;
   }
 
-  // Sync item type metadata
-  private async syncItemTypeMetadata(userId: string): Promise<void> {
-
-    // Get local type metadata from AsyncStorage
-    const typeMetadataData = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_TYPE_METADATA);
-    const localTypeMetadata: ItemTypeMetadata[] = typeMetadataData ? JSON.parse(typeMetadataData) : [];
-
-    // Get all item IDs for this user
-    const { data: userItems, error: itemsError } = await supabase
-      .from('items')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('is_deleted', false);
-
-    if (itemsError) {
-      console.error('🔍 [DIAGNOSTIC] Error fetching user items for type metadata:', itemsError);
-      throw itemsError;
-    }
-
-    if (!userItems || userItems.length === 0) {
-      console.log('🔍 [DIAGNOSTIC] No remote items found, skipping item_type_metadata sync');
-      return;
-    }
-
-    const userItemIds = userItems.map(item => item.id);
-
-    const { data: remoteTypeMetadata, error } = await supabase
-      .from('item_type_metadata')
-      .select('*')
-      .in('item_id', userItemIds);
-
-    if (error) {
-      console.error('🔍 [DIAGNOSTIC] Error fetching remote item_type_metadata:', error);
-      throw error;
-    }
-
-    const localMap = new Map(localTypeMetadata.map(m => [m.item_id, m]));
-    const remoteMap = new Map((remoteTypeMetadata || []).map(m => [m.item_id, m]));
-
-    // Reconcile: newest-wins using updated_at; upsert to other side as needed
-    const byIdLocal = new Map(localTypeMetadata.map(m => [m.item_id, m]));
-    const byIdRemote = new Map((remoteTypeMetadata || []).map(m => [m.item_id, m as any]));
-
-    const allIds = new Set<string>([
-      ...Array.from(byIdLocal.keys()),
-      ...Array.from(byIdRemote.keys()),
-    ]);
-
-    const merged: ItemTypeMetadata[] = [];
-    const validContentTypes = ['bookmark', 'youtube', 'youtube_short', 'x', 'github', 'instagram', 'tiktok', 'reddit', 'amazon', 'linkedin', 'image', 'pdf', 'video', 'audio', 'note', 'article', 'product', 'book', 'course'];
-
-    for (const id of allIds) {
-      const l = byIdLocal.get(id) as any;
-      const r = byIdRemote.get(id) as any;
-
-      if (l && !r) {
-        const contentType = l.content_type && validContentTypes.includes(l.content_type) ? l.content_type : 'bookmark';
-        await supabase
-          .from('item_type_metadata')
-          .upsert({
-            item_id: l.item_id,
-            content_type: contentType,
-            data: l.data || {},
-          }, { onConflict: 'item_id' });
-        merged.push({ item_id: l.item_id, content_type: contentType, data: l.data || {} });
-        continue;
-      }
-
-      if (!l && r) {
-        merged.push({ item_id: r.item_id, content_type: r.content_type, data: r.data || {} });
-        continue;
-      }
-
-      const lUpdated = l.updated_at ? new Date(l.updated_at).getTime() : undefined;
-      const rUpdated = r.updated_at ? new Date(r.updated_at).getTime() : undefined;
-
-      let winner: any = r; // default remote
-      if (lUpdated && rUpdated) {
-        winner = lUpdated >= rUpdated ? l : r;
-      } else if (lUpdated && !rUpdated) {
-        winner = l;
-      } else if (!lUpdated && rUpdated) {
-        winner = r;
-      }
+  // Remove rows hard-deleted on the server, along with anything that hung off them
+  private async applyDeletions(deletions: SyncDeletion[]): Promise<void> {
+    const keysByTable = new Map<SyncTable, Set<string>>();
+    deletions.forEach(({ table_name, record_key }) => {
+      if (!DELTA_TABLES[table_name]) return;
+      if (!keysByTable.has(table_name)) keysByTable.set(table_name, new Set());
+      keysByTable.get(table_name)!.add(record_key);
+    });
 
-      const contentType = winner.content_type && validContentTypes.includes(winner.content_type) ? winner.content_type : 'bookmark';
-      await supabase
-        .from('item_type_metadata')
-        .upsert({
-          item_id: winner.item_id,
-          content_type: contentType,
-          data: winner.data || {},
-        }, { onConflict: 'item_id' });
+    const deletedItemIds = keysByTable.get('items') || new Set<string>();
+    const deletedSpaceIds = keysByTable.get('spaces') || new Set<string>();
 
-      merged.push({ item_id: winner.item_id, content_type: contentType, data: winner.data || {} });
+    if (deletedItemIds.size > 0) {
+      await removeItemBases(Array.from(deletedItemIds));
+      itemConflictsActions.removeConflictsForItems(Array.from(deletedItemIds));
     }
 
-    await AsyncStorage.setItem(STORAGE_KEYS.ITEM_TYPE_METADATA, JSON.stringify(merged));
-  }
+    for (const table of SYNC_TABLES) {
+      const config = DELTA_TABLES[table];
+      const keys = keysByTable.get(table) || new Set<string>();
+      const cascadesFromItem = table !== 'items' && table !== 'spaces' && deletedItemIds.size > 0;
+      const cascadesFromSpace = table === 'item_spaces' && deletedSpaceIds.size > 0;
+      if (keys.size === 0 && !cascadesFromItem && !cascadesFromSpace) continue;
 
-  // Sync video transcripts
-  private async syncVideoTranscripts(userId: string): Promise<void> {
-    // Get local transcripts from AsyncStorage
-    const transcriptsData = await AsyncStorage.getItem(STORAGE_KEYS.VIDEO_TRANSCRIPTS);
-    const localTranscripts: VideoTranscript[] = transcriptsData ? JSON.parse(transcriptsData) : [];
-    
-    // Get all item IDs for this user to filter transcripts
-    const { data: userItems } = await supabase
-      .from('items')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('is_deleted', false);
-    
-    if (!userItems || userItems.length === 0) return;
-    const userItemIds = userItems.map(item => item.id);
-    
-    const { data: remoteTranscripts, error } = await supabase
-      .from('video_transcripts')
-      .select('*')
-      .in('item_id', userItemIds);
-    
-    if (error) {
-      console.error('Error fetching video transcripts:', error);
-      return;
-    }
-
-    const localMap = new Map(localTranscripts.map(t => [t.item_id, t]));
-    const remoteMap = new Map((remoteTranscripts || []).map(t => [t.item_id, t]));
-    const userItemIdsSet = new Set(userItemIds);
-
-    // Upload local transcripts not in remote (but only if item exists)
-    let skippedOrphanedTranscripts = 0;
-    for (const localT of localTranscripts) {
-      // Skip if transcript is for an item that doesn't exist in remote
-      if (!userItemIdsSet.has(localT.item_id)) {
-        console.log(`⚠️ Skipping orphaned transcript for item: ${localT.item_id}`);
-        skippedOrphanedTranscripts++;
-        continue;
-      }
-
-      if (!remoteMap.has(localT.item_id)) {
-        const { error } = await db.saveVideoTranscript({
-          item_id: localT.item_id,
-          transcript: localT.transcript,
-          platform: localT.platform,
-          language: localT.language,
-          duration: localT.duration,
-          segments: localT.segments,
-        });
-        if (error) console.error('Error uploading video transcript:', error);
-      }
-    }
+      const stored = await AsyncStorage.getItem(config.storageKey);
+      const localRows: any[] = stored ? JSON.parse(stored) : [];
+      const remaining = localRows.filter(row =>
+        !keys.has(recordKey(row, config.keyColumns)) &&
+        !(cascadesFromItem && deletedItemIds.has(row.item_id)) &&
+        !(cascadesFromSpace && deletedSpaceIds.has(row.space_id))
+      );
 
-    if (skippedOrphanedTranscripts > 0) {
-      console.log(`⚠️ Skipped ${skippedOrphanedTranscripts} orphaned video transcripts`);
-    }
-
-    // Download remote transcripts not in local
-    const newTranscripts: VideoTranscript[] = [];
-    for (const remoteT of (remoteTranscripts || [])) {
-      if (!localMap.has(remoteT.item_id)) {
-        newTranscripts.push(remoteT as VideoTranscript);
+      if (remaining.length < localRows.length) {
+        await AsyncStorage.setItem(config.storageKey, JSON.stringify(remaining));
+        console.log(`🗑️ Removed ${localRows.length - remaining.length} ${table} rows deleted remotely`);
       }
     }
-
-    if (newTranscripts.length > 0) {
-      const updatedTranscripts = [...localTranscripts, ...newTranscripts];
-      await AsyncStorage.setItem(STORAGE_KEYS.VIDEO_TRANSCRIPTS, JSON.stringify(updatedTranscripts));
-    }
   }
 
   // Delegated to syncOperations - kept for backward compatibility
@@ -880,8 +595,7 @@ class SyncService {
     const isOnline = await this.checkConnection();
 
     if (!isOnline) {
-      const validContentTypes = ['bookmark', 'youtube', 'youtube_short', 'x', 'github', 'instagram', 'tiktok', 'reddit', 'amazon', 'linkedin', 'image', 'pdf', 'video', 'audio', 'note', 'article', 'product', 'book', 'course'];
-      const contentType = validContentTypes.includes(item.content_type) ? item.content_type : 'bookmark';
+      const contentType = VALID_CONTENT_TYPES.includes(item.content_type) ? item.content_type : 'bookmark';
 
       offlineQueueActions.addToQueue({
         action_type: 'create_item',
@@ -913,8 +627,7 @@ class SyncService {
       }
 
       console.error('Error uploading item:', error);
-      const validContentTypes = ['bookmark', 'youtube', 'youtube_short', 'x', 'github', 'instagram', 'tiktok', 'reddit', 'amazon', 'linkedin', 'image', 'pdf', 'video', 'audio', 'note', 'article', 'product', 'book', 'course'];
-      const contentType = validContentTypes.includes(item.content_type) ? item.content_type : 'bookmark';
+      const contentType = VALID_CONTENT_TYPES.includes(item.content_type) ? item.content_type : 'bookmark';
 
       offlineQueueActions.addToQueue({
         action_type: 'create_item',
@@ -936,32 +649,6 @@ class SyncService {
     }
   }
 
-  // Convert remote item to local format
-  private convertRemoteToLocal(remoteItem: any): Item {
-    return {
-      id: remoteItem.id,
-      user_id: remoteItem.user_id,
-      title: remoteItem.title,
-      desc: remoteItem.desc,
-      content: remoteItem.content,
-      url: remoteItem.url,
-      thumbnail_url: remoteItem.thumbnail_url,
-      tags: remoteItem.tags || null,
-      content_type: remoteItem.content_type as ContentType,
-      space_id: remoteItem.space_id || null,
-      is_archived: remoteItem.is_archived || false,
-      archived_at: remoteItem.archived_at || null,
-      auto_archived: remoteItem.auto_archived || false,
-      is_deleted: remoteItem.is_deleted || false,
-      deleted_at: remoteItem.deleted_at || null,
-      tldr: remoteItem.tldr || null,
-      notes: remoteItem.notes || null,
-      raw_text: remoteItem.raw_text,
-      created_at: remoteItem.created_at,
-      updated_at: remoteItem.updated_at,
-    };
-  }
-
   // Process offline queue
   private async processOfflineQueue() {
     const allPendingItems = offlineQueueActions.getPendingItems();
@@ -994,9 +681,11 @@ class SyncService {
           case 'create_item':
             await db.createItem(queueItem.data);
             break;
-          case 'update_item':
-            await db.updateItem(queueItem.data.id, queueItem.data);
+          case 'update_item': {
+            const { id, ...updates } = queueItem.data;
+            await this.pushItemUpdate(id, updates);
             break;
+          }
           case 'delete_item':
             // Soft delete when processing offline queue
             await db.softDeleteItem(queueItem.data.id);
@@ -1055,8 +744,20 @@ class SyncService {
     try {
       const saved = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_STATUS);
       if (saved) {
-        this.syncStatus = { ...this.syncStatus, ...JSON.parse(saved) };
+        const status = JSON.parse(saved);
+        const tables = { ...this.syncStatus.tables };
+        // A table still marked as syncing means the app quit mid-sync
+        Object.entries(status.tables || {}).forEach(([table, state]: [string, any]) => {
+          if (table in tables) {
+            tables[table as SyncTable] = {
+              ...state,
+              status: state.status === 'syncing' ? 'interrupted' : state.status,
+            };
+          }
+        });
+        this.syncStatus = { ...this.syncStatus, ...status, tables, isSyncing: false };
       }
+      this.notifyListeners();
     } catch (error) {
       console.error('Error loading sync status:', error);
     }
@@ -1187,6 +888,7 @@ class SyncService {
           description: space.description || space.desc || null,
           color: space.color,
           item_count: space.item_count || 0,
+          smart_rule: space.smart_rule || null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', space.id);
@@ -1326,8 +1028,7 @@ class SyncService {
     }
     
     try {
-      const { error } = await db.updateItem(itemId, updates);
-      if (error) throw error;
+      await this.pushItemUpdate(itemId, updates);
       console.log(`✅ Updated item ${itemId} in Supabase`);
     } catch (error: any) {
       console.error('Error updating item in Supabase:', error);
@@ -1343,6 +1044,64 @@ class SyncService {
     }
   }
 
+  /**
+   * Write an item edit without clobbering a concurrent edit from another
+   * device: the server row is merged field by field with this device's copy
+   * (see itemMerge) and only what differs from the server is written. Throws
+   * on failure so callers can queue the edit.
+   */
+  private async pushItemUpdate(itemId: string, updates: Partial<Item>): Promise<void> {
+    const touchesMergeable = MERGEABLE_ITEM_FIELDS.some(field => field in updates);
+    if (!touchesMergeable) {
+      const { error } = await db.updateItem(itemId, updates);
+      if (error) throw error;
+      return;
+    }
+
+    const { data: remoteRow, error: fetchError } = await supabase
+      .from('items')
+      .select('*')
+      .eq('id', itemId)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+    if (!remoteRow) {
+      // Not uploaded yet; nothing to merge with
+      const { error } = await db.updateItem(itemId, updates);
+      if (error) throw error;
+      return;
+    }
+
+    const remote = toLocalItem(remoteRow);
+    // The local copy may already hold merged remote changes newer than `updates`
+    const local = itemsStore.items.get().find(item => item.id === itemId) || { ...remote, ...updates };
+    // Without a base, treat the server copy as the base so this edit wins
+    const base = (await getItemBase(itemId)) || snapshotItem(remote);
+    const { merged, conflicts } = mergeItemFields(base, local, remote);
+
+    const otherUpdates: Partial<Item> = { ...updates };
+    MERGEABLE_ITEM_FIELDS.forEach(field => delete otherUpdates[field]);
+    const toWrite = { ...otherUpdates, ...diffItemFields(remote, merged) };
+
+    if (Object.keys(toWrite).length > 0) {
+      const { data, error } = await db.updateItem(itemId, toWrite);
+      if (error) throw error;
+      await saveItemBases([data ? toLocalItem(data) : { ...remote, ...toWrite }]);
+    } else {
+      await saveItemBases([remote]);
+    }
+
+    if (conflicts.length > 0) {
+      console.log(`🔀 Item ${itemId} was also edited on another device: ${conflicts.map(c => c.field).join(', ')}`);
+      itemConflictsActions.addConflicts(conflicts);
+    }
+
+    // Pick up the other device's changes locally
+    const localChanges = diffItemFields(local, merged);
+    if (Object.keys(localChanges).length > 0) {
+      await itemsActions.updateItem(itemId, localChanges);
+    }
+  }
+
   // Add item to space (sync relationship)
   async addItemToSpace(itemId: string, spaceId: string): Promise<void> {
     const isOnline = await this.checkConnection();
@@ -0,0 +1,160 @@
+/**
+ * Transcript chapters service
+ * Asks the metadata model to split a timed transcript into chapters and key
+ * moments, then snaps what it returns onto real segment boundaries
+ */
+
+import { openai } from './openai';
+import { itemsStore } from '../stores/items';
+import { videoTranscriptsActions, videoTranscriptsComputed } from '../stores/videoTranscripts';
+import { formatTimestamp } from '../utils/mediaTimestamps';
+import { ContentType, TranscriptChapter, TranscriptKeyMoment, VideoTranscript } from '../types';
+
+type Segment = NonNullable<VideoTranscript['segments']>[number];
+
+export const CHAPTER_CONTENT_TYPES: ContentType[] = ['youtube', 'podcast_episode'];
+
+// Shorter transcripts don't get chapters automatically (they can still be requested)
+export const AUTO_CHAPTER_MIN_DURATION_MS = 10 * 60 * 1000;
+
+// Keeps the prompt within the metadata model's context on multi-hour episodes
+const PROMPT_CHAR_BUDGET = 24000;
+const BLOCK_MS = 30 * 1000;
+const MAX_CHAPTERS = 20;
+const MAX_KEY_MOMENTS = 8;
+
+export const transcriptDurationMs = (segments: Segment[]): number =>
+  segments.reduce((max, segment) => Math.max(max, segment.endMs ?? segment.startMs), 0);
+
+/**
+ * Merge segments into ~30s blocks, one "[mm:ss] text" line each, trimming
+ * every block evenly when the whole transcript is over budget
+ */
+const buildTimedTranscript = (segments: Segment[]): string => {
+  const blocks: Array<{ startMs: number; text: string }> = [];
+  segments.forEach(segment => {
+    const last = blocks[blocks.length - 1];
+    if (last && segment.startMs - last.startMs < BLOCK_MS) {
+      last.text += ` ${segment.text.trim()}`;
+    } else {
+      blocks.push({ startMs: segment.startMs, text: segment.text.trim() });
+    }
+  });
+
+  const totalChars = blocks.reduce((sum, block) => sum + block.text.length + 10, 0);
+  const perBlock = totalChars > PROMPT_CHAR_BUDGET
+    ? Math.max(40, Math.floor(PROMPT_CHAR_BUDGET / blocks.length) - 10)
+    : Infinity;
+
+  return blocks
+    .map(block => `[${formatTimestamp(block.startMs)}] ${block.text.length > perBlock ? `${block.text.slice(0, perBlock)}…` : block.text}`)
+    .join('\n');
+};
+
+// "mm:ss", "h:mm:ss" or a number of seconds
+const parseStart = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value * 1000);
+  if (typeof value !== 'string') return null;
+  const parts = value.replace(/[[\]]/g, '').trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(Number.isNaN)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0) * 1000;
+};
+
+// Start of the segment playing at the given time, so seeks land on a sentence
+const snapToSegment = (segments: Segment[], ms: number): number => {
+  let snapped = segments[0]?.startMs ?? 0;
+  segments.forEach(segment => {
+    if (segment.startMs <= ms) snapped = segment.startMs;
+  });
+  return snapped;
+};
+
+const cleanText = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, maxLength) : '';
+
+/**
+ * Validate the model's reply against the transcript. Anything outside the
+ * transcript or without a title is dropped; duplicates collapse to one.
+ */
+export const parseChapterResponse = (
+  content: string,
+  segments: Segment[]
+): { chapters: TranscriptChapter[]; key_moments: TranscriptKeyMoment[] } => {
+  const json = JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  const durationMs = transcriptDurationMs(segments);
+
+  const chapters: TranscriptChapter[] = [];
+  (Array.isArray(json?.chapters) ? json.chapters : []).forEach((raw: any) => {
+    const startMs = parseStart(raw?.start);
+    const title = cleanText(raw?.title, 80);
+    if (startMs === null || startMs > durationMs || !title) return;
+    const start_ms = snapToSegment(segments, startMs);
+    if (chapters.some(chapter => chapter.start_ms === start_ms)) return;
+    const summary = cleanText(raw?.summary, 300);
+    chapters.push(summary ? { start_ms, title, summary } : { start_ms, title });
+  });
+  chapters.sort((a, b) => a.start_ms - b.start_ms);
+  // The first chapter always starts the transcript
+  if (chapters.length > 0) chapters[0].start_ms = segments[0]?.startMs ?? 0;
+
+  const key_moments: TranscriptKeyMoment[] = [];
+  (Array.isArray(json?.key_moments) ? json.key_moments : []).forEach((raw: any) => {
+    const startMs = parseStart(raw?.start);
+    const text = cleanText(raw?.text, 300);
+    if (startMs === null || startMs > durationMs || !text) return;
+    key_moments.push({ start_ms: snapToSegment(segments, startMs), text });
+  });
+  key_moments.sort((a, b) => a.start_ms - b.start_ms);
+
+  return {
+    chapters: chapters.slice(0, MAX_CHAPTERS),
+    key_moments: key_moments.slice(0, MAX_KEY_MOMENTS),
+  };
+};
+
+/**
+ * Generate and store chapters for an item's transcript
+ */
+export const generateTranscriptChapters = async (itemId: string): Promise<TranscriptChapter[]> => {
+  const transcript = videoTranscriptsComputed.getTranscriptByItemId(itemId);
+  const segments = (transcript?.segments || []).slice().sort((a, b) => a.startMs - b.startMs);
+  if (!transcript || segments.length === 0) {
+    throw new Error('Chapters need a timestamped transcript');
+  }
+
+  const item = itemsStore.items.get().find(i => i.id === itemId);
+  videoTranscriptsActions.setGeneratingChapters(itemId, true);
+  try {
+    console.log(`📑 [TranscriptChapters] Generating chapters for ${itemId} (${segments.length} segments)`);
+    const content = await openai.generateChapters(buildTimedTranscript(segments), item?.title || 'Untitled');
+    if (!content) throw new Error('No response from the model');
+
+    const { chapters, key_moments } = parseChapterResponse(content, segments);
+    if (chapters.length === 0) throw new Error('The model returned no usable chapters');
+
+    await videoTranscriptsActions.updateTranscript(itemId, { chapters, key_moments });
+    console.log(`📑 [TranscriptChapters] Saved ${chapters.length} chapters and ${key_moments.length} key moments for ${itemId}`);
+    return chapters;
+  } finally {
+    videoTranscriptsActions.setGeneratingChapters(itemId, false);
+  }
+};
+
+/**
+ * Called when a transcript is saved: chapter long YouTube videos and podcast
+ * episodes that don't have chapters yet. Failures are logged, not thrown.
+ */
+export const maybeGenerateChapters = async (itemId: string): Promise<void> => {
+  const transcript = videoTranscriptsComputed.getTranscriptByItemId(itemId);
+  const item = itemsStore.items.get().find(i => i.id === itemId);
+  if (!transcript?.segments?.length || transcript.chapters?.length) return;
+  if (!item || !CHAPTER_CONTENT_TYPES.includes(item.content_type)) return;
+  if (transcriptDurationMs(transcript.segments) < AUTO_CHAPTER_MIN_DURATION_MS) return;
+  if (videoTranscriptsComputed.isGeneratingChapters(itemId)) return;
+
+  try {
+    await generateTranscriptChapters(itemId);
+  } catch (error) {
+    console.error(`📑 [TranscriptChapters] Automatic chapters failed for ${itemId}:`, error);
+  }
+};
@@ -0,0 +1,59 @@
+import uuid from 'react-native-uuid';
+import { Item, VideoTranscript } from '../types';
+import { authComputed } from '../stores/auth';
+import { itemsActions } from '../stores/items';
+import { itemTypeMetadataActions } from '../stores/itemTypeMetadata';
+import { formatTimestamp } from '../utils/mediaTimestamps';
+
+// A clip is a note holding a range of transcript segments. Its type metadata
+// points back at the source item and time range, so the note can jump there.
+
+type ClipSegment = NonNullable<VideoTranscript['segments']>[number];
+
+export interface TranscriptClipSource {
+  item_id: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+/**
+ * Save transcript segments as a new note in the source item's space
+ */
+export const saveTranscriptClip = async (source: Item, segments: ClipSegment[]): Promise<Item> => {
+  const userId = authComputed.userId();
+  if (!userId) throw new Error('User not authenticated');
+  if (segments.length === 0) throw new Error('No segments selected');
+
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const clipSource: TranscriptClipSource = {
+    item_id: source.id,
+    start_ms: first.startMs,
+    // Segments without an end run until the next one; assume a short line
+    end_ms: last.endMs ?? last.startMs + 2000,
+  };
+
+  const now = new Date().toISOString();
+  const clip: Item = {
+    id: uuid.v4() as string,
+    user_id: userId,
+    title: `${source.title} (${formatTimestamp(clipSource.start_ms)}–${formatTimestamp(clipSource.end_ms)})`,
+    content_type: 'note',
+    notes: segments.map(segment => segment.text.trim()).join(' '),
+    thumbnail_url: source.thumbnail_url,
+    space_id: source.space_id ?? null,
+    is_archived: false,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await itemsActions.addItemWithSync(clip);
+  await itemTypeMetadataActions.upsertTypeMetadata({
+    item_id: clip.id,
+    content_type: 'note',
+    data: { clip_source: clipSource },
+  });
+
+  console.log(`✂️ [TranscriptClips] Saved clip of ${segments.length} segment(s) from ${source.id}`);
+  return clip;
+};
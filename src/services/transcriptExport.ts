@@ -0,0 +1,234 @@
+/**
+ * Transcript export service
+ * Renders a stored transcript as SRT, WebVTT, JSON, chaptered Markdown or
+ * plain text and hands the file to the system share sheet
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { PodcastChapter, VideoTranscript } from '../types';
+import { formatTimestamp } from '../utils/mediaTimestamps';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'json' | 'markdown' | 'txt';
+
+type Segment = NonNullable<VideoTranscript['segments']>[number];
+
+// Views that only hold the text and segments can export too
+export type TranscriptSource = Pick<VideoTranscript, 'transcript' | 'segments'> &
+  Partial<Pick<VideoTranscript, 'item_id' | 'platform' | 'language' | 'duration'>>;
+
+interface TimedSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface TranscriptExportOptions {
+  title?: string;
+  chapters?: PodcastChapter[];
+}
+
+// A cue with no end and nothing after it stays on screen this long
+const LAST_CUE_FALLBACK_MS = 2000;
+
+const FORMAT_DETAILS: Record<TranscriptExportFormat, { label: string; extension: string; mimeType: string; uti: string }> = {
+  srt: { label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip', uti: 'public.plain-text' },
+  vtt: { label: 'WebVTT subtitles', extension: 'vtt', mimeType: 'text/vtt', uti: 'public.plain-text' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown' },
+  txt: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain', uti: 'public.plain-text' },
+};
+
+export const transcriptExportLabel = (format: TranscriptExportFormat): string => FORMAT_DETAILS[format].label;
+
+/**
+ * Formats that make sense for a transcript. Subtitles need timed segments.
+ */
+export const availableExportFormats = (transcript: Pick<TranscriptSource, 'segments'>): TranscriptExportFormat[] =>
+  transcript.segments && transcript.segments.length > 0
+    ? ['srt', 'vtt', 'markdown', 'json', 'txt']
+    : ['markdown', 'txt'];
+
+const formatCueTimestamp = (ms: number, separator: ',' | '.'): string => {
+  const total = Math.max(0, Math.floor(Number.isFinite(ms) ? ms : 0));
+  const h = String(Math.floor(total / 3600000)).padStart(2, '0');
+  const m = String(Math.floor((total % 3600000) / 60000)).padStart(2, '0');
+  const s = String(Math.floor((total % 60000) / 1000)).padStart(2, '0');
+  const msRem = String(total % 1000).padStart(3, '0');
+  return `${h}:${m}:${s}${separator}${msRem}`;
+};
+
+// 00:01:02,345
+export const formatSrtTimestamp = (ms: number): string => formatCueTimestamp(ms, ',');
+
+// 00:01:02.345
+export const formatVttTimestamp = (ms: number): string => formatCueTimestamp(ms, '.');
+
+/**
+ * Fill in missing or inverted end times. A segment without an end runs
+ * until the next one starts.
+ */
+export const resolveSegmentTimes = (segments: Segment[]): TimedSegment[] => {
+  const sorted = segments
+    .filter(segment => segment.text && segment.text.trim().length > 0)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  return sorted.map((segment, index) => {
+    const startMs = Math.max(0, segment.startMs);
+    const next = sorted[index + 1];
+    let endMs = segment.endMs ?? (next ? next.startMs : startMs + LAST_CUE_FALLBACK_MS);
+    if (endMs <= startMs) endMs = startMs + LAST_CUE_FALLBACK_MS;
+    return { startMs, endMs, text: segment.text.trim().replace(/\s+/g, ' ') };
+  });
+};
+
+const plainText = (transcript: TranscriptSource): string =>
+  transcript.segments && transcript.segments.length > 0
+    ? resolveSegmentTimes(transcript.segments).map(segment => segment.text).join(' ')
+    : transcript.transcript.trim();
+
+export const transcriptToSrt = (transcript: TranscriptSource): string =>
+  resolveSegmentTimes(transcript.segments || [])
+    .map((segment, index) =>
+      `${index + 1}\n${formatSrtTimestamp(segment.startMs)} --> ${formatSrtTimestamp(segment.endMs)}\n${segment.text}\n`
+    )
+    .join('\n');
+
+export const transcriptToVtt = (transcript: TranscriptSource): string => {
+  const cues = resolveSegmentTimes(transcript.segments || []).map(segment =>
+    // A blank line or "-->" inside a cue would end it early
+    `${formatVttTimestamp(segment.startMs)} --> ${formatVttTimestamp(segment.endMs)}\n${segment.text.replace(/-->/g, '->')}\n`
+  );
+  return [`WEBVTT${transcript.language ? `\nLanguage: ${transcript.language}` : ''}\n`, ...cues].join('\n');
+};
+
+export const transcriptToJson = (transcript: TranscriptSource, options: TranscriptExportOptions = {}): string =>
+  JSON.stringify({
+    title: options.title ?? null,
+    platform: transcript.platform ?? null,
+    language: transcript.language ?? null,
+    duration: transcript.duration ?? null,
+    chapters: options.chapters ?? [],
+    segments: resolveSegmentTimes(transcript.segments || []),
+    text: plainText(transcript),
+  }, null, 2);
+
+/**
+ * Markdown with one heading per chapter, or a single section without chapters
+ */
+export const transcriptToMarkdown = (transcript: TranscriptSource, options: TranscriptExportOptions = {}): string => {
+  const lines: string[] = [`# ${options.title || 'Transcript'}`, ''];
+  const segments = resolveSegmentTimes(transcript.segments || []);
+  const chapters = (options.chapters || []).slice().sort((a, b) => a.start_ms - b.start_ms);
+
+  if (segments.length === 0) {
+    lines.push(transcript.transcript.trim(), '');
+    return lines.join('\n');
+  }
+
+  if (chapters.length === 0) {
+    segments.forEach(segment => lines.push(`**[${formatTimestamp(segment.startMs)}]** ${segment.text}`, ''));
+    return lines.join('\n');
+  }
+
+  // Segments before the first chapter go under an Intro section
+  const sections: Array<{ title: string; startMs: number; segments: TimedSegment[] }> = [];
+  if (segments[0].startMs < chapters[0].start_ms) {
+    sections.push({ title: 'Intro', startMs: 0, segments: [] });
+  }
+  chapters.forEach(chapter => sections.push({ title: chapter.title, startMs: chapter.start_ms, segments: [] }));
+  segments.forEach(segment => {
+    let target = sections[0];
+    sections.forEach(section => {
+      if (section.startMs <= segment.startMs) target = section;
+    });
+    target.segments.push(segment);
+  });
+
+  sections.forEach(section => {
+    lines.push(`## ${section.title} (${formatTimestamp(section.startMs)})`, '');
+    if (section.segments.length > 0) {
+      lines.push(section.segments.map(segment => segment.text).join(' '), '');
+    }
+  });
+  return lines.join('\n');
+};
+
+export const renderTranscript = (
+  transcript: TranscriptSource,
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): string => {
+  switch (format) {
+    case 'srt':
+      return transcriptToSrt(transcript);
+    case 'vtt':
+      return transcriptToVtt(transcript);
+    case 'json':
+      return transcriptToJson(transcript, options);
+    case 'markdown':
+      return transcriptToMarkdown(transcript, options);
+    case 'txt':
+      return `${plainText(transcript)}\n`;
+  }
+};
+
+const fileNameFor = (title: string | undefined, format: TranscriptExportFormat): string => {
+  const base = (title || 'transcript')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'transcript';
+  return `${base}.${FORMAT_DETAILS[format].extension}`;
+};
+
+/**
+ * Write the transcript to a cache file and open the share sheet.
+ * Returns the rendered text when sharing isn't available so the caller can
+ * fall back to the clipboard.
+ */
+export const shareTranscript = async (
+  transcript: TranscriptSource,
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): Promise<{ shared: boolean; content: string }> => {
+  const content = renderTranscript(transcript, format, options);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    return { shared: false, content };
+  }
+
+  const file = new File(Paths.cache, fileNameFor(options.title, format));
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(content);
+
+  const details = FORMAT_DETAILS[format];
+  await Sharing.shareAsync(file.uri, {
+    mimeType: details.mimeType,
+    UTI: details.uti,
+    dialogTitle: `Export ${details.label}`,
+  });
+  console.log(`📤 [TranscriptExport] Shared ${format}${transcript.item_id ? ` for ${transcript.item_id}` : ''}`);
+  return { shared: true, content };
+};
+
+/**
+ * Chapters from "00:00 Intro" style lines in a video description.
+ * YouTube needs at least three, starting at 0:00, to treat them as chapters.
+ */
+export const parseDescriptionChapters = (description?: string | null): PodcastChapter[] => {
+  if (!description) return [];
+  const chapters: PodcastChapter[] = [];
+  description.split('\n').forEach(line => {
+    const match = line.trim().match(/^(?:[-•*]\s*)?\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*[-–—:]?\s*(.+)$/);
+    if (!match) return;
+    const parts = match[1].split(':').map(Number);
+    const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+    chapters.push({ start_ms: seconds * 1000, title: match[2].trim() });
+  });
+  if (chapters.length < 3 || chapters[0].start_ms !== 0) return [];
+  return chapters.sort((a, b) => a.start_ms - b.start_ms);
+};
@@ -1,5 +1,6 @@
 import { API_CONFIG, isAPIConfigured } from '../config/api';
 import { extractTweetId as extractTweetIdFromUrl } from '../utils/urlHelpers';
+import { httpFetch } from './http/fixtureFetch';
 
 export interface TwitterMetadata {
   id: string;
@@ -49,7 +50,7 @@ export const fetchTweetData = async (tweetId: string): Promise<TwitterMetadata>
   });
 
   try {
-    const response = await fetch(
+    const response = await httpFetch(
       `${API_CONFIG.TWITTER.BASE_URL}/tweets/${tweetId}?${params.toString()}`,
       {
         headers: {
@@ -7,6 +7,7 @@ import { extractProductTitle } from './metadataCleaner';
 import { classifyUrlWithAI } from './aiUrlClassifier';
 import { ContentType } from '../types';
 import { isAmazonUrl, resolveToAbsoluteUrl } from '../utils/urlHelpers';
+import { httpFetch } from './http/fixtureFetch';
 
 export interface URLMetadata {
   url: string;
@@ -48,7 +49,7 @@ const extractOGTags = async (url: string): Promise<Partial<URLMetadata>> => {
     console.log('Attempting direct OG tag extraction via HTML fetch');
 
     // Fetch HTML directly with desktop user agent
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
@@ -321,7 +322,7 @@ const extractAmazonMetadata = async (url: string): Promise<URLMetadata> => {
     console.log('Extracting Amazon product metadata via direct fetch');
 
     // Fetch HTML directly - use desktop user agent for better image access
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
@@ -1253,7 +1254,7 @@ const extractWithJina = async (url: string, preDetectedType?: string): Promise<U
     console.log('Calling Jina.ai API for:', url);
     const jinaUrl = `${API_CONFIG.JINA_AI.BASE_URL}/${encodeURIComponent(url)}`;
     
-    const response = await fetch(jinaUrl, {
+    const response = await httpFetch(jinaUrl, {
       headers: {
         'Authorization': `Bearer ${API_CONFIG.JINA_AI.API_KEY}`,
         'Accept': 'application/json',
@@ -82,6 +82,7 @@ global.CustomEvent = CustomEvent as any;
 // === END === Making Youtube.js work
 
 import Innertube, {UniversalCache} from 'youtubei.js';
+import { httpFetch } from './http/fixtureFetch';
 
 let innertubeInstance: Innertube | null = null;
 
@@ -94,7 +95,7 @@ export const getInnertubeInstance = async (): Promise<Innertube> => {
         // Disable cache for Expo Go
         cache: undefined,
         generate_session_locally: true,
-        fetch: fetch,
+        fetch: httpFetch,
       });
       console.log('Innertube instance created successfully');
     } catch (error) {
@@ -2,6 +2,8 @@ import { observable } from '@legendapp/state';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AdminSettings } from '../types';
 import { supabase } from '../services/supabase';
+import { isAnyLLMConfigured } from '../services/llm';
+import { openai } from '../services/openai';
 import { authStore } from './auth';
 
 const STORAGE_KEY = '@memex_admin_settings';
@@ -298,7 +300,7 @@ export const adminSettingsActions = {
   },
 
   /**
-   * Fetch available models from OpenAI API
+   * Fetch available models from every configured LLM provider
    * @param force - Force refresh even if cache is still valid
    */
   fetchModels: async (force: boolean = false) => {
@@ -308,42 +310,42 @@ export const adminSettingsActions = {
       return;
     }
 
-    const { API } = require('../constants');
-    if (!API.OPENAI_API_KEY) {
-      console.warn('🔧 OpenAI API key not configured');
-      throw new Error('OpenAI API key not configured');
+    if (!isAnyLLMConfigured()) {
+      console.warn('🔧 No LLM provider configured');
+      throw new Error('No LLM provider configured');
     }
 
     try {
-      console.log('🔧 Fetching available models from OpenAI...');
+      console.log('🔧 Fetching available models from LLM providers...');
 
-      const response = await fetch('https://api.openai.com/v1/models', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API.OPENAI_API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
+      const models = await openai.fetchAvailableModels();
 
-      const data = await response.json();
-
-      // Filter to only chat-compatible models (gpt-* models)
-      const chatModels = data.data
+      // OpenAI lists embeddings, audio, image models etc. - keep chat-compatible gpt-* models only.
+      // Anthropic and local servers only list chat models.
+      const chatModels = models
         .filter((model: any) =>
-          model.id.startsWith('gpt-') &&
-          !model.id.includes('instruct') && // Exclude instruct models
-          !model.id.includes('vision') // Vision models handled separately
+          model.provider !== 'openai' || (
+            model.id.startsWith('gpt-') &&
+            !model.id.includes('instruct') && // Exclude instruct models
+            !model.id.includes('vision') // Vision models handled separately
+          )
         )
         .sort((a: any, b: any) => {
+          // Group by provider, keeping the registry order
+          if (a.provider !== b.provider) {
+            const order = ['openai', 'anthropic', 'local'];
+            return order.indexOf(a.provider) - order.indexOf(b.provider);
+          }
           // Sort by model version (newer first)
-          if (a.id.includes('4') && !b.id.includes('4')) return -1;
-          if (!a.id.includes('4') && b.id.includes('4')) return 1;
+          if (a.provider === 'openai' && a.id.includes('4') && !b.id.includes('4')) return -1;
+          if (a.provider === 'openai' && !a.id.includes('4') && b.id.includes('4')) return 1;
           return b.created - a.created;
         });
 
+      if (chatModels.length === 0) {
+        throw new Error('No models returned by the configured providers');
+      }
+
       // Update admin settings with new models
       await adminSettingsActions.updateSettings({
         ai_available_models: chatModels,
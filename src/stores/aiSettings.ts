@@ -1,12 +1,15 @@
 import { observable } from '@legendapp/state';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { STORAGE_KEYS, API } from '../constants';
+import { STORAGE_KEYS } from '../constants';
+import { isAnyLLMConfigured } from '../services/llm';
+import type { LLMProviderId } from '../services/llm';
 
 export interface OpenAIModel {
   id: string;
   object: string;
   created: number;
   owned_by: string;
+  provider?: LLMProviderId; // Missing on lists cached before other providers existed (OpenAI)
 }
 
 interface AISettingsState {
@@ -25,7 +28,7 @@ const initialState: AISettingsState = {
   availableModels: [],
   lastModelsFetch: null,
   isLoadingModels: false,
-  hasApiKey: !!API.OPENAI_API_KEY,
+  hasApiKey: isAnyLLMConfigured(),
 };
 
 export const aiSettingsStore = observable(initialState);
@@ -108,8 +111,9 @@ export const aiSettingsActions = {
     console.log('🤖 AI settings now loaded from adminSettings (global settings)');
   },
 
+  // True when at least one LLM provider (OpenAI, Anthropic or local) is configured
   checkApiKey: () => {
-    const hasKey = !!API.OPENAI_API_KEY;
+    const hasKey = isAnyLLMConfigured();
     aiSettingsStore.hasApiKey.set(hasKey);
     return hasKey;
   },
@@ -122,7 +126,7 @@ export const aiSettingsActions = {
     // Note: AI model settings are now global (stored in adminSettings)
     // We only reset the local loading state, not the global settings
     aiSettingsStore.isLoadingModels.set(false);
-    aiSettingsStore.hasApiKey.set(!!API.OPENAI_API_KEY);
+    aiSettingsStore.hasApiKey.set(isAnyLLMConfigured());
 
     try {
       // Remove legacy AsyncStorage keys (no longer used)
@@ -5,6 +5,29 @@ import { supabase } from '../services/supabase';
 import { STORAGE_KEYS } from '../constants';
 
 // Types for assistant chat
+// A saved item or memory the assistant based its answer on
+export interface AssistantCitation {
+  type: 'item' | 'memory';
+  id: string;
+  title: string;
+  // Memory text, shown when the chip is tapped (memories have no detail view)
+  body?: string;
+}
+
+// One tool call the assistant made while answering, shown in the message's tool trace
+export interface AssistantToolResult {
+  tool_call_id: string;
+  name: string;
+  // Raw JSON arguments from the model
+  arguments: string;
+  // Start of the tool output (full results are only sent to the model)
+  result: string;
+  status: 'success' | 'error' | 'timeout' | 'declined';
+  duration_ms: number;
+  // Tool round the call was made in, starting at 1
+  round: number;
+}
+
 export interface AssistantMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -22,10 +45,10 @@ export interface AssistantMessage {
       name: string;
       arguments: string;
     }>;
-    tool_results?: Array<{
-      tool_call_id: string;
-      result: string;
-    }>;
+    tool_results?: AssistantToolResult[];
+    // Reply was cut short by the user
+    stopped?: boolean;
+    citations?: AssistantCitation[];
   };
 }
 
@@ -0,0 +1,258 @@
+import { observable } from '@legendapp/state';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants';
+import { supabase } from '../services/supabase';
+import { Item, PodcastChapter } from '../types';
+import { authComputed } from './auth';
+import { itemsStore } from './items';
+import { itemTypeMetadataComputed } from './itemTypeMetadata';
+import { videoTranscriptsComputed } from './videoTranscripts';
+
+// Local queue edits are pushed once they settle
+const PUSH_DELAY_MS = 2000;
+
+interface AudioPlayerState {
+  currentItemId: string | null;
+  // Up next, in play order; never contains the current item
+  queue: string[];
+  skipSilence: boolean;
+  // Server updated_at of the last queue pushed or pulled, and whether the
+  // queue changed on this device since
+  queueSyncedAt: string | null;
+  queueDirty: boolean;
+  // Playback status, reported by the playback service and not persisted
+  isPlaying: boolean;
+  isLoading: boolean;
+  positionMs: number;
+  durationMs: number;
+  playbackRate: number;
+  isSkippingSilence: boolean;
+}
+
+const initialState: AudioPlayerState = {
+  currentItemId: null,
+  queue: [],
+  skipSilence: false,
+  queueSyncedAt: null,
+  queueDirty: false,
+  isPlaying: false,
+  isLoading: false,
+  positionMs: 0,
+  durationMs: 0,
+  playbackRate: 1.0,
+  isSkippingSilence: false,
+};
+
+export const audioPlayerStore = observable<AudioPlayerState>(initialState);
+
+const PERSISTED_KEYS = ['currentItemId', 'queue', 'skipSilence', 'queueSyncedAt', 'queueDirty'] as const;
+
+// Load the queue from storage on initialization
+const loadState = async () => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUDIO_PLAYER);
+    if (stored) {
+      const parsed = JSON.parse(stored) || {};
+      PERSISTED_KEYS.forEach(key => {
+        if (parsed[key] !== undefined) audioPlayerStore[key].set(parsed[key]);
+      });
+    }
+  } catch (error) {
+    console.error('Failed to load audio player state:', error);
+  }
+};
+
+// Save the queue whenever it changes (playback status changes are not saved)
+const saveState = () => {
+  const state = audioPlayerStore.get();
+  const persisted = Object.fromEntries(PERSISTED_KEYS.map(key => [key, state[key]]));
+  AsyncStorage.setItem(STORAGE_KEYS.AUDIO_PLAYER, JSON.stringify(persisted)).catch(error => {
+    console.error('Failed to save audio player state:', error);
+  });
+};
+
+PERSISTED_KEYS.forEach(key => audioPlayerStore[key].onChange(saveState));
+
+loadState();
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Record a local queue edit and push it once edits settle
+const setQueueState = (changes: Partial<Pick<AudioPlayerState, 'currentItemId' | 'queue'>>) => {
+  if (changes.currentItemId !== undefined) audioPlayerStore.currentItemId.set(changes.currentItemId);
+  if (changes.queue !== undefined) audioPlayerStore.queue.set(changes.queue);
+  audioPlayerStore.queueDirty.set(true);
+
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => {
+    pushTimer = null;
+    audioPlayerActions.pushQueue().catch(error => {
+      console.error('🎧 [AudioPlayer] Error pushing queue:', error);
+    });
+  }, PUSH_DELAY_MS);
+};
+
+const findItem = (itemId: string): Item | undefined =>
+  itemsStore.items.get().find(item => item.id === itemId);
+
+// Computed values
+export const audioPlayerComputed = {
+  currentItem: (): Item | null => {
+    const itemId = audioPlayerStore.currentItemId.get();
+    return itemId ? findItem(itemId) || null : null;
+  },
+
+  // Queued items that still exist locally
+  queueItems: (): Item[] =>
+    audioPlayerStore.queue.get()
+      .map(findItem)
+      .filter((item): item is Item => !!item && !item.is_deleted),
+
+  isCurrent: (itemId: string) => audioPlayerStore.currentItemId.get() === itemId,
+
+  isQueued: (itemId: string) => audioPlayerStore.queue.get().includes(itemId),
+
+  audioUrlForItem: (itemId: string): string | undefined =>
+    itemTypeMetadataComputed.getTypeMetadataForItem(itemId)?.data?.audio_url || undefined,
+
+  isPlayable: (itemId: string) => !!audioPlayerComputed.audioUrlForItem(itemId),
+
+  // Feed chapters win; otherwise chapters generated from the transcript
+  chaptersForItem: (itemId: string): PodcastChapter[] => {
+    const feedChapters: PodcastChapter[] | undefined = itemTypeMetadataComputed.getTypeMetadataForItem(itemId)?.data?.chapters;
+    if (feedChapters && feedChapters.length > 0) return feedChapters;
+    return videoTranscriptsComputed.getTranscriptByItemId(itemId)?.chapters || [];
+  },
+
+  // Index of the chapter being played, or -1 before the first one
+  currentChapterIndex: (): number => {
+    const itemId = audioPlayerStore.currentItemId.get();
+    if (!itemId) return -1;
+    const positionMs = audioPlayerStore.positionMs.get();
+    const chapters = audioPlayerComputed.chaptersForItem(itemId);
+    let index = -1;
+    chapters.forEach((chapter, i) => {
+      if (chapter.start_ms <= positionMs) index = i;
+    });
+    return index;
+  },
+};
+
+// Actions
+export const audioPlayerActions = {
+  setCurrentItem: (itemId: string | null) => {
+    setQueueState({
+      currentItemId: itemId,
+      queue: itemId ? audioPlayerStore.queue.get().filter(id => id !== itemId) : undefined,
+    });
+  },
+
+  // Returns false when the item is already playing or queued
+  addToQueue: (itemId: string): boolean => {
+    if (audioPlayerComputed.isCurrent(itemId) || audioPlayerComputed.isQueued(itemId)) return false;
+    setQueueState({ queue: [...audioPlayerStore.queue.get(), itemId] });
+    return true;
+  },
+
+  // Put an item at the front of the queue, moving it if it was already queued
+  playNext: (itemId: string): boolean => {
+    if (audioPlayerComputed.isCurrent(itemId)) return false;
+    setQueueState({ queue: [itemId, ...audioPlayerStore.queue.get().filter(id => id !== itemId)] });
+    return true;
+  },
+
+  removeFromQueue: (itemId: string) => {
+    setQueueState({ queue: audioPlayerStore.queue.get().filter(id => id !== itemId) });
+  },
+
+  moveInQueue: (itemId: string, toIndex: number) => {
+    const queue = audioPlayerStore.queue.get().filter(id => id !== itemId);
+    queue.splice(Math.max(0, Math.min(toIndex, queue.length)), 0, itemId);
+    setQueueState({ queue });
+  },
+
+  clearQueue: () => {
+    setQueueState({ queue: [] });
+  },
+
+  // Make the first queued item current; skips items that were deleted or lost their audio
+  takeNext: (): string | null => {
+    const queue = audioPlayerStore.queue.get();
+    const nextIndex = queue.findIndex(id => !!findItem(id) && audioPlayerComputed.isPlayable(id));
+    const nextId = nextIndex >= 0 ? queue[nextIndex] : null;
+    setQueueState({ currentItemId: nextId, queue: nextIndex >= 0 ? queue.slice(nextIndex + 1) : [] });
+    return nextId;
+  },
+
+  updateStatus: (status: Partial<Pick<AudioPlayerState, 'isPlaying' | 'isLoading' | 'positionMs' | 'durationMs' | 'playbackRate' | 'isSkippingSilence'>>) => {
+    audioPlayerStore.assign(status);
+  },
+
+  setSkipSilence: (enabled: boolean) => {
+    audioPlayerStore.skipSilence.set(enabled);
+  },
+
+  pushQueue: async () => {
+    const userId = authComputed.userId();
+    if (!userId || !audioPlayerStore.queueDirty.get()) return;
+
+    const { data, error } = await supabase
+      .from('playback_queues')
+      .upsert({
+        user_id: userId,
+        current_item_id: audioPlayerStore.currentItemId.get(),
+        item_ids: audioPlayerStore.queue.get(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    audioPlayerStore.queueSyncedAt.set(data.updated_at);
+    audioPlayerStore.queueDirty.set(false);
+    console.log('🎧 [AudioPlayer] Pushed queue:', data.item_ids.length, 'items');
+  },
+
+  /**
+   * Bring the queue in line with the server. A queue changed on another device
+   * replaces this one unless this device has unpushed edits, which win instead.
+   */
+  syncQueue: async () => {
+    const userId = authComputed.userId();
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('playback_queues')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+
+      const syncedAt = audioPlayerStore.queueSyncedAt.get();
+      const remoteIsNewer = !!data && (!syncedAt || new Date(data.updated_at).getTime() > new Date(syncedAt).getTime());
+
+      if (audioPlayerStore.queueDirty.get()) {
+        await audioPlayerActions.pushQueue();
+      } else if (data && remoteIsNewer) {
+        // Leave what this device is playing alone; only the up-next list moves over
+        const currentItemId = audioPlayerStore.isPlaying.get()
+          ? audioPlayerStore.currentItemId.get()
+          : data.current_item_id;
+        audioPlayerStore.currentItemId.set(currentItemId);
+        audioPlayerStore.queue.set((data.item_ids || []).filter(id => id !== currentItemId));
+        audioPlayerStore.queueSyncedAt.set(data.updated_at);
+        console.log('🎧 [AudioPlayer] Pulled queue:', data.item_ids?.length || 0, 'items');
+      }
+    } catch (error) {
+      console.error('🎧 [AudioPlayer] Error syncing queue:', error);
+    }
+  },
+
+  reset: () => {
+    if (pushTimer) {
+      clearTimeout(pushTimer);
+      pushTimer = null;
+    }
+    audioPlayerStore.set(initialState);
+  },
+};
@@ -14,6 +14,8 @@ export const expandedItemUIStore = observable({
   xVideoMuted: true, // Global preference for X video mute state
   autoplayXVideos: true, // Global preference for X video autoplay in grid
   activeVideoPlayer: null as any, // Track the currently active/playing video player globally
+  // Pending jump into an item's audio/video (e.g. a timestamp tapped in chat); consumed by the player
+  seekRequest: null as { itemId: string; positionMs: number } | null,
 });
 
 export const expandedItemUIActions = {
@@ -25,6 +27,15 @@ export const expandedItemUIActions = {
     expandedItemUIStore.currentItem.set(item);
   },
 
+  /**
+   * Swap in a newer copy of the open item (e.g. after a sync conflict is resolved)
+   */
+  refreshCurrentItem: (item: Item) => {
+    if (expandedItemUIStore.currentItem.get()?.id === item.id) {
+      expandedItemUIStore.currentItem.set(item);
+    }
+  },
+
   /**
    * Close the expanded item sheet
    */
@@ -33,6 +44,24 @@ export const expandedItemUIActions = {
     expandedItemUIStore.currentItem.set(null);
   },
 
+  /**
+   * Ask the player of an item to jump to a position, opening the item if needed
+   */
+  seekMedia: (item: Item, positionMs: number) => {
+    console.log('⏩ [expandedItemUIActions] seekMedia:', item.id, Math.floor(positionMs / 1000), 'seconds');
+    expandedItemUIStore.seekRequest.set({ itemId: item.id, positionMs });
+    if (expandedItemUIStore.currentItem.get()?.id !== item.id) {
+      expandedItemUIStore.currentItem.set(item);
+    }
+  },
+
+  /**
+   * Mark the pending seek as handled
+   */
+  clearSeekRequest: () => {
+    expandedItemUIStore.seekRequest.set(null);
+  },
+
   /**
    * Set X video mute preference
    */
@@ -2,6 +2,19 @@ import { observable } from '@legendapp/state';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ContentType, Item } from '../types';
 import { STORAGE_KEYS } from '../constants';
+import { spacesStore } from './spaces';
+import { itemMetadataComputed } from './itemMetadata';
+import { itemTypeMetadataComputed } from './itemTypeMetadata';
+import {
+  parseSearchQuery,
+  compileSearchFilters,
+  removeFilterFromQuery,
+  queryControlsArchive,
+  CompiledSearchQuery,
+  SearchFilter,
+} from '../services/search/queryParser';
+import { spaceItemMatcher, ruleControlsArchive } from '../services/smartSpaces';
+import { itemSearchIndex } from '../services/search/itemSearchIndex';
 
 export type SortOrder = 'recent' | 'oldest';
 
@@ -25,6 +38,60 @@ const initialState: FilterState = {
 
 export const filterStore = observable(initialState);
 
+// Smart spaces match by rule rather than space_id
+const filterBySpace = (items: Item[], spaceId: string): Item[] => {
+  const space = spacesStore.spaces.get().find(s => s.id === spaceId);
+  return space ? items.filter(spaceItemMatcher(space)) : items.filter(item => item.space_id === spaceId);
+};
+
+export type ItemFilters = Pick<FilterState, 'showArchived' | 'selectedSpaceId' | 'selectedContentType' | 'selectedTags'>;
+
+/**
+ * Apply the filter bar and search box to a list of items: archive state,
+ * space, type, tags (ALL selected), query operators, then free text.
+ * `matchesText` decides free-text hits, so the home screen can count semantic
+ * matches too. Used by the home screen and getItemsMatchingFilters.
+ */
+export const applyItemFilters = (
+  items: Item[],
+  filters: ItemFilters,
+  compiledQuery: CompiledSearchQuery,
+  matchesText: (item: Item) => boolean
+): Item[] => {
+  const { showArchived, selectedSpaceId, selectedContentType, selectedTags } = filters;
+  const selectedSpace = selectedSpaceId !== null ? spacesStore.spaces.get().find(s => s.id === selectedSpaceId) : undefined;
+
+  // Archive state is left to the query or smart space rule when it sets is:archived / is:active itself
+  let filtered = queryControlsArchive(compiledQuery) || ruleControlsArchive(selectedSpace?.smart_rule)
+    ? items.filter(item => !item.is_deleted)
+    : items.filter(item => !item.is_deleted && item.is_archived === showArchived);
+
+  if (selectedSpaceId !== null) {
+    filtered = filterBySpace(filtered, selectedSpaceId);
+  }
+
+  if (selectedContentType !== null) {
+    // Treat 'podcast' and 'podcast_episode' as equivalent
+    filtered = filtered.filter(item =>
+      selectedContentType === 'podcast'
+        ? item.content_type === 'podcast' || item.content_type === 'podcast_episode'
+        : item.content_type === selectedContentType
+    );
+  }
+
+  if (selectedTags.length > 0) {
+    filtered = filtered.filter(item => selectedTags.every(tag => item.tags?.includes(tag)));
+  }
+  if (compiledQuery.filters.length > 0) {
+    filtered = filtered.filter(compiledQuery.predicate);
+  }
+  if (compiledQuery.text.trim()) {
+    filtered = filtered.filter(matchesText);
+  }
+
+  return filtered;
+};
+
 // Computed values
 export const filterComputed = {
   sortOrder: () => filterStore.sortOrder.get(),
@@ -33,6 +100,20 @@ export const filterComputed = {
   selectedSpaceId: () => filterStore.selectedSpaceId.get(),
   showArchived: () => filterStore.showArchived.get(),
   searchQuery: () => filterStore.searchQuery.get(),
+  /**
+   * Parse the search box into structured filters (type:, tag:, space:, ...)
+   * plus the remaining free text, compiled into a single item predicate.
+   */
+  parsedSearchQuery: (): CompiledSearchQuery => {
+    const parsed = parseSearchQuery(filterStore.searchQuery.get());
+    const { predicate, errors } = compileSearchFilters(parsed.filters, {
+      spaces: spacesStore.spaces.get().filter(space => !space.is_deleted),
+      getMetadata: itemMetadataComputed.getMetadataForItem,
+      getTypeMetadata: itemTypeMetadataComputed.getTypeMetadataForItem,
+      matchSpace: spaceItemMatcher,
+    });
+    return { ...parsed, predicate, errors: [...parsed.errors, ...errors] };
+  },
   hasActiveFilters: () => {
     const type = filterStore.selectedContentType.get();
     const tags = filterStore.selectedTags.get();
@@ -41,6 +122,28 @@ export const filterComputed = {
     const query = filterStore.searchQuery.get();
     return type !== null || tags.length > 0 || spaceId !== null || archived || query.length > 0;
   },
+  /**
+   * Apply every active filter (archive state, space, type, tags, query operators
+   * and full-text search) outside the home screen, e.g. to act on the current
+   * filter in bulk. Semantic matches aren't included since they resolve async.
+   */
+  getItemsMatchingFilters: (items: Item[]) => {
+    const compiled = filterComputed.parsedSearchQuery();
+    const textMatches = compiled.text.trim()
+      ? new Set(itemSearchIndex.search(compiled.text).map(result => result.id))
+      : new Set<string>();
+    return applyItemFilters(
+      items,
+      {
+        showArchived: filterStore.showArchived.get(),
+        selectedSpaceId: filterStore.selectedSpaceId.get(),
+        selectedContentType: filterStore.selectedContentType.get(),
+        selectedTags: filterStore.selectedTags.get(),
+      },
+      compiled,
+      item => textMatches.has(item.id)
+    );
+  },
   /**
    * Filter items based on space only.
    * This is useful for showing only relevant types and tags in the filter UI.
@@ -53,7 +156,7 @@ export const filterComputed = {
 
     // Apply space filter if active
     if (selectedSpaceId !== null) {
-      filtered = filtered.filter(item => item.space_id === selectedSpaceId);
+      filtered = filterBySpace(filtered, selectedSpaceId);
     }
 
     return filtered;
@@ -71,7 +174,7 @@ export const filterComputed = {
 
     // Apply space filter if active
     if (selectedSpaceId !== null) {
-      filtered = filtered.filter(item => item.space_id === selectedSpaceId);
+      filtered = filterBySpace(filtered, selectedSpaceId);
     }
 
     // Apply content type filter if active
@@ -210,6 +313,10 @@ export const filterActions = {
     // Don't persist search queries
   },
 
+  removeQueryFilter: (filter: SearchFilter) => {
+    filterStore.searchQuery.set(removeFilterFromQuery(filterStore.searchQuery.get(), filter));
+  },
+
   // Clear all filters
   clearAll: async () => {
     filterStore.selectedContentType.set(null);
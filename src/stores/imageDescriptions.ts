@@ -91,6 +91,10 @@ export const imageDescriptionsActions = {
 
       // Sync to Supabase
       await syncOperations.uploadImageDescription(description);
+
+      // Re-embed the item with the new description (dynamic import to avoid require cycle)
+      const { indexItem } = await import('../services/embeddings/semanticSearch');
+      await indexItem(description.item_id);
     } catch (error) {
       console.error('Error saving image description:', error);
     }
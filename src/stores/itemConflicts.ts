@@ -0,0 +1,88 @@
+import { observable } from '@legendapp/state';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants';
+import type { ItemConflict } from '../services/itemMerge';
+
+interface ItemConflictsState {
+  conflicts: ItemConflict[];
+}
+
+const initialState: ItemConflictsState = {
+  conflicts: [],
+};
+
+export const itemConflictsStore = observable(initialState);
+
+// Load unresolved conflicts from storage on initialization
+const loadConflicts = async () => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.ITEM_CONFLICTS);
+    if (stored) {
+      itemConflictsStore.conflicts.set(JSON.parse(stored) || []);
+    }
+  } catch (error) {
+    console.error('Failed to load item conflicts:', error);
+  }
+};
+
+// Save conflicts whenever they change
+itemConflictsStore.conflicts.onChange(() => {
+  AsyncStorage.setItem(STORAGE_KEYS.ITEM_CONFLICTS, JSON.stringify(itemConflictsStore.conflicts.get())).catch(error => {
+    console.error('Failed to save item conflicts:', error);
+  });
+});
+
+loadConflicts();
+
+// Computed values
+export const itemConflictsComputed = {
+  conflictsForItem: (itemId: string): ItemConflict[] =>
+    itemConflictsStore.conflicts.get().filter(conflict => conflict.item_id === itemId),
+
+  count: () => itemConflictsStore.conflicts.get().length,
+};
+
+// Actions
+export const itemConflictsActions = {
+  // A newer conflict on the same field replaces the old one
+  addConflicts: (conflicts: ItemConflict[]) => {
+    const ids = new Set(conflicts.map(conflict => conflict.id));
+    itemConflictsStore.conflicts.set([
+      ...itemConflictsStore.conflicts.get().filter(conflict => !ids.has(conflict.id)),
+      ...conflicts,
+    ]);
+  },
+
+  /**
+   * Keep one version of the field. The item already shows the remote version,
+   * so choosing it only clears the conflict; choosing this device's version
+   * saves it as a normal edit.
+   */
+  resolveConflict: async (conflictId: string, choice: 'local' | 'remote') => {
+    const conflict = itemConflictsStore.conflicts.get().find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    itemConflictsActions.dismissConflict(conflictId);
+
+    if (choice === 'local') {
+      const { itemsActions } = await import('./items');
+      await itemsActions.updateItemWithSync(conflict.item_id, {
+        [conflict.field]: conflict.local_value ?? '',
+      });
+    }
+  },
+
+  dismissConflict: (conflictId: string) => {
+    itemConflictsStore.conflicts.set(
+      itemConflictsStore.conflicts.get().filter(conflict => conflict.id !== conflictId)
+    );
+  },
+
+  // The item is gone; its conflicts can't be resolved anymore
+  removeConflictsForItems: (itemIds: string[]) => {
+    const ids = new Set(itemIds);
+    itemConflictsStore.conflicts.set(
+      itemConflictsStore.conflicts.get().filter(conflict => !ids.has(conflict.item_id))
+    );
+  },
+};
@@ -11,11 +11,13 @@ import { aiSettingsStore } from './aiSettings';
 import { imageDescriptionsActions } from './imageDescriptions';
 import { itemTypeMetadataComputed } from './itemTypeMetadata';
 import { openai } from '../services/openai';
+import { getVisionModel } from '../services/llm';
 import { getYouTubeTranscript } from '../services/youtube';
 import { getXVideoTranscript } from '../services/twitter';
 import { serpapi } from '../services/serpapi';
 import { adminSettingsComputed } from './adminSettings';
 import { trackApiUsage } from '../services/apiUsageTracking';
+import { EMBEDDED_ITEM_FIELDS } from '../services/embeddings/chunker';
 import uuid from 'react-native-uuid';
 
 interface ItemsState {
@@ -234,7 +236,7 @@ export const itemsActions = {
         try {
           for (const imageUrl of imageUrls) {
             const description = await openai.describeImage(imageUrl, {
-              model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+              model: getVisionModel(selectedModel),
             });
 
             if (description) {
@@ -243,7 +245,7 @@ export const itemsActions = {
                 item_id: item.id,
                 image_url: imageUrl,
                 description,
-                model: selectedModel.includes('gpt-4') ? selectedModel : 'gpt-4o-mini',
+                model: getVisionModel(selectedModel),
                 fetched_at: new Date().toISOString(),
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
@@ -443,6 +445,12 @@ export const itemsActions = {
       // Sync with Supabase using offline-aware service (dynamic import to avoid require cycle)
       const { syncService } = await import('../services/syncService');
       await syncService.updateItem(id, updates);
+
+      // Keep semantic search in step with any text it embeds
+      if (EMBEDDED_ITEM_FIELDS.some(field => updates[field] !== undefined)) {
+        const { scheduleIndexItem } = await import('../services/embeddings/semanticSearch');
+        scheduleIndexItem(id);
+      }
     } catch (error) {
       console.error('Error updating item:', error);
     }
@@ -0,0 +1,205 @@
+import { observable } from '@legendapp/state';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../services/supabase';
+import {
+  applyMemoryMaintenance,
+  effectiveImportance,
+  findDuplicateGroups,
+  mergeMemories,
+} from '../services/memoryMaintenance';
+import { AssistantMemory, MemoryKind } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { authComputed } from './auth';
+
+// Maintenance (archiving stale/surplus memories) runs at most this often
+const MAINTENANCE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export type MemoryEdit = Partial<Pick<AssistantMemory, 'kind' | 'title' | 'body' | 'importance' | 'tags'>>;
+
+interface MemoriesState {
+  // Assistant memories live in Supabase only; this is the copy loaded for the memory inbox
+  memories: AssistantMemory[];
+  isLoading: boolean;
+}
+
+const initialState: MemoriesState = {
+  memories: [],
+  isLoading: false,
+};
+
+export const memoriesStore = observable<MemoriesState>(initialState);
+
+const replaceMemory = (memory: AssistantMemory) => {
+  memoriesStore.memories.set(memoriesStore.memories.get().map(m => m.id === memory.id ? memory : m));
+};
+
+// Computed values
+export const memoriesComputed = {
+  // Pinned first, then by importance after decay
+  activeMemories: (): AssistantMemory[] => {
+    const now = Date.now();
+    return memoriesStore.memories.get()
+      .filter(memory => !memory.is_archived)
+      .sort((a, b) => {
+        if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+        return effectiveImportance(b, now) - effectiveImportance(a, now);
+      });
+  },
+
+  archivedMemories: (): AssistantMemory[] => {
+    return memoriesStore.memories.get()
+      .filter(memory => memory.is_archived)
+      .sort((a, b) => new Date(b.archived_at || b.updated_at).getTime() - new Date(a.archived_at || a.updated_at).getTime());
+  },
+
+  duplicateGroups: (): AssistantMemory[][] => {
+    return findDuplicateGroups(memoriesComputed.activeMemories());
+  },
+
+  countByKind: (): Partial<Record<MemoryKind, number>> => {
+    const counts: Partial<Record<MemoryKind, number>> = {};
+    memoriesComputed.activeMemories().forEach(memory => {
+      counts[memory.kind] = (counts[memory.kind] || 0) + 1;
+    });
+    return counts;
+  },
+};
+
+// Actions
+export const memoriesActions = {
+  loadMemories: async () => {
+    const userId = authComputed.userId();
+    if (!userId) return;
+
+    memoriesStore.isLoading.set(true);
+    try {
+      const { data, error } = await supabase
+        .from('assistant_memories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      memoriesStore.memories.set((data || []) as AssistantMemory[]);
+      console.log(`🧠 [Memories] Loaded ${data?.length || 0} memories`);
+    } catch (error) {
+      console.error('🧠 [Memories] Error loading memories:', error);
+    } finally {
+      memoriesStore.isLoading.set(false);
+    }
+  },
+
+  updateMemory: async (id: string, updates: MemoryEdit) => {
+    const { data, error } = await supabase
+      .from('assistant_memories')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('🧠 [Memories] Error updating memory:', error);
+      throw error;
+    }
+    replaceMemory(data as AssistantMemory);
+  },
+
+  setPinned: async (id: string, pinned: boolean) => {
+    // Pinning brings an archived memory back
+    const updates = pinned ? { pinned, is_archived: false, archived_at: null } : { pinned };
+    const { data, error } = await supabase
+      .from('assistant_memories')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('🧠 [Memories] Error updating pin:', error);
+      throw error;
+    }
+    replaceMemory(data as AssistantMemory);
+  },
+
+  setArchived: async (id: string, archived: boolean) => {
+    const { data, error } = await supabase
+      .from('assistant_memories')
+      .update({ is_archived: archived, archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('🧠 [Memories] Error updating archive state:', error);
+      throw error;
+    }
+    replaceMemory(data as AssistantMemory);
+  },
+
+  deleteMemory: async (id: string) => {
+    const { error } = await supabase
+      .from('assistant_memories')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('🧠 [Memories] Error deleting memory:', error);
+      throw error;
+    }
+    memoriesStore.memories.set(memoriesStore.memories.get().filter(memory => memory.id !== id));
+  },
+
+  // Keep `targetId`, folding the other memories into it
+  mergeMemories: async (targetId: string, sourceIds: string[]) => {
+    const memories = memoriesStore.memories.get();
+    const target = memories.find(memory => memory.id === targetId);
+    const sources = memories.filter(memory => sourceIds.includes(memory.id) && memory.id !== targetId);
+    if (!target || sources.length === 0) return;
+
+    const merged = await mergeMemories(target, sources);
+    const sourceSet = new Set(sources.map(source => source.id));
+    memoriesStore.memories.set(
+      memoriesStore.memories.get()
+        .filter(memory => !sourceSet.has(memory.id))
+        .map(memory => memory.id === merged.id ? merged : memory)
+    );
+  },
+
+  // Archive stale and surplus memories; skipped if it already ran recently unless forced
+  runMaintenance: async (force: boolean = false): Promise<number> => {
+    const userId = authComputed.userId();
+    if (!userId) return 0;
+
+    try {
+      if (!force) {
+        const lastRun = await AsyncStorage.getItem(STORAGE_KEYS.MEMORY_MAINTENANCE);
+        if (lastRun && Date.now() - new Date(lastRun).getTime() < MAINTENANCE_INTERVAL_MS) {
+          return 0;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('assistant_memories')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_archived', false);
+
+      if (error) throw error;
+
+      const archivedIds = await applyMemoryMaintenance((data || []) as AssistantMemory[]);
+      await AsyncStorage.setItem(STORAGE_KEYS.MEMORY_MAINTENANCE, new Date().toISOString());
+
+      if (archivedIds.length > 0) {
+        const archivedAt = new Date().toISOString();
+        const archivedSet = new Set(archivedIds);
+        memoriesStore.memories.set(memoriesStore.memories.get().map(memory =>
+          archivedSet.has(memory.id) ? { ...memory, is_archived: true, archived_at: archivedAt } : memory
+        ));
+      }
+      return archivedIds.length;
+    } catch (error) {
+      console.error('🧠 [Memories] Error running memory maintenance:', error);
+      return 0;
+    }
+  },
+};
@@ -0,0 +1,183 @@
+import { observable } from '@legendapp/state';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../services/supabase';
+import type { Json } from '../types/database';
+import {
+  MEMORY_SCHEMA,
+  MemorySchemaDefinition,
+  StoredSchemaProposal,
+  applySchemaProposal,
+} from '../services/memorySchema';
+import { STORAGE_KEYS } from '../constants';
+import { authComputed } from './auth';
+
+interface ActiveSchemaVersion {
+  version: string;
+  schema: MemorySchemaDefinition;
+  created_at: string;
+}
+
+interface MemorySchemaState {
+  // null until a proposal has been applied - the built-in MEMORY_SCHEMA is active
+  activeVersion: ActiveSchemaVersion | null;
+  proposals: StoredSchemaProposal[];
+  isLoading: boolean;
+}
+
+const initialState: MemorySchemaState = {
+  activeVersion: null,
+  proposals: [],
+  isLoading: false,
+};
+
+export const memorySchemaStore = observable<MemorySchemaState>(initialState);
+
+const toProposal = (row: any): StoredSchemaProposal => ({
+  id: row.id,
+  type: row.type,
+  description: row.description,
+  rationale: row.rationale,
+  impact: row.impact,
+  migration: row.migration || { required: false },
+  proposed: row.proposed || {},
+  proposed_by: row.proposed_by,
+  status: row.status,
+  base_version: row.base_version,
+  applied_version: row.applied_version,
+  review_note: row.review_note,
+  reviewed_at: row.reviewed_at,
+  created_at: row.created_at,
+});
+
+// Last known active schema, so memories validate against it offline
+const loadCachedSchema = async () => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.MEMORY_SCHEMA);
+    if (stored) {
+      memorySchemaStore.activeVersion.set(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.error('🧬 [MemorySchema] Error loading cached schema:', error);
+  }
+};
+
+loadCachedSchema();
+
+// Computed values
+export const memorySchemaComputed = {
+  activeSchema: (): MemorySchemaDefinition => memorySchemaStore.activeVersion.get()?.schema ?? MEMORY_SCHEMA,
+
+  activeVersion: (): string => memorySchemaComputed.activeSchema().version,
+
+  pendingProposals: (): StoredSchemaProposal[] =>
+    memorySchemaStore.proposals.get().filter(proposal => proposal.status === 'pending'),
+
+  reviewedProposals: (): StoredSchemaProposal[] =>
+    memorySchemaStore.proposals.get().filter(proposal => proposal.status !== 'pending'),
+};
+
+// Actions
+export const memorySchemaActions = {
+  loadActiveSchema: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('memory_schema_versions')
+        .select('version, schema, created_at')
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const activeVersion = data
+        ? { version: data.version, schema: data.schema as unknown as MemorySchemaDefinition, created_at: data.created_at }
+        : null;
+      memorySchemaStore.activeVersion.set(activeVersion);
+
+      if (activeVersion) {
+        await AsyncStorage.setItem(STORAGE_KEYS.MEMORY_SCHEMA, JSON.stringify(activeVersion));
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEYS.MEMORY_SCHEMA);
+      }
+      console.log(`🧬 [MemorySchema] Active schema v${memorySchemaComputed.activeVersion()}`);
+    } catch (error) {
+      console.error('🧬 [MemorySchema] Error loading active schema:', error);
+    }
+  },
+
+  loadProposals: async () => {
+    memorySchemaStore.isLoading.set(true);
+    try {
+      const { data, error } = await supabase
+        .from('memory_schema_proposals')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      memorySchemaStore.proposals.set((data || []).map(toProposal));
+    } catch (error) {
+      console.error('🧬 [MemorySchema] Error loading proposals:', error);
+    } finally {
+      memorySchemaStore.isLoading.set(false);
+    }
+  },
+
+  /**
+   * Apply a pending proposal: builds the next schema version locally, then the
+   * apply_memory_schema_proposal RPC stores it and migrates existing memories.
+   * Returns the new version and how many memories were migrated.
+   */
+  applyProposal: async (proposalId: string): Promise<{ version: string; migratedCount: number }> => {
+    // Make sure the proposal is checked against the latest version
+    await memorySchemaActions.loadActiveSchema();
+
+    const proposal = memorySchemaStore.proposals.get().find(p => p.id === proposalId);
+    if (!proposal) throw new Error('Proposal not found');
+    if (proposal.base_version !== memorySchemaComputed.activeVersion()) {
+      throw new Error(`This proposal was made for schema v${proposal.base_version}, but v${memorySchemaComputed.activeVersion()} is now active. Ask the assistant for a new proposal.`);
+    }
+
+    const { schema, rowMigrations } = applySchemaProposal(memorySchemaComputed.activeSchema(), proposal);
+
+    const { data: migratedCount, error } = await supabase.rpc('apply_memory_schema_proposal', {
+      p_proposal_id: proposalId,
+      p_version: schema.version,
+      // Optional fields keep the interface from matching Json, though it serializes to it
+      p_schema: schema as unknown as Json,
+      p_row_migrations: rowMigrations as Json,
+    });
+
+    if (error) {
+      console.error('🧬 [MemorySchema] Error applying proposal:', error);
+      throw new Error(error.message);
+    }
+
+    console.log(`🧬 [MemorySchema] Applied proposal ${proposalId} as v${schema.version} (${migratedCount} memories migrated)`);
+    await memorySchemaActions.loadActiveSchema();
+    await memorySchemaActions.loadProposals();
+    return { version: schema.version, migratedCount: migratedCount || 0 };
+  },
+
+  rejectProposal: async (proposalId: string, note?: string) => {
+    const { error } = await supabase
+      .from('memory_schema_proposals')
+      .update({
+        status: 'rejected',
+        review_note: note || null,
+        reviewed_by: authComputed.userId() || null,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', proposalId);
+
+    if (error) {
+      console.error('🧬 [MemorySchema] Error rejecting proposal:', error);
+      throw error;
+    }
+
+    memorySchemaStore.proposals.set(memorySchemaStore.proposals.get().map(proposal =>
+      proposal.id === proposalId
+        ? { ...proposal, status: 'rejected', review_note: note || null, reviewed_at: new Date().toISOString() }
+        : proposal
+    ));
+  },
+};
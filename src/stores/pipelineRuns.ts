@@ -0,0 +1,68 @@
+import { observable } from '@legendapp/state';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants';
+import type { PipelineRun } from '../services/pipeline/types';
+
+// Keep the last few runs per item, and only for the most recently processed items
+const MAX_RUNS_PER_ITEM = 5;
+const MAX_ITEMS = 200;
+
+interface PipelineRunsState {
+  runsByItem: Record<string, PipelineRun[]>; // newest first
+}
+
+const initialState: PipelineRunsState = {
+  runsByItem: {},
+};
+
+export const pipelineRunsStore = observable(initialState);
+
+// Load run logs from storage on initialization
+const loadRuns = async () => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.PIPELINE_RUNS);
+    if (stored) {
+      pipelineRunsStore.runsByItem.set(JSON.parse(stored) || {});
+    }
+  } catch (error) {
+    console.error('Failed to load pipeline runs:', error);
+  }
+};
+
+// Save run logs whenever they change
+pipelineRunsStore.runsByItem.onChange(() => {
+  AsyncStorage.setItem(STORAGE_KEYS.PIPELINE_RUNS, JSON.stringify(pipelineRunsStore.runsByItem.get())).catch(error => {
+    console.error('Failed to save pipeline runs:', error);
+  });
+});
+
+loadRuns();
+
+// Computed values
+export const pipelineRunsComputed = {
+  getRunsForItem: (itemId: string): PipelineRun[] => pipelineRunsStore.runsByItem.get()[itemId] || [],
+
+  getLatestRun: (itemId: string): PipelineRun | null => pipelineRunsStore.runsByItem.get()[itemId]?.[0] || null,
+};
+
+// Actions
+export const pipelineRunsActions = {
+  recordRun: (run: PipelineRun) => {
+    const current = pipelineRunsStore.runsByItem.get();
+    const next: Record<string, PipelineRun[]> = {
+      ...current,
+      [run.itemId]: [run, ...(current[run.itemId] || [])].slice(0, MAX_RUNS_PER_ITEM),
+    };
+
+    // Drop the items whose latest run is oldest
+    const itemIds = Object.keys(next);
+    if (itemIds.length > MAX_ITEMS) {
+      itemIds
+        .sort((a, b) => next[b][0].startedAt.localeCompare(next[a][0].startedAt))
+        .slice(MAX_ITEMS)
+        .forEach(itemId => delete next[itemId]);
+    }
+
+    pipelineRunsStore.runsByItem.set(next);
+  },
+};
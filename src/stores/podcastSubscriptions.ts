@@ -0,0 +1,371 @@
+import { observable } from '@legendapp/state';
+import uuid from 'react-native-uuid';
+import { supabase } from '../services/supabase';
+import { findPodcastFeedUrl, fetchPodcastFeed, FeedEpisode } from '../services/podcast';
+import { Item, PodcastEpisode, PodcastSubscription } from '../types';
+import type { Json } from '../types/database';
+import { authComputed } from './auth';
+import { itemsActions, itemsStore } from './items';
+import { itemMetadataActions } from './itemMetadata';
+import { itemTypeMetadataActions, itemTypeMetadataComputed } from './itemTypeMetadata';
+
+// Each feed is fetched at most this often, however often the app comes to the foreground
+const POLL_INTERVAL_MS = 60 * 60 * 1000;
+
+// A feed that republishes its back catalogue shouldn't flood the inbox
+const MAX_NEW_EPISODES_PER_POLL = 20;
+
+const MAX_SHOW_NOTES_LENGTH = 10000;
+
+interface PodcastSubscriptionsState {
+  subscriptions: PodcastSubscription[];
+  // Episodes with status 'new', newest first
+  inbox: PodcastEpisode[];
+  isLoading: boolean;
+  isPolling: boolean;
+}
+
+const initialState: PodcastSubscriptionsState = {
+  subscriptions: [],
+  inbox: [],
+  isLoading: false,
+  isPolling: false,
+};
+
+export const podcastSubscriptionsStore = observable<PodcastSubscriptionsState>(initialState);
+
+// RSS dates are RFC 822; anything unparseable is treated as undated
+const toIsoDate = (date?: string): string | null => {
+  if (!date) return null;
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+const byPublishedDesc = (a: PodcastEpisode, b: PodcastEpisode) =>
+  (b.published_at || b.created_at).localeCompare(a.published_at || a.created_at);
+
+const replaceSubscription = (subscription: PodcastSubscription) => {
+  podcastSubscriptionsStore.subscriptions.set(
+    podcastSubscriptionsStore.subscriptions.get().map(s => s.id === subscription.id ? subscription : s)
+  );
+};
+
+const removeFromInbox = (episodeId: string) => {
+  podcastSubscriptionsStore.inbox.set(podcastSubscriptionsStore.inbox.get().filter(e => e.id !== episodeId));
+};
+
+const isDue = (subscription: PodcastSubscription, now: number) =>
+  !subscription.last_polled_at || now - new Date(subscription.last_polled_at).getTime() >= POLL_INTERVAL_MS;
+
+const toEpisodeRow = (episode: FeedEpisode, subscription: PodcastSubscription) => ({
+  user_id: subscription.user_id,
+  subscription_id: subscription.id,
+  guid: episode.guid,
+  title: episode.title || 'Untitled episode',
+  audio_url: episode.audioUrl || null,
+  episode_url: episode.link || null,
+  duration: episode.duration && !Number.isNaN(episode.duration) ? episode.duration : null,
+  show_notes: episode.showNotes ? episode.showNotes.substring(0, MAX_SHOW_NOTES_LENGTH) : null,
+  chapters: (episode.chapters || null) as Json | null,
+  chapters_url: episode.chaptersUrl || null,
+  published_at: toIsoDate(episode.publishedDate),
+});
+
+// Computed values
+export const podcastSubscriptionsComputed = {
+  subscriptionForItem: (itemId: string): PodcastSubscription | null =>
+    podcastSubscriptionsStore.subscriptions.get().find(s => s.item_id === itemId) || null,
+
+  inboxForSubscription: (subscriptionId: string): PodcastEpisode[] =>
+    podcastSubscriptionsStore.inbox.get().filter(e => e.subscription_id === subscriptionId),
+
+  inboxCount: () => podcastSubscriptionsStore.inbox.get().length,
+};
+
+// Actions
+export const podcastSubscriptionsActions = {
+  loadSubscriptions: async () => {
+    const userId = authComputed.userId();
+    if (!userId) return;
+
+    podcastSubscriptionsStore.isLoading.set(true);
+    try {
+      const [subscriptionsResult, inboxResult] = await Promise.all([
+        supabase
+          .from('podcast_subscriptions')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('podcast_episodes')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('status', 'new'),
+      ]);
+
+      if (subscriptionsResult.error) throw subscriptionsResult.error;
+      if (inboxResult.error) throw inboxResult.error;
+
+      podcastSubscriptionsStore.subscriptions.set((subscriptionsResult.data || []) as PodcastSubscription[]);
+      podcastSubscriptionsStore.inbox.set(((inboxResult.data || []) as PodcastEpisode[]).sort(byPublishedDesc));
+      console.log(`🎙️ [PodcastSubscriptions] Loaded ${subscriptionsResult.data?.length || 0} subscriptions, ${inboxResult.data?.length || 0} new episodes`);
+    } catch (error) {
+      console.error('🎙️ [PodcastSubscriptions] Error loading subscriptions:', error);
+    } finally {
+      podcastSubscriptionsStore.isLoading.set(false);
+    }
+  },
+
+  /**
+   * Subscribe to a saved 'podcast' item. Only episodes published from now on
+   * show up as new.
+   */
+  subscribe: async (item: Item): Promise<PodcastSubscription> => {
+    const userId = authComputed.userId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const typeMetadata = itemTypeMetadataComputed.getTypeMetadataForItem(item.id);
+    const feedUrl = typeMetadata?.data?.feed_url || (item.url ? await findPodcastFeedUrl(item.url) : null);
+    if (!feedUrl) {
+      throw new Error('Could not find an RSS feed for this podcast');
+    }
+
+    // Fails early for feeds we can't read
+    const feed = await fetchPodcastFeed(feedUrl);
+
+    const { data, error } = await supabase
+      .from('podcast_subscriptions')
+      .upsert({
+        user_id: userId,
+        item_id: item.id,
+        feed_url: feedUrl,
+        title: feed.title || item.title,
+        image_url: feed.imageUrl || item.thumbnail_url || null,
+        last_polled_at: new Date().toISOString(),
+        last_poll_error: null,
+      }, { onConflict: 'user_id,feed_url' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('🎙️ [PodcastSubscriptions] Error subscribing:', error);
+      throw error;
+    }
+
+    const subscription = data as PodcastSubscription;
+    podcastSubscriptionsStore.subscriptions.set([
+      ...podcastSubscriptionsStore.subscriptions.get().filter(s => s.id !== subscription.id),
+      subscription,
+    ]);
+
+    // Remember the feed on the item so re-subscribing skips the lookup
+    await itemTypeMetadataActions.upsertTypeMetadata({
+      item_id: item.id,
+      content_type: item.content_type,
+      data: { ...(typeMetadata?.data || {}), feed_url: feedUrl },
+    });
+
+    console.log(`🎙️ [PodcastSubscriptions] Subscribed to ${subscription.title} (${feedUrl})`);
+    return subscription;
+  },
+
+  unsubscribe: async (subscriptionId: string) => {
+    const { error } = await supabase
+      .from('podcast_subscriptions')
+      .delete()
+      .eq('id', subscriptionId);
+
+    if (error) {
+      console.error('🎙️ [PodcastSubscriptions] Error unsubscribing:', error);
+      throw error;
+    }
+    podcastSubscriptionsStore.subscriptions.set(
+      podcastSubscriptionsStore.subscriptions.get().filter(s => s.id !== subscriptionId)
+    );
+    podcastSubscriptionsStore.inbox.set(
+      podcastSubscriptionsStore.inbox.get().filter(e => e.subscription_id !== subscriptionId)
+    );
+  },
+
+  setAutoSave: async (subscriptionId: string, autoSave: boolean) => {
+    const { data, error } = await supabase
+      .from('podcast_subscriptions')
+      .update({ auto_save_episodes: autoSave })
+      .eq('id', subscriptionId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('🎙️ [PodcastSubscriptions] Error updating subscription:', error);
+      throw error;
+    }
+    replaceSubscription(data as PodcastSubscription);
+  },
+
+  /**
+   * Check every subscription that is due for new episodes. Runs on sign-in and
+   * whenever the app comes to the foreground. Returns the number of new episodes.
+   */
+  pollSubscriptions: async (force: boolean = false): Promise<number> => {
+    if (podcastSubscriptionsStore.isPolling.get()) return 0;
+
+    podcastSubscriptionsStore.isPolling.set(true);
+    let found = 0;
+    try {
+      await podcastSubscriptionsActions.loadSubscriptions();
+      const now = Date.now();
+      const due = podcastSubscriptionsStore.subscriptions.get().filter(s => force || isDue(s, now));
+
+      for (const subscription of due) {
+        found += await podcastSubscriptionsActions.pollSubscription(subscription);
+      }
+      if (found > 0) {
+        console.log(`🎙️ [PodcastSubscriptions] ${found} new episodes`);
+      }
+    } finally {
+      podcastSubscriptionsStore.isPolling.set(false);
+    }
+    return found;
+  },
+
+  pollSubscription: async (subscription: PodcastSubscription): Promise<number> => {
+    console.log(`🎙️ [PodcastSubscriptions] Polling ${subscription.title}`);
+    const polledAt = new Date().toISOString();
+
+    try {
+      const feed = await fetchPodcastFeed(subscription.feed_url);
+      const subscribedAt = new Date(subscription.created_at).getTime();
+      const candidates = feed.episodes
+        .filter(episode => {
+          const publishedAt = toIsoDate(episode.publishedDate);
+          return publishedAt && new Date(publishedAt).getTime() > subscribedAt;
+        })
+        .slice(0, MAX_NEW_EPISODES_PER_POLL);
+
+      let inserted: PodcastEpisode[] = [];
+      if (candidates.length > 0) {
+        // Episodes already recorded (by this or another device) are skipped, and
+        // only the rows actually inserted come back
+        const { data, error } = await supabase
+          .from('podcast_episodes')
+          .upsert(
+            candidates.map(episode => toEpisodeRow(episode, subscription)),
+            { onConflict: 'subscription_id,guid', ignoreDuplicates: true }
+          )
+          .select();
+        if (error) throw error;
+        inserted = (data || []) as PodcastEpisode[];
+      }
+
+      const { data: updated } = await supabase
+        .from('podcast_subscriptions')
+        .update({ last_polled_at: polledAt, last_poll_error: null })
+        .eq('id', subscription.id)
+        .select()
+        .single();
+      if (updated) replaceSubscription(updated as PodcastSubscription);
+
+      if (subscription.auto_save_episodes) {
+        for (const episode of inserted) {
+          await podcastSubscriptionsActions.saveEpisode(episode);
+        }
+      } else if (inserted.length > 0) {
+        podcastSubscriptionsStore.inbox.set([...inserted, ...podcastSubscriptionsStore.inbox.get()].sort(byPublishedDesc));
+      }
+
+      return inserted.length;
+    } catch (error: any) {
+      console.error(`🎙️ [PodcastSubscriptions] Error polling ${subscription.title}:`, error);
+      const { data: updated } = await supabase
+        .from('podcast_subscriptions')
+        .update({ last_polled_at: polledAt, last_poll_error: error?.message || String(error) })
+        .eq('id', subscription.id)
+        .select()
+        .single();
+      if (updated) replaceSubscription(updated as PodcastSubscription);
+      return 0;
+    }
+  },
+
+  /**
+   * Save an episode as a 'podcast_episode' item, in the same space as the show.
+   * Transcribed right away when auto-generated transcripts are on.
+   */
+  saveEpisode: async (episode: PodcastEpisode): Promise<Item> => {
+    const userId = authComputed.userId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const subscription = podcastSubscriptionsStore.subscriptions.get().find(s => s.id === episode.subscription_id);
+    const showItem = subscription?.item_id
+      ? itemsStore.items.get().find(i => i.id === subscription.item_id)
+      : undefined;
+
+    const now = new Date().toISOString();
+    const item: Item = {
+      id: uuid.v4() as string,
+      user_id: userId,
+      title: episode.title,
+      url: episode.episode_url || episode.audio_url || undefined,
+      content_type: 'podcast_episode',
+      desc: episode.show_notes || undefined,
+      thumbnail_url: subscription?.image_url || showItem?.thumbnail_url || undefined,
+      space_id: showItem?.space_id ?? null,
+      is_archived: false,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await itemsActions.addItemWithSync(item);
+    await itemMetadataActions.upsertMetadata({
+      item_id: item.id,
+      author: subscription?.title,
+      published_date: episode.published_at || undefined,
+    });
+    await itemTypeMetadataActions.upsertTypeMetadata({
+      item_id: item.id,
+      content_type: 'podcast_episode',
+      data: {
+        audio_url: episode.audio_url || undefined,
+        duration: episode.duration ?? undefined,
+        podcast_title: subscription?.title,
+        chapters: episode.chapters || undefined,
+        chapters_url: episode.chapters_url || undefined,
+        is_episode: true,
+      },
+    });
+
+    const { error } = await supabase
+      .from('podcast_episodes')
+      .update({ status: 'saved', item_id: item.id })
+      .eq('id', episode.id);
+    if (error) {
+      console.error('🎙️ [PodcastSubscriptions] Error marking episode saved:', error);
+    }
+    removeFromInbox(episode.id);
+
+    // Non-blocking, like the enrichment pipeline; checks the admin setting itself
+    itemsActions.autoGeneratePodcastTranscript(item.id).catch(err => {
+      console.error('Error auto-generating podcast transcript:', err);
+    });
+
+    console.log(`🎙️ [PodcastSubscriptions] Saved episode: ${episode.title}`);
+    return item;
+  },
+
+  dismissEpisode: async (episodeId: string) => {
+    const { error } = await supabase
+      .from('podcast_episodes')
+      .update({ status: 'dismissed' })
+      .eq('id', episodeId);
+
+    if (error) {
+      console.error('🎙️ [PodcastSubscriptions] Error dismissing episode:', error);
+      throw error;
+    }
+    removeFromInbox(episodeId);
+  },
+
+  reset: () => {
+    podcastSubscriptionsStore.set(initialState);
+  },
+};
@@ -1,11 +1,24 @@
 import { observable } from '@legendapp/state';
 
+// Progress of a bulk re-enrichment or indexing run (see services/reEnrichService)
+export interface ReEnrichBatch {
+  // Shown in the progress row, e.g. "Re-enriching 3 of 40"
+  label: string;
+  total: number;
+  completed: number;
+  failed: number;
+  currentItemId: string | null;
+  cancelRequested: boolean;
+}
+
 interface ProcessingState {
   ids: Record<string, boolean>;
+  batch: ReEnrichBatch | null;
 }
 
 const initialState: ProcessingState = {
   ids: {},
+  batch: null,
 };
 
 export const processingItemsStore = observable(initialState);
@@ -13,6 +26,8 @@ export const processingItemsStore = observable(initialState);
 export const processingItemsComputed = {
   isProcessing: (id: string) => !!processingItemsStore.ids.get()?.[id],
   all: () => processingItemsStore.ids.get(),
+  batch: () => processingItemsStore.batch.get(),
+  isBatchRunning: () => !!processingItemsStore.batch.get(),
 };
 
 export const processingItemsActions = {
@@ -29,6 +44,28 @@ export const processingItemsActions = {
   clearAll: () => {
     processingItemsStore.ids.set({});
   },
-};
-
 
+  startBatch: (total: number, label = 'Re-enriching') => {
+    processingItemsStore.batch.set({ label, total, completed: 0, failed: 0, currentItemId: null, cancelRequested: false });
+  },
+  setBatchCurrent: (itemId: string | null) => {
+    if (!processingItemsStore.batch.get()) return;
+    processingItemsStore.batch.currentItemId.set(itemId);
+  },
+  recordBatchResult: (success: boolean) => {
+    const batch = processingItemsStore.batch.get();
+    if (!batch) return;
+    processingItemsStore.batch.set({
+      ...batch,
+      completed: batch.completed + 1,
+      failed: batch.failed + (success ? 0 : 1),
+    });
+  },
+  cancelBatch: () => {
+    if (!processingItemsStore.batch.get()) return;
+    processingItemsStore.batch.cancelRequested.set(true);
+  },
+  finishBatch: () => {
+    processingItemsStore.batch.set(null);
+  },
+};
@@ -0,0 +1,134 @@
+import { observable } from '@legendapp/state';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SpaceChat } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { supabase } from '../services/supabase';
+import { authStore } from './auth';
+
+interface SpaceChatsState {
+  chats: SpaceChat[];
+  isLoading: boolean;
+}
+
+const initialState: SpaceChatsState = {
+  chats: [],
+  isLoading: false,
+};
+
+export const spaceChatsStore = observable(initialState);
+
+// Computed values
+export const spaceChatsComputed = {
+  chats: () => spaceChatsStore.chats.get(),
+  isLoading: () => spaceChatsStore.isLoading.get(),
+
+  // Get chat by space ID
+  getChatBySpaceId: (spaceId: string): SpaceChat | null => {
+    const chats = spaceChatsStore.chats.get();
+    return chats.find(c => c.space_id === spaceId) || null;
+  },
+};
+
+// Actions
+export const spaceChatsActions = {
+  setChats: async (chats: SpaceChat[]) => {
+    spaceChatsStore.chats.set(chats);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SPACE_CHATS, JSON.stringify(chats));
+    } catch (error) {
+      console.error('Error saving space chats:', error);
+    }
+  },
+
+  createChat: async (spaceId: string): Promise<SpaceChat | null> => {
+    const userId = authStore.user.get()?.id;
+    if (!userId) {
+      console.error('Cannot create chat: User not authenticated');
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('space_chats')
+        .insert({
+          space_id: spaceId,
+          user_id: userId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const newChat: SpaceChat = data as SpaceChat;
+
+      // Add to local store
+      const currentChats = spaceChatsStore.chats.get();
+      await spaceChatsActions.setChats([...currentChats, newChat]);
+
+      console.log('💬 Created space chat:', newChat.id);
+      return newChat;
+    } catch (error) {
+      console.error('Error creating space chat:', error);
+      return null;
+    }
+  },
+
+  loadChats: async () => {
+    try {
+      spaceChatsStore.isLoading.set(true);
+
+      // Load from AsyncStorage first
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.SPACE_CHATS);
+      if (saved) {
+        const chats = JSON.parse(saved) as SpaceChat[];
+        spaceChatsStore.chats.set(chats);
+        console.log('💬 Loaded', chats.length, 'space chats from storage');
+      }
+
+      // Then sync from Supabase
+      await spaceChatsActions.syncFromSupabase();
+    } catch (error) {
+      console.error('Error loading space chats:', error);
+    } finally {
+      spaceChatsStore.isLoading.set(false);
+    }
+  },
+
+  syncFromSupabase: async () => {
+    const userId = authStore.user.get()?.id;
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('space_chats')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const chats = data as SpaceChat[];
+      await spaceChatsActions.setChats(chats);
+      console.log('💬 Synced', chats.length, 'space chats from Supabase');
+    } catch (error) {
+      console.error('Error syncing space chats from Supabase:', error);
+    }
+  },
+
+  reset: () => {
+    spaceChatsStore.set(initialState);
+  },
+
+  clearAll: async () => {
+    spaceChatsStore.chats.set([]);
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.SPACE_CHATS);
+      console.log('💬 Cleared all space chats');
+    } catch (error) {
+      console.error('Error clearing space chats:', error);
+    }
+  },
+};
+
+// Load chats on app start
+spaceChatsActions.loadChats();
@@ -2,6 +2,7 @@ import { observable } from '@legendapp/state';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../constants';
 import { syncService } from '../services/syncService';
+import { SyncTable, TableSyncState, SYNC_TABLES, initialTableSyncState } from '../services/deltaSync';
 
 interface SyncStatusState {
   lastSyncTime: string | null;
@@ -10,6 +11,8 @@ interface SyncStatusState {
   isOnline: boolean;
   isSyncing: boolean;
   lastError: string | null;
+  // Delta sync progress per table
+  tables: Record<SyncTable, TableSyncState>;
 }
 
 const initialState: SyncStatusState = {
@@ -19,6 +22,9 @@ const initialState: SyncStatusState = {
   isOnline: true,
   isSyncing: false,
   lastError: null,
+  tables: Object.fromEntries(
+    SYNC_TABLES.map(table => [table, initialTableSyncState()])
+  ) as Record<SyncTable, TableSyncState>,
 };
 
 export const syncStatusStore = observable(initialState);
@@ -29,7 +35,7 @@ const loadSyncStatus = async () => {
     const stored = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_STATUS);
     if (stored) {
       const status = JSON.parse(stored);
-      syncStatusStore.set(status);
+      syncStatusStore.set({ ...initialState, ...status });
       console.log('📊 Loaded sync status from storage');
     }
   } catch (error) {
@@ -54,6 +60,7 @@ syncService.addListener((status) => {
     isOnline: status.isOnline,
     isSyncing: status.isSyncing,
     lastError: status.lastError,
+    tables: status.tables,
   });
 });
 
@@ -69,6 +76,13 @@ export const syncStatusComputed = {
   isOnline: () => syncStatusStore.isOnline.get(),
   isSyncing: () => syncStatusStore.isSyncing.get(),
   lastError: () => syncStatusStore.lastError.get(),
+  tableStatus: (table: SyncTable): TableSyncState => syncStatusStore.tables[table].get(),
+
+  // Tables whose last sync failed or was cut short
+  unfinishedTables: (): SyncTable[] => {
+    const tables = syncStatusStore.tables.get();
+    return SYNC_TABLES.filter(table => tables[table].status === 'error' || tables[table].status === 'interrupted');
+  },
   
   // Format last sync time for display
   formattedLastSync: () => {
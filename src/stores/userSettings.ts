@@ -19,6 +19,9 @@ const DEFAULT_SETTINGS = {
   ui_x_video_muted: true,
   ui_autoplay_x_videos: true,
   ui_radial_actions: ['chat', 'share', 'archive'] as const, // Default actions
+  ui_reader_font_size: 18,
+  ui_reader_font_family: 'serif' as const,
+  ui_reader_line_height: 1.6,
   is_admin: false, // Default to non-admin
 };
 
@@ -44,6 +47,9 @@ export const userSettingsComputed = {
   xVideoMuted: () => userSettingsStore.settings.get()?.ui_x_video_muted ?? DEFAULT_SETTINGS.ui_x_video_muted,
   autoplayXVideos: () => userSettingsStore.settings.get()?.ui_autoplay_x_videos ?? DEFAULT_SETTINGS.ui_autoplay_x_videos,
   radialActions: () => userSettingsStore.settings.get()?.ui_radial_actions ?? DEFAULT_SETTINGS.ui_radial_actions,
+  readerFontSize: () => userSettingsStore.settings.get()?.ui_reader_font_size ?? DEFAULT_SETTINGS.ui_reader_font_size,
+  readerFontFamily: () => userSettingsStore.settings.get()?.ui_reader_font_family ?? DEFAULT_SETTINGS.ui_reader_font_family,
+  readerLineHeight: () => userSettingsStore.settings.get()?.ui_reader_line_height ?? DEFAULT_SETTINGS.ui_reader_line_height,
 
   isLoading: () => userSettingsStore.isLoading.get(),
 };
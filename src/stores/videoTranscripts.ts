@@ -8,12 +8,14 @@ interface VideoTranscriptsState {
   transcripts: VideoTranscript[];
   isLoading: boolean;
   generatingForItems: string[]; // Track which items are currently being processed
+  generatingChaptersForItems: string[];
 }
 
 const initialState: VideoTranscriptsState = {
   transcripts: [],
   isLoading: false,
   generatingForItems: [],
+  generatingChaptersForItems: [],
 };
 
 export const videoTranscriptsStore = observable(initialState);
@@ -47,6 +49,10 @@ export const videoTranscriptsComputed = {
     const generatingItems = videoTranscriptsStore.generatingForItems.get();
     return generatingItems.includes(itemId);
   },
+
+  isGeneratingChapters: (itemId: string): boolean => {
+    return videoTranscriptsStore.generatingChaptersForItems.get().includes(itemId);
+  },
 };
 
 // Actions
@@ -83,6 +89,14 @@ export const videoTranscriptsActions = {
       
       // Sync to Supabase
       await syncOperations.uploadVideoTranscript(transcript);
+
+      // Re-embed the item now that its transcript is searchable (dynamic import to avoid require cycle)
+      const { indexItem } = await import('../services/embeddings/semanticSearch');
+      await indexItem(transcript.item_id);
+
+      // Long videos and episodes get chapters in the background
+      const { maybeGenerateChapters } = await import('../services/transcriptChapters');
+      maybeGenerateChapters(transcript.item_id);
     } catch (error) {
       console.error('Error saving video transcript:', error);
     }
@@ -163,6 +177,15 @@ export const videoTranscriptsActions = {
       videoTranscriptsStore.generatingForItems.set(current.filter(id => id !== itemId));
     }
   },
+
+  setGeneratingChapters: (itemId: string, isGenerating: boolean) => {
+    const current = videoTranscriptsStore.generatingChaptersForItems.get();
+    if (isGenerating && !current.includes(itemId)) {
+      videoTranscriptsStore.generatingChaptersForItems.set([...current, itemId]);
+    } else if (!isGenerating) {
+      videoTranscriptsStore.generatingChaptersForItems.set(current.filter(id => id !== itemId));
+    }
+  },
 };
 
 // Load transcripts on app start
@@ -19,6 +19,12 @@ export interface Database {
           body: string
           importance: number
           tags: string[] | null
+          fields: Json
+          schema_version: string | null
+          pinned: boolean | null
+          is_archived: boolean | null
+          archived_at: string | null
+          last_accessed_at: string | null
           created_at: string
           updated_at: string
         }
@@ -30,6 +36,12 @@ export interface Database {
           body: string
           importance?: number
           tags?: string[] | null
+          fields?: Json
+          schema_version?: string | null
+          pinned?: boolean | null
+          is_archived?: boolean | null
+          archived_at?: string | null
+          last_accessed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -41,6 +53,12 @@ export interface Database {
           body?: string
           importance?: number
           tags?: string[] | null
+          fields?: Json
+          schema_version?: string | null
+          pinned?: boolean | null
+          is_archived?: boolean | null
+          archived_at?: string | null
+          last_accessed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -132,6 +150,56 @@ export interface Database {
           }
         ]
       }
+      item_embeddings: {
+        Row: {
+          id: string
+          item_id: string
+          user_id: string
+          source: string
+          chunk_index: number
+          content: string
+          content_hash: string
+          embedding: string
+          model: string
+          start_ms: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          item_id: string
+          user_id: string
+          source: string
+          chunk_index?: number
+          content: string
+          content_hash: string
+          embedding: string
+          model: string
+          start_ms?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          item_id?: string
+          user_id?: string
+          source?: string
+          chunk_index?: number
+          content?: string
+          content_hash?: string
+          embedding?: string
+          model?: string
+          start_ms?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_embeddings_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       item_metadata: {
         Row: {
           author: string | null
@@ -139,6 +207,7 @@ export interface Database {
           item_id: string
           profile_image: string | null
           published_date: string | null
+          updated_at: string
           username: string | null
         }
         Insert: {
@@ -147,6 +216,7 @@ export interface Database {
           item_id: string
           profile_image?: string | null
           published_date?: string | null
+          updated_at?: string
           username?: string | null
         }
         Update: {
@@ -155,6 +225,7 @@ export interface Database {
           item_id?: string
           profile_image?: string | null
           published_date?: string | null
+          updated_at?: string
           username?: string | null
         }
         Relationships: [
@@ -172,16 +243,19 @@ export interface Database {
           created_at: string
           item_id: string
           space_id: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
           item_id: string
           space_id: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
           item_id?: string
           space_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -205,16 +279,19 @@ export interface Database {
           content_type: string
           data: Json
           item_id: string
+          updated_at: string
         }
         Insert: {
           content_type: string
           data: Json
           item_id: string
+          updated_at?: string
         }
         Update: {
           content_type?: string
           data?: Json
           item_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -288,6 +365,90 @@ export interface Database {
           }
         ]
       }
+      memory_schema_proposals: {
+        Row: {
+          id: string
+          proposed_by: string
+          type: string
+          description: string
+          rationale: string
+          impact: string
+          migration: Json
+          proposed: Json
+          status: string
+          base_version: string
+          applied_version: string | null
+          review_note: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          proposed_by: string
+          type: string
+          description: string
+          rationale: string
+          impact?: string
+          migration?: Json
+          proposed?: Json
+          status?: string
+          base_version: string
+          applied_version?: string | null
+          review_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          proposed_by?: string
+          type?: string
+          description?: string
+          rationale?: string
+          impact?: string
+          migration?: Json
+          proposed?: Json
+          status?: string
+          base_version?: string
+          applied_version?: string | null
+          review_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      memory_schema_versions: {
+        Row: {
+          id: string
+          version: string
+          schema: Json
+          proposal_id: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          version: string
+          schema: Json
+          proposal_id?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          version?: string
+          schema?: Json
+          proposal_id?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
       offline_queue: {
         Row: {
           action_type: string
@@ -323,6 +484,157 @@ export interface Database {
           }
         ]
       }
+      playback_queues: {
+        Row: {
+          current_item_id: string | null
+          item_ids: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          current_item_id?: string | null
+          item_ids?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          current_item_id?: string | null
+          item_ids?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playback_queues_current_item_id_fkey"
+            columns: ["current_item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      podcast_episodes: {
+        Row: {
+          audio_url: string | null
+          chapters: Json | null
+          chapters_url: string | null
+          created_at: string
+          duration: number | null
+          episode_url: string | null
+          guid: string
+          id: string
+          item_id: string | null
+          published_at: string | null
+          show_notes: string | null
+          status: string
+          subscription_id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          audio_url?: string | null
+          chapters?: Json | null
+          chapters_url?: string | null
+          created_at?: string
+          duration?: number | null
+          episode_url?: string | null
+          guid: string
+          id?: string
+          item_id?: string | null
+          published_at?: string | null
+          show_notes?: string | null
+          status?: string
+          subscription_id: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          audio_url?: string | null
+          chapters?: Json | null
+          chapters_url?: string | null
+          created_at?: string
+          duration?: number | null
+          episode_url?: string | null
+          guid?: string
+          id?: string
+          item_id?: string | null
+          published_at?: string | null
+          show_notes?: string | null
+          status?: string
+          subscription_id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "podcast_episodes_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "podcast_subscriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "podcast_episodes_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      podcast_subscriptions: {
+        Row: {
+          auto_save_episodes: boolean
+          created_at: string
+          feed_url: string
+          id: string
+          image_url: string | null
+          item_id: string | null
+          last_poll_error: string | null
+          last_polled_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_save_episodes?: boolean
+          created_at?: string
+          feed_url: string
+          id?: string
+          image_url?: string | null
+          item_id?: string | null
+          last_poll_error?: string | null
+          last_polled_at?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_save_episodes?: boolean
+          created_at?: string
+          feed_url?: string
+          id?: string
+          image_url?: string | null
+          item_id?: string | null
+          last_poll_error?: string | null
+          last_polled_at?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "podcast_subscriptions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       space_chats: {
         Row: {
           created_at: string
@@ -397,6 +709,30 @@ export interface Database {
           }
         ]
       }
+      sync_deletions: {
+        Row: {
+          deleted_at: string
+          id: number
+          record_key: string
+          table_name: string
+          user_id: string
+        }
+        Insert: {
+          deleted_at?: string
+          id?: number
+          record_key: string
+          table_name: string
+          user_id: string
+        }
+        Update: {
+          deleted_at?: string
+          id?: number
+          record_key?: string
+          table_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_settings: {
         Row: {
           id: string
@@ -407,6 +743,9 @@ export interface Database {
           ui_x_video_muted: boolean
           ui_autoplay_x_videos: boolean
           ui_radial_actions: Json
+          ui_reader_font_size: number
+          ui_reader_font_family: string
+          ui_reader_line_height: number
           is_admin: boolean
           created_at: string
           updated_at: string
@@ -420,6 +759,9 @@ export interface Database {
           ui_x_video_muted?: boolean
           ui_autoplay_x_videos?: boolean
           ui_radial_actions?: Json
+          ui_reader_font_size?: number
+          ui_reader_font_family?: string
+          ui_reader_line_height?: number
           is_admin?: boolean
           created_at?: string
           updated_at?: string
@@ -433,6 +775,9 @@ export interface Database {
           ui_x_video_muted?: boolean
           ui_autoplay_x_videos?: boolean
           ui_radial_actions?: Json
+          ui_reader_font_size?: number
+          ui_reader_font_family?: string
+          ui_reader_line_height?: number
           is_admin?: boolean
           created_at?: string
           updated_at?: string
@@ -454,12 +799,103 @@ export interface Database {
         }
         Relationships: []
       }
+      video_transcripts: {
+        Row: {
+          chapters: Json | null
+          created_at: string
+          duration: number | null
+          fetched_at: string
+          id: string
+          item_id: string
+          key_moments: Json | null
+          language: string
+          platform: string
+          segments: Json | null
+          transcript: string
+          updated_at: string
+        }
+        Insert: {
+          chapters?: Json | null
+          created_at?: string
+          duration?: number | null
+          fetched_at?: string
+          id?: string
+          item_id: string
+          key_moments?: Json | null
+          language?: string
+          platform?: string
+          segments?: Json | null
+          transcript: string
+          updated_at?: string
+        }
+        Update: {
+          chapters?: Json | null
+          created_at?: string
+          duration?: number | null
+          fetched_at?: string
+          id?: string
+          item_id?: string
+          key_moments?: Json | null
+          language?: string
+          platform?: string
+          segments?: Json | null
+          transcript?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_transcripts_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_memory_schema_proposal: {
+        Args: {
+          p_proposal_id: string
+          p_version: string
+          p_schema: Json
+          p_row_migrations?: Json
+        }
+        Returns: number
+      }
+      match_item_chunks: {
+        Args: {
+          query_embedding: string
+          p_item_id: string
+          match_count?: number
+        }
+        Returns: {
+          source: string
+          chunk_index: number
+          content: string
+          start_ms: number | null
+          similarity: number
+        }[]
+      }
+      match_item_embeddings: {
+        Args: {
+          query_embedding: string
+          p_user_id: string
+          match_count?: number
+          include_archived?: boolean
+        }
+        Returns: {
+          item_id: string
+          source: string
+          chunk_index: number
+          content: string
+          start_ms: number | null
+          similarity: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
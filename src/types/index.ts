@@ -68,6 +68,7 @@ export interface ItemMetadata {
   username?: string;
   profile_image?: string;
   published_date?: string;
+  updated_at?: string;
 }
 
 export interface ItemTypeMetadata {
@@ -78,6 +79,7 @@ export interface ItemTypeMetadata {
     image_urls?: string[];
     [key: string]: any;
   };
+  updated_at?: string;
 }
 
 export interface PendingItem {
@@ -109,6 +111,24 @@ export interface Space {
   archived_at?: string | null;
   is_deleted?: boolean;
   deleted_at?: string | null;
+  smart_rule?: SmartSpaceRule | null; // Set for smart spaces, which populate from the rule instead of space_id
+}
+
+/**
+ * Rule behind a smart space. `content_types` and `domains` match if ANY
+ * entry matches; `tags` needs ALL of them, like repeated `tag:` in the search
+ * box. The fields themselves are combined with AND. `query` uses the search box
+ * syntax (free text plus operators such as is:, has:, space:).
+ */
+export interface SmartSpaceRule {
+  content_types?: ContentType[];
+  tags?: string[];
+  exclude_tags?: string[];
+  domains?: string[];
+  author?: string;
+  created_after?: string | null; // ISO date, inclusive
+  created_before?: string | null; // ISO date, exclusive
+  query?: string;
 }
 
 /**
@@ -119,10 +139,22 @@ export interface ItemSpace {
   item_id: string;
   space_id: string;
   created_at: string;
+  updated_at?: string;
 }
 
 export type VideoPlatform = 'youtube' | 'x' | 'tiktok' | 'instagram' | 'reddit' | 'podcast';
 
+export interface TranscriptChapter {
+  start_ms: number;
+  title: string;
+  summary?: string;
+}
+
+export interface TranscriptKeyMoment {
+  start_ms: number;
+  text: string;
+}
+
 export interface VideoTranscript {
   id: string;
   item_id: string;
@@ -131,6 +163,8 @@ export interface VideoTranscript {
   language: string;
   duration?: number;
   segments?: Array<{ startMs: number; endMs?: number; text: string }>; // For timestamped transcripts (SerpAPI)
+  chapters?: TranscriptChapter[] | null; // AI-generated from segments for long videos/episodes
+  key_moments?: TranscriptKeyMoment[] | null;
   fetched_at: string;
   created_at: string;
   updated_at: string;
@@ -176,6 +210,8 @@ export interface ChatMessageMetadata {
   };
   timestamp?: string;
   context_version?: string;
+  // Reply was cut short by the user; partial text, no token usage
+  stopped?: boolean;
 }
 
 export interface ChatMessage {
@@ -228,7 +264,9 @@ export interface SearchFilters {
   isArchived?: boolean;
 }
 
-export type RadialActionId = 'chat' | 'share' | 'archive' | 'unarchive' | 'delete' | 'move' | 'refresh';
+export type RadialActionId = 'chat' | 'share' | 'archive' | 'unarchive' | 'delete' | 'move' | 'refresh' | 'play_next' | 'queue';
+
+export type ReaderFontFamily = 'serif' | 'sans';
 
 export interface UserSettings {
   id: string;
@@ -243,6 +281,9 @@ export interface UserSettings {
   ui_x_video_muted: boolean;
   ui_autoplay_x_videos: boolean;
   ui_radial_actions?: RadialActionId[]; // 3 action buttons for radial menu
+  ui_reader_font_size?: number;
+  ui_reader_font_family?: ReaderFontFamily;
+  ui_reader_line_height?: number;
   // Admin settings
   is_admin?: boolean; // Admin flag - only admins can access admin panel
   // Timestamps
@@ -252,7 +293,8 @@ export interface UserSettings {
 
 // Global admin settings that apply to ALL users
 // Only one row exists in the database
-export type MemoryKind = 'preference' | 'person' | 'fact' | 'task' | 'project' | 'general';
+// Built-in kinds; approved schema evolutions can add more (see services/memorySchema)
+export type MemoryKind = 'preference' | 'person' | 'fact' | 'task' | 'project' | 'general' | (string & {});
 
 export interface AssistantMemory {
   id: string;
@@ -262,6 +304,54 @@ export interface AssistantMemory {
   body: string;
   importance: number;
   tags?: string[];
+  // Structured fields defined for the kind by the active memory schema
+  fields?: Record<string, unknown>;
+  schema_version?: string | null;
+  // Pinned memories are kept as-is by memory maintenance
+  pinned?: boolean;
+  is_archived?: boolean;
+  archived_at?: string | null;
+  last_accessed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PodcastSubscription {
+  id: string;
+  user_id: string;
+  item_id: string | null; // The 'podcast' item it was subscribed from
+  feed_url: string;
+  title: string;
+  image_url?: string | null;
+  auto_save_episodes: boolean; // Save new episodes as items instead of sending them to the inbox
+  last_polled_at?: string | null;
+  last_poll_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PodcastEpisodeStatus = 'new' | 'saved' | 'dismissed';
+
+export interface PodcastChapter {
+  start_ms: number;
+  title: string;
+}
+
+export interface PodcastEpisode {
+  id: string;
+  user_id: string;
+  subscription_id: string;
+  guid: string;
+  title: string;
+  audio_url?: string | null;
+  episode_url?: string | null;
+  duration?: number | null; // seconds
+  show_notes?: string | null;
+  chapters?: PodcastChapter[] | null; // Inline (Podlove) chapters
+  chapters_url?: string | null; // Podcasting 2.0 JSON chapters, fetched on play
+  published_at?: string | null;
+  status: PodcastEpisodeStatus;
+  item_id?: string | null; // Set once saved as a 'podcast_episode' item
   created_at: string;
   updated_at: string;
 }
@@ -275,11 +365,13 @@ export interface AdminSettings {
   // AI Model Configuration (Global)
   ai_chat_model: string;
   ai_metadata_model: string;
+  // Model refs from all configured providers (see services/llm toModelRef)
   ai_available_models: Array<{
     id: string;
     object: string;
     created: number;
     owned_by: string;
+    provider?: 'openai' | 'anthropic' | 'local';
   }>;
   ai_last_models_fetch: string | null;
   // API Source Preferences
@@ -86,6 +86,8 @@ export const getContentTypeIcon = (contentType: string): string => {
       return '⚡';
     case 'note':
       return '📝';
+    case 'pdf':
+      return '📄';
     case 'image':
       return '🖼️';
     case 'article':
@@ -134,3 +136,33 @@ export const getContentTypeColor = (contentType: string): string => {
       return '#007AFF';
   }
 };
+
+export const formatCount = (num: number): string => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  return num.toString();
+};
+
+// Colors GitHub uses for the language dot on repo pages
+const GITHUB_LANGUAGE_COLORS: Record<string, string> = {
+  TypeScript: '#3178C6',
+  JavaScript: '#F1E05A',
+  Python: '#3572A5',
+  Go: '#00ADD8',
+  Rust: '#DEA584',
+  Java: '#B07219',
+  Kotlin: '#A97BFF',
+  Swift: '#F05138',
+  C: '#555555',
+  'C++': '#F34B7D',
+  'C#': '#178600',
+  Ruby: '#701516',
+  PHP: '#4F5D95',
+  Shell: '#89E051',
+  Dart: '#00B4AB',
+  HTML: '#E34C26',
+  CSS: '#563D7C',
+};
+
+export const getGitHubLanguageColor = (language?: string): string =>
+  (language && GITHUB_LANGUAGE_COLORS[language]) || '#8B949E';
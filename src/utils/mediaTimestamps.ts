@@ -0,0 +1,41 @@
+// Matches "[12:34]" and "[1:02:03]" as written in transcripts and chat citations
+const TIMESTAMP_PATTERN = /\[(\d{1,2}:)?(\d{1,3}):(\d{2})\]/g;
+
+/**
+ * Format a media offset as mm:ss, or h:mm:ss once past the first hour
+ */
+export const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const ss = String(seconds).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${ss}`
+    : `${String(minutes).padStart(2, '0')}:${ss}`;
+};
+
+export type TimestampPart =
+  | { type: 'text'; text: string }
+  | { type: 'timestamp'; text: string; ms: number };
+
+/**
+ * Split text into plain runs and bracketed timestamps, so the timestamps can be
+ * rendered as links. Text without timestamps comes back as a single part.
+ */
+export const splitTimestamps = (text: string): TimestampPart[] => {
+  const parts: TimestampPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TIMESTAMP_PATTERN)) {
+    const [full, hours, minutes, seconds] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push({ type: 'text', text: text.slice(lastIndex, index) });
+    const ms = ((parseInt(hours || '0', 10) * 3600) + (parseInt(minutes, 10) * 60) + parseInt(seconds, 10)) * 1000;
+    parts.push({ type: 'timestamp', text: full, ms });
+    lastIndex = index + full.length;
+  }
+
+  if (lastIndex < text.length) parts.push({ type: 'text', text: text.slice(lastIndex) });
+  return parts;
+};
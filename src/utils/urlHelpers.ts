@@ -80,16 +80,24 @@ export const extractTweetId = (url: string): string | null => {
   return null;
 };
 
+// First path segments on github.com that aren't user or org names
+const GITHUB_RESERVED_OWNERS = new Set([
+  'about', 'apps', 'collections', 'enterprise', 'explore', 'features', 'login', 'marketplace',
+  'notifications', 'orgs', 'pricing', 'pulls', 'issues', 'search', 'settings', 'signup',
+  'sponsors', 'topics', 'trending',
+]);
+
 /**
- * Extract owner/repo params from a GitHub repo URL.
+ * Extract owner/repo params from a GitHub repo URL (including deep links
+ * like /tree/main or /issues/1). Returns null for non-repo pages.
  */
 export const extractGitHubRepo = (url: string): { owner: string; repo: string } | null => {
-  const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/i);
-  if (match) {
-    return {
-      owner: match[1],
-      repo: match[2],
-    };
+  const match = url.match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([^\/?#]+)\/([^\/?#]+)/i);
+  if (!match || GITHUB_RESERVED_OWNERS.has(match[1].toLowerCase())) {
+    return null;
   }
-  return null;
+  return {
+    owner: match[1],
+    repo: match[2].replace(/\.git$/i, ''),
+  };
 };
@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts"
+import * as mupdf from "mupdf"
+
+interface PdfRequest {
+  url: string;
+}
+
+interface PdfResponse {
+  page_count: number;
+  title?: string;
+  author?: string;
+  // Extracted text, one entry per page (capped at MAX_PAGES)
+  pages: string[];
+  // First page rendered as a PNG, base64 encoded
+  thumbnail_png?: string;
+  error?: string;
+}
+
+const MAX_BYTES = 25 * 1024 * 1024;
+const MAX_PAGES = 300;
+const THUMBNAIL_WIDTH = 600;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const renderThumbnail = (page: mupdf.Page): string => {
+  const [x0, , x1] = page.getBounds();
+  const scale = THUMBNAIL_WIDTH / Math.max(x1 - x0, 1);
+  const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true);
+  return encodeBase64(pixmap.asPNG());
+};
+
+const extractPdf = (bytes: Uint8Array): PdfResponse => {
+  const doc = mupdf.Document.openDocument(bytes, "application/pdf");
+  const pageCount = doc.countPages();
+  const pages: string[] = [];
+  let thumbnail: string | undefined;
+
+  for (let i = 0; i < Math.min(pageCount, MAX_PAGES); i++) {
+    const page = doc.loadPage(i);
+    pages.push(page.toStructuredText("preserve-whitespace").asText().trim());
+    if (i === 0) {
+      thumbnail = renderThumbnail(page);
+    }
+  }
+
+  return {
+    page_count: pageCount,
+    title: doc.getMetaData("info:Title") || undefined,
+    author: doc.getMetaData("info:Author") || undefined,
+    pages,
+    thumbnail_png: thumbnail,
+  };
+};
+
+serve(async (req) => {
+  try {
+    const { url }: PdfRequest = await req.json();
+
+    if (!url) {
+      return jsonResponse({ error: "URL is required" }, 400);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      return jsonResponse({ error: `Failed to download PDF (${response.status})` }, 502);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.byteLength > MAX_BYTES) {
+      return jsonResponse({ error: "PDF is too large to process" }, 413);
+    }
+
+    return jsonResponse(extractPdf(bytes));
+  } catch (error) {
+    console.error("Error in extract-pdf:", error);
+    return jsonResponse({ error: "Failed to process PDF" }, 500);
+  }
+})
@@ -0,0 +1,91 @@
+-- Migration to create item_embeddings table
+-- Stores chunked vector embeddings of item text (title, description, tldr, notes,
+-- transcripts, image descriptions) for semantic search
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS item_embeddings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    source TEXT NOT NULL CHECK (source IN ('summary', 'tldr', 'notes', 'transcript', 'image_description', 'content')),
+    chunk_index INTEGER NOT NULL DEFAULT 0,
+    content TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    embedding vector(1536) NOT NULL,
+    model TEXT NOT NULL, -- Embedding model used (e.g., text-embedding-3-small)
+    start_ms INTEGER, -- For transcript chunks: start of the first segment in the chunk
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(item_id, source, chunk_index)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_item_embeddings_item_id ON item_embeddings(item_id);
+CREATE INDEX IF NOT EXISTS idx_item_embeddings_user_id ON item_embeddings(user_id);
+CREATE INDEX IF NOT EXISTS idx_item_embeddings_embedding ON item_embeddings
+    USING hnsw (embedding vector_cosine_ops);
+
+-- Enable Row Level Security
+ALTER TABLE item_embeddings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own item embeddings" ON item_embeddings;
+DROP POLICY IF EXISTS "Users can insert their own item embeddings" ON item_embeddings;
+DROP POLICY IF EXISTS "Users can delete their own item embeddings" ON item_embeddings;
+
+CREATE POLICY "Users can view their own item embeddings" ON item_embeddings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own item embeddings" ON item_embeddings
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM items
+            WHERE items.id = item_embeddings.item_id
+            AND items.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete their own item embeddings" ON item_embeddings
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Nearest-neighbour search over a user's chunks, skipping deleted items.
+-- Returns one row per chunk; callers collapse chunks to items.
+CREATE OR REPLACE FUNCTION match_item_embeddings(
+    query_embedding vector(1536),
+    p_user_id UUID,
+    match_count INTEGER DEFAULT 20,
+    include_archived BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    item_id UUID,
+    source TEXT,
+    chunk_index INTEGER,
+    content TEXT,
+    start_ms INTEGER,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+SECURITY INVOKER
+AS $$
+    SELECT
+        e.item_id,
+        e.source,
+        e.chunk_index,
+        e.content,
+        e.start_ms,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM item_embeddings e
+    JOIN items i ON i.id = e.item_id
+    WHERE e.user_id = p_user_id
+      AND i.is_deleted = FALSE
+      AND (include_archived OR i.is_archived = FALSE)
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- Add comments for documentation
+COMMENT ON TABLE item_embeddings IS 'Chunked vector embeddings of item text used for semantic search';
+COMMENT ON COLUMN item_embeddings.source IS 'Which part of the item the chunk came from (summary, tldr, notes, transcript, image_description, content)';
+COMMENT ON COLUMN item_embeddings.content_hash IS 'Hash of the chunk text, used to skip re-embedding unchanged items';
+COMMENT ON COLUMN item_embeddings.start_ms IS 'Transcript offset of the chunk in milliseconds (transcript chunks only)';
+COMMENT ON FUNCTION match_item_embeddings IS 'Cosine-similarity search over item_embeddings for a single user';
@@ -0,0 +1,12 @@
+-- Add smart_rule to spaces for "smart spaces" that populate from a saved rule
+-- instead of items.space_id. NULL means a regular (manual) space.
+ALTER TABLE public.spaces
+ADD COLUMN IF NOT EXISTS smart_rule JSONB DEFAULT NULL;
+
+-- Partial index so smart spaces can be listed cheaply
+CREATE INDEX IF NOT EXISTS idx_spaces_smart
+ON public.spaces(user_id)
+WHERE smart_rule IS NOT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.spaces.smart_rule IS 'Smart space rule (content_types, tags, exclude_tags, domains, author, created_after, created_before, query); NULL for manual spaces';
@@ -0,0 +1,12 @@
+-- Add reader mode typography preferences to user_settings table
+-- Used by the article reader in the expanded item view
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS ui_reader_font_size INTEGER DEFAULT 18,
+ADD COLUMN IF NOT EXISTS ui_reader_font_family TEXT DEFAULT 'serif' CHECK (ui_reader_font_family IN ('serif', 'sans')),
+ADD COLUMN IF NOT EXISTS ui_reader_line_height NUMERIC(3, 2) DEFAULT 1.6;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.user_settings.ui_reader_font_size IS 'Reader mode body font size in points';
+COMMENT ON COLUMN public.user_settings.ui_reader_font_family IS 'Reader mode typeface: serif or sans';
+COMMENT ON COLUMN public.user_settings.ui_reader_line_height IS 'Reader mode line height as a multiple of the font size';
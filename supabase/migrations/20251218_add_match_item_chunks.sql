@@ -0,0 +1,31 @@
+-- Migration to add per-item chunk search over item_embeddings
+-- Used by item chat to pick the transcript/article sections relevant to a question
+
+CREATE OR REPLACE FUNCTION match_item_chunks(
+    query_embedding vector(1536),
+    p_item_id UUID,
+    match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    source TEXT,
+    chunk_index INTEGER,
+    content TEXT,
+    start_ms INTEGER,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+SECURITY INVOKER
+AS $$
+    SELECT
+        e.source,
+        e.chunk_index,
+        e.content,
+        e.start_ms,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM item_embeddings e
+    WHERE e.item_id = p_item_id
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+COMMENT ON FUNCTION match_item_chunks IS 'Cosine-similarity search over the chunks of a single item (RLS limits rows to the caller)';
@@ -0,0 +1,31 @@
+-- Memory lifecycle: pinned memories never decay or auto-archive, archived
+-- memories are hidden from the assistant, and last_accessed_at records when a
+-- memory was last recalled (importance decays from whichever is later, that or updated_at)
+ALTER TABLE public.assistant_memories
+ADD COLUMN IF NOT EXISTS pinned BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS is_archived BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS last_accessed_at TIMESTAMPTZ DEFAULT NULL;
+
+-- Most queries only look at active memories of one user
+CREATE INDEX IF NOT EXISTS idx_assistant_memories_active
+ON public.assistant_memories(user_id, kind)
+WHERE is_archived = FALSE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.assistant_memories.pinned IS 'Pinned by the user; excluded from decay and auto-archive';
+COMMENT ON COLUMN public.assistant_memories.is_archived IS 'Archived by maintenance or the user; hidden from the assistant';
+COMMENT ON COLUMN public.assistant_memories.last_accessed_at IS 'Last time the assistant recalled this memory';
+
+-- Only content edits count as updates; recalls, pins and archiving shouldn't
+-- reset updated_at (it drives importance decay)
+CREATE OR REPLACE FUNCTION update_assistant_memories_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.kind, NEW.title, NEW.body, NEW.importance, NEW.tags)
+     IS DISTINCT FROM (OLD.kind, OLD.title, OLD.body, OLD.importance, OLD.tags) THEN
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
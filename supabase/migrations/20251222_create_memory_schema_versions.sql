@@ -0,0 +1,159 @@
+-- Versioned memory schema: architect-mode proposals are stored for admin review,
+-- and approved ones produce a new active schema version (stored as JSON) plus a
+-- migration of existing assistant_memories rows.
+
+-- Kinds are now defined by the active schema version, not a fixed CHECK list
+ALTER TABLE public.assistant_memories
+DROP CONSTRAINT IF EXISTS assistant_memories_kind_check;
+
+-- Structured per-kind fields (e.g. a person's birthday) and the schema version
+-- the memory was last validated or migrated against
+ALTER TABLE public.assistant_memories
+ADD COLUMN IF NOT EXISTS fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS schema_version TEXT DEFAULT '1.0.0';
+
+-- Schema versions (global, one active at a time)
+CREATE TABLE IF NOT EXISTS public.memory_schema_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version TEXT NOT NULL UNIQUE,
+  schema JSONB NOT NULL,
+  proposal_id UUID,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memory_schema_versions_active
+ON public.memory_schema_versions(is_active)
+WHERE is_active = TRUE;
+
+-- Proposals from propose_schema_evolution
+CREATE TABLE IF NOT EXISTS public.memory_schema_proposals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  proposed_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('add_kind', 'add_field', 'modify_field', 'add_constraint', 'remove_field')),
+  description TEXT NOT NULL,
+  rationale TEXT NOT NULL,
+  impact TEXT NOT NULL DEFAULT 'low' CHECK (impact IN ('low', 'medium', 'high')),
+  migration JSONB NOT NULL DEFAULT '{}'::jsonb,
+  proposed JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'rejected')),
+  base_version TEXT NOT NULL,
+  applied_version TEXT,
+  review_note TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_schema_proposals_status
+ON public.memory_schema_proposals(status, created_at DESC);
+
+ALTER TABLE public.memory_schema_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memory_schema_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Everyone validates memories against the active schema
+CREATE POLICY "Anyone can read memory schema versions"
+  ON public.memory_schema_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Versions are only written by apply_memory_schema_proposal (security definer)
+
+CREATE POLICY "Users can create their own schema proposals"
+  ON public.memory_schema_proposals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = proposed_by AND status = 'pending');
+
+CREATE POLICY "Users see their own proposals, admins see all"
+  ON public.memory_schema_proposals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = proposed_by OR is_admin());
+
+CREATE POLICY "Only admins can review schema proposals"
+  ON public.memory_schema_proposals
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Apply an approved proposal: store the new schema version as active, migrate
+-- memories of every user, and mark the proposal applied - all in one transaction.
+--
+-- p_row_migrations is a JSON array of operations on assistant_memories.fields:
+--   { "op": "set_default", "kind": "person", "field": "birthday", "value": ... }
+--   { "op": "rename",      "kind": "person", "field": "bday", "to": "birthday" }
+--   { "op": "remove",      "kind": "person", "field": "bday" }
+-- Returns the number of memories changed.
+CREATE OR REPLACE FUNCTION public.apply_memory_schema_proposal(
+  p_proposal_id UUID,
+  p_version TEXT,
+  p_schema JSONB,
+  p_row_migrations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_proposal public.memory_schema_proposals%ROWTYPE;
+  v_active_version TEXT;
+  v_op JSONB;
+  v_changed INTEGER := 0;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can apply memory schema proposals';
+  END IF;
+
+  SELECT * INTO v_proposal FROM public.memory_schema_proposals WHERE id = p_proposal_id FOR UPDATE;
+  IF NOT FOUND OR v_proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'Proposal % is not pending', p_proposal_id;
+  END IF;
+
+  -- The proposal was built against a version; refuse if another one was applied since
+  SELECT version INTO v_active_version FROM public.memory_schema_versions WHERE is_active;
+  IF COALESCE(v_active_version, '1.0.0') <> v_proposal.base_version THEN
+    RAISE EXCEPTION 'Proposal targets schema % but % is active', v_proposal.base_version, COALESCE(v_active_version, '1.0.0');
+  END IF;
+
+  UPDATE public.memory_schema_versions SET is_active = FALSE WHERE is_active;
+  INSERT INTO public.memory_schema_versions (version, schema, proposal_id, is_active, created_by)
+  VALUES (p_version, p_schema, p_proposal_id, TRUE, auth.uid());
+
+  FOR v_op IN SELECT * FROM jsonb_array_elements(p_row_migrations) LOOP
+    IF v_op->>'op' = 'set_default' THEN
+      UPDATE public.assistant_memories
+      SET fields = fields || jsonb_build_object(v_op->>'field', v_op->'value')
+      WHERE kind = v_op->>'kind' AND NOT fields ? (v_op->>'field');
+    ELSIF v_op->>'op' = 'rename' THEN
+      UPDATE public.assistant_memories
+      SET fields = (fields - (v_op->>'field')) || jsonb_build_object(v_op->>'to', fields->(v_op->>'field'))
+      WHERE kind = v_op->>'kind' AND fields ? (v_op->>'field');
+    ELSIF v_op->>'op' = 'remove' THEN
+      UPDATE public.assistant_memories
+      SET fields = fields - (v_op->>'field')
+      WHERE kind = v_op->>'kind' AND fields ? (v_op->>'field');
+    ELSE
+      RAISE EXCEPTION 'Unknown memory migration op: %', v_op->>'op';
+    END IF;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_changed := v_changed + v_count;
+  END LOOP;
+
+  UPDATE public.assistant_memories SET schema_version = p_version;
+
+  UPDATE public.memory_schema_proposals
+  SET status = 'applied', applied_version = p_version, reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_proposal_id;
+
+  RETURN v_changed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.apply_memory_schema_proposal(UUID, TEXT, JSONB, JSONB) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.memory_schema_versions IS 'Versioned assistant memory schema; the active row replaces the built-in MEMORY_SCHEMA (1.0.0)';
+COMMENT ON TABLE public.memory_schema_proposals IS 'Schema evolution proposals from architect mode, reviewed by admins';
+COMMENT ON COLUMN public.assistant_memories.fields IS 'Structured fields defined per kind by the active memory schema';
@@ -0,0 +1,135 @@
+-- Incremental (delta) sync support.
+--
+-- Clients pull rows changed since a per-table cursor (updated_at + key), so
+-- updated_at must be set by the server on every insert and update - a device
+-- with a skewed clock could otherwise write a timestamp behind another
+-- device's cursor and the change would never be pulled.
+-- Hard deletes leave no row to pull, so they are recorded in sync_deletions.
+
+-- Child tables had no updated_at
+ALTER TABLE public.item_spaces
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.item_metadata
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.item_type_metadata
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION public.set_sync_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_items
+  BEFORE INSERT OR UPDATE ON public.items
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_spaces
+  BEFORE INSERT OR UPDATE ON public.spaces
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_item_spaces
+  BEFORE INSERT OR UPDATE ON public.item_spaces
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_item_metadata
+  BEFORE INSERT OR UPDATE ON public.item_metadata
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_item_type_metadata
+  BEFORE INSERT OR UPDATE ON public.item_type_metadata
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_video_transcripts
+  BEFORE INSERT OR UPDATE ON public.video_transcripts
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+-- Cursor queries: WHERE updated_at > cursor ORDER BY updated_at, key
+CREATE INDEX IF NOT EXISTS idx_items_user_updated_at ON public.items(user_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_spaces_user_updated_at ON public.spaces(user_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_item_spaces_updated_at ON public.item_spaces(updated_at, item_id, space_id);
+CREATE INDEX IF NOT EXISTS idx_item_metadata_updated_at ON public.item_metadata(updated_at, item_id);
+CREATE INDEX IF NOT EXISTS idx_item_type_metadata_updated_at ON public.item_type_metadata(updated_at, item_id);
+CREATE INDEX IF NOT EXISTS idx_video_transcripts_updated_at ON public.video_transcripts(updated_at, item_id);
+
+-- Change log for hard deletes
+CREATE TABLE IF NOT EXISTS public.sync_deletions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  table_name TEXT NOT NULL,
+  -- Primary key of the deleted row; composite keys are joined with ':'
+  record_key TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_deletions_user_id ON public.sync_deletions(user_id, id);
+
+ALTER TABLE public.sync_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own deletions"
+  ON public.sync_deletions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Rows are only written by the triggers below (security definer)
+
+CREATE OR REPLACE FUNCTION public.log_sync_deletion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+  v_key TEXT;
+BEGIN
+  IF TG_TABLE_NAME IN ('items', 'spaces') THEN
+    v_user_id := OLD.user_id;
+    v_key := OLD.id::TEXT;
+  ELSE
+    -- Child rows belong to the owner of their item. When the item itself is
+    -- being deleted it is already gone here; its own log entry covers them.
+    SELECT user_id INTO v_user_id FROM public.items WHERE id = OLD.item_id;
+    v_key := CASE
+      WHEN TG_TABLE_NAME = 'item_spaces' THEN OLD.item_id::TEXT || ':' || OLD.space_id::TEXT
+      ELSE OLD.item_id::TEXT
+    END;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO public.sync_deletions (user_id, table_name, record_key)
+    VALUES (v_user_id, TG_TABLE_NAME, v_key);
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER log_sync_deletion_items
+  AFTER DELETE ON public.items
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+CREATE OR REPLACE TRIGGER log_sync_deletion_spaces
+  AFTER DELETE ON public.spaces
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+CREATE OR REPLACE TRIGGER log_sync_deletion_item_spaces
+  AFTER DELETE ON public.item_spaces
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+CREATE OR REPLACE TRIGGER log_sync_deletion_item_metadata
+  AFTER DELETE ON public.item_metadata
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+CREATE OR REPLACE TRIGGER log_sync_deletion_item_type_metadata
+  AFTER DELETE ON public.item_type_metadata
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+CREATE OR REPLACE TRIGGER log_sync_deletion_video_transcripts
+  AFTER DELETE ON public.video_transcripts
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.sync_deletions IS 'Hard deletes per user, pulled by clients during delta sync';
+COMMENT ON FUNCTION public.set_sync_updated_at() IS 'Server-assigned updated_at so delta sync cursors never miss a change';
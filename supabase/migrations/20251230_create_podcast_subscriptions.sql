@@ -0,0 +1,74 @@
+-- Podcast subscriptions: a saved 'podcast' item can be subscribed to, and its
+-- RSS feed is polled by the app for new episodes. Each episode seen in a feed
+-- gets one podcast_episodes row; the unique (subscription_id, guid) constraint
+-- means only one device records (and saves) a new episode even when several
+-- poll at the same time. Episodes not saved automatically wait in the inbox.
+
+CREATE TABLE IF NOT EXISTS public.podcast_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- The podcast (show) item the subscription was made from
+  item_id UUID REFERENCES public.items(id) ON DELETE SET NULL,
+  feed_url TEXT NOT NULL,
+  title TEXT NOT NULL,
+  image_url TEXT,
+  -- Save new episodes as items right away instead of sending them to the inbox
+  auto_save_episodes BOOLEAN NOT NULL DEFAULT FALSE,
+  last_polled_at TIMESTAMPTZ,
+  last_poll_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, feed_url)
+);
+
+CREATE TABLE IF NOT EXISTS public.podcast_episodes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  subscription_id UUID REFERENCES public.podcast_subscriptions(id) ON DELETE CASCADE NOT NULL,
+  -- <guid> from the feed, or the enclosure URL when the feed has none
+  guid TEXT NOT NULL,
+  title TEXT NOT NULL,
+  audio_url TEXT,
+  episode_url TEXT,
+  duration INTEGER,
+  show_notes TEXT,
+  published_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'saved', 'dismissed')),
+  -- Set once the episode has been saved as a 'podcast_episode' item
+  item_id UUID REFERENCES public.items(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (subscription_id, guid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_podcast_subscriptions_user_id ON public.podcast_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_podcast_episodes_inbox ON public.podcast_episodes(user_id, status, published_at DESC);
+
+CREATE OR REPLACE TRIGGER set_updated_at_podcast_subscriptions
+  BEFORE UPDATE ON public.podcast_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+CREATE OR REPLACE TRIGGER set_updated_at_podcast_episodes
+  BEFORE UPDATE ON public.podcast_episodes
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+ALTER TABLE public.podcast_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.podcast_episodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own podcast subscriptions"
+  ON public.podcast_subscriptions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own podcast episodes"
+  ON public.podcast_episodes
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.podcast_subscriptions IS 'Podcast RSS feeds the user follows; polled by the app for new episodes';
+COMMENT ON TABLE public.podcast_episodes IS 'Episodes found in subscribed feeds - the new-episode inbox and a record of what was already seen';
@@ -0,0 +1,32 @@
+-- Up-next queue for the app-wide audio player, one row per user so the queue
+-- follows the user between devices. Playback positions already sync through
+-- item_type_metadata; this only records what is playing and what comes next.
+
+CREATE TABLE IF NOT EXISTS public.playback_queues (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  current_item_id UUID REFERENCES public.items(id) ON DELETE SET NULL,
+  -- Queued item ids in play order, not including the current item
+  item_ids UUID[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE TRIGGER set_sync_updated_at_playback_queues
+  BEFORE INSERT OR UPDATE ON public.playback_queues
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+ALTER TABLE public.playback_queues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own playback queue"
+  ON public.playback_queues
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Chapters found in subscribed feeds: Podlove chapters are inline in the feed,
+-- Podcasting 2.0 chapters are a JSON file fetched when the episode is played
+ALTER TABLE public.podcast_episodes ADD COLUMN IF NOT EXISTS chapters JSONB;
+ALTER TABLE public.podcast_episodes ADD COLUMN IF NOT EXISTS chapters_url TEXT;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.playback_queues IS 'Per-user audio player queue (current item and up-next list), synced between devices';
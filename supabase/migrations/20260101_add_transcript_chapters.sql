@@ -0,0 +1,7 @@
+-- AI-generated chapters and key moments for long transcripts
+-- Both are arrays of { start_ms, ... } objects, generated from the timed segments
+ALTER TABLE public.video_transcripts ADD COLUMN IF NOT EXISTS chapters JSONB;
+ALTER TABLE public.video_transcripts ADD COLUMN IF NOT EXISTS key_moments JSONB;
+
+COMMENT ON COLUMN public.video_transcripts.chapters IS 'Generated chapters: [{ start_ms, title, summary }]';
+COMMENT ON COLUMN public.video_transcripts.key_moments IS 'Generated key moments: [{ start_ms, text }]';